@@ -0,0 +1,75 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Res,
+  Inject,
+  NotFoundException,
+} from '@nestjs/common';
+import { ApiTags, ApiOperation, ApiResponse, ApiParam } from '@nestjs/swagger';
+import type { Response } from 'express';
+import type { IFileStorageRepository } from '@domain/repositories/file-storage.repository.interface';
+
+/**
+ * Cache de un año: las claves llevan versión y su contenido nunca cambia
+ */
+const FILE_CACHE_CONTROL = 'public, max-age=31536000, immutable';
+
+/**
+ * FileController (Adapters Layer)
+ *
+ * Sirve los ficheros guardados con el almacenamiento local
+ * (LocalFileStorageService). Con un almacenamiento externo (S3, CDN) las URLs
+ * públicas apuntan fuera y este endpoint deja de usarse.
+ *
+ * Endpoints disponibles:
+ * - GET /files/*key - Descargar fichero (ej: /files/league-logos/<id>/<v>/md.webp)
+ *
+ * IMPORTANTE:
+ * - Endpoint público (sin JWT): se usa directamente en etiquetas <img>
+ * - Solo se guardan ficheros pensados para mostrarse (logos de liga)
+ */
+@ApiTags('Files')
+@Controller('files')
+export class FileController {
+  constructor(
+    @Inject('IFileStorageRepository')
+    private readonly fileStorageRepository: IFileStorageRepository,
+  ) {}
+
+  /**
+   * GET /files/*key
+   * Descargar un fichero con cabeceras de caché
+   */
+  @Get('*key')
+  @ApiOperation({
+    summary: 'Download stored file',
+    description:
+      'Serve a stored file (e.g. a league logo variant). Keys are versioned, so responses are cacheable for one year.',
+  })
+  @ApiParam({
+    name: 'key',
+    description: 'File key, e.g. league-logos/<leagueId>/<version>/md.webp',
+  })
+  @ApiResponse({ status: 200, description: 'File content' })
+  @ApiResponse({ status: 404, description: 'File not found' })
+  async getFile(
+    @Param('key') key: string | string[],
+    @Res() res: Response,
+  ): Promise<void> {
+    const normalizedKey = Array.isArray(key) ? key.join('/') : key;
+    const file = await this.fileStorageRepository.get(normalizedKey);
+
+    if (!file) {
+      throw new NotFoundException('File not found');
+    }
+
+    res
+      .set({
+        'Content-Type': file.contentType,
+        'Cache-Control': FILE_CACHE_CONTROL,
+        'X-Content-Type-Options': 'nosniff',
+      })
+      .send(file.data);
+  }
+}
@@ -10,7 +10,11 @@ import {
   HttpStatus,
   UseGuards,
   Req,
+  UseInterceptors,
+  UploadedFile,
+  BadRequestException,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import {
   ApiTags,
   ApiOperation,
@@ -18,6 +22,7 @@ import {
   ApiParam,
   ApiBody,
   ApiBearerAuth,
+  ApiConsumes,
 } from '@nestjs/swagger';
 import { JwtAuthGuard } from '@adapters/guards/jwt-auth.guard';
 import type { User } from '@domain/entities/user.entity';
@@ -28,6 +33,13 @@ import { CreateLeagueDto } from '@adapters/dtos/league/create-league.dto';
 import { UpdateLeagueDto } from '@adapters/dtos/league/update-league.dto';
 import { JoinLeagueDto } from '@adapters/dtos/league/join-league.dto';
 import { TransferAdminDto } from '@adapters/dtos/league/transfer-admin.dto';
+import { UpdateMemberRoleDto } from '@adapters/dtos/league/update-member-role.dto';
+import { BanMemberDto } from '@adapters/dtos/league/ban-member.dto';
+import { InviteToLeagueDto } from '@adapters/dtos/league/invite-to-league.dto';
+import { AcceptLeagueInvitationDto } from '@adapters/dtos/league/accept-league-invitation.dto';
+import { LeagueInvitationResponseDto } from '@adapters/dtos/league/league-invitation-response.dto';
+import { LeagueJoinRequestResponseDto } from '@adapters/dtos/league/league-join-request-response.dto';
+import { LeagueBanResponseDto } from '@adapters/dtos/league/league-ban-response.dto';
 import { LeagueResponseDto } from '@adapters/dtos/league/league-response.dto';
 import { UserResponseDto } from '@adapters/dtos/user/user-response.dto';
 
@@ -40,13 +52,31 @@ import { GetPublicLeaguesUseCase } from '@application/use-cases/leagues/get-publ
 import { GetUserLeaguesUseCase } from '@application/use-cases/leagues/get-user-leagues.use-case';
 import { UpdateLeagueUseCase } from '@application/use-cases/leagues/update-league.use-case';
 import { DeleteLeagueUseCase } from '@application/use-cases/leagues/delete-league.use-case';
-import { JoinLeagueUseCase } from '@application/use-cases/leagues/join-league.use-case';
+import {
+  JoinLeagueUseCase,
+  type JoinLeagueResult,
+} from '@application/use-cases/leagues/join-league.use-case';
 import { LeaveLeagueUseCase } from '@application/use-cases/leagues/leave-league.use-case';
 import { RemoveMemberUseCase } from '@application/use-cases/leagues/remove-member.use-case';
 import { TransferAdminUseCase } from '@application/use-cases/leagues/transfer-admin.use-case';
 import { GetLeagueMembersUseCase } from '@application/use-cases/leagues/get-league-members.use-case';
+import { UpdateMemberRoleUseCase } from '@application/use-cases/leagues/update-member-role.use-case';
+import { InviteToLeagueUseCase } from '@application/use-cases/leagues/invite-to-league.use-case';
+import { GetLeagueInvitationsUseCase } from '@application/use-cases/leagues/get-league-invitations.use-case';
+import { ResendLeagueInvitationUseCase } from '@application/use-cases/leagues/resend-league-invitation.use-case';
+import { RevokeLeagueInvitationUseCase } from '@application/use-cases/leagues/revoke-league-invitation.use-case';
+import { AcceptLeagueInvitationUseCase } from '@application/use-cases/leagues/accept-league-invitation.use-case';
+import { GetLeagueJoinRequestsUseCase } from '@application/use-cases/leagues/get-league-join-requests.use-case';
+import { ApproveLeagueJoinRequestUseCase } from '@application/use-cases/leagues/approve-league-join-request.use-case';
+import { RejectLeagueJoinRequestUseCase } from '@application/use-cases/leagues/reject-league-join-request.use-case';
+import { UploadLeagueLogoUseCase } from '@application/use-cases/leagues/upload-league-logo.use-case';
+import { BanMemberUseCase } from '@application/use-cases/leagues/ban-member.use-case';
+import { GetLeagueBansUseCase } from '@application/use-cases/leagues/get-league-bans.use-case';
+import { LiftLeagueBanUseCase } from '@application/use-cases/leagues/lift-league-ban.use-case';
 import { Inject } from '@nestjs/common';
 import type { ILeagueRepository } from '@domain/repositories/league.repository.interface';
+import type { LeagueMemberRole } from '@domain/constants/league-roles.constant';
+import { LEAGUE_LOGO_MAX_SIZE_BYTES } from '@domain/constants/league-logo.constant';
 
 /**
  * Extend Express Request para incluir user
@@ -55,6 +85,15 @@ interface RequestWithUser extends Request {
   user: User;
 }
 
+/**
+ * Campos del fichero subido que usamos (multer, almacenamiento en memoria)
+ */
+interface UploadedImageFile {
+  buffer: Buffer;
+  mimetype: string;
+  size: number;
+}
+
 /**
  * LeagueController (Adapters Layer)
  *
@@ -73,13 +112,26 @@ interface RequestWithUser extends Request {
  * - GET    /leagues/my                     - Listar mis ligas
  * - GET    /leagues/find/:code             - Obtener liga por código (públicas y privadas)
  * - GET    /leagues/:id                    - Obtener liga por ID
- * - PATCH  /leagues/:id                    - Actualizar liga (solo admin)
- * - DELETE /leagues/:id                    - Eliminar liga (solo admin)
- * - POST   /leagues/:id/join               - Unirse a liga
+ * - PATCH  /leagues/:id                    - Actualizar liga (propietario o co-admin)
+ * - DELETE /leagues/:id                    - Eliminar liga (solo propietario)
+ * - POST   /leagues/:id/logo               - Subir logo (propietario o co-admin, multipart)
+ * - POST   /leagues/:id/join               - Unirse a liga (o solicitarlo si requiere aprobación)
  * - DELETE /leagues/:id/leave              - Salir de liga
- * - GET    /leagues/:id/members            - Listar miembros
- * - DELETE /leagues/:id/members/:userId    - Expulsar miembro (solo admin)
- * - PATCH  /leagues/:id/transfer-admin     - Transferir admin (solo admin)
+ * - GET    /leagues/:id/members            - Listar miembros (con su rol)
+ * - DELETE /leagues/:id/members/:userId    - Expulsar miembro (propietario o co-admin)
+ * - POST   /leagues/:id/members/:userId/ban - Expulsar y banear miembro (propietario o co-admin)
+ * - PATCH  /leagues/:id/members/:userId/role - Cambiar rol de un miembro (solo propietario)
+ * - PATCH  /leagues/:id/transfer-admin     - Transferir propiedad (solo propietario)
+ * - POST   /leagues/:id/invitations        - Invitar por email (solo admin, ligas no abiertas)
+ * - GET    /leagues/:id/invitations        - Listar invitaciones pendientes (solo admin)
+ * - POST   /leagues/:id/invitations/:invitationId/resend - Reenviar invitación (solo admin)
+ * - DELETE /leagues/:id/invitations/:invitationId - Revocar invitación (solo admin)
+ * - POST   /leagues/invitations/accept     - Aceptar invitación con el token del email
+ * - GET    /leagues/:id/join-requests      - Listar solicitudes pendientes (solo admin)
+ * - POST   /leagues/:id/join-requests/:requestId/approve - Aprobar solicitud (solo admin)
+ * - POST   /leagues/:id/join-requests/:requestId/reject  - Rechazar solicitud (solo admin)
+ * - GET    /leagues/:id/bans               - Listar usuarios baneados (solo admin)
+ * - DELETE /leagues/:id/bans/:userId       - Levantar baneo (solo admin)
  *
  * Todos los endpoints requieren autenticación JWT.
  */
@@ -104,6 +156,19 @@ export class LeagueController {
     private readonly removeMemberUseCase: RemoveMemberUseCase,
     private readonly transferAdminUseCase: TransferAdminUseCase,
     private readonly getLeagueMembersUseCase: GetLeagueMembersUseCase,
+    private readonly updateMemberRoleUseCase: UpdateMemberRoleUseCase,
+    private readonly inviteToLeagueUseCase: InviteToLeagueUseCase,
+    private readonly getLeagueInvitationsUseCase: GetLeagueInvitationsUseCase,
+    private readonly resendLeagueInvitationUseCase: ResendLeagueInvitationUseCase,
+    private readonly revokeLeagueInvitationUseCase: RevokeLeagueInvitationUseCase,
+    private readonly acceptLeagueInvitationUseCase: AcceptLeagueInvitationUseCase,
+    private readonly getLeagueJoinRequestsUseCase: GetLeagueJoinRequestsUseCase,
+    private readonly approveLeagueJoinRequestUseCase: ApproveLeagueJoinRequestUseCase,
+    private readonly rejectLeagueJoinRequestUseCase: RejectLeagueJoinRequestUseCase,
+    private readonly uploadLeagueLogoUseCase: UploadLeagueLogoUseCase,
+    private readonly banMemberUseCase: BanMemberUseCase,
+    private readonly getLeagueBansUseCase: GetLeagueBansUseCase,
+    private readonly liftLeagueBanUseCase: LiftLeagueBanUseCase,
   ) {}
 
   /**
@@ -330,9 +395,9 @@ export class LeagueController {
    */
   @Patch(':id')
   @ApiOperation({
-    summary: 'Update league (admin only)',
+    summary: 'Update league (owner or co-admin)',
     description:
-      'Update league information. Only the admin can perform this action.',
+      'Update league information, including its scoring profile (preset or custom values) and game mode. Only the owner or a co-admin can perform this action. Scoring profile and game mode are locked once the first match locks predictions.',
   })
   @ApiParam({ name: 'id', description: 'League UUID' })
   @ApiBody({ type: UpdateLeagueDto })
@@ -341,8 +406,13 @@ export class LeagueController {
     description: 'League updated successfully',
     type: LeagueResponseDto,
   })
+  @ApiResponse({ status: 400, description: 'Invalid scoring profile' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
-  @ApiResponse({ status: 403, description: 'Forbidden - Not league admin' })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Forbidden - Not league admin or scoring profile/game mode locked',
+  })
   @ApiResponse({ status: 404, description: 'League not found' })
   async update(
     @Param('id') id: string,
@@ -361,6 +431,70 @@ export class LeagueController {
     return LeagueResponseDto.fromEntity(league, req.user.id, isMember, memberCount);
   }
 
+  /**
+   * POST /leagues/:id/logo
+   * Subir el logo de la liga (propietario o co-admin)
+   */
+  @Post(':id/logo')
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(
+    FileInterceptor('logo', {
+      limits: { fileSize: LEAGUE_LOGO_MAX_SIZE_BYTES, files: 1 },
+    }),
+  )
+  @ApiConsumes('multipart/form-data')
+  @ApiOperation({
+    summary: 'Upload league logo (owner or co-admin)',
+    description:
+      'Upload a PNG, JPEG or WebP image (max 2 MB). It is cropped to a square and stored as 64px, 256px and 512px WebP variants. logoUrl points to the 256px one.',
+  })
+  @ApiParam({ name: 'id', description: 'League UUID' })
+  @ApiBody({
+    schema: {
+      type: 'object',
+      required: ['logo'],
+      properties: { logo: { type: 'string', format: 'binary' } },
+    },
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Logo uploaded successfully',
+    type: LeagueResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Missing file or not a valid PNG, JPEG or WebP',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Not league admin' })
+  @ApiResponse({ status: 404, description: 'League not found' })
+  @ApiResponse({ status: 413, description: 'Logo larger than 2 MB' })
+  async uploadLogo(
+    @Param('id') id: string,
+    @UploadedFile() file: UploadedImageFile | undefined,
+    @Req() req: RequestWithUser,
+  ): Promise<LeagueResponseDto> {
+    if (!file) {
+      throw new BadRequestException('Logo file is required');
+    }
+
+    const league = await this.uploadLeagueLogoUseCase.execute(id, req.user.id, {
+      data: file.buffer,
+      mimeType: file.mimetype,
+      size: file.size,
+    });
+
+    const isMember = await this.leagueRepository.isMember(id, req.user.id);
+    const memberCount = await this.leagueRepository.getMemberCount(id);
+
+    return LeagueResponseDto.fromEntity(
+      league,
+      req.user.id,
+      isMember,
+      memberCount,
+    );
+  }
+
   /**
    * DELETE /leagues/:id
    * Eliminar una liga (solo admin)
@@ -368,14 +502,14 @@ export class LeagueController {
   @Delete(':id')
   @HttpCode(HttpStatus.NO_CONTENT)
   @ApiOperation({
-    summary: 'Delete league (admin only)',
+    summary: 'Delete league (owner only)',
     description:
-      'Permanently delete a league. Only the admin can perform this action. All members and predictions will be deleted.',
+      'Permanently delete a league. Only the owner can perform this action (co-admins cannot). All members and predictions will be deleted.',
   })
   @ApiParam({ name: 'id', description: 'League UUID' })
   @ApiResponse({ status: 204, description: 'League deleted successfully' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
-  @ApiResponse({ status: 403, description: 'Forbidden - Not league admin' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Not league owner' })
   @ApiResponse({ status: 404, description: 'League not found' })
   async delete(
     @Param('id') id: string,
@@ -393,28 +527,44 @@ export class LeagueController {
   @ApiOperation({
     summary: 'Join a league',
     description:
-      'Join a league (public or private). Private leagues require invite code. Requires payment and email verification.',
+      'Join a league (public or private). Private leagues require invite code. Requires payment and email verification. Leagues with the APPROVAL join policy create a pending join request instead (status PENDING_APPROVAL); INVITE_ONLY leagues reject direct joins.',
   })
   @ApiParam({ name: 'id', description: 'League UUID' })
   @ApiBody({ type: JoinLeagueDto })
-  @ApiResponse({ status: 200, description: 'Successfully joined league' })
+  @ApiResponse({
+    status: 200,
+    description: 'Successfully joined league or join request sent',
+  })
   @ApiResponse({ status: 400, description: 'Bad Request - Invalid invite code or league full' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
-  @ApiResponse({ status: 403, description: 'Forbidden - Payment or email verification required' })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Forbidden - Banned from the league (reason included), payment or email verification required, or invite-only league',
+  })
   @ApiResponse({ status: 404, description: 'League not found' })
-  @ApiResponse({ status: 409, description: 'Conflict - Already a member' })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - Already a member or join request already pending',
+  })
   async join(
     @Param('id') id: string,
     @Body() joinLeagueDto: JoinLeagueDto,
     @Req() req: RequestWithUser,
-  ): Promise<{ message: string }> {
-    await this.joinLeagueUseCase.execute({
+  ): Promise<{ message: string; status: JoinLeagueResult }> {
+    const status = await this.joinLeagueUseCase.execute({
       leagueId: id,
       userId: req.user.id,
       code: joinLeagueDto.code,
     });
 
-    return { message: 'Successfully joined league' };
+    return {
+      message:
+        status === 'PENDING_APPROVAL'
+          ? 'Join request sent. The league admin must approve it'
+          : 'Successfully joined league',
+      status,
+    };
   }
 
   /**
@@ -449,39 +599,49 @@ export class LeagueController {
   @Get(':id/members')
   @ApiOperation({
     summary: 'Get league members',
-    description: 'Retrieve all members of a league (ordered by join date)',
+    description:
+      'Retrieve all members of a league (ordered by join date). Each member also includes its role in the league: OWNER, CO_ADMIN or MEMBER.',
   })
   @ApiParam({ name: 'id', description: 'League UUID' })
   @ApiResponse({
     status: 200,
-    description: 'List of league members',
+    description: 'List of league members with their role',
     type: [UserResponseDto],
   })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
   @ApiResponse({ status: 404, description: 'League not found' })
-  async getMembers(@Param('id') id: string): Promise<UserResponseDto[]> {
+  async getMembers(
+    @Param('id') id: string,
+  ): Promise<(UserResponseDto & { role: LeagueMemberRole })[]> {
     const members = await this.getLeagueMembersUseCase.execute(id);
 
-    return UserResponseDto.fromEntities(members);
+    return members.map(({ user, role }) => ({
+      ...UserResponseDto.fromEntity(user),
+      role,
+    }));
   }
 
   /**
    * DELETE /leagues/:id/members/:userId
-   * Expulsar un miembro de la liga (solo admin)
+   * Expulsar un miembro de la liga (propietario o co-admin)
    */
   @Delete(':id/members/:userId')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
-    summary: 'Remove member from league (admin only)',
+    summary: 'Remove member from league (owner or co-admin)',
     description:
-      'Remove a member from the league. Only the admin can perform this action. Admin cannot remove themselves.',
+      'Remove a member from the league. The owner can remove co-admins and members; co-admins can only remove members. Nobody can remove themselves.',
   })
   @ApiParam({ name: 'id', description: 'League UUID' })
   @ApiParam({ name: 'userId', description: 'User UUID to remove' })
   @ApiResponse({ status: 200, description: 'Member removed successfully' })
   @ApiResponse({ status: 400, description: 'Bad Request - Cannot remove admin or user not member' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
-  @ApiResponse({ status: 403, description: 'Forbidden - Not league admin' })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Forbidden - Not a league admin or target has an equal or higher role',
+  })
   @ApiResponse({ status: 404, description: 'League not found' })
   async removeMember(
     @Param('id') id: string,
@@ -493,23 +653,104 @@ export class LeagueController {
     return { message: 'Member removed successfully' };
   }
 
+  /**
+   * POST /leagues/:id/members/:userId/ban
+   * Expulsar y banear un miembro (propietario o co-admin)
+   */
+  @Post(':id/members/:userId/ban')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Remove and ban member (owner or co-admin)',
+    description:
+      'Remove a member and prevent them from re-joining until the ban is lifted. Same role rules as removing a member. The optional reason is shown to the banned user.',
+  })
+  @ApiParam({ name: 'id', description: 'League UUID' })
+  @ApiParam({ name: 'userId', description: 'User UUID to ban' })
+  @ApiBody({ type: BanMemberDto })
+  @ApiResponse({ status: 200, description: 'Member removed and banned' })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Cannot ban yourself or user not member',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Forbidden - Not a league admin or target has an equal or higher role',
+  })
+  @ApiResponse({ status: 404, description: 'League not found' })
+  @ApiResponse({ status: 409, description: 'User is already banned' })
+  async banMember(
+    @Param('id') id: string,
+    @Param('userId') userId: string,
+    @Body() banMemberDto: BanMemberDto,
+    @Req() req: RequestWithUser,
+  ): Promise<{ message: string }> {
+    await this.banMemberUseCase.execute(
+      id,
+      req.user.id,
+      userId,
+      banMemberDto.reason,
+    );
+
+    return { message: 'Member removed and banned successfully' };
+  }
+
+  /**
+   * PATCH /leagues/:id/members/:userId/role
+   * Cambiar el rol de un miembro (solo propietario)
+   */
+  @Patch(':id/members/:userId/role')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Change member role (owner only)',
+    description:
+      'Promote a member to CO_ADMIN or demote a co-admin to MEMBER. Only the owner can perform this action. Ownership is changed with transfer-admin.',
+  })
+  @ApiParam({ name: 'id', description: 'League UUID' })
+  @ApiParam({ name: 'userId', description: 'Member UUID' })
+  @ApiBody({ type: UpdateMemberRoleDto })
+  @ApiResponse({ status: 200, description: 'Member role updated successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - User not a member or is the owner',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Not league owner' })
+  @ApiResponse({ status: 404, description: 'League not found' })
+  async updateMemberRole(
+    @Param('id') id: string,
+    @Param('userId') userId: string,
+    @Body() updateMemberRoleDto: UpdateMemberRoleDto,
+    @Req() req: RequestWithUser,
+  ): Promise<{ message: string }> {
+    await this.updateMemberRoleUseCase.execute(
+      id,
+      req.user.id,
+      userId,
+      updateMemberRoleDto.role,
+    );
+
+    return { message: 'Member role updated successfully' };
+  }
+
   /**
    * PATCH /leagues/:id/transfer-admin
-   * Transferir rol de admin (solo admin)
+   * Transferir la propiedad de la liga (solo propietario)
    */
   @Patch(':id/transfer-admin')
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
-    summary: 'Transfer admin role (admin only)',
+    summary: 'Transfer ownership (owner only)',
     description:
-      'Transfer admin role to another member. Only the current admin can perform this action. New admin must be a league member.',
+      'Transfer league ownership to another member. Only the current owner can perform this action (co-admins cannot). New owner must be a league member; the previous owner becomes a regular member.',
   })
   @ApiParam({ name: 'id', description: 'League UUID' })
   @ApiBody({ type: TransferAdminDto })
   @ApiResponse({ status: 200, description: 'Admin transferred successfully' })
   @ApiResponse({ status: 400, description: 'Bad Request - New admin not a member or same as current' })
   @ApiResponse({ status: 401, description: 'Unauthorized' })
-  @ApiResponse({ status: 403, description: 'Forbidden - Not league admin' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Not league owner' })
   @ApiResponse({ status: 404, description: 'League not found' })
   async transferAdmin(
     @Param('id') id: string,
@@ -524,4 +765,351 @@ export class LeagueController {
 
     return { message: 'Admin transferred successfully' };
   }
+
+  /**
+   * POST /leagues/:id/invitations
+   * Invitar a alguien por email (solo admin, ligas privadas)
+   */
+  @Post(':id/invitations')
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: 'Invite someone by email (admin only)',
+    description:
+      'Send a single-use invitation link to an email address. Not available for public leagues with the OPEN join policy. The link expires after 7 days.',
+  })
+  @ApiParam({ name: 'id', description: 'League UUID' })
+  @ApiBody({ type: InviteToLeagueDto })
+  @ApiResponse({
+    status: 201,
+    description: 'Invitation sent',
+    type: LeagueInvitationResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Public open league or league full',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Not league admin' })
+  @ApiResponse({ status: 404, description: 'League not found' })
+  @ApiResponse({
+    status: 409,
+    description: 'Conflict - Already a member or pending invitation',
+  })
+  async invite(
+    @Param('id') id: string,
+    @Body() inviteToLeagueDto: InviteToLeagueDto,
+    @Req() req: RequestWithUser,
+  ): Promise<LeagueInvitationResponseDto> {
+    const invitation = await this.inviteToLeagueUseCase.execute(
+      id,
+      req.user.id,
+      inviteToLeagueDto.email,
+    );
+
+    return LeagueInvitationResponseDto.fromEntity(invitation);
+  }
+
+  /**
+   * GET /leagues/:id/invitations
+   * Listar invitaciones pendientes (solo admin)
+   */
+  @Get(':id/invitations')
+  @ApiOperation({
+    summary: 'Get pending invitations (admin only)',
+    description:
+      'Retrieve pending email invitations of the league, including expired ones that can be resent',
+  })
+  @ApiParam({ name: 'id', description: 'League UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'List of pending invitations',
+    type: [LeagueInvitationResponseDto],
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Not league admin' })
+  @ApiResponse({ status: 404, description: 'League not found' })
+  async getInvitations(
+    @Param('id') id: string,
+    @Req() req: RequestWithUser,
+  ): Promise<LeagueInvitationResponseDto[]> {
+    const invitations = await this.getLeagueInvitationsUseCase.execute(
+      id,
+      req.user.id,
+    );
+
+    return invitations.map((invitation) =>
+      LeagueInvitationResponseDto.fromEntity(invitation),
+    );
+  }
+
+  /**
+   * POST /leagues/:id/invitations/:invitationId/resend
+   * Reenviar invitación (solo admin)
+   */
+  @Post(':id/invitations/:invitationId/resend')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Resend invitation (admin only)',
+    description:
+      'Send a new invitation link to the same email. The previous link stops working and the expiration is reset to 7 days.',
+  })
+  @ApiParam({ name: 'id', description: 'League UUID' })
+  @ApiParam({ name: 'invitationId', description: 'Invitation UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'Invitation resent (returns the new invitation)',
+    type: LeagueInvitationResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Invitation no longer pending',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Not league admin' })
+  @ApiResponse({ status: 404, description: 'League or invitation not found' })
+  async resendInvitation(
+    @Param('id') id: string,
+    @Param('invitationId') invitationId: string,
+    @Req() req: RequestWithUser,
+  ): Promise<LeagueInvitationResponseDto> {
+    const invitation = await this.resendLeagueInvitationUseCase.execute(
+      id,
+      invitationId,
+      req.user.id,
+    );
+
+    return LeagueInvitationResponseDto.fromEntity(invitation);
+  }
+
+  /**
+   * DELETE /leagues/:id/invitations/:invitationId
+   * Revocar invitación (solo admin)
+   */
+  @Delete(':id/invitations/:invitationId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Revoke invitation (admin only)',
+    description: 'Revoke a pending invitation. Its link stops working.',
+  })
+  @ApiParam({ name: 'id', description: 'League UUID' })
+  @ApiParam({ name: 'invitationId', description: 'Invitation UUID' })
+  @ApiResponse({ status: 200, description: 'Invitation revoked successfully' })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Invitation no longer pending',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Not league admin' })
+  @ApiResponse({ status: 404, description: 'League or invitation not found' })
+  async revokeInvitation(
+    @Param('id') id: string,
+    @Param('invitationId') invitationId: string,
+    @Req() req: RequestWithUser,
+  ): Promise<{ message: string }> {
+    await this.revokeLeagueInvitationUseCase.execute(
+      id,
+      invitationId,
+      req.user.id,
+    );
+
+    return { message: 'Invitation revoked successfully' };
+  }
+
+  /**
+   * POST /leagues/invitations/accept
+   * Aceptar invitación con el token recibido por email
+   */
+  @Post('invitations/accept')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Accept league invitation',
+    description:
+      'Join a private league with the token from an invitation email. The logged-in user must own the invited email address. Requires payment and email verification. Each token can only be used once.',
+  })
+  @ApiBody({ type: AcceptLeagueInvitationDto })
+  @ApiResponse({ status: 200, description: 'Successfully joined league' })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Bad Request - Invitation used, revoked or expired, or league full',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or expired token',
+  })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Forbidden - Different email, banned from the league, payment or email verification required',
+  })
+  @ApiResponse({ status: 404, description: 'Invitation not found' })
+  @ApiResponse({ status: 409, description: 'Conflict - Already a member' })
+  async acceptInvitation(
+    @Body() acceptLeagueInvitationDto: AcceptLeagueInvitationDto,
+    @Req() req: RequestWithUser,
+  ): Promise<{ message: string; leagueId: string }> {
+    const { leagueId } = await this.acceptLeagueInvitationUseCase.execute(
+      acceptLeagueInvitationDto.token,
+      req.user.id,
+    );
+
+    return { message: 'Successfully joined league', leagueId };
+  }
+
+  /**
+   * GET /leagues/:id/join-requests
+   * Listar solicitudes de unión pendientes (solo admin)
+   */
+  @Get(':id/join-requests')
+  @ApiOperation({
+    summary: 'Get pending join requests (admin only)',
+    description:
+      'Retrieve the pending join requests of a league with the APPROVAL join policy, oldest first',
+  })
+  @ApiParam({ name: 'id', description: 'League UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'List of pending join requests',
+    type: [LeagueJoinRequestResponseDto],
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Not league admin' })
+  @ApiResponse({ status: 404, description: 'League not found' })
+  async getJoinRequests(
+    @Param('id') id: string,
+    @Req() req: RequestWithUser,
+  ): Promise<LeagueJoinRequestResponseDto[]> {
+    const requests = await this.getLeagueJoinRequestsUseCase.execute(
+      id,
+      req.user.id,
+    );
+
+    return requests.map((request) =>
+      LeagueJoinRequestResponseDto.fromRequestWithUser(request),
+    );
+  }
+
+  /**
+   * POST /leagues/:id/join-requests/:requestId/approve
+   * Aprobar solicitud de unión (solo admin)
+   */
+  @Post(':id/join-requests/:requestId/approve')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Approve join request (admin only)',
+    description:
+      'Add the requester as a member and notify them by email. Fails if the league is full.',
+  })
+  @ApiParam({ name: 'id', description: 'League UUID' })
+  @ApiParam({ name: 'requestId', description: 'Join request UUID' })
+  @ApiResponse({ status: 200, description: 'Join request approved' })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Join request no longer pending or league full',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Not league admin' })
+  @ApiResponse({ status: 404, description: 'League or join request not found' })
+  async approveJoinRequest(
+    @Param('id') id: string,
+    @Param('requestId') requestId: string,
+    @Req() req: RequestWithUser,
+  ): Promise<{ message: string }> {
+    await this.approveLeagueJoinRequestUseCase.execute(
+      id,
+      requestId,
+      req.user.id,
+    );
+
+    return { message: 'Join request approved' };
+  }
+
+  /**
+   * POST /leagues/:id/join-requests/:requestId/reject
+   * Rechazar solicitud de unión (solo admin)
+   */
+  @Post(':id/join-requests/:requestId/reject')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Reject join request (admin only)',
+    description:
+      'Reject a pending join request and notify the requester by email.',
+  })
+  @ApiParam({ name: 'id', description: 'League UUID' })
+  @ApiParam({ name: 'requestId', description: 'Join request UUID' })
+  @ApiResponse({ status: 200, description: 'Join request rejected' })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Join request no longer pending',
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Not league admin' })
+  @ApiResponse({ status: 404, description: 'League or join request not found' })
+  async rejectJoinRequest(
+    @Param('id') id: string,
+    @Param('requestId') requestId: string,
+    @Req() req: RequestWithUser,
+  ): Promise<{ message: string }> {
+    await this.rejectLeagueJoinRequestUseCase.execute(
+      id,
+      requestId,
+      req.user.id,
+    );
+
+    return { message: 'Join request rejected' };
+  }
+
+  /**
+   * GET /leagues/:id/bans
+   * Listar usuarios baneados (solo admin)
+   */
+  @Get(':id/bans')
+  @ApiOperation({
+    summary: 'Get banned users (admin only)',
+    description: 'Retrieve the users banned from the league, most recent first',
+  })
+  @ApiParam({ name: 'id', description: 'League UUID' })
+  @ApiResponse({
+    status: 200,
+    description: 'List of banned users',
+    type: [LeagueBanResponseDto],
+  })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Not league admin' })
+  @ApiResponse({ status: 404, description: 'League not found' })
+  async getBans(
+    @Param('id') id: string,
+    @Req() req: RequestWithUser,
+  ): Promise<LeagueBanResponseDto[]> {
+    const bans = await this.getLeagueBansUseCase.execute(id, req.user.id);
+
+    return bans.map((ban) => LeagueBanResponseDto.fromBanWithUser(ban));
+  }
+
+  /**
+   * DELETE /leagues/:id/bans/:userId
+   * Levantar el baneo de un usuario (solo admin)
+   */
+  @Delete(':id/bans/:userId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Lift ban (admin only)',
+    description:
+      'Allow a banned user to join the league again. They are not re-added automatically.',
+  })
+  @ApiParam({ name: 'id', description: 'League UUID' })
+  @ApiParam({ name: 'userId', description: 'Banned user UUID' })
+  @ApiResponse({ status: 200, description: 'Ban lifted successfully' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden - Not league admin' })
+  @ApiResponse({ status: 404, description: 'League not found or user not banned' })
+  async liftBan(
+    @Param('id') id: string,
+    @Param('userId') userId: string,
+    @Req() req: RequestWithUser,
+  ): Promise<{ message: string }> {
+    await this.liftLeagueBanUseCase.execute(id, req.user.id, userId);
+
+    return { message: 'Ban lifted successfully' };
+  }
 }
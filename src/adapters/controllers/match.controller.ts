@@ -1,6 +1,8 @@
 import {
   Controller,
   Get,
+  Patch,
+  Body,
   Param,
   HttpCode,
   HttpStatus,
@@ -13,13 +15,17 @@ import {
   ApiResponse,
   ApiParam,
   ApiBearerAuth,
+  ApiBody,
 } from '@nestjs/swagger';
 import { GetAllMatchesUseCase } from '@application/use-cases/matches/get-all-matches.use-case';
 import { GetMatchByIdUseCase } from '@application/use-cases/matches/get-match-by-id.use-case';
 import { GetMatchCalendarUseCase } from '@application/use-cases/matches/get-match-calendar.use-case';
+import { UpdateMatchResultUseCase } from '@application/use-cases/matches/update-match-result.use-case';
 import { MatchResponseDto } from '@adapters/dtos/match.response.dto';
 import { MatchCalendarResponseDto } from '@adapters/dtos/match-calendar.response.dto';
+import { UpdateMatchResultDto } from '@adapters/dtos/update-match-result.dto';
 import { JwtAuthGuard } from '@adapters/guards/jwt-auth.guard';
+import { AdminGuard } from '@adapters/guards/admin.guard';
 
 /**
  * MatchController (Adapters Layer)
@@ -46,6 +52,7 @@ export class MatchController {
     private readonly getAllMatchesUseCase: GetAllMatchesUseCase,
     private readonly getMatchByIdUseCase: GetMatchByIdUseCase,
     private readonly getMatchCalendarUseCase: GetMatchCalendarUseCase,
+    private readonly updateMatchResultUseCase: UpdateMatchResultUseCase,
   ) {}
 
   /**
@@ -161,4 +168,64 @@ export class MatchController {
     // 3. Transformar entidad de dominio a DTO de respuesta
     return MatchResponseDto.fromEntity(match);
   }
+
+  /**
+   * PATCH /matches/:id/result
+   * Registra el resultado oficial de un partido (solo administradores)
+   */
+  @Patch(':id/result')
+  @UseGuards(JwtAuthGuard, AdminGuard)
+  @ApiBearerAuth('JWT-auth')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Registrar resultado oficial de un partido (admin)',
+    description:
+      'Registra el marcador oficial (90 minutos, prórroga y penaltis) y avanza el estado del partido (SCHEDULED → LIVE → FINISHED). Valida el resultado según la fase: los partidos de fase de grupos no tienen prórroga ni penaltis, y un partido de eliminatorias empatado tras la prórroga requiere un ganador en penaltis. Los goles de prórroga son acumulados (incluyen los de 90 minutos).',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'UUID del partido',
+    example: 'e096dcb1-9f20-4ce5-89ac-740d41283fb9',
+  })
+  @ApiBody({ type: UpdateMatchResultDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Resultado registrado exitosamente',
+    type: MatchResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Resultado inválido para la fase o transición de estado no permitida',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'No autorizado - Token inválido o no proporcionado',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'El usuario no es administrador',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Partido no encontrado',
+  })
+  async updateResult(
+    @Param('id') id: string,
+    @Body() dto: UpdateMatchResultDto,
+  ): Promise<MatchResponseDto> {
+    // 1. Ejecutar el caso de uso (validación de fase y estado incluida)
+    const match = await this.updateMatchResultUseCase.execute(id, {
+      status: dto.status,
+      homeScore: dto.homeScore ?? null,
+      awayScore: dto.awayScore ?? null,
+      homeScoreEt: dto.homeScoreEt ?? null,
+      awayScoreEt: dto.awayScoreEt ?? null,
+      homePenalties: dto.homePenalties ?? null,
+      awayPenalties: dto.awayPenalties ?? null,
+    });
+
+    // 2. Transformar entidad de dominio a DTO de respuesta
+    return MatchResponseDto.fromEntity(match);
+  }
 }
@@ -10,6 +10,10 @@ import {
   HttpCode,
   HttpStatus,
   BadRequestException,
+  Query,
+  ParseBoolPipe,
+  ParseUUIDPipe,
+  Header,
 } from '@nestjs/common';
 import {
   ApiTags,
@@ -17,8 +21,10 @@ import {
   ApiResponse,
   ApiBearerAuth,
   ApiParam,
+  ApiQuery,
 } from '@nestjs/swagger';
 import { JwtAuthGuard } from '@adapters/guards/jwt-auth.guard';
+import { AdminGuard } from '@adapters/guards/admin.guard';
 import { GetOrCreatePredictionUseCase } from '@application/use-cases/predictions/get-or-create-prediction.use-case';
 import { SaveGroupPredictionsUseCase } from '@application/use-cases/predictions/save-group-predictions.use-case';
 import { SaveKnockoutPredictionsUseCase } from '@application/use-cases/predictions/save-knockout-predictions.use-case';
@@ -29,6 +35,20 @@ import { UpdateChampionUseCase } from '@application/use-cases/predictions/update
 import { GetLeagueRankingUseCase } from '@application/use-cases/predictions/get-league-ranking.use-case';
 import { GetPredictionStatsUseCase } from '@application/use-cases/predictions/get-prediction-stats.use-case';
 import { GetMatchesWithPredictionsUseCase } from '@application/use-cases/predictions/get-matches-with-predictions.use-case';
+import { CalculatePointsUseCase } from '@application/use-cases/predictions/calculate-points.use-case';
+import { LockPredictionsUseCase } from '@application/use-cases/predictions/lock-predictions.use-case';
+import { GetPredictedBracketUseCase } from '@application/use-cases/predictions/get-predicted-bracket.use-case';
+import { GetLeagueProjectionsUseCase } from '@application/use-cases/predictions/get-league-projections.use-case';
+import { CompareMemberPredictionsUseCase } from '@application/use-cases/predictions/compare-member-predictions.use-case';
+import { GetLeagueConsensusUseCase } from '@application/use-cases/predictions/get-league-consensus.use-case';
+import { GetMemberPredictionUseCase } from '@application/use-cases/predictions/get-member-prediction.use-case';
+import { CopyPredictionToLeagueUseCase } from '@application/use-cases/predictions/copy-prediction-to-league.use-case';
+import { ExportPredictionUseCase } from '@application/use-cases/predictions/export-prediction.use-case';
+import { ExportPredictionCsvUseCase } from '@application/use-cases/predictions/export-prediction-csv.use-case';
+import { ImportPredictionUseCase } from '@application/use-cases/predictions/import-prediction.use-case';
+import { ImportPredictionCsvUseCase } from '@application/use-cases/predictions/import-prediction-csv.use-case';
+import { GetPredictionHistoryUseCase } from '@application/use-cases/predictions/get-prediction-history.use-case';
+import { AutofillPredictionUseCase } from '@application/use-cases/predictions/autofill-prediction.use-case';
 import { SaveGroupPredictionsDto } from '@adapters/dtos/prediction/save-group-predictions.dto';
 import { SaveKnockoutPredictionsDto } from '@adapters/dtos/prediction/save-knockout-predictions.dto';
 import { UpdateAwardsDto } from '@adapters/dtos/prediction/update-awards.dto';
@@ -40,6 +60,24 @@ import {
 } from '@adapters/dtos/prediction/league-ranking-response.dto';
 import { PredictionStatsResponseDto } from '@adapters/dtos/prediction/prediction-stats-response.dto';
 import { MatchWithPredictionDto } from '@adapters/dtos/prediction/match-with-prediction.dto';
+import { CalculatePointsResponseDto } from '@adapters/dtos/prediction/calculate-points-response.dto';
+import { LockPredictionsResponseDto } from '@adapters/dtos/prediction/lock-predictions-response.dto';
+import { PredictedBracketResponseDto } from '@adapters/dtos/prediction/predicted-bracket-response.dto';
+import { LeagueProjectionsResponseDto } from '@adapters/dtos/prediction/league-projections-response.dto';
+import { MemberComparisonResponseDto } from '@adapters/dtos/prediction/member-comparison-response.dto';
+import { LeagueConsensusResponseDto } from '@adapters/dtos/prediction/league-consensus-response.dto';
+import { MemberPredictionResponseDto } from '@adapters/dtos/prediction/member-prediction-response.dto';
+import {
+  ImportPredictionDto,
+  ImportPredictionCsvDto,
+  ImportPredictionResponseDto,
+} from '@adapters/dtos/prediction/prediction-document.dto';
+import type { PredictionDocument } from '@application/services/prediction-document.service';
+import { PredictionHistoryResponseDto } from '@adapters/dtos/prediction/prediction-history-response.dto';
+import {
+  AutofillPredictionDto,
+  AutofillPredictionResponseDto,
+} from '@adapters/dtos/prediction/autofill-prediction.dto';
 
 /**
  * PredictionController (Adapters Layer)
@@ -49,10 +87,24 @@ import { MatchWithPredictionDto } from '@adapters/dtos/prediction/match-with-pre
  *
  * Endpoints:
  * - GET    /predictions/league/:leagueId - Obtiene/crea predicción + ranking
+ * - GET    /predictions/league/:leagueId/projections - Máximo de puntos alcanzable por miembro
+ * - GET    /predictions/league/:leagueId/compare - Compara las predicciones de dos miembros
+ * - GET    /predictions/league/:leagueId/consensus - Estadísticas agregadas de la liga
+ * - GET    /predictions/league/:leagueId/members/:userId - Predicción de otro miembro (solo lectura)
  * - POST   /predictions/league/:leagueId/groups/:groupId - Guarda predicciones de grupo
  * - PATCH  /predictions/:id/awards - Actualiza premios individuales
  * - PATCH  /predictions/:id/champion - Actualiza campeón
+ * - POST   /predictions/:id/copy-to/:leagueId - Copia la predicción en otra liga del usuario
+ * - GET    /predictions/:id/export - Exporta la predicción completa (JSON versionado)
+ * - GET    /predictions/:id/export/csv - Exporta los partidos predichos en CSV
+ * - POST   /predictions/:id/import - Importa un documento JSON exportado
+ * - POST   /predictions/:id/import/csv - Importa partidos desde un CSV
+ * - GET    /predictions/:id/history - Historial de cambios (dueño, o admin de la liga tras el bloqueo)
+ * - POST   /predictions/:id/autofill - Rellena automáticamente los partidos sin predicción
  * - GET    /predictions/:id/stats - Obtiene estadísticas de progreso
+ * - GET    /predictions/:id/bracket - Obtiene el cuadro de eliminatorias predicho (R32 → FINAL)
+ * - POST   /predictions/points/recalculate - Puntúa predicciones contra resultados oficiales (admin)
+ * - POST   /predictions/lock - Bloquea predicciones tras el deadline global, con dry-run (admin)
  *
  * Autenticación:
  * - Requiere JWT válido en todos los endpoints
@@ -90,6 +142,20 @@ export class PredictionController {
     private readonly getLeagueRankingUseCase: GetLeagueRankingUseCase,
     private readonly getPredictionStatsUseCase: GetPredictionStatsUseCase,
     private readonly getMatchesWithPredictionsUseCase: GetMatchesWithPredictionsUseCase,
+    private readonly calculatePointsUseCase: CalculatePointsUseCase,
+    private readonly lockPredictionsUseCase: LockPredictionsUseCase,
+    private readonly getPredictedBracketUseCase: GetPredictedBracketUseCase,
+    private readonly getLeagueProjectionsUseCase: GetLeagueProjectionsUseCase,
+    private readonly compareMemberPredictionsUseCase: CompareMemberPredictionsUseCase,
+    private readonly getLeagueConsensusUseCase: GetLeagueConsensusUseCase,
+    private readonly getMemberPredictionUseCase: GetMemberPredictionUseCase,
+    private readonly copyPredictionToLeagueUseCase: CopyPredictionToLeagueUseCase,
+    private readonly exportPredictionUseCase: ExportPredictionUseCase,
+    private readonly exportPredictionCsvUseCase: ExportPredictionCsvUseCase,
+    private readonly importPredictionUseCase: ImportPredictionUseCase,
+    private readonly importPredictionCsvUseCase: ImportPredictionCsvUseCase,
+    private readonly getPredictionHistoryUseCase: GetPredictionHistoryUseCase,
+    private readonly autofillPredictionUseCase: AutofillPredictionUseCase,
   ) {}
 
   /**
@@ -405,6 +471,12 @@ export class PredictionController {
             },
           },
         },
+        rejectedMatchIds: {
+          type: 'array',
+          items: { type: 'string', format: 'uuid' },
+          description:
+            'Locked matches that were not saved (only in MATCHDAY leagues). When not empty, the submitted standings are ignored',
+        },
       },
     },
   })
@@ -483,17 +555,24 @@ export class PredictionController {
    * - ROUND_OF_16 (8 partidos)
    * - QUARTER_FINALS (4 partidos)
    * - SEMI_FINALS (2 partidos)
+   * - THIRD_PLACE (1 partido, perdedores de semifinales)
    * - FINAL (1 partido)
    *
    * Validaciones:
    * - Fase anterior debe estar completa
    * - Equipos deben coincidir con ganadores de la fase anterior
+   *   (perdedores de semifinales en THIRD_PLACE)
    * - Resultados deben ser consistentes:
    *   * Empate en 90' → prórroga obligatoria
    *   * Empate en prórroga → penaltis obligatorios
    *   * Ganador en 90' → no prórroga ni penaltis
    * - Número de predicciones debe coincidir con la fase
    *
+   * En ligas MATCHDAY se aceptan fases parciales con los cruces reales y
+   * los partidos ya bloqueados se devuelven en rejectedMatchIds. El lote se
+   * valida completo antes de guardar: si alguna fila es inválida no se guarda
+   * nada y el 400 lista todos los partidos erróneos en invalidMatchIds.
+   *
    * Flujo:
    * 1. Frontend obtiene equipos clasificados (de R32 resueltos o fase anterior)
    * 2. Usuario predice resultados (90', prórroga, penaltis)
@@ -511,7 +590,7 @@ export class PredictionController {
   @ApiOperation({
     summary: 'Save knockout phase predictions',
     description:
-      'Saves predictions for a complete knockout phase (R32, R16, QF, SF, Final). Validates that previous phase is complete and teams match expected winners.',
+      'Saves predictions for a complete knockout phase (R32, R16, QF, SF, third place, Final). Validates that previous phase is complete and teams match expected winners (semi-final losers for the third-place match). In MATCHDAY leagues partial phases are accepted: the whole batch is validated before saving, and if any row is invalid (unknown match, wrong phase, teams differing from the actual fixture or inconsistent result) nothing is saved and the 400 response lists every invalid match in invalidMatchIds. Valid rows for locked matches are skipped and returned in rejectedMatchIds.',
   })
   @ApiParam({
     name: 'id',
@@ -522,7 +601,7 @@ export class PredictionController {
   @ApiParam({
     name: 'phase',
     description: 'Knockout phase',
-    enum: ['ROUND_OF_32', 'ROUND_OF_16', 'QUARTER_FINALS', 'SEMI_FINALS', 'FINAL'],
+    enum: ['ROUND_OF_32', 'ROUND_OF_16', 'QUARTER_FINALS', 'SEMI_FINALS', 'THIRD_PLACE', 'FINAL'],
   })
   @ApiResponse({
     status: 200,
@@ -548,13 +627,19 @@ export class PredictionController {
           example: false,
           description: 'Whether all knockout phases have been completed',
         },
+        rejectedMatchIds: {
+          type: 'array',
+          items: { type: 'string', format: 'uuid' },
+          description:
+            'Locked matches that were not saved (only in MATCHDAY leagues)',
+        },
       },
     },
   })
   @ApiResponse({
     status: 400,
     description:
-      'Bad Request - Invalid phase, previous phase incomplete, teams mismatch, or invalid results',
+      'Bad Request - Invalid phase, previous phase incomplete, teams mismatch, or invalid results. In MATCHDAY leagues the body includes invalidMatchIds and errors for every invalid row',
   })
   @ApiResponse({
     status: 401,
@@ -581,11 +666,12 @@ export class PredictionController {
     }
 
     // Ejecutar Use Case
-    const savedPredictions = await this.saveKnockoutPredictionsUseCase.execute(
-      id,
-      phase,
-      dto.predictions,
-    );
+    const { savedPredictions, rejectedMatchIds } =
+      await this.saveKnockoutPredictionsUseCase.execute(
+        id,
+        phase,
+        dto.predictions,
+      );
 
     return {
       success: true,
@@ -593,6 +679,7 @@ export class PredictionController {
       phase,
       matchesSaved: savedPredictions.length,
       knockoutsCompleted: false, // TODO: Check if all knockouts are complete
+      rejectedMatchIds,
     };
   }
 
@@ -712,6 +799,391 @@ export class PredictionController {
     return PredictionResponseDto.fromEntity(prediction);
   }
 
+  /**
+   * POST /predictions/:id/copy-to/:leagueId
+   *
+   * Copia una predicción propia en la predicción del usuario para otra liga
+   * (la crea si aún no existe), para no rellenar la misma porra varias veces.
+   *
+   * Se copian partidos, tablas de grupos, mejores terceros, premios y campeón
+   * en una única transacción, reemplazando lo que hubiera en el destino.
+   *
+   * Validaciones:
+   * - La predicción origen debe ser del usuario autenticado
+   * - El usuario debe haber pagado y ser miembro de la liga destino
+   * - La predicción destino debe estar desbloqueada
+   *
+   * @param id - UUID de la predicción origen
+   * @param leagueId - UUID de la liga destino
+   * @returns Predicción destino actualizada
+   */
+  @Post(':id/copy-to/:leagueId')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Copy a prediction into another league',
+    description:
+      'Clones match predictions, group standings, best third places, awards and champion into the user prediction for the target league (created if missing), replacing its previous content in a single transaction.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Source prediction UUID',
+    type: 'string',
+    format: 'uuid',
+  })
+  @ApiParam({
+    name: 'leagueId',
+    description: 'Target league UUID',
+    type: 'string',
+    format: 'uuid',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Prediction copied successfully',
+    type: PredictionResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Bad Request - Target league is the league of the source prediction',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing JWT token',
+  })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Forbidden - Not your prediction, payment pending, not a member of the target league or target prediction locked',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Prediction or league not found',
+  })
+  async copyToLeague(
+    @Param('id') id: string,
+    @Param('leagueId', ParseUUIDPipe) leagueId: string,
+    @Req() req: any,
+  ): Promise<PredictionResponseDto> {
+    const prediction = await this.copyPredictionToLeagueUseCase.execute(
+      id,
+      leagueId,
+      req.user.id,
+    );
+    return PredictionResponseDto.fromEntity(prediction);
+  }
+
+  /**
+   * GET /predictions/:id/export
+   *
+   * Exporta la predicción completa como documento JSON versionado: partidos
+   * de grupos con su tabla (desempates manuales incluidos), mejores terceros,
+   * eliminatorias con los equipos predichos, premios y campeón.
+   *
+   * @param id - UUID de la predicción (debe ser del usuario)
+   * @returns Documento de exportación
+   */
+  @Get(':id/export')
+  @ApiOperation({
+    summary: 'Export a prediction as JSON',
+    description:
+      'Returns the whole prediction as a versioned document that can be imported back with POST /predictions/:id/import.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Prediction UUID',
+    type: 'string',
+    format: 'uuid',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Prediction exported successfully',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing JWT token',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Not your prediction',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Prediction not found',
+  })
+  async exportPrediction(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Req() req: any,
+  ): Promise<PredictionDocument> {
+    return this.exportPredictionUseCase.execute(id, req.user.id);
+  }
+
+  /**
+   * GET /predictions/:id/export/csv
+   *
+   * Exporta los partidos predichos (grupos y eliminatorias) como CSV, con los
+   * equipos como código FIFA. Tablas, premios y campeón solo van en el JSON.
+   *
+   * @param id - UUID de la predicción (debe ser del usuario)
+   * @returns Fichero CSV
+   */
+  @Get(':id/export/csv')
+  @Header('Content-Type', 'text/csv; charset=utf-8')
+  @Header('Content-Disposition', 'attachment; filename="prediction.csv"')
+  @ApiOperation({
+    summary: 'Export predicted matches as CSV',
+    description:
+      'Returns one row per predicted match (group stage and knockouts) with teams as FIFA codes, ready to be edited in a spreadsheet.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Prediction UUID',
+    type: 'string',
+    format: 'uuid',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'CSV file',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing JWT token',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Not your prediction',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Prediction not found',
+  })
+  async exportPredictionCsv(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Req() req: any,
+  ): Promise<string> {
+    return this.exportPredictionCsvUseCase.execute(id, req.user.id);
+  }
+
+  /**
+   * POST /predictions/:id/import
+   *
+   * Importa un documento exportado en la predicción, sección a sección y con
+   * las mismas validaciones que el guardado normal. Las secciones con errores
+   * no se guardan y cada error se reporta con su fila.
+   *
+   * @param id - UUID de la predicción destino (debe ser del usuario)
+   * @param dto - Documento exportado
+   * @returns Resumen de lo importado y errores por fila
+   */
+  @Post(':id/import')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Import a prediction document',
+    description:
+      'Imports a document produced by GET /predictions/:id/export. Every section goes through the same validation as the regular save endpoints; sections with errors are skipped and reported row by row.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Target prediction UUID',
+    type: 'string',
+    format: 'uuid',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Import processed (check errors for rejected rows)',
+    type: ImportPredictionResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Unknown document format or version',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing JWT token',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Not your prediction',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Prediction not found',
+  })
+  async importPrediction(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: ImportPredictionDto,
+    @Req() req: any,
+  ): Promise<ImportPredictionResponseDto> {
+    return this.importPredictionUseCase.execute(id, req.user.id, {
+      groups: dto.groups,
+      knockouts: dto.knockouts,
+      awards: dto.awards ?? null,
+      championTeamId: dto.championTeamId ?? null,
+    });
+  }
+
+  /**
+   * POST /predictions/:id/import/csv
+   *
+   * Importa los partidos desde un CSV (mismo formato que la exportación).
+   * Las tablas de grupos se calculan a partir de los resultados.
+   *
+   * @param id - UUID de la predicción destino (debe ser del usuario)
+   * @param dto - Contenido CSV
+   * @returns Resumen de lo importado y errores por línea
+   */
+  @Post(':id/import/csv')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Import predicted matches from CSV',
+    description:
+      'Imports match predictions from a CSV with the same columns as the export. Group standings are calculated from the scores. Errors are reported with their line number.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Target prediction UUID',
+    type: 'string',
+    format: 'uuid',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Import processed (check errors for rejected rows)',
+    type: ImportPredictionResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing JWT token',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Not your prediction',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Prediction not found',
+  })
+  async importPredictionCsv(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: ImportPredictionCsvDto,
+    @Req() req: any,
+  ): Promise<ImportPredictionResponseDto> {
+    return this.importPredictionCsvUseCase.execute(id, req.user.id, dto.csv);
+  }
+
+  /**
+   * GET /predictions/:id/history
+   *
+   * Devuelve el historial append-only de cambios de la predicción: valor
+   * anterior, valor nuevo, momento y origen de cada cambio en partidos,
+   * desempates de grupos, premios y campeón.
+   *
+   * Acceso:
+   * - El dueño de la predicción, siempre
+   * - El admin de la liga, una vez bloqueada la predicción (para resolver disputas)
+   *
+   * @param id - UUID de la predicción
+   * @returns Historial, más reciente primero
+   */
+  @Get(':id/history')
+  @ApiOperation({
+    summary: 'Get prediction change history',
+    description:
+      'Returns every recorded change to match predictions, group standings tiebreaks, awards and champion (old value, new value, timestamp and request source). Available to the owner, and to the league admin once the prediction is locked.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Prediction UUID',
+    type: 'string',
+    format: 'uuid',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'History retrieved successfully',
+    type: PredictionHistoryResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing JWT token',
+  })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Forbidden - Not the owner nor the league admin, or prediction not locked yet',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Prediction not found',
+  })
+  async getPredictionHistory(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Req() req: any,
+  ): Promise<PredictionHistoryResponseDto> {
+    const history = await this.getPredictionHistoryUseCase.execute(
+      id,
+      req.user.id,
+    );
+    return PredictionHistoryResponseDto.fromHistory(history);
+  }
+
+  /**
+   * POST /predictions/:id/autofill
+   *
+   * Rellena automáticamente todos los partidos sin predicción (grupos y
+   * cuadro completo) con la estrategia elegida. Las predicciones ya
+   * introducidas no se modifican.
+   *
+   * Casos de uso:
+   * - Usuarios nuevos que quieren empezar con una porra completa y retocarla
+   *
+   * @param id - UUID de la predicción (debe ser del usuario)
+   * @param dto - Estrategia (random, favourites, all_draws)
+   * @returns Resumen de lo rellenado
+   */
+  @Post(':id/autofill')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Auto-fill unpredicted matches',
+    description:
+      'Generates scores for every unpredicted group match, calculates standings and best third places, then fills the knockout bracket phase by phase through the regular validation. Existing picks are left untouched.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Prediction UUID',
+    type: 'string',
+    format: 'uuid',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Prediction auto-filled',
+    type: AutofillPredictionResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Bad Request - Invalid strategy',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing JWT token',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Not your prediction or predictions locked',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Prediction not found',
+  })
+  async autofillPrediction(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Body() dto: AutofillPredictionDto,
+    @Req() req: any,
+  ): Promise<AutofillPredictionResponseDto> {
+    return this.autofillPredictionUseCase.execute(
+      id,
+      req.user.id,
+      dto.strategy,
+    );
+  }
+
   /**
    * GET /predictions/:id/stats
    *
@@ -723,6 +1195,7 @@ export class PredictionController {
    * - Si tiene campeón seleccionado
    * - Si tiene todos los premios seleccionados
    * - Porcentaje de completitud global
+   * - Puntos totales y desglose de puntos de premios/campeón
    *
    * Casos de uso:
    * - Frontend muestra barra de progreso
@@ -736,7 +1209,7 @@ export class PredictionController {
   @ApiOperation({
     summary: 'Get prediction statistics',
     description:
-      'Retrieves progress statistics for a prediction (completion percentage, etc.)',
+      'Retrieves progress statistics for a prediction (completion percentage, etc.) and its points, with award and champion points broken down separately',
   })
   @ApiParam({
     name: 'id',
@@ -763,4 +1236,378 @@ export class PredictionController {
     const stats = await this.getPredictionStatsUseCase.execute(id);
     return stats as PredictionStatsResponseDto;
   }
+
+  /**
+   * GET /predictions/:id/bracket
+   *
+   * Obtiene el cuadro de eliminatorias completo predicho, de R32 a la FINAL.
+   *
+   * Cada nodo incluye:
+   * - Equipos resueltos (R32 desde los grupos, el resto desde los ganadores predichos)
+   * - Resultado predicho (90', prórroga, penaltis)
+   * - Ganador predicho
+   *
+   * Casos de uso:
+   * - Frontend pinta el cuadro sin reimplementar la cascada de ganadores
+   *
+   * @param id - UUID de la predicción
+   * @returns Cuadro predicho por fases
+   */
+  @Get(':id/bracket')
+  @ApiOperation({
+    summary: 'Get predicted knockout bracket',
+    description:
+      'Returns the whole predicted knockout tree from ROUND_OF_32 to FINAL. Each match includes the resolved teams, the predicted result (regular time, extra time, penalties) and the predicted winner.',
+  })
+  @ApiParam({
+    name: 'id',
+    description: 'Prediction UUID',
+    type: 'string',
+    format: 'uuid',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Predicted bracket retrieved successfully',
+    type: PredictedBracketResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing JWT token',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'Prediction not found',
+  })
+  async getPredictedBracket(
+    @Param('id') id: string,
+  ): Promise<PredictedBracketResponseDto> {
+    return this.getPredictedBracketUseCase.execute(id);
+  }
+
+  /**
+   * GET /predictions/league/:leagueId/projections
+   *
+   * Calcula, para cada miembro de la liga, los puntos actuales más el máximo
+   * que aún puede sumar, e indica quién ya no puede terminar primero.
+   *
+   * Fuentes de puntos pendientes:
+   * - Partidos no finalizados con predicción (grupos y eliminatorias)
+   * - Posiciones de grupos aún en juego y mejores terceros
+   * - Campeón (si el equipo elegido sigue vivo) y premios sin ganador oficial
+   *
+   * @param leagueId - UUID de la liga
+   * @returns Proyección por miembro, en el orden del ranking
+   */
+  @Get('league/:leagueId/projections')
+  @ApiOperation({
+    summary: 'Get league projections',
+    description:
+      'For each league member, returns current total points plus the maximum points still attainable from unfinished matches, open groups, best third places, champion and award picks. Flags members who can no longer finish first.',
+  })
+  @ApiParam({
+    name: 'leagueId',
+    description: 'League UUID',
+    type: 'string',
+    format: 'uuid',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Projections retrieved successfully',
+    type: LeagueProjectionsResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing JWT token',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - User not member of the league',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'League not found',
+  })
+  async getLeagueProjections(
+    @Param('leagueId') leagueId: string,
+    @Req() req: any,
+  ): Promise<LeagueProjectionsResponseDto> {
+    return this.getLeagueProjectionsUseCase.execute(leagueId, req.user.id);
+  }
+
+  /**
+   * GET /predictions/league/:leagueId/compare?userA=&userB=
+   *
+   * Compara cara a cara las predicciones de dos miembros de la liga.
+   *
+   * Incluye, con los puntos de cada uno por elemento:
+   * - Partido a partido (90', prórroga, penaltis)
+   * - Tablas de grupos y mejores terceros
+   * - Cuadro de eliminatorias predicho
+   * - Campeón y premios individuales
+   *
+   * Solo disponible cuando ambas predicciones están bloqueadas, para que nadie
+   * pueda copiar a otro miembro.
+   *
+   * @param leagueId - UUID de la liga
+   * @param userA - UUID del primer miembro
+   * @param userB - UUID del segundo miembro
+   * @returns Comparación elemento a elemento
+   */
+  @Get('league/:leagueId/compare')
+  @ApiOperation({
+    summary: 'Compare two members predictions',
+    description:
+      'Returns a head-to-head diff of two league members: matches, group standings, best third places, bracket, champion and awards, with the points each member earned per item. Only available once both predictions are locked.',
+  })
+  @ApiParam({
+    name: 'leagueId',
+    description: 'League UUID',
+    type: 'string',
+    format: 'uuid',
+  })
+  @ApiQuery({
+    name: 'userA',
+    description: 'UUID of the first member',
+    type: 'string',
+    format: 'uuid',
+  })
+  @ApiQuery({
+    name: 'userB',
+    description: 'UUID of the second member',
+    type: 'string',
+    format: 'uuid',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Comparison retrieved successfully',
+    type: MemberComparisonResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid user UUIDs or same user twice',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing JWT token',
+  })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Forbidden - Users not members of the league or predictions not locked yet',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'League or prediction not found',
+  })
+  async compareMembers(
+    @Param('leagueId') leagueId: string,
+    @Query('userA', ParseUUIDPipe) userA: string,
+    @Query('userB', ParseUUIDPipe) userB: string,
+    @Req() req: any,
+  ): Promise<MemberComparisonResponseDto> {
+    return this.compareMemberPredictionsUseCase.execute(
+      leagueId,
+      req.user.id,
+      userA,
+      userB,
+    );
+  }
+
+  /**
+   * GET /predictions/league/:leagueId/consensus
+   *
+   * Estadísticas agregadas de todas las predicciones de la liga.
+   *
+   * Incluye:
+   * - Reparto 1X2 y marcador exacto más repetido por partido
+   * - Reparto de posiciones predichas por equipo en su grupo
+   * - Campeón y premios más elegidos
+   *
+   * Oculto hasta el deadline global de predicciones.
+   *
+   * @param leagueId - UUID de la liga
+   * @returns Consenso de la liga
+   */
+  @Get('league/:leagueId/consensus')
+  @ApiOperation({
+    summary: 'Get league consensus statistics',
+    description:
+      'Aggregated picks of the league: 1X2 distribution and most common exact score per match, predicted group positions per team, and champion and award pick distributions. Hidden until predictions are locked.',
+  })
+  @ApiParam({
+    name: 'leagueId',
+    description: 'League UUID',
+    type: 'string',
+    format: 'uuid',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Consensus retrieved successfully',
+    type: LeagueConsensusResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing JWT token',
+  })
+  @ApiResponse({
+    status: 403,
+    description:
+      'Forbidden - User not member of the league or predictions not locked yet',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'League not found',
+  })
+  async getLeagueConsensus(
+    @Param('leagueId') leagueId: string,
+    @Req() req: any,
+  ): Promise<LeagueConsensusResponseDto> {
+    return this.getLeagueConsensusUseCase.execute(leagueId, req.user.id);
+  }
+
+  /**
+   * GET /predictions/league/:leagueId/members/:userId
+   *
+   * Consulta en modo solo lectura la predicción completa de otro miembro:
+   * partidos, tablas de grupos, mejores terceros, cuadro, campeón y premios.
+   *
+   * Cada partido se muestra cuando ya no se puede editar (predicción bloqueada
+   * o deadline del partido) y, si la liga lo configura, cuando ya ha empezado.
+   *
+   * @param leagueId - UUID de la liga
+   * @param userId - UUID del miembro a consultar
+   * @returns Predicción del miembro filtrada por visibilidad
+   */
+  @Get('league/:leagueId/members/:userId')
+  @ApiOperation({
+    summary: 'Get a league member prediction',
+    description:
+      'Read-only view of a fellow member prediction: matches, group standings, best third places, bracket, champion and awards. Each match is revealed once it can no longer be edited (prediction locked or match deadline passed) and, if the league hides predictions until kickoff, once the match has started.',
+  })
+  @ApiParam({
+    name: 'leagueId',
+    description: 'League UUID',
+    type: 'string',
+    format: 'uuid',
+  })
+  @ApiParam({
+    name: 'userId',
+    description: 'UUID of the member',
+    type: 'string',
+    format: 'uuid',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Member prediction retrieved successfully',
+    type: MemberPredictionResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid user UUID',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing JWT token',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Users not members of the league',
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'League or prediction not found',
+  })
+  async getMemberPrediction(
+    @Param('leagueId') leagueId: string,
+    @Param('userId', ParseUUIDPipe) userId: string,
+    @Req() req: any,
+  ): Promise<MemberPredictionResponseDto> {
+    return this.getMemberPredictionUseCase.execute(
+      leagueId,
+      req.user.id,
+      userId,
+    );
+  }
+
+  /**
+   * POST /predictions/points/recalculate
+   *
+   * Puntúa todas las predicciones de partidos contra los resultados oficiales
+   * (partidos FINISHED) y re-agrega los puntos totales de cada predicción.
+   *
+   * Solo administradores. Idempotente: recalcula desde cero en cada ejecución.
+   * Se debe ejecutar después de registrar resultados (PATCH /matches/:id/result).
+   *
+   * @returns Resumen del cálculo
+   */
+  @Post('points/recalculate')
+  @UseGuards(AdminGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Recalculate prediction points (admin)',
+    description:
+      'Scores every match prediction against official results of FINISHED matches and re-aggregates total points used by league rankings',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Points recalculated successfully',
+    type: CalculatePointsResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing JWT token',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin privileges are required',
+  })
+  async recalculatePoints(): Promise<CalculatePointsResponseDto> {
+    return await this.calculatePointsUseCase.execute();
+  }
+
+  /**
+   * POST /predictions/lock
+   *
+   * Bloquea todas las predicciones si ya pasó el deadline global
+   * (primer predictions_locked_at de los partidos).
+   *
+   * Solo administradores. Normalmente lo ejecuta PredictionLockScheduler de forma
+   * automática; este endpoint permite forzar la ejecución o previsualizarla
+   * con dryRun=true. Idempotente: las predicciones ya bloqueadas no cambian.
+   *
+   * @param dryRun - Si es true, solo cuenta las predicciones que se bloquearían
+   * @returns Resumen del bloqueo
+   */
+  @Post('lock')
+  @UseGuards(AdminGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Lock predictions at the global deadline (admin)',
+    description:
+      'Locks every unlocked prediction once the earliest match predictions_locked_at has passed. Before the deadline nothing is locked. Use dryRun=true to preview how many predictions would be locked',
+  })
+  @ApiQuery({
+    name: 'dryRun',
+    required: false,
+    type: Boolean,
+    description: 'Only count the predictions that would be locked',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Lock job executed successfully',
+    type: LockPredictionsResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing JWT token',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin privileges are required',
+  })
+  async lockPredictions(
+    @Query('dryRun', new ParseBoolPipe({ optional: true })) dryRun?: boolean,
+  ): Promise<LockPredictionsResponseDto> {
+    return await this.lockPredictionsUseCase.execute(dryRun ?? false);
+  }
 }
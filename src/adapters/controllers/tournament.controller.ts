@@ -0,0 +1,113 @@
+import {
+  Controller,
+  Get,
+  Patch,
+  Body,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiBody,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '@adapters/guards/jwt-auth.guard';
+import { AdminGuard } from '@adapters/guards/admin.guard';
+import { GetTournamentResultUseCase } from '@application/use-cases/tournament/get-tournament-result.use-case';
+import { UpdateTournamentResultUseCase } from '@application/use-cases/tournament/update-tournament-result.use-case';
+import { UpdateTournamentResultDto } from '@adapters/dtos/tournament/update-tournament-result.dto';
+import { TournamentResultResponseDto } from '@adapters/dtos/tournament/tournament-result-response.dto';
+
+/**
+ * TournamentController (Adapters Layer)
+ *
+ * Controlador REST para el resultado oficial del torneo:
+ * campeón y premios individuales (Golden Boot, Ball, Glove).
+ *
+ * Endpoints:
+ * - GET   /tournament/result - Ganadores oficiales (null = pendiente)
+ * - PATCH /tournament/result - Registrar ganadores oficiales (admin)
+ *
+ * Los puntos de premios y campeón se aplican al recalcular puntos
+ * (POST /predictions/points/recalculate).
+ */
+@ApiTags('tournament')
+@ApiBearerAuth('JWT-auth')
+@Controller('tournament')
+@UseGuards(JwtAuthGuard)
+export class TournamentController {
+  constructor(
+    private readonly getTournamentResultUseCase: GetTournamentResultUseCase,
+    private readonly updateTournamentResultUseCase: UpdateTournamentResultUseCase,
+  ) {}
+
+  /**
+   * GET /tournament/result
+   * Obtiene los ganadores oficiales del torneo
+   */
+  @Get('result')
+  @ApiOperation({
+    summary: 'Get official tournament result',
+    description:
+      'Retrieves the official champion and individual award winners. Pending winners are returned as null',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Tournament result retrieved successfully',
+    type: TournamentResultResponseDto,
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing JWT token',
+  })
+  async getResult(): Promise<TournamentResultResponseDto> {
+    const result = await this.getTournamentResultUseCase.execute();
+    return TournamentResultResponseDto.fromEntity(result);
+  }
+
+  /**
+   * PATCH /tournament/result
+   * Registra los ganadores oficiales del torneo (solo administradores)
+   */
+  @Patch('result')
+  @UseGuards(AdminGuard)
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: 'Update official tournament result (admin)',
+    description:
+      'Records the official champion and individual award winners. Omitted fields keep their current value; null clears a value. Points are applied on the next recalculation',
+  })
+  @ApiBody({ type: UpdateTournamentResultDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Tournament result updated successfully',
+    type: TournamentResultResponseDto,
+  })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Bad Request - Team or player not found, or Golden Glove is not a goalkeeper',
+  })
+  @ApiResponse({
+    status: 401,
+    description: 'Unauthorized - Invalid or missing JWT token',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Admin privileges are required',
+  })
+  async updateResult(
+    @Body() dto: UpdateTournamentResultDto,
+  ): Promise<TournamentResultResponseDto> {
+    const result = await this.updateTournamentResultUseCase.execute({
+      championTeamId: dto.championTeamId,
+      goldenBootPlayerId: dto.goldenBootPlayerId,
+      goldenBallPlayerId: dto.goldenBallPlayerId,
+      goldenGlovePlayerId: dto.goldenGlovePlayerId,
+    });
+    return TournamentResultResponseDto.fromEntity(result);
+  }
+}
@@ -0,0 +1,17 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsString, IsNotEmpty } from 'class-validator';
+
+/**
+ * AcceptLeagueInvitationDto (Adapters Layer)
+ *
+ * DTO para aceptar una invitación con el token recibido por email.
+ */
+export class AcceptLeagueInvitationDto {
+  @ApiProperty({
+    description: 'Invitation token from the email link',
+    example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...',
+  })
+  @IsString()
+  @IsNotEmpty({ message: 'Invitation token is required' })
+  token: string;
+}
@@ -0,0 +1,26 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+
+/**
+ * BanMemberDto (Adapters Layer)
+ *
+ * DTO para expulsar y banear a un miembro de una liga.
+ *
+ * Campos:
+ * - reason: Motivo del baneo (opcional, se muestra al usuario baneado)
+ *
+ * Notas:
+ * - leagueId y userId se extraen de los params de la URL
+ */
+export class BanMemberDto {
+  @ApiPropertyOptional({
+    description:
+      'Reason for the ban. Shown to the banned user when they try to re-join',
+    example: 'Repeated offensive messages in the league chat',
+    maxLength: 255,
+  })
+  @IsOptional()
+  @IsString({ message: 'Reason must be a string' })
+  @MaxLength(255, { message: 'Reason must not exceed 255 characters' })
+  reason?: string;
+}
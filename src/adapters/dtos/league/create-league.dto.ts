@@ -8,7 +8,14 @@ import {
   IsOptional,
   Matches,
   Length,
+  IsBoolean,
 } from 'class-validator';
+import {
+  LEAGUE_GAME_MODES,
+  LEAGUE_JOIN_POLICIES,
+  type LeagueGameMode,
+  type LeagueJoinPolicy,
+} from '@domain/entities/league.entity';
 
 /**
  * CreateLeagueDto (Adapters Layer)
@@ -21,6 +28,9 @@ import {
  * - description: Descripción opcional
  * - type: 'public' o 'private'
  * - code: Código único opcional (6-20 caracteres alfanuméricos mayúsculas)
+ * - gameMode: Modo de juego opcional (TOURNAMENT por defecto)
+ * - hidePredictionsUntilKickoff: Ocultar predicciones ajenas hasta el inicio de cada partido (opcional)
+ * - joinPolicy: Política de acceso (opcional, OPEN por defecto)
  *
  * Notas:
  * - adminUserId se extrae del JWT (req.user.id)
@@ -81,4 +91,40 @@ export class CreateLeagueDto {
     message: 'Code must contain only uppercase letters and numbers',
   })
   code?: string;
+
+  @ApiProperty({
+    description:
+      'Game mode: TOURNAMENT locks every prediction at the global deadline, MATCHDAY lets each match be edited until its own lock time',
+    example: 'TOURNAMENT',
+    enum: LEAGUE_GAME_MODES,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(LEAGUE_GAME_MODES, {
+    message: 'Game mode must be either TOURNAMENT or MATCHDAY',
+  })
+  gameMode?: LeagueGameMode;
+
+  @ApiProperty({
+    description:
+      'Keep the predictions of other members hidden for each match until it kicks off, even after it is locked',
+    example: false,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  hidePredictionsUntilKickoff?: boolean;
+
+  @ApiProperty({
+    description:
+      'Join policy: OPEN lets users join directly, APPROVAL creates a join request the admin must approve, INVITE_ONLY only admits users through email invitations',
+    example: 'OPEN',
+    enum: LEAGUE_JOIN_POLICIES,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(LEAGUE_JOIN_POLICIES, {
+    message: 'Join policy must be OPEN, APPROVAL or INVITE_ONLY',
+  })
+  joinPolicy?: LeagueJoinPolicy;
 }
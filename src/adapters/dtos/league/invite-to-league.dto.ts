@@ -0,0 +1,20 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEmail } from 'class-validator';
+
+/**
+ * InviteToLeagueDto (Adapters Layer)
+ *
+ * DTO para invitar a alguien por email a una liga privada.
+ *
+ * Notas:
+ * - leagueId se extrae de los params de la URL (:id)
+ * - El email se normaliza a minúsculas al guardar la invitación
+ */
+export class InviteToLeagueDto {
+  @ApiProperty({
+    description: 'Email address of the person to invite',
+    example: 'friend@example.com',
+  })
+  @IsEmail({}, { message: 'Email must be a valid email address' })
+  email: string;
+}
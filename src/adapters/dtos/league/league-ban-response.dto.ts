@@ -0,0 +1,63 @@
+import { ApiProperty } from '@nestjs/swagger';
+import type { LeagueBanWithUser } from '@application/use-cases/leagues/get-league-bans.use-case';
+
+/**
+ * LeagueBanResponseDto (Adapters Layer)
+ *
+ * DTO de respuesta con un usuario baneado de la liga (visible solo para el admin).
+ */
+export class LeagueBanResponseDto {
+  @ApiProperty({
+    description: 'Banned user ID',
+    example: 'a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d',
+    format: 'uuid',
+  })
+  userId: string;
+
+  @ApiProperty({
+    description: 'Name of the banned user',
+    example: 'Juan Pérez',
+  })
+  userName: string;
+
+  @ApiProperty({
+    description: 'Email of the banned user',
+    example: 'juan@example.com',
+  })
+  userEmail: string;
+
+  @ApiProperty({
+    description: 'Owner or co-admin who issued the ban',
+    example: 'f1e2d3c4-b5a6-4789-8a9b-0c1d2e3f4a5b',
+    format: 'uuid',
+  })
+  bannedByUserId: string;
+
+  @ApiProperty({
+    description: 'Reason for the ban',
+    example: 'Repeated offensive messages in the league chat',
+    nullable: true,
+    type: String,
+  })
+  reason: string | null;
+
+  @ApiProperty({
+    description: 'When the user was banned',
+    example: '2026-06-20T18:30:00.000Z',
+  })
+  createdAt: Date;
+
+  static fromBanWithUser({
+    ban,
+    user,
+  }: LeagueBanWithUser): LeagueBanResponseDto {
+    const dto = new LeagueBanResponseDto();
+    dto.userId = ban.userId;
+    dto.userName = user.name;
+    dto.userEmail = user.email;
+    dto.bannedByUserId = ban.bannedByUserId;
+    dto.reason = ban.reason;
+    dto.createdAt = ban.createdAt;
+    return dto;
+  }
+}
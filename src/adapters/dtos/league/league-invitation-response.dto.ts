@@ -0,0 +1,78 @@
+import { ApiProperty } from '@nestjs/swagger';
+import type {
+  LeagueInvitation,
+  LeagueInvitationStatus,
+} from '@domain/entities/league-invitation.entity';
+
+/**
+ * LeagueInvitationResponseDto (Adapters Layer)
+ *
+ * DTO de respuesta con una invitación (visible solo para el admin).
+ * El token nunca se devuelve: solo viaja en el email.
+ */
+export class LeagueInvitationResponseDto {
+  @ApiProperty({
+    description: 'Invitation ID',
+    example: 'b3f1c2d4-5e6f-4a7b-8c9d-0e1f2a3b4c5d',
+    format: 'uuid',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'League ID',
+    example: 'e096dcb1-9f20-4ce5-89ac-740d41283fb9',
+    format: 'uuid',
+  })
+  leagueId: string;
+
+  @ApiProperty({
+    description: 'Invited email address',
+    example: 'friend@example.com',
+  })
+  email: string;
+
+  @ApiProperty({
+    description: 'Invitation status',
+    enum: ['PENDING', 'ACCEPTED', 'REVOKED'],
+    example: 'PENDING',
+  })
+  status: LeagueInvitationStatus;
+
+  @ApiProperty({
+    description: 'Whether the invitation link has expired',
+    example: false,
+  })
+  isExpired: boolean;
+
+  @ApiProperty({
+    description: 'Admin who sent the invitation',
+    example: 'e096dcb1-9f20-4ce5-89ac-740d41283fb9',
+    format: 'uuid',
+  })
+  invitedByUserId: string;
+
+  @ApiProperty({
+    description: 'Expiration date of the invitation link',
+    example: '2026-06-01T10:00:00.000Z',
+  })
+  expiresAt: Date;
+
+  @ApiProperty({
+    description: 'When the invitation was sent',
+    example: '2026-05-25T10:00:00.000Z',
+  })
+  createdAt: Date;
+
+  static fromEntity(invitation: LeagueInvitation): LeagueInvitationResponseDto {
+    const dto = new LeagueInvitationResponseDto();
+    dto.id = invitation.id;
+    dto.leagueId = invitation.leagueId;
+    dto.email = invitation.email;
+    dto.status = invitation.status;
+    dto.isExpired = invitation.isExpired();
+    dto.invitedByUserId = invitation.invitedByUserId;
+    dto.expiresAt = invitation.expiresAt;
+    dto.createdAt = invitation.createdAt;
+    return dto;
+  }
+}
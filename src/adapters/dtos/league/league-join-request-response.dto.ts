@@ -0,0 +1,72 @@
+import { ApiProperty } from '@nestjs/swagger';
+import type { LeagueJoinRequestStatus } from '@domain/entities/league-join-request.entity';
+import type { LeagueJoinRequestWithUser } from '@application/use-cases/leagues/get-league-join-requests.use-case';
+
+/**
+ * LeagueJoinRequestResponseDto (Adapters Layer)
+ *
+ * DTO de respuesta con una solicitud de unión (visible solo para el admin).
+ * Incluye nombre y email del solicitante para que el admin sepa quién es.
+ */
+export class LeagueJoinRequestResponseDto {
+  @ApiProperty({
+    description: 'Join request ID',
+    example: 'b3f1c2d4-5e6f-4a7b-8c9d-0e1f2a3b4c5d',
+    format: 'uuid',
+  })
+  id: string;
+
+  @ApiProperty({
+    description: 'League ID',
+    example: 'e096dcb1-9f20-4ce5-89ac-740d41283fb9',
+    format: 'uuid',
+  })
+  leagueId: string;
+
+  @ApiProperty({
+    description: 'User who asked to join',
+    example: 'a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d',
+    format: 'uuid',
+  })
+  userId: string;
+
+  @ApiProperty({
+    description: 'Name of the user who asked to join',
+    example: 'Juan Pérez',
+  })
+  userName: string;
+
+  @ApiProperty({
+    description: 'Email of the user who asked to join',
+    example: 'juan@example.com',
+  })
+  userEmail: string;
+
+  @ApiProperty({
+    description: 'Join request status',
+    enum: ['PENDING', 'APPROVED', 'REJECTED'],
+    example: 'PENDING',
+  })
+  status: LeagueJoinRequestStatus;
+
+  @ApiProperty({
+    description: 'When the join request was made',
+    example: '2026-05-25T10:00:00.000Z',
+  })
+  createdAt: Date;
+
+  static fromRequestWithUser({
+    request,
+    user,
+  }: LeagueJoinRequestWithUser): LeagueJoinRequestResponseDto {
+    const dto = new LeagueJoinRequestResponseDto();
+    dto.id = request.id;
+    dto.leagueId = request.leagueId;
+    dto.userId = request.userId;
+    dto.userName = user.name;
+    dto.userEmail = user.email;
+    dto.status = request.status;
+    dto.createdAt = request.createdAt;
+    return dto;
+  }
+}
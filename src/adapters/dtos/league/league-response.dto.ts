@@ -1,5 +1,17 @@
 import { ApiProperty } from '@nestjs/swagger';
-import type { League } from '@domain/entities/league.entity';
+import {
+  LEAGUE_GAME_MODES,
+  LEAGUE_JOIN_POLICIES,
+  type League,
+  type LeagueGameMode,
+  type LeagueJoinPolicy,
+} from '@domain/entities/league.entity';
+import {
+  SCORING_PRESET_NAMES,
+  type ScoringPreset,
+  type ScoringRules,
+} from '@domain/constants/scoring-rules.constant';
+import { ScoringRulesDto } from '@adapters/dtos/league/scoring-profile.dto';
 
 /**
  * LeagueResponseDto (Adapters Layer)
@@ -70,8 +82,10 @@ export class LeagueResponseDto {
   code: string;
 
   @ApiProperty({
-    description: 'Logo URL (S3 URL - future implementation)',
-    example: 'https://s3.amazonaws.com/porraza/leagues/logo.png',
+    description:
+      'Logo URL (256px WebP). The 64px and 512px variants live next to it as sm.webp and lg.webp',
+    example:
+      'https://be.porraza.com/files/league-logos/e096dcb1-9f20-4ce5-89ac-740d41283fb9/1718900000000/md.webp',
     nullable: true,
   })
   logoUrl: string | null;
@@ -88,6 +102,42 @@ export class LeagueResponseDto {
   })
   isMember: boolean;
 
+  @ApiProperty({
+    description: 'Scoring preset used to score predictions in this league',
+    example: 'STANDARD',
+    enum: SCORING_PRESET_NAMES,
+  })
+  scoringPreset: ScoringPreset;
+
+  @ApiProperty({
+    description:
+      'Effective scoring rules of the league (preset + custom values)',
+    type: ScoringRulesDto,
+  })
+  scoringRules: ScoringRules;
+
+  @ApiProperty({
+    description: 'Game mode of the league',
+    example: 'TOURNAMENT',
+    enum: LEAGUE_GAME_MODES,
+  })
+  gameMode: LeagueGameMode;
+
+  @ApiProperty({
+    description:
+      'Whether predictions of other members stay hidden until each match kicks off',
+    example: false,
+  })
+  hidePredictionsUntilKickoff: boolean;
+
+  @ApiProperty({
+    description:
+      'Join policy of the league (OPEN, APPROVAL or INVITE_ONLY). currentMembers only counts approved members',
+    example: 'OPEN',
+    enum: LEAGUE_JOIN_POLICIES,
+  })
+  joinPolicy: LeagueJoinPolicy;
+
   @ApiProperty({
     description: 'League creation date',
     example: '2025-01-24T10:30:00.000Z',
@@ -124,6 +174,11 @@ export class LeagueResponseDto {
     dto.maxMembers = league.maxMembers;
     dto.currentMembers = memberCount;
     dto.logoUrl = league.logoUrl;
+    dto.scoringPreset = league.scoringProfile.preset;
+    dto.scoringRules = league.getScoringRules();
+    dto.gameMode = league.gameMode;
+    dto.hidePredictionsUntilKickoff = league.hidePredictionsUntilKickoff;
+    dto.joinPolicy = league.joinPolicy;
     dto.createdAt = league.createdAt;
     dto.updatedAt = league.updatedAt;
 
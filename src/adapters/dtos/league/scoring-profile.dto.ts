@@ -0,0 +1,316 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsIn,
+  IsInt,
+  IsOptional,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  SCORING_PRESET_NAMES,
+  type ScoringPreset,
+} from '@domain/constants/scoring-rules.constant';
+
+/**
+ * PhaseBonusDto (Adapters Layer)
+ *
+ * Bonus por acertar quién avanza en cada fase de eliminatorias.
+ */
+export class PhaseBonusDto {
+  @ApiProperty({
+    description: 'Bonus for Round of 32 matches',
+    example: 1,
+    minimum: 0,
+    maximum: 100,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt({ message: 'ROUND_OF_32 must be an integer' })
+  @Min(0, { message: 'ROUND_OF_32 must be at least 0' })
+  @Max(100, { message: 'ROUND_OF_32 must not exceed 100' })
+  ROUND_OF_32?: number;
+
+  @ApiProperty({
+    description: 'Bonus for Round of 16 matches',
+    example: 2,
+    minimum: 0,
+    maximum: 100,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt({ message: 'ROUND_OF_16 must be an integer' })
+  @Min(0, { message: 'ROUND_OF_16 must be at least 0' })
+  @Max(100, { message: 'ROUND_OF_16 must not exceed 100' })
+  ROUND_OF_16?: number;
+
+  @ApiProperty({
+    description: 'Bonus for quarter-final matches',
+    example: 3,
+    minimum: 0,
+    maximum: 100,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt({ message: 'QUARTER_FINAL must be an integer' })
+  @Min(0, { message: 'QUARTER_FINAL must be at least 0' })
+  @Max(100, { message: 'QUARTER_FINAL must not exceed 100' })
+  QUARTER_FINAL?: number;
+
+  @ApiProperty({
+    description: 'Bonus for semi-final matches',
+    example: 4,
+    minimum: 0,
+    maximum: 100,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt({ message: 'SEMI_FINAL must be an integer' })
+  @Min(0, { message: 'SEMI_FINAL must be at least 0' })
+  @Max(100, { message: 'SEMI_FINAL must not exceed 100' })
+  SEMI_FINAL?: number;
+
+  @ApiProperty({
+    description: 'Bonus for the third place match',
+    example: 2,
+    minimum: 0,
+    maximum: 100,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt({ message: 'THIRD_PLACE must be an integer' })
+  @Min(0, { message: 'THIRD_PLACE must be at least 0' })
+  @Max(100, { message: 'THIRD_PLACE must not exceed 100' })
+  THIRD_PLACE?: number;
+
+  @ApiProperty({
+    description: 'Bonus for the final',
+    example: 5,
+    minimum: 0,
+    maximum: 100,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt({ message: 'FINAL must be an integer' })
+  @Min(0, { message: 'FINAL must be at least 0' })
+  @Max(100, { message: 'FINAL must not exceed 100' })
+  FINAL?: number;
+}
+
+/**
+ * ScoringRulesDto (Adapters Layer)
+ *
+ * Valores personalizados de un perfil CUSTOM.
+ * Los campos omitidos toman el valor del perfil STANDARD.
+ */
+export class ScoringRulesDto {
+  @ApiProperty({
+    description: 'Points for the exact 90-minute score',
+    example: 5,
+    minimum: 0,
+    maximum: 100,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt({ message: 'exactResult must be an integer' })
+  @Min(0, { message: 'exactResult must be at least 0' })
+  @Max(100, { message: 'exactResult must not exceed 100' })
+  exactResult?: number;
+
+  @ApiProperty({
+    description: 'Points for the correct 1X2 outcome',
+    example: 1,
+    minimum: 0,
+    maximum: 100,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt({ message: 'correct1X2 must be an integer' })
+  @Min(0, { message: 'correct1X2 must be at least 0' })
+  @Max(100, { message: 'correct1X2 must not exceed 100' })
+  correct1X2?: number;
+
+  @ApiProperty({
+    description: 'Points for the team that advances (knockouts)',
+    example: 2,
+    minimum: 0,
+    maximum: 100,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt({ message: 'correctWinner must be an integer' })
+  @Min(0, { message: 'correctWinner must be at least 0' })
+  @Max(100, { message: 'correctWinner must not exceed 100' })
+  correctWinner?: number;
+
+  @ApiProperty({
+    description: 'Points for the exact extra-time score',
+    example: 1,
+    minimum: 0,
+    maximum: 100,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt({ message: 'correctET must be an integer' })
+  @Min(0, { message: 'correctET must be at least 0' })
+  @Max(100, { message: 'correctET must not exceed 100' })
+  correctET?: number;
+
+  @ApiProperty({
+    description: 'Points for the penalty shoot-out winner (0 = disabled)',
+    example: 0,
+    minimum: 0,
+    maximum: 100,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt({ message: 'correctPenalties must be an integer' })
+  @Min(0, { message: 'correctPenalties must be at least 0' })
+  @Max(100, { message: 'correctPenalties must not exceed 100' })
+  correctPenalties?: number;
+
+  @ApiProperty({
+    description: 'Bonus per knockout phase for the team that advances',
+    type: PhaseBonusDto,
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PhaseBonusDto)
+  phaseBonus?: PhaseBonusDto;
+
+  @ApiProperty({
+    description: 'Points for the exact group position of a team',
+    example: 3,
+    minimum: 0,
+    maximum: 100,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt({ message: 'groupExactPosition must be an integer' })
+  @Min(0, { message: 'groupExactPosition must be at least 0' })
+  @Max(100, { message: 'groupExactPosition must not exceed 100' })
+  groupExactPosition?: number;
+
+  @ApiProperty({
+    description: 'Points for the correct direct qualification (1st-2nd)',
+    example: 1,
+    minimum: 0,
+    maximum: 100,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt({ message: 'groupQualification must be an integer' })
+  @Min(0, { message: 'groupQualification must be at least 0' })
+  @Max(100, { message: 'groupQualification must not exceed 100' })
+  groupQualification?: number;
+
+  @ApiProperty({
+    description: 'Points for a predicted best third that qualified',
+    example: 2,
+    minimum: 0,
+    maximum: 100,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt({ message: 'bestThirdQualified must be an integer' })
+  @Min(0, { message: 'bestThirdQualified must be at least 0' })
+  @Max(100, { message: 'bestThirdQualified must not exceed 100' })
+  bestThirdQualified?: number;
+
+  @ApiProperty({
+    description: 'Extra points for the exact best third ranking',
+    example: 1,
+    minimum: 0,
+    maximum: 100,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt({ message: 'bestThirdExactPosition must be an integer' })
+  @Min(0, { message: 'bestThirdExactPosition must be at least 0' })
+  @Max(100, { message: 'bestThirdExactPosition must not exceed 100' })
+  bestThirdExactPosition?: number;
+
+  @ApiProperty({
+    description: 'Points for the correct champion',
+    example: 20,
+    minimum: 0,
+    maximum: 100,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt({ message: 'correctChampion must be an integer' })
+  @Min(0, { message: 'correctChampion must be at least 0' })
+  @Max(100, { message: 'correctChampion must not exceed 100' })
+  correctChampion?: number;
+
+  @ApiProperty({
+    description: 'Points for the correct Golden Boot winner',
+    example: 5,
+    minimum: 0,
+    maximum: 100,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt({ message: 'correctGoldenBoot must be an integer' })
+  @Min(0, { message: 'correctGoldenBoot must be at least 0' })
+  @Max(100, { message: 'correctGoldenBoot must not exceed 100' })
+  correctGoldenBoot?: number;
+
+  @ApiProperty({
+    description: 'Points for the correct Golden Ball winner',
+    example: 5,
+    minimum: 0,
+    maximum: 100,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt({ message: 'correctGoldenBall must be an integer' })
+  @Min(0, { message: 'correctGoldenBall must be at least 0' })
+  @Max(100, { message: 'correctGoldenBall must not exceed 100' })
+  correctGoldenBall?: number;
+
+  @ApiProperty({
+    description: 'Points for the correct Golden Glove winner',
+    example: 5,
+    minimum: 0,
+    maximum: 100,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt({ message: 'correctGoldenGlove must be an integer' })
+  @Min(0, { message: 'correctGoldenGlove must be at least 0' })
+  @Max(100, { message: 'correctGoldenGlove must not exceed 100' })
+  correctGoldenGlove?: number;
+}
+
+/**
+ * ScoringProfileDto (Adapters Layer)
+ *
+ * Perfil de puntuación de una liga: preset y, solo para CUSTOM,
+ * los valores personalizados.
+ */
+export class ScoringProfileDto {
+  @ApiProperty({
+    description:
+      'Scoring preset (STANDARD, EXACT_SCORE, HIGH_STAKES or CUSTOM)',
+    example: 'CUSTOM',
+    enum: SCORING_PRESET_NAMES,
+  })
+  @IsIn(SCORING_PRESET_NAMES, {
+    message: `Preset must be one of: ${SCORING_PRESET_NAMES.join(', ')}`,
+  })
+  preset!: ScoringPreset;
+
+  @ApiProperty({
+    description:
+      'Custom scoring values (only with the CUSTOM preset; omitted values use STANDARD)',
+    type: ScoringRulesDto,
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ScoringRulesDto)
+  custom?: ScoringRulesDto;
+}
@@ -5,7 +5,17 @@ import {
   MinLength,
   MaxLength,
   IsIn,
+  ValidateNested,
+  IsBoolean,
 } from 'class-validator';
+import {
+  LEAGUE_GAME_MODES,
+  LEAGUE_JOIN_POLICIES,
+  type LeagueGameMode,
+  type LeagueJoinPolicy,
+} from '@domain/entities/league.entity';
+import { Type } from 'class-transformer';
+import { ScoringProfileDto } from '@adapters/dtos/league/scoring-profile.dto';
 
 /**
  * UpdateLeagueDto (Adapters Layer)
@@ -17,6 +27,10 @@ import {
  * - name: Nuevo nombre (opcional)
  * - description: Nueva descripción (opcional)
  * - type: Nuevo tipo (opcional)
+ * - scoringProfile: Perfil de puntuación (opcional, solo antes del primer bloqueo)
+ * - gameMode: Modo de juego (opcional, solo antes del primer bloqueo)
+ * - hidePredictionsUntilKickoff: Ocultar predicciones ajenas hasta el inicio de cada partido (opcional)
+ * - joinPolicy: Política de acceso (opcional, OPEN por defecto)
  *
  * Notas:
  * - Solo el admin puede actualizar
@@ -61,4 +75,51 @@ export class UpdateLeagueDto {
     message: 'Type must be either public or private',
   })
   type?: 'public' | 'private';
+
+  @ApiProperty({
+    description:
+      'Scoring profile of the league. Can only be changed before the first match locks predictions',
+    type: ScoringProfileDto,
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ScoringProfileDto)
+  scoringProfile?: ScoringProfileDto;
+
+  @ApiProperty({
+    description:
+      'Game mode: TOURNAMENT locks every prediction at the global deadline, MATCHDAY lets each match be edited until its own lock time. Can only be changed before the first match locks predictions',
+    example: 'MATCHDAY',
+    enum: LEAGUE_GAME_MODES,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(LEAGUE_GAME_MODES, {
+    message: 'Game mode must be either TOURNAMENT or MATCHDAY',
+  })
+  gameMode?: LeagueGameMode;
+
+  @ApiProperty({
+    description:
+      'Keep the predictions of other members hidden for each match until it kicks off, even after it is locked',
+    example: false,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  hidePredictionsUntilKickoff?: boolean;
+
+  @ApiProperty({
+    description:
+      'Join policy: OPEN lets users join directly, APPROVAL creates a join request the admin must approve, INVITE_ONLY only admits users through email invitations',
+    example: 'OPEN',
+    enum: LEAGUE_JOIN_POLICIES,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(LEAGUE_JOIN_POLICIES, {
+    message: 'Join policy must be OPEN, APPROVAL or INVITE_ONLY',
+  })
+  joinPolicy?: LeagueJoinPolicy;
 }
@@ -0,0 +1,31 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsIn } from 'class-validator';
+import {
+  ASSIGNABLE_LEAGUE_MEMBER_ROLES,
+  type AssignableLeagueMemberRole,
+} from '@domain/constants/league-roles.constant';
+
+/**
+ * UpdateMemberRoleDto (Adapters Layer)
+ *
+ * DTO para que el propietario cambie el rol de un miembro.
+ *
+ * Campos:
+ * - role: CO_ADMIN o MEMBER
+ *
+ * Notas:
+ * - leagueId y userId se extraen de los params de la URL
+ * - OWNER no se acepta: la propiedad se cambia con transfer-admin
+ */
+export class UpdateMemberRoleDto {
+  @ApiProperty({
+    description:
+      'New role of the member. Ownership is changed with transfer-admin instead',
+    example: 'CO_ADMIN',
+    enum: ASSIGNABLE_LEAGUE_MEMBER_ROLES,
+  })
+  @IsIn(ASSIGNABLE_LEAGUE_MEMBER_ROLES, {
+    message: 'Role must be either CO_ADMIN or MEMBER',
+  })
+  role: AssignableLeagueMemberRole;
+}
@@ -0,0 +1,70 @@
+import { IsIn } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  AUTOFILL_STRATEGIES,
+  type AutofillStrategy,
+} from '@application/services/autofill-score.service';
+
+/**
+ * AutofillPredictionDto (Adapters Layer)
+ *
+ * DTO para rellenar automáticamente los partidos sin predicción.
+ */
+export class AutofillPredictionDto {
+  @ApiProperty({
+    description:
+      'Score generation strategy: random scores, favourites (stronger team by rating wins) or all draws (knockouts decided on penalties)',
+    enum: AUTOFILL_STRATEGIES,
+    example: 'favourites',
+  })
+  @IsIn(AUTOFILL_STRATEGIES, {
+    message: `Strategy must be one of: ${AUTOFILL_STRATEGIES.join(', ')}`,
+  })
+  strategy!: AutofillStrategy;
+}
+
+/**
+ * Response DTO para POST /predictions/:id/autofill
+ */
+export class AutofillPredictionResponseDto {
+  @ApiProperty({
+    description: 'Strategy used',
+    enum: AUTOFILL_STRATEGIES,
+    example: 'favourites',
+  })
+  strategy!: AutofillStrategy;
+
+  @ApiProperty({
+    description: 'Group stage matches filled',
+    example: 66,
+  })
+  groupMatchesFilled!: number;
+
+  @ApiProperty({
+    description: 'Knockout matches filled',
+    example: 32,
+  })
+  knockoutMatchesFilled!: number;
+
+  @ApiProperty({
+    description: 'Whether the champion was set from the predicted final',
+    example: true,
+  })
+  championFilled!: boolean;
+
+  @ApiProperty({
+    description:
+      'Matches that could not be filled because they are locked (MATCHDAY leagues)',
+    type: [String],
+    example: [],
+  })
+  rejectedMatchIds!: string[];
+
+  @ApiProperty({
+    description:
+      'Knockout phase where filling stopped because some teams are not resolved yet (null if the bracket was completed)',
+    nullable: true,
+    example: null,
+  })
+  stoppedAtPhase!: string | null;
+}
@@ -0,0 +1,68 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * CalculatePointsResponseDto
+ *
+ * DTO de respuesta del cálculo de puntos contra resultados oficiales.
+ *
+ * Usado en:
+ * - POST /predictions/points/recalculate
+ */
+export class CalculatePointsResponseDto {
+  @ApiProperty({
+    description: 'Number of FINISHED matches used for scoring',
+    example: 24,
+    minimum: 0,
+  })
+  finishedMatches!: number;
+
+  @ApiProperty({
+    description: 'Number of match predictions scored',
+    example: 3120,
+    minimum: 0,
+  })
+  scoredMatchPredictions!: number;
+
+  @ApiProperty({
+    description: 'Number of groups with all 6 matches FINISHED',
+    example: 4,
+    minimum: 0,
+    maximum: 12,
+  })
+  completedGroups!: number;
+
+  @ApiProperty({
+    description: 'Number of predicted group positions scored',
+    example: 2080,
+    minimum: 0,
+  })
+  scoredGroupStandings!: number;
+
+  @ApiProperty({
+    description:
+      'Whether the official best third places ranking is available (all 12 groups finished)',
+    example: false,
+  })
+  bestThirdPlacesResolved!: boolean;
+
+  @ApiProperty({
+    description: 'Number of predicted best third places scored',
+    example: 1040,
+    minimum: 0,
+  })
+  scoredBestThirdPlaces!: number;
+
+  @ApiProperty({
+    description: 'Number of predictions whose awards and champion were scored',
+    example: 130,
+    minimum: 0,
+  })
+  scoredAwards!: number;
+
+  @ApiProperty({
+    description: 'Number of predictions whose total points were updated',
+    example: 130,
+    minimum: 0,
+  })
+  updatedPredictions!: number;
+}
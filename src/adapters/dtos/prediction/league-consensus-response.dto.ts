@@ -0,0 +1,177 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Número de elecciones y porcentaje
+ */
+export class PickShareDto {
+  @ApiProperty({ description: 'Number of predictions', example: 13 })
+  count!: number;
+
+  @ApiProperty({
+    description: 'Percentage over predictions including this item',
+    example: 72.2,
+  })
+  percentage!: number;
+}
+
+/**
+ * Reparto 1X2 de un partido
+ */
+export class MatchOutcomesDto {
+  @ApiProperty({ description: 'Home win picks', type: PickShareDto })
+  home!: PickShareDto;
+
+  @ApiProperty({ description: 'Draw picks', type: PickShareDto })
+  draw!: PickShareDto;
+
+  @ApiProperty({ description: 'Away win picks', type: PickShareDto })
+  away!: PickShareDto;
+}
+
+/**
+ * Marcador exacto más repetido
+ */
+export class MostCommonScoreDto extends PickShareDto {
+  @ApiProperty({ description: 'Home score', example: 2 })
+  homeScore!: number;
+
+  @ApiProperty({ description: 'Away score', example: 1 })
+  awayScore!: number;
+}
+
+/**
+ * Consenso de la liga sobre un partido
+ */
+export class MatchConsensusDto {
+  @ApiProperty({
+    description: 'Match UUID',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  matchId!: string;
+
+  @ApiProperty({ description: 'Match number (1-104)', example: 1 })
+  matchNumber!: number;
+
+  @ApiProperty({
+    description: 'Predictions of the league for this match',
+    example: 18,
+  })
+  totalPredictions!: number;
+
+  @ApiProperty({ type: MatchOutcomesDto })
+  outcomes!: MatchOutcomesDto;
+
+  @ApiProperty({
+    description: 'Most common exact score (fewest goals wins ties)',
+    type: MostCommonScoreDto,
+  })
+  mostCommonScore!: MostCommonScoreDto;
+}
+
+/**
+ * Posición predicha de un equipo
+ */
+export class PositionShareDto extends PickShareDto {
+  @ApiProperty({ description: 'Group position (1-4)', example: 1 })
+  position!: number;
+}
+
+/**
+ * Reparto de posiciones predichas de un equipo en su grupo
+ */
+export class TeamPositionConsensusDto {
+  @ApiProperty({
+    description: 'Group UUID',
+    example: '650e8400-e29b-41d4-a716-446655440000',
+  })
+  groupId!: string;
+
+  @ApiProperty({
+    description: 'Team UUID',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  teamId!: string;
+
+  @ApiProperty({ description: 'Team name', example: 'Spain' })
+  teamName!: string;
+
+  @ApiProperty({
+    description: 'Predictions of the league including this team',
+    example: 18,
+  })
+  totalPredictions!: number;
+
+  @ApiProperty({
+    description: 'Predicted positions (only positions picked at least once)',
+    type: [PositionShareDto],
+  })
+  positions!: PositionShareDto[];
+}
+
+/**
+ * Equipo o jugador elegido por la liga
+ */
+export class SelectionConsensusDto extends PickShareDto {
+  @ApiProperty({
+    description: 'Team (champion) or player (awards) UUID',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  id!: string;
+
+  @ApiProperty({ description: 'Team or player name', example: 'Argentina' })
+  name!: string;
+}
+
+/**
+ * Reparto de elecciones de premios individuales
+ */
+export class AwardsConsensusDto {
+  @ApiProperty({ type: [SelectionConsensusDto] })
+  goldenBoot!: SelectionConsensusDto[];
+
+  @ApiProperty({ type: [SelectionConsensusDto] })
+  goldenBall!: SelectionConsensusDto[];
+
+  @ApiProperty({ type: [SelectionConsensusDto] })
+  goldenGlove!: SelectionConsensusDto[];
+}
+
+/**
+ * LeagueConsensusResponseDto
+ *
+ * DTO de respuesta con las estadísticas agregadas de las predicciones de una liga.
+ *
+ * Usado en:
+ * - GET /predictions/league/:leagueId/consensus
+ */
+export class LeagueConsensusResponseDto {
+  @ApiProperty({
+    description: 'League UUID',
+    example: '750e8400-e29b-41d4-a716-446655440000',
+  })
+  leagueId!: string;
+
+  @ApiProperty({
+    description: '1X2 distribution and most common score per match',
+    type: [MatchConsensusDto],
+  })
+  matches!: MatchConsensusDto[];
+
+  @ApiProperty({
+    description: 'Distribution of predicted group positions per team',
+    type: [TeamPositionConsensusDto],
+  })
+  groupPositions!: TeamPositionConsensusDto[];
+
+  @ApiProperty({
+    description: 'Champion picks, most popular first',
+    type: [SelectionConsensusDto],
+  })
+  champion!: SelectionConsensusDto[];
+
+  @ApiProperty({
+    description: 'Award picks, most popular first',
+    type: AwardsConsensusDto,
+  })
+  awards!: AwardsConsensusDto;
+}
@@ -0,0 +1,128 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { LeagueRankingUserDto } from './league-ranking-response.dto';
+
+/**
+ * Desglose de los puntos que un miembro aún puede sumar
+ */
+export class RemainingPointsBreakdownDto {
+  @ApiProperty({
+    description:
+      'Max points from predicted matches not finished yet (knockout picks only while their predicted teams are still alive)',
+    example: 42,
+  })
+  matches!: number;
+
+  @ApiProperty({
+    description: 'Max points from group standings of groups still in play',
+    example: 12,
+  })
+  groupStandings!: number;
+
+  @ApiProperty({
+    description:
+      'Max points from best third places (until the group stage ends)',
+    example: 24,
+  })
+  bestThirdPlaces!: number;
+
+  @ApiProperty({
+    description: 'Champion points if the picked team is still alive',
+    example: 10,
+  })
+  champion!: number;
+
+  @ApiProperty({
+    description: 'Points from award picks without an official winner yet',
+    example: 15,
+  })
+  awards!: number;
+}
+
+/**
+ * Proyección de un miembro de la liga
+ */
+export class LeagueMemberProjectionDto {
+  @ApiProperty({
+    description: 'Current position in the league ranking (1-indexed)',
+    example: 3,
+    minimum: 1,
+  })
+  position!: number;
+
+  @ApiProperty({
+    description: 'User data (owner of the prediction)',
+    type: LeagueRankingUserDto,
+  })
+  user!: LeagueRankingUserDto;
+
+  @ApiProperty({
+    description: 'Prediction UUID',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  predictionId!: string;
+
+  @ApiProperty({
+    description: 'Current total points (last points calculation)',
+    example: 87,
+  })
+  currentPoints!: number;
+
+  @ApiProperty({
+    description: 'Max points still attainable',
+    example: 103,
+  })
+  maxRemainingPoints!: number;
+
+  @ApiProperty({
+    description: 'Current points plus max points still attainable',
+    example: 190,
+  })
+  maxPossiblePoints!: number;
+
+  @ApiProperty({
+    description: 'Max points still attainable by source',
+    type: RemainingPointsBreakdownDto,
+  })
+  remaining!: RemainingPointsBreakdownDto;
+
+  @ApiProperty({
+    description:
+      'Whether the member can no longer reach the current points of the leader. Always false while there are official results newer than the last points recalculation',
+    example: false,
+  })
+  eliminated!: boolean;
+}
+
+/**
+ * LeagueProjectionsResponseDto
+ *
+ * DTO de respuesta con el máximo de puntos alcanzable por cada miembro de una liga.
+ *
+ * Usado en:
+ * - GET /predictions/league/:leagueId/projections
+ */
+export class LeagueProjectionsResponseDto {
+  @ApiProperty({
+    description: 'League UUID',
+    example: '750e8400-e29b-41d4-a716-446655440000',
+  })
+  leagueId!: string;
+
+  @ApiProperty({
+    description: 'Current points of the league leader',
+    example: 120,
+  })
+  leaderPoints!: number;
+
+  @ApiProperty({
+    description: 'Matches of the tournament not finished yet',
+    example: 32,
+  })
+  remainingMatches!: number;
+
+  @ApiProperty({
+    description: 'Projections ordered by current ranking',
+    type: [LeagueMemberProjectionDto],
+  })
+  projections!: LeagueMemberProjectionDto[];
+}
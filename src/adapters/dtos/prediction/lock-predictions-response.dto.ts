@@ -0,0 +1,40 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * LockPredictionsResponseDto
+ *
+ * DTO de respuesta del bloqueo de predicciones al llegar el deadline global.
+ *
+ * Usado en:
+ * - POST /predictions/lock
+ */
+export class LockPredictionsResponseDto {
+  @ApiProperty({
+    description:
+      'Global predictions deadline (earliest predictions_locked_at of all matches)',
+    example: '2026-06-11T18:00:00.000Z',
+    nullable: true,
+    type: Date,
+  })
+  deadline!: Date | null;
+
+  @ApiProperty({
+    description: 'Whether the deadline has already passed',
+    example: true,
+  })
+  deadlineReached!: boolean;
+
+  @ApiProperty({
+    description: 'Whether this was a dry run (nothing was locked)',
+    example: false,
+  })
+  dryRun!: boolean;
+
+  @ApiProperty({
+    description:
+      'Number of predictions locked (or that would be locked in a dry run)',
+    example: 130,
+    minimum: 0,
+  })
+  lockedPredictions!: number;
+}
@@ -0,0 +1,360 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Resultado predicho de un partido en la comparación
+ */
+export class ComparedMatchScoreDto {
+  @ApiProperty({
+    description: 'Predicted home score at 90 minutes',
+    example: 2,
+  })
+  homeScore!: number;
+
+  @ApiProperty({
+    description: 'Predicted away score at 90 minutes',
+    example: 1,
+  })
+  awayScore!: number;
+
+  @ApiProperty({
+    description: 'Predicted home score after extra time (cumulative)',
+    example: null,
+    nullable: true,
+  })
+  homeScoreET!: number | null;
+
+  @ApiProperty({
+    description: 'Predicted away score after extra time (cumulative)',
+    example: null,
+    nullable: true,
+  })
+  awayScoreET!: number | null;
+
+  @ApiProperty({
+    description: 'Predicted penalties winner',
+    enum: ['home', 'away'],
+    nullable: true,
+    example: null,
+  })
+  penaltiesWinner!: 'home' | 'away' | null;
+}
+
+/**
+ * Partido comparado
+ */
+export class ComparedMatchDto {
+  @ApiProperty({
+    description: 'Match UUID',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  matchId!: string;
+
+  @ApiProperty({ description: 'Match number (1-104)', example: 1 })
+  matchNumber!: number;
+
+  @ApiProperty({ description: 'Match phase', example: 'GROUP_STAGE' })
+  phase!: string;
+
+  @ApiProperty({
+    description: 'Group UUID (null for knockout matches)',
+    nullable: true,
+    example: '650e8400-e29b-41d4-a716-446655440000',
+  })
+  groupId!: string | null;
+
+  @ApiProperty({
+    description: 'Prediction of member A (null if not predicted)',
+    type: ComparedMatchScoreDto,
+    nullable: true,
+  })
+  a!: ComparedMatchScoreDto | null;
+
+  @ApiProperty({
+    description: 'Prediction of member B (null if not predicted)',
+    type: ComparedMatchScoreDto,
+    nullable: true,
+  })
+  b!: ComparedMatchScoreDto | null;
+
+  @ApiProperty({ description: 'Points earned by member A', example: 4 })
+  pointsA!: number;
+
+  @ApiProperty({ description: 'Points earned by member B', example: 1 })
+  pointsB!: number;
+
+  @ApiProperty({
+    description: 'Whether both predictions are equal',
+    example: false,
+  })
+  same!: boolean;
+}
+
+/**
+ * Posición de grupo comparada
+ */
+export class ComparedGroupStandingDto {
+  @ApiProperty({
+    description: 'Group UUID',
+    example: '650e8400-e29b-41d4-a716-446655440000',
+  })
+  groupId!: string;
+
+  @ApiProperty({
+    description: 'Team UUID',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  teamId!: string;
+
+  @ApiProperty({
+    description: 'Position predicted by member A (1-4)',
+    nullable: true,
+    example: 1,
+  })
+  a!: number | null;
+
+  @ApiProperty({
+    description: 'Position predicted by member B (1-4)',
+    nullable: true,
+    example: 2,
+  })
+  b!: number | null;
+
+  @ApiProperty({ description: 'Points earned by member A', example: 3 })
+  pointsA!: number;
+
+  @ApiProperty({ description: 'Points earned by member B', example: 1 })
+  pointsB!: number;
+
+  @ApiProperty({
+    description: 'Whether both positions are equal',
+    example: false,
+  })
+  same!: boolean;
+}
+
+/**
+ * Mejor tercero comparado
+ */
+export class ComparedBestThirdPlaceDto {
+  @ApiProperty({
+    description: 'Team UUID',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  teamId!: string;
+
+  @ApiProperty({
+    description: 'Ranking position predicted by member A (null if not picked)',
+    nullable: true,
+    example: 3,
+  })
+  a!: number | null;
+
+  @ApiProperty({
+    description: 'Ranking position predicted by member B (null if not picked)',
+    nullable: true,
+    example: null,
+  })
+  b!: number | null;
+
+  @ApiProperty({ description: 'Points earned by member A', example: 2 })
+  pointsA!: number;
+
+  @ApiProperty({ description: 'Points earned by member B', example: 0 })
+  pointsB!: number;
+
+  @ApiProperty({
+    description: 'Whether both ranking positions are equal',
+    example: false,
+  })
+  same!: boolean;
+}
+
+/**
+ * Cruce predicho de eliminatorias
+ */
+export class ComparedBracketPickDto {
+  @ApiProperty({
+    description: 'Predicted home team UUID',
+    nullable: true,
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  homeTeamId!: string | null;
+
+  @ApiProperty({
+    description: 'Predicted away team UUID',
+    nullable: true,
+    example: '550e8400-e29b-41d4-a716-446655440001',
+  })
+  awayTeamId!: string | null;
+
+  @ApiProperty({
+    description: 'Predicted winner team UUID',
+    nullable: true,
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  predictedWinnerTeamId!: string | null;
+}
+
+/**
+ * Partido del cuadro comparado
+ */
+export class ComparedBracketMatchDto {
+  @ApiProperty({
+    description: 'Match UUID',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  matchId!: string;
+
+  @ApiProperty({ description: 'Match number (73-104)', example: 89 })
+  matchNumber!: number;
+
+  @ApiProperty({ description: 'Knockout phase', example: 'ROUND_OF_16' })
+  phase!: string;
+
+  @ApiProperty({
+    description: 'Bracket pick of member A',
+    type: ComparedBracketPickDto,
+    nullable: true,
+  })
+  a!: ComparedBracketPickDto | null;
+
+  @ApiProperty({
+    description: 'Bracket pick of member B',
+    type: ComparedBracketPickDto,
+    nullable: true,
+  })
+  b!: ComparedBracketPickDto | null;
+
+  @ApiProperty({
+    description: 'Points earned by member A in this match',
+    example: 6,
+  })
+  pointsA!: number;
+
+  @ApiProperty({
+    description: 'Points earned by member B in this match',
+    example: 0,
+  })
+  pointsB!: number;
+
+  @ApiProperty({ description: 'Whether both picks are equal', example: true })
+  same!: boolean;
+}
+
+/**
+ * Campeón o premio comparado
+ */
+export class ComparedPickDto {
+  @ApiProperty({
+    description: 'Team or player UUID picked by member A',
+    nullable: true,
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  a!: string | null;
+
+  @ApiProperty({
+    description: 'Team or player UUID picked by member B',
+    nullable: true,
+    example: '550e8400-e29b-41d4-a716-446655440001',
+  })
+  b!: string | null;
+
+  @ApiProperty({ description: 'Points earned by member A', example: 10 })
+  pointsA!: number;
+
+  @ApiProperty({ description: 'Points earned by member B', example: 0 })
+  pointsB!: number;
+
+  @ApiProperty({ description: 'Whether both picks are equal', example: false })
+  same!: boolean;
+}
+
+/**
+ * Premios individuales comparados
+ */
+export class ComparedAwardsDto {
+  @ApiProperty({ type: ComparedPickDto })
+  goldenBoot!: ComparedPickDto;
+
+  @ApiProperty({ type: ComparedPickDto })
+  goldenBall!: ComparedPickDto;
+
+  @ApiProperty({ type: ComparedPickDto })
+  goldenGlove!: ComparedPickDto;
+}
+
+/**
+ * Miembro comparado
+ */
+export class ComparedMemberDto {
+  @ApiProperty({
+    description: 'User UUID',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  userId!: string;
+
+  @ApiProperty({ description: 'User full name', example: 'Lionel Messi' })
+  name!: string;
+
+  @ApiProperty({
+    description: 'Prediction UUID',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  predictionId!: string;
+
+  @ApiProperty({ description: 'Current total points', example: 87 })
+  totalPoints!: number;
+}
+
+/**
+ * MemberComparisonResponseDto
+ *
+ * DTO de respuesta con la comparación cara a cara de dos miembros de una liga.
+ *
+ * Usado en:
+ * - GET /predictions/league/:leagueId/compare
+ */
+export class MemberComparisonResponseDto {
+  @ApiProperty({
+    description: 'League UUID',
+    example: '750e8400-e29b-41d4-a716-446655440000',
+  })
+  leagueId!: string;
+
+  @ApiProperty({ type: ComparedMemberDto })
+  memberA!: ComparedMemberDto;
+
+  @ApiProperty({ type: ComparedMemberDto })
+  memberB!: ComparedMemberDto;
+
+  @ApiProperty({
+    description:
+      'Match-by-match diff (matches predicted by at least one member)',
+    type: [ComparedMatchDto],
+  })
+  matches!: ComparedMatchDto[];
+
+  @ApiProperty({
+    description: 'Predicted position of every team in its group',
+    type: [ComparedGroupStandingDto],
+  })
+  groupStandings!: ComparedGroupStandingDto[];
+
+  @ApiProperty({
+    description: 'Best third places picked by either member',
+    type: [ComparedBestThirdPlaceDto],
+  })
+  bestThirdPlaces!: ComparedBestThirdPlaceDto[];
+
+  @ApiProperty({
+    description: 'Predicted knockout bracket of each member',
+    type: [ComparedBracketMatchDto],
+  })
+  bracket!: ComparedBracketMatchDto[];
+
+  @ApiProperty({ type: ComparedPickDto })
+  champion!: ComparedPickDto;
+
+  @ApiProperty({ type: ComparedAwardsDto })
+  awards!: ComparedAwardsDto;
+}
@@ -0,0 +1,229 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { PredictedBracketPhaseDto } from './predicted-bracket-response.dto';
+
+/**
+ * Resultado predicho de un partido por el miembro
+ */
+export class MemberMatchPredictionDto {
+  @ApiProperty({
+    description: 'Match UUID',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  matchId!: string;
+
+  @ApiProperty({ description: 'Match number (1-104)', example: 1 })
+  matchNumber!: number;
+
+  @ApiProperty({ description: 'Match phase', example: 'GROUP_STAGE' })
+  phase!: string;
+
+  @ApiProperty({
+    description: 'Group UUID (null for knockout matches)',
+    nullable: true,
+    example: '650e8400-e29b-41d4-a716-446655440000',
+  })
+  groupId!: string | null;
+
+  @ApiProperty({
+    description: 'Predicted home score at 90 minutes',
+    example: 2,
+  })
+  homeScore!: number;
+
+  @ApiProperty({
+    description: 'Predicted away score at 90 minutes',
+    example: 1,
+  })
+  awayScore!: number;
+
+  @ApiProperty({
+    description: 'Predicted home score after extra time (cumulative)',
+    example: null,
+    nullable: true,
+  })
+  homeScoreET!: number | null;
+
+  @ApiProperty({
+    description: 'Predicted away score after extra time (cumulative)',
+    example: null,
+    nullable: true,
+  })
+  awayScoreET!: number | null;
+
+  @ApiProperty({
+    description: 'Predicted penalties winner',
+    enum: ['home', 'away'],
+    nullable: true,
+    example: null,
+  })
+  penaltiesWinner!: 'home' | 'away' | null;
+
+  @ApiProperty({ description: 'Points earned', example: 4 })
+  pointsEarned!: number;
+}
+
+/**
+ * Posición predicha de un equipo en su grupo
+ */
+export class MemberGroupStandingDto {
+  @ApiProperty({
+    description: 'Group UUID',
+    example: '650e8400-e29b-41d4-a716-446655440000',
+  })
+  groupId!: string;
+
+  @ApiProperty({
+    description: 'Team UUID',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  teamId!: string;
+
+  @ApiProperty({ description: 'Predicted position (1-4)', example: 1 })
+  position!: number;
+
+  @ApiProperty({ description: 'Points earned', example: 3 })
+  pointsEarned!: number;
+}
+
+/**
+ * Mejor tercero predicho
+ */
+export class MemberBestThirdPlaceDto {
+  @ApiProperty({
+    description: 'Team UUID',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  teamId!: string;
+
+  @ApiProperty({
+    description: 'Predicted ranking among third places (1-8)',
+    example: 3,
+  })
+  rankingPosition!: number;
+
+  @ApiProperty({ description: 'Points earned', example: 2 })
+  pointsEarned!: number;
+}
+
+/**
+ * Premios individuales elegidos por el miembro
+ */
+export class MemberAwardsDto {
+  @ApiProperty({
+    description: 'Golden Boot player UUID',
+    nullable: true,
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  goldenBoot!: string | null;
+
+  @ApiProperty({
+    description: 'Golden Ball player UUID',
+    nullable: true,
+    example: '550e8400-e29b-41d4-a716-446655440001',
+  })
+  goldenBall!: string | null;
+
+  @ApiProperty({
+    description: 'Golden Glove player UUID',
+    nullable: true,
+    example: '550e8400-e29b-41d4-a716-446655440002',
+  })
+  goldenGlove!: string | null;
+}
+
+/**
+ * Miembro dueño de la predicción
+ */
+export class PredictionMemberDto {
+  @ApiProperty({
+    description: 'User UUID',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  userId!: string;
+
+  @ApiProperty({ description: 'User full name', example: 'Lionel Messi' })
+  name!: string;
+
+  @ApiProperty({
+    description: 'Prediction UUID',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  predictionId!: string;
+
+  @ApiProperty({ description: 'Current total points', example: 87 })
+  totalPoints!: number;
+
+  @ApiProperty({
+    description: 'Whether the prediction is locked',
+    example: true,
+  })
+  isLocked!: boolean;
+}
+
+/**
+ * MemberPredictionResponseDto
+ *
+ * DTO de respuesta con la predicción completa (solo lectura) de un miembro
+ * de la liga, limitada a lo que ya es visible para quien consulta.
+ *
+ * Usado en:
+ * - GET /predictions/league/:leagueId/members/:userId
+ */
+export class MemberPredictionResponseDto {
+  @ApiProperty({
+    description: 'League UUID',
+    example: '750e8400-e29b-41d4-a716-446655440000',
+  })
+  leagueId!: string;
+
+  @ApiProperty({ type: PredictionMemberDto })
+  member!: PredictionMemberDto;
+
+  @ApiProperty({
+    description: 'Visible match predictions',
+    type: [MemberMatchPredictionDto],
+  })
+  matches!: MemberMatchPredictionDto[];
+
+  @ApiProperty({
+    description: 'Predicted standings of groups whose matches are all visible',
+    type: [MemberGroupStandingDto],
+  })
+  groupStandings!: MemberGroupStandingDto[];
+
+  @ApiProperty({
+    description:
+      'Predicted best third places (empty until the whole group stage is visible)',
+    type: [MemberBestThirdPlaceDto],
+  })
+  bestThirdPlaces!: MemberBestThirdPlaceDto[];
+
+  @ApiProperty({
+    description: 'Predicted bracket, visible matches only',
+    type: [PredictedBracketPhaseDto],
+  })
+  bracket!: PredictedBracketPhaseDto[];
+
+  @ApiProperty({
+    description:
+      'Whether champion and awards are hidden (prediction not locked yet)',
+    example: false,
+  })
+  picksHidden!: boolean;
+
+  @ApiProperty({
+    description: 'Champion team UUID',
+    nullable: true,
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  champion!: string | null;
+
+  @ApiProperty({ type: MemberAwardsDto })
+  awards!: MemberAwardsDto;
+
+  @ApiProperty({
+    description: 'Predicted matches still hidden',
+    example: 24,
+  })
+  hiddenMatches!: number;
+}
@@ -0,0 +1,180 @@
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * Equipo resuelto en un nodo del cuadro
+ */
+export class BracketTeamDto {
+  @ApiProperty({
+    description: 'Team UUID',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  id!: string;
+
+  @ApiProperty({ description: 'Team name', example: 'Argentina' })
+  name!: string;
+
+  @ApiProperty({ description: 'FIFA code', example: 'ARG' })
+  fifaCode!: string;
+}
+
+/**
+ * Resultado predicho de un nodo del cuadro
+ */
+export class BracketMatchPredictionDto {
+  @ApiProperty({
+    description: 'Predicted home score at 90 minutes',
+    example: 1,
+  })
+  homeScore!: number;
+
+  @ApiProperty({
+    description: 'Predicted away score at 90 minutes',
+    example: 1,
+  })
+  awayScore!: number;
+
+  @ApiProperty({
+    description: 'Predicted home score after extra time (cumulative)',
+    example: 2,
+    nullable: true,
+  })
+  homeScoreET!: number | null;
+
+  @ApiProperty({
+    description: 'Predicted away score after extra time (cumulative)',
+    example: 1,
+    nullable: true,
+  })
+  awayScoreET!: number | null;
+
+  @ApiProperty({
+    description: 'Predicted penalties winner',
+    enum: ['home', 'away'],
+    nullable: true,
+    example: null,
+  })
+  penaltiesWinner!: 'home' | 'away' | null;
+}
+
+/**
+ * Nodo del cuadro predicho (un partido de eliminatorias)
+ */
+export class PredictedBracketMatchDto {
+  @ApiProperty({
+    description: 'Match UUID',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  matchId!: string;
+
+  @ApiProperty({ description: 'Match number (73-104)', example: 89 })
+  matchNumber!: number;
+
+  @ApiProperty({ description: 'Knockout phase', example: 'ROUND_OF_16' })
+  phase!: string;
+
+  @ApiProperty({
+    description: 'Home team resolved from the predicted bracket',
+    type: BracketTeamDto,
+    nullable: true,
+  })
+  homeTeam!: BracketTeamDto | null;
+
+  @ApiProperty({
+    description: 'Away team resolved from the predicted bracket',
+    type: BracketTeamDto,
+    nullable: true,
+  })
+  awayTeam!: BracketTeamDto | null;
+
+  @ApiProperty({
+    description: 'Home team placeholder of the fixture',
+    example: 'Winner match 74',
+    nullable: true,
+  })
+  homeTeamPlaceholder!: string | null;
+
+  @ApiProperty({
+    description: 'Away team placeholder of the fixture',
+    example: 'Winner match 77',
+    nullable: true,
+  })
+  awayTeamPlaceholder!: string | null;
+
+  @ApiProperty({
+    description: 'Predicted result (null if the match is not predicted yet)',
+    type: BracketMatchPredictionDto,
+    nullable: true,
+  })
+  prediction!: BracketMatchPredictionDto | null;
+
+  @ApiProperty({
+    description: "Predicted winner side (90', extra time or penalties)",
+    enum: ['home', 'away'],
+    nullable: true,
+    example: 'home',
+  })
+  predictedWinner!: 'home' | 'away' | null;
+
+  @ApiProperty({
+    description: 'UUID of the predicted winner team',
+    nullable: true,
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  predictedWinnerTeamId!: string | null;
+}
+
+/**
+ * Ronda del cuadro predicho
+ */
+export class PredictedBracketPhaseDto {
+  @ApiProperty({ description: 'Knockout phase', example: 'ROUND_OF_32' })
+  phase!: string;
+
+  @ApiProperty({
+    description: 'Matches of the phase ordered by match number',
+    type: [PredictedBracketMatchDto],
+  })
+  matches!: PredictedBracketMatchDto[];
+}
+
+/**
+ * PredictedBracketResponseDto
+ *
+ * DTO de respuesta con el cuadro de eliminatorias completo de una predicción.
+ *
+ * Usado en:
+ * - GET /predictions/:id/bracket
+ */
+export class PredictedBracketResponseDto {
+  @ApiProperty({
+    description: 'Prediction UUID',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  predictionId!: string;
+
+  @ApiProperty({
+    description: 'Whether the 12 groups have been predicted',
+    example: true,
+  })
+  groupsCompleted!: boolean;
+
+  @ApiProperty({
+    description: 'Whether every knockout phase has been predicted',
+    example: false,
+  })
+  knockoutsCompleted!: boolean;
+
+  @ApiProperty({
+    description:
+      'Knockout phases from ROUND_OF_32 to FINAL (including THIRD_PLACE)',
+    type: [PredictedBracketPhaseDto],
+  })
+  phases!: PredictedBracketPhaseDto[];
+
+  @ApiProperty({
+    description: 'Predicted winner of the FINAL',
+    nullable: true,
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  championTeamId!: string | null;
+}
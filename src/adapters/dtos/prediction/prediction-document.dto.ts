@@ -0,0 +1,185 @@
+import {
+  Equals,
+  IsArray,
+  IsIn,
+  IsObject,
+  IsOptional,
+  IsString,
+  IsUUID,
+  MaxLength,
+} from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  PREDICTION_DOCUMENT_FORMAT,
+  PREDICTION_DOCUMENT_VERSION,
+  type PredictionDocumentAwards,
+  type PredictionDocumentGroup,
+  type PredictionDocumentKnockoutPhase,
+} from '@application/services/prediction-document.service';
+
+/**
+ * ImportPredictionDto (Adapters Layer)
+ *
+ * DTO para importar un documento exportado con GET /predictions/:id/export.
+ * Solo se valida la envoltura: las filas de grupos y eliminatorias se validan
+ * en el caso de uso para poder reportar los errores fila a fila.
+ *
+ * Los metadatos de exportación (exportedAt, predictionId, leagueId,
+ * bestThirdPlaces) se aceptan para poder reimportar el fichero tal cual,
+ * pero se ignoran.
+ */
+export class ImportPredictionDto {
+  @ApiProperty({
+    description: 'Document format identifier',
+    example: PREDICTION_DOCUMENT_FORMAT,
+  })
+  @Equals(PREDICTION_DOCUMENT_FORMAT, {
+    message: `Format must be "${PREDICTION_DOCUMENT_FORMAT}"`,
+  })
+  format!: string;
+
+  @ApiProperty({
+    description: 'Document version',
+    example: PREDICTION_DOCUMENT_VERSION,
+  })
+  @IsIn([PREDICTION_DOCUMENT_VERSION], {
+    message: `Unsupported document version (expected ${PREDICTION_DOCUMENT_VERSION})`,
+  })
+  version!: number;
+
+  @ApiProperty({
+    description: 'Groups with their 6 match predictions and standings',
+    type: 'array',
+    items: { type: 'object' },
+  })
+  @IsArray({ message: 'Groups must be an array' })
+  groups!: PredictionDocumentGroup[];
+
+  @ApiProperty({
+    description: 'Knockout phases with their match predictions',
+    type: 'array',
+    items: { type: 'object' },
+  })
+  @IsArray({ message: 'Knockouts must be an array' })
+  knockouts!: PredictionDocumentKnockoutPhase[];
+
+  @ApiProperty({
+    description: 'Individual awards (player UUIDs)',
+    required: false,
+    nullable: true,
+    example: {
+      goldenBootPlayerId: null,
+      goldenBallPlayerId: null,
+      goldenGlovePlayerId: null,
+    },
+  })
+  @IsOptional()
+  @IsObject({ message: 'Awards must be an object' })
+  awards?: PredictionDocumentAwards | null;
+
+  @ApiProperty({
+    description: 'UUID of the predicted champion',
+    required: false,
+    nullable: true,
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  @IsOptional()
+  @IsUUID('4', { message: 'Champion team ID must be a valid UUID' })
+  championTeamId?: string | null;
+
+  @ApiProperty({ description: 'Ignored on import', required: false })
+  @IsOptional()
+  exportedAt?: string;
+
+  @ApiProperty({ description: 'Ignored on import', required: false })
+  @IsOptional()
+  predictionId?: string;
+
+  @ApiProperty({ description: 'Ignored on import', required: false })
+  @IsOptional()
+  leagueId?: string;
+
+  @ApiProperty({
+    description: 'Ignored on import (recalculated from group standings)',
+    required: false,
+  })
+  @IsOptional()
+  bestThirdPlaces?: unknown[];
+}
+
+/**
+ * DTO para importar los partidos desde un CSV
+ */
+export class ImportPredictionCsvDto {
+  @ApiProperty({
+    description:
+      'CSV content. Columns: match_number, phase, home_team, away_team, home_score, away_score, home_score_et, away_score_et, penalties_winner (comma or semicolon separated)',
+    example:
+      'match_number,phase,home_team,away_team,home_score,away_score,home_score_et,away_score_et,penalties_winner\n1,GROUP_STAGE,MEX,RSA,2,0,,,\n',
+  })
+  @IsString({ message: 'CSV must be a string' })
+  @MaxLength(100000, { message: 'CSV is too large' })
+  csv!: string;
+}
+
+/**
+ * Error de importación (sección, referencia y fila)
+ */
+export class PredictionImportErrorDto {
+  @ApiProperty({
+    description: 'Section where the error happened',
+    enum: ['csv', 'group', 'knockout', 'awards', 'champion'],
+    example: 'group',
+  })
+  section!: string;
+
+  @ApiProperty({
+    description: 'Affected group, phase or match',
+    nullable: true,
+    example: '650e8400-e29b-41d4-a716-446655440000#3',
+  })
+  reference!: string | null;
+
+  @ApiProperty({
+    description:
+      'Row within the section (1-based), or line of the file for CSV errors',
+    nullable: true,
+    example: 3,
+  })
+  row!: number | null;
+
+  @ApiProperty({
+    description: 'Error message',
+    example: 'Home and away scores must be non-negative integers',
+  })
+  message!: string;
+}
+
+/**
+ * Response DTO para las importaciones (JSON y CSV)
+ */
+export class ImportPredictionResponseDto {
+  @ApiProperty({
+    description: 'True when every section was imported without errors',
+    example: false,
+  })
+  success!: boolean;
+
+  @ApiProperty({
+    description: 'What was imported',
+    example: { groups: 11, knockoutPhases: 0, awards: true, champion: true },
+  })
+  imported!: {
+    groups: number;
+    knockoutPhases: number;
+    awards: boolean;
+    champion: boolean;
+  };
+
+  @ApiProperty({
+    description:
+      'Errors per section and row. Sections with errors were not saved',
+    type: [PredictionImportErrorDto],
+  })
+  errors!: PredictionImportErrorDto[];
+}
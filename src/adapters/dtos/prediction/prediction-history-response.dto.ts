@@ -0,0 +1,134 @@
+import { ApiProperty } from '@nestjs/swagger';
+import type { PredictionHistoryEntry } from '@domain/entities/prediction-history-entry.entity';
+import type { PredictionHistory } from '@application/use-cases/predictions/get-prediction-history.use-case';
+
+/**
+ * Cambio registrado en el historial
+ */
+export class PredictionHistoryEntryDto {
+  @ApiProperty({
+    description: 'History entry UUID',
+    example: '750e8400-e29b-41d4-a716-446655440000',
+  })
+  id!: string;
+
+  @ApiProperty({
+    description: 'What changed',
+    enum: ['MATCH', 'STANDING', 'AWARD', 'CHAMPION'],
+    example: 'MATCH',
+  })
+  changeType!: string;
+
+  @ApiProperty({
+    description:
+      'Changed item: match UUID (MATCH), team UUID (STANDING), award name (AWARD) or null (CHAMPION)',
+    nullable: true,
+    example: '550e8400-e29b-41d4-a716-446655440000',
+  })
+  reference!: string | null;
+
+  @ApiProperty({
+    description: 'Previous value (null when the value was created)',
+    nullable: true,
+    example: {
+      homeScore: 1,
+      awayScore: 1,
+      homeScoreET: null,
+      awayScoreET: null,
+      penaltiesWinner: null,
+    },
+  })
+  oldValue!: Record<string, unknown> | null;
+
+  @ApiProperty({
+    description: 'New value (null when the value was removed)',
+    nullable: true,
+    example: {
+      homeScore: 2,
+      awayScore: 1,
+      homeScoreET: null,
+      awayScoreET: null,
+      penaltiesWinner: null,
+    },
+  })
+  newValue!: Record<string, unknown> | null;
+
+  @ApiProperty({
+    description: 'Request source that made the change',
+    enum: ['APP', 'IMPORT', 'IMPORT_CSV', 'COPY', 'AUTOFILL'],
+    example: 'APP',
+  })
+  source!: string;
+
+  @ApiProperty({
+    description: 'When the change was recorded',
+    example: '2026-06-10T21:14:03.000Z',
+  })
+  createdAt!: Date;
+
+  static fromEntity(entry: PredictionHistoryEntry): PredictionHistoryEntryDto {
+    const dto = new PredictionHistoryEntryDto();
+    dto.id = entry.id;
+    dto.changeType = entry.changeType;
+    dto.reference = entry.reference;
+    dto.oldValue = entry.oldValue;
+    dto.newValue = entry.newValue;
+    dto.source = entry.source;
+    dto.createdAt = entry.createdAt;
+    return dto;
+  }
+}
+
+/**
+ * PredictionHistoryResponseDto
+ *
+ * DTO de respuesta con el historial de cambios de una predicción
+ * (más reciente primero).
+ *
+ * Usado en:
+ * - GET /predictions/:id/history
+ */
+export class PredictionHistoryResponseDto {
+  @ApiProperty({
+    description: 'Prediction UUID',
+    example: '650e8400-e29b-41d4-a716-446655440000',
+  })
+  predictionId!: string;
+
+  @ApiProperty({
+    description: 'Owner of the prediction',
+    example: '450e8400-e29b-41d4-a716-446655440000',
+  })
+  userId!: string;
+
+  @ApiProperty({
+    description: 'League UUID',
+    example: '350e8400-e29b-41d4-a716-446655440000',
+  })
+  leagueId!: string;
+
+  @ApiProperty({
+    description: 'Changes, most recent first',
+    type: [PredictionHistoryEntryDto],
+  })
+  entries!: PredictionHistoryEntryDto[];
+
+  @ApiProperty({
+    description:
+      'Match changes hidden because their prediction window is still open (MATCHDAY leagues, admin view)',
+    example: 0,
+  })
+  hiddenEntries!: number;
+
+  static fromHistory(history: PredictionHistory): PredictionHistoryResponseDto {
+    const dto = new PredictionHistoryResponseDto();
+    dto.predictionId = history.predictionId;
+    dto.userId = history.userId;
+    dto.leagueId = history.leagueId;
+    dto.entries = history.entries.map((entry) =>
+      PredictionHistoryEntryDto.fromEntity(entry),
+    );
+    dto.hiddenEntries = history.hiddenEntries;
+    return dto;
+  }
+}
@@ -1,5 +1,45 @@
 import { ApiProperty } from '@nestjs/swagger';
 
+/**
+ * Desglose de puntos de premios individuales y campeón
+ */
+export class AwardPointsDto {
+  @ApiProperty({
+    description: 'Points for the correct champion',
+    example: 10,
+    minimum: 0,
+  })
+  champion!: number;
+
+  @ApiProperty({
+    description: 'Points for the correct Golden Boot winner',
+    example: 5,
+    minimum: 0,
+  })
+  goldenBoot!: number;
+
+  @ApiProperty({
+    description: 'Points for the correct Golden Ball winner',
+    example: 0,
+    minimum: 0,
+  })
+  goldenBall!: number;
+
+  @ApiProperty({
+    description: 'Points for the correct Golden Glove winner',
+    example: 0,
+    minimum: 0,
+  })
+  goldenGlove!: number;
+
+  @ApiProperty({
+    description: 'Sum of all award points',
+    example: 15,
+    minimum: 0,
+  })
+  total!: number;
+}
+
 /**
  * PredictionStatsResponseDto
  *
@@ -13,6 +53,7 @@ import { ApiProperty } from '@nestjs/swagger';
  * - Frontend muestra barra de progreso
  * - Validar si predicción está completa
  * - Mostrar avisos de "completar grupos", "seleccionar campeón", etc.
+ * - Mostrar los puntos de premios separados del resto
  */
 export class PredictionStatsResponseDto {
   @ApiProperty({
@@ -62,4 +103,19 @@ export class PredictionStatsResponseDto {
     maximum: 100,
   })
   completionPercentage!: number;
+
+  @ApiProperty({
+    description:
+      'Total points of the prediction (as of the last recalculation)',
+    example: 87,
+    minimum: 0,
+  })
+  totalPoints!: number;
+
+  @ApiProperty({
+    description:
+      'Points earned for the champion and individual awards (included in totalPoints after recalculation)',
+    type: AwardPointsDto,
+  })
+  awardPoints!: AwardPointsDto;
 }
@@ -252,4 +252,12 @@ export class SaveGroupPredictionsResponseDto {
     maximum: 12,
   })
   totalGroupsCompleted!: number;
+
+  @ApiProperty({
+    description:
+      'Locked matches that were not saved (only in MATCHDAY leagues)',
+    type: [String],
+    example: [],
+  })
+  rejectedMatchIds!: string[];
 }
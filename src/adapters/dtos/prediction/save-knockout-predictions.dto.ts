@@ -106,10 +106,10 @@ export class SaveKnockoutPredictionsDto {
   @ApiProperty({
     description: 'Fase de eliminatorias',
     example: 'ROUND_OF_16',
-    enum: ['ROUND_OF_32', 'ROUND_OF_16', 'QUARTER_FINALS', 'SEMI_FINALS', 'FINAL'],
+    enum: ['ROUND_OF_32', 'ROUND_OF_16', 'QUARTER_FINALS', 'SEMI_FINALS', 'THIRD_PLACE', 'FINAL'],
   })
   @IsNotEmpty({ message: 'Phase is required' })
-  @IsIn(['ROUND_OF_32', 'ROUND_OF_16', 'QUARTER_FINALS', 'SEMI_FINALS', 'FINAL'], {
+  @IsIn(['ROUND_OF_32', 'ROUND_OF_16', 'QUARTER_FINALS', 'SEMI_FINALS', 'THIRD_PLACE', 'FINAL'], {
     message: 'Invalid phase',
   })
   phase: string;
@@ -33,6 +33,21 @@ export class TeamResponseDto {
   })
   isHost: boolean;
 
+  @ApiProperty({
+    description:
+      'FIFA ranking before the tournament (last group tiebreak criterion)',
+    example: 27,
+    nullable: true,
+  })
+  fifaRanking: number | null;
+
+  @ApiProperty({
+    description:
+      'Group stage fair play points (card deductions, 0 or negative)',
+    example: -3,
+  })
+  fairPlayPoints: number;
+
   @ApiProperty({
     description: 'Timestamp when the team was created',
     example: '2025-10-21T10:55:00.013+02:00',
@@ -52,6 +67,8 @@ export class TeamResponseDto {
     dto.fifaCode = team.fifaCode;
     dto.confederation = team.confederation;
     dto.isHost = team.isHost;
+    dto.fifaRanking = team.fifaRanking;
+    dto.fairPlayPoints = team.fairPlayPoints;
     dto.createdAt = team.createdAt;
     dto.updatedAt = team.updatedAt;
     return dto;
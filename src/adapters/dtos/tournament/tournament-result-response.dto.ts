@@ -0,0 +1,68 @@
+import { ApiProperty } from '@nestjs/swagger';
+import type { TournamentResult } from '@domain/entities/tournament-result.entity';
+
+/**
+ * TournamentResultResponseDto
+ *
+ * DTO de respuesta con los ganadores oficiales del torneo.
+ *
+ * Usado en:
+ * - GET /tournament/result
+ * - PATCH /tournament/result
+ */
+export class TournamentResultResponseDto {
+  @ApiProperty({
+    description: 'UUID of the official champion team (null if pending)',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+    nullable: true,
+    type: String,
+  })
+  championTeamId!: string | null;
+
+  @ApiProperty({
+    description: 'UUID of the official Golden Boot winner (null if pending)',
+    example: '550e8400-e29b-41d4-a716-446655440001',
+    nullable: true,
+    type: String,
+  })
+  goldenBootPlayerId!: string | null;
+
+  @ApiProperty({
+    description: 'UUID of the official Golden Ball winner (null if pending)',
+    example: '550e8400-e29b-41d4-a716-446655440002',
+    nullable: true,
+    type: String,
+  })
+  goldenBallPlayerId!: string | null;
+
+  @ApiProperty({
+    description: 'UUID of the official Golden Glove winner (null if pending)',
+    example: '550e8400-e29b-41d4-a716-446655440003',
+    nullable: true,
+    type: String,
+  })
+  goldenGlovePlayerId!: string | null;
+
+  @ApiProperty({
+    description: 'Last update timestamp (null if nothing recorded yet)',
+    example: '2026-07-19T22:30:00Z',
+    nullable: true,
+    type: Date,
+  })
+  updatedAt!: Date | null;
+
+  /**
+   * Sin resultado registrado, devuelve todos los ganadores como pendientes
+   */
+  static fromEntity(
+    result: TournamentResult | null,
+  ): TournamentResultResponseDto {
+    const dto = new TournamentResultResponseDto();
+    dto.championTeamId = result?.championTeamId ?? null;
+    dto.goldenBootPlayerId = result?.goldenBootPlayerId ?? null;
+    dto.goldenBallPlayerId = result?.goldenBallPlayerId ?? null;
+    dto.goldenGlovePlayerId = result?.goldenGlovePlayerId ?? null;
+    dto.updatedAt = result?.updatedAt ?? null;
+    return dto;
+  }
+}
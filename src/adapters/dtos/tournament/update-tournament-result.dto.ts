@@ -0,0 +1,50 @@
+import { IsUUID, IsOptional } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+/**
+ * UpdateTournamentResultDto (Adapters Layer)
+ *
+ * DTO para registrar los ganadores oficiales del torneo (campeón y premios).
+ * Los campos omitidos conservan su valor actual; null borra el valor.
+ */
+export class UpdateTournamentResultDto {
+  @ApiProperty({
+    description: 'UUID of the official champion team',
+    example: '550e8400-e29b-41d4-a716-446655440000',
+    required: false,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsUUID('4', { message: 'Champion team ID must be a valid UUID' })
+  championTeamId?: string | null;
+
+  @ApiProperty({
+    description: 'UUID of the official Golden Boot winner (top scorer)',
+    example: '550e8400-e29b-41d4-a716-446655440001',
+    required: false,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsUUID('4', { message: 'Golden Boot player ID must be a valid UUID' })
+  goldenBootPlayerId?: string | null;
+
+  @ApiProperty({
+    description: 'UUID of the official Golden Ball winner (best player)',
+    example: '550e8400-e29b-41d4-a716-446655440002',
+    required: false,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsUUID('4', { message: 'Golden Ball player ID must be a valid UUID' })
+  goldenBallPlayerId?: string | null;
+
+  @ApiProperty({
+    description: 'UUID of the official Golden Glove winner (best goalkeeper)',
+    example: '550e8400-e29b-41d4-a716-446655440003',
+    required: false,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsUUID('4', { message: 'Golden Glove player ID must be a valid UUID' })
+  goldenGlovePlayerId?: string | null;
+}
@@ -0,0 +1,96 @@
+import { IsEnum, IsInt, IsOptional, Min } from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { MatchStatus } from '@domain/entities/match.entity';
+
+/**
+ * UpdateMatchResultDto
+ *
+ * DTO para registrar el resultado oficial de un partido (solo administradores).
+ *
+ * Usado en:
+ * - PATCH /matches/:id/result
+ *
+ * Reglas de negocio:
+ * - El estado avanza SCHEDULED → LIVE → FINISHED
+ * - Los goles solo se registran en partidos LIVE o FINISHED
+ * - Fase de grupos: sin prórroga ni penaltis
+ * - Eliminatorias: prórroga si hay empate en 90', penaltis si hay empate en prórroga
+ * - Los goles de prórroga son acumulados (incluyen los de 90 minutos)
+ */
+export class UpdateMatchResultDto {
+  @ApiProperty({
+    description: 'New match status',
+    enum: MatchStatus,
+    example: MatchStatus.FINISHED,
+  })
+  @IsEnum(MatchStatus, { message: 'Invalid match status' })
+  status!: MatchStatus;
+
+  @ApiPropertyOptional({
+    description: 'Home team goals in regular time (90 minutes)',
+    example: 2,
+    minimum: 0,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Home score must be an integer' })
+  @Min(0, { message: 'Home score cannot be negative' })
+  homeScore?: number | null;
+
+  @ApiPropertyOptional({
+    description: 'Away team goals in regular time (90 minutes)',
+    example: 1,
+    minimum: 0,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Away score must be an integer' })
+  @Min(0, { message: 'Away score cannot be negative' })
+  awayScore?: number | null;
+
+  @ApiPropertyOptional({
+    description:
+      'Home team goals after extra time, including regular time (knockouts only)',
+    example: 3,
+    minimum: 0,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Home extra time score must be an integer' })
+  @Min(0, { message: 'Home extra time score cannot be negative' })
+  homeScoreEt?: number | null;
+
+  @ApiPropertyOptional({
+    description:
+      'Away team goals after extra time, including regular time (knockouts only)',
+    example: 2,
+    minimum: 0,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Away extra time score must be an integer' })
+  @Min(0, { message: 'Away extra time score cannot be negative' })
+  awayScoreEt?: number | null;
+
+  @ApiPropertyOptional({
+    description: 'Home team penalty shootout goals (knockouts only)',
+    example: 5,
+    minimum: 0,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Home penalties must be an integer' })
+  @Min(0, { message: 'Home penalties cannot be negative' })
+  homePenalties?: number | null;
+
+  @ApiPropertyOptional({
+    description: 'Away team penalty shootout goals (knockouts only)',
+    example: 4,
+    minimum: 0,
+    nullable: true,
+  })
+  @IsOptional()
+  @IsInt({ message: 'Away penalties must be an integer' })
+  @Min(0, { message: 'Away penalties cannot be negative' })
+  awayPenalties?: number | null;
+}
@@ -0,0 +1,36 @@
+import {
+  Injectable,
+  ForbiddenException,
+  type CanActivate,
+  type ExecutionContext,
+} from '@nestjs/common';
+import { isAdminEmail } from '@infrastructure/auth/admin.config';
+
+/**
+ * AdminGuard (Adapters Layer)
+ *
+ * Guard de NestJS que restringe rutas a administradores globales de la plataforma.
+ * Los administradores se configuran con la variable de entorno ADMIN_EMAILS.
+ *
+ * IMPORTANTE:
+ * - Debe usarse SIEMPRE después de JwtAuthGuard (necesita request.user)
+ * - No confundir con el admin de una liga (League.adminUserId)
+ *
+ * @example
+ * @Patch(':id/result')
+ * @UseGuards(JwtAuthGuard, AdminGuard)
+ * updateResult(...) { ... }
+ */
+@Injectable()
+export class AdminGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const request = context.switchToHttp().getRequest();
+    const user = request.user;
+
+    if (!user || !user.email || !isAdminEmail(user.email)) {
+      throw new ForbiddenException('Admin privileges are required');
+    }
+
+    return true;
+  }
+}
@@ -10,6 +10,7 @@ import { AuthModule } from '@modules/auth/auth.module';
 import { PaymentModule } from '@modules/payment/payment.module';
 import { LeagueModule } from '@modules/league/league.module';
 import { PredictionModule } from '@modules/prediction/prediction.module';
+import { StorageModule } from '@modules/storage/storage.module';
 
 @Module({
   imports: [
@@ -22,6 +23,7 @@ import { PredictionModule } from '@modules/prediction/prediction.module';
     PaymentModule, // Módulo de pagos con Stripe
     LeagueModule, // Módulo de funcionalidad de ligas
     PredictionModule, // Módulo de sistema de predicciones del Mundial 2026
+    StorageModule, // Almacenamiento de ficheros subidos (GET /files)
   ],
   controllers: [AppController],
   providers: [AppService],
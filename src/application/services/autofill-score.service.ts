@@ -0,0 +1,160 @@
+import { Injectable } from '@nestjs/common';
+
+/**
+ * Estrategias de relleno automático
+ * - random: marcadores aleatorios (distribución realista de goles)
+ * - favourites: gana siempre el equipo con mejor rating, por más goles cuanto mayor la diferencia
+ * - all_draws: todos los partidos 1-1 (en eliminatorias decide la tanda de penaltis)
+ */
+export const AUTOFILL_STRATEGIES = [
+  'random',
+  'favourites',
+  'all_draws',
+] as const;
+
+export type AutofillStrategy = (typeof AUTOFILL_STRATEGIES)[number];
+
+/**
+ * Marcador generado para un partido (mismo formato que las predicciones)
+ */
+export interface GeneratedScore {
+  homeScore: number;
+  awayScore: number;
+  homeScoreET: number | null;
+  awayScoreET: number | null;
+  penaltiesWinner: 'home' | 'away' | null;
+}
+
+/**
+ * Probabilidad acumulada de marcar 0, 1, 2, 3 y 4 goles (estrategia random)
+ */
+const GOALS_CUMULATIVE_PROBABILITY = [0.3, 0.65, 0.85, 0.95, 1];
+
+/**
+ * AutofillScoreService
+ *
+ * Servicio helper que genera marcadores para el relleno automático de
+ * predicciones, a partir de la estrategia y del rating de fuerza de cada
+ * equipo (ver TEAM_STRENGTH_RATINGS).
+ *
+ * Notas:
+ * - En fase de grupos se permite el empate
+ * - En eliminatorias el resultado siempre cumple las reglas de
+ *   IKnockoutValidatorService: prórroga solo tras empate en 90' (acumulada) y
+ *   penaltis solo tras empate en la prórroga
+ *
+ * Este servicio NO maneja persistencia, solo genera marcadores.
+ */
+@Injectable()
+export class AutofillScoreService {
+  /**
+   * Genera el marcador de un partido de fase de grupos
+   */
+  generateGroupScore(
+    strategy: AutofillStrategy,
+    homeStrength: number,
+    awayStrength: number,
+  ): GeneratedScore {
+    const [homeScore, awayScore] = this.regularTimeScore(
+      strategy,
+      homeStrength,
+      awayStrength,
+    );
+
+    return {
+      homeScore,
+      awayScore,
+      homeScoreET: null,
+      awayScoreET: null,
+      penaltiesWinner: null,
+    };
+  }
+
+  /**
+   * Genera el resultado de un partido de eliminatorias (siempre con ganador)
+   */
+  generateKnockoutScore(
+    strategy: AutofillStrategy,
+    homeStrength: number,
+    awayStrength: number,
+  ): GeneratedScore {
+    const score = this.generateGroupScore(strategy, homeStrength, awayStrength);
+
+    if (score.homeScore !== score.awayScore) {
+      return score;
+    }
+
+    // Empate en 90': prórroga (marcador acumulado)
+    let homeExtra = 0;
+    let awayExtra = 0;
+
+    if (strategy === 'random') {
+      homeExtra = this.random() < 0.25 ? 1 : 0;
+      awayExtra = this.random() < 0.25 ? 1 : 0;
+    } else if (strategy === 'favourites' && homeStrength !== awayStrength) {
+      homeExtra = homeStrength > awayStrength ? 1 : 0;
+      awayExtra = homeStrength > awayStrength ? 0 : 1;
+    }
+
+    const homeScoreET = score.homeScore + homeExtra;
+    const awayScoreET = score.awayScore + awayExtra;
+
+    // Empate en la prórroga: penaltis
+    let penaltiesWinner: 'home' | 'away' | null = null;
+    if (homeScoreET === awayScoreET) {
+      penaltiesWinner =
+        strategy === 'random'
+          ? this.random() < 0.5
+            ? 'home'
+            : 'away'
+          : homeStrength >= awayStrength
+            ? 'home'
+            : 'away';
+    }
+
+    return { ...score, homeScoreET, awayScoreET, penaltiesWinner };
+  }
+
+  /**
+   * Marcador de los 90 minutos según la estrategia
+   */
+  private regularTimeScore(
+    strategy: AutofillStrategy,
+    homeStrength: number,
+    awayStrength: number,
+  ): [number, number] {
+    if (strategy === 'all_draws') {
+      return [1, 1];
+    }
+
+    if (strategy === 'random') {
+      return [this.randomGoals(), this.randomGoals()];
+    }
+
+    // favourites: el margen crece con la diferencia de rating
+    const difference = Math.abs(homeStrength - awayStrength);
+    const [winnerGoals, loserGoals] =
+      difference < 50
+        ? [1, 1]
+        : difference < 150
+          ? [1, 0]
+          : difference < 300
+            ? [2, 0]
+            : [3, 0];
+
+    return homeStrength >= awayStrength
+      ? [winnerGoals, loserGoals]
+      : [loserGoals, winnerGoals];
+  }
+
+  private randomGoals(): number {
+    const roll = this.random();
+    return GOALS_CUMULATIVE_PROBABILITY.findIndex(
+      (probability) => roll < probability,
+    );
+  }
+
+  private random(): number {
+    return Math.random();
+  }
+}
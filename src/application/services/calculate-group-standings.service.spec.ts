@@ -0,0 +1,134 @@
+import {
+  CalculateGroupStandingsService,
+  type MatchPredictionWithTeams,
+} from './calculate-group-standings.service';
+
+const GROUP_ID = 'group-a';
+const TEAM_IDS = ['team-a', 'team-b', 'team-c', 'team-d'];
+const [A, B, C, D] = TEAM_IDS;
+
+const result = (
+  homeTeamId: string,
+  homeScore: number,
+  awayScore: number,
+  awayTeamId: string,
+): MatchPredictionWithTeams => ({
+  matchId: `${homeTeamId}-${awayTeamId}`,
+  homeTeamId,
+  awayTeamId,
+  homeScore,
+  awayScore,
+});
+
+// Todos los partidos 0-0: los cuatro equipos empatan en todo
+const ALL_DRAWS = [
+  result(A, 0, 0, B),
+  result(C, 0, 0, D),
+  result(A, 0, 0, C),
+  result(B, 0, 0, D),
+  result(A, 0, 0, D),
+  result(B, 0, 0, C),
+];
+
+describe('CalculateGroupStandingsService', () => {
+  const service = new CalculateGroupStandingsService();
+
+  const order = (
+    matchPredictions: MatchPredictionWithTeams[],
+    tiebreakData = {},
+  ): string[] =>
+    service
+      .calculateStandings(GROUP_ID, TEAM_IDS, matchPredictions, tiebreakData)
+      .map((standing) => standing.teamId);
+
+  it('orders by points', () => {
+    const standings = service.calculateStandings(GROUP_ID, TEAM_IDS, [
+      result(A, 0, 1, B),
+      result(C, 0, 1, D),
+      result(A, 0, 1, C),
+      result(B, 1, 0, D),
+      result(A, 0, 1, D),
+      result(B, 1, 0, C),
+    ]);
+
+    expect(standings.map((standing) => standing.teamId)).toEqual([B, D, C, A]);
+    expect(standings.map((standing) => standing.position)).toEqual([
+      1, 2, 3, 4,
+    ]);
+    expect(standings.every((standing) => !standing.hasTiebreakConflict)).toBe(
+      true,
+    );
+  });
+
+  it('splits a three-way head-to-head tie recursively', () => {
+    // A, B y C empatan a 6 puntos y a diferencia de goles (+1).
+    // Entre los tres, B tiene más goles (3) y A y C siguen igualados,
+    // así que se reaplica el enfrentamiento directo solo a A y C (A ganó 1-0).
+    const standings = service.calculateStandings(GROUP_ID, TEAM_IDS, [
+      result(B, 2, 1, A),
+      result(C, 2, 1, B),
+      result(A, 1, 0, C),
+      result(A, 1, 0, D),
+      result(B, 1, 0, D),
+      result(C, 1, 0, D),
+    ]);
+
+    expect(standings.map((standing) => standing.teamId)).toEqual([B, A, C, D]);
+    expect(
+      standings
+        .filter((standing) => standing.teamId !== D)
+        .map((standing) => [standing.points, standing.goalDifference]),
+    ).toEqual([
+      [6, 1],
+      [6, 1],
+      [6, 1],
+    ]);
+    expect(standings.every((standing) => !standing.hasTiebreakConflict)).toBe(
+      true,
+    );
+  });
+
+  it('uses fair play points when head-to-head does not separate the teams', () => {
+    const fairPlayPoints = new Map([
+      [A, -1],
+      [B, -3],
+      [C, 0],
+      [D, -2],
+    ]);
+
+    expect(order(ALL_DRAWS, { fairPlayPoints })).toEqual([C, A, D, B]);
+  });
+
+  it('uses the FIFA ranking after fair play', () => {
+    const fairPlayPoints = new Map([
+      [A, -1],
+      [B, -1],
+      [C, 0],
+      [D, -2],
+    ]);
+    const fifaRankings = new Map([
+      [A, 20],
+      [B, 3],
+      [C, 40],
+      [D, 1],
+    ]);
+
+    expect(order(ALL_DRAWS, { fairPlayPoints, fifaRankings })).toEqual([
+      C,
+      B,
+      A,
+      D,
+    ]);
+  });
+
+  it('marks a tiebreak conflict when no criterion separates the teams', () => {
+    const standings = service.calculateStandings(GROUP_ID, TEAM_IDS, ALL_DRAWS);
+
+    expect(standings.every((standing) => standing.hasTiebreakConflict)).toBe(
+      true,
+    );
+    expect(standings.every((standing) => standing.tiebreakGroup === 1)).toBe(
+      true,
+    );
+  });
+});
@@ -1,6 +1,7 @@
 import { Injectable } from '@nestjs/common';
 import type { SaveMatchPredictionData } from '@domain/repositories/match-prediction.repository.interface';
 import type { SaveGroupStandingData } from '@domain/repositories/group-standing-prediction.repository.interface';
+import type { Team } from '@domain/entities/team.entity';
 
 /**
  * Interface para predicción de partido con team IDs (usado por el servicio de cálculo)
@@ -11,6 +12,18 @@ export interface MatchPredictionWithTeams extends SaveMatchPredictionData {
   awayTeamId: string;
 }
 
+/**
+ * Datos para los últimos criterios de desempate FIFA (por teamId)
+ * - fairPlayPoints: puntos de juego limpio (0 o negativos, más alto = mejor)
+ * - fifaRankings: posición en el ranking FIFA (más bajo = mejor)
+ *
+ * Si no se proporcionan, el criterio no separa a los equipos.
+ */
+export interface GroupTiebreakData {
+  fairPlayPoints?: Map<string, number>;
+  fifaRankings?: Map<string, number>;
+}
+
 /**
  * Interface para estadísticas de un equipo en un grupo
  */
@@ -37,11 +50,19 @@ interface TeamStats {
  * - 1 punto por empate
  * - 0 puntos por derrota
  *
- * Criterios de ordenación:
+ * Criterios de ordenación (Reglamento FIFA World Cup 2026):
  * 1. Puntos
- * 2. Diferencia de goles
- * 3. Goles a favor
- * 4. (En v1 no implementamos más criterios)
+ * 2. Enfrentamientos directos entre los empatados: puntos, diferencia de
+ *    goles y goles a favor
+ * 3. Si solo una parte de los empatados queda separada, se reaplica el
+ *    criterio 2 exclusivamente a los que siguen empatados
+ * 4. Diferencia de goles (todos los partidos)
+ * 5. Goles a favor (todos los partidos)
+ * 6. Puntos de juego limpio
+ * 7. Ranking FIFA
+ *
+ * Solo si ningún criterio separa a los equipos se marca hasTiebreakConflict
+ * (el usuario decide con manual_tiebreak_order).
  *
  * Este servicio NO maneja persistencia, solo cálculos puros.
  */
@@ -53,12 +74,14 @@ export class CalculateGroupStandingsService {
    * @param groupId - UUID del grupo
    * @param teamIds - Array de 4 UUIDs de equipos del grupo
    * @param matchPredictions - Predicciones de los 6 partidos del grupo (con homeTeamId y awayTeamId)
+   * @param tiebreakData - Juego limpio y ranking FIFA (opcional)
    * @returns Array de 4 posiciones ordenadas (1º a 4º)
    */
   calculateStandings(
     groupId: string,
     teamIds: string[],
     matchPredictions: MatchPredictionWithTeams[],
+    tiebreakData: GroupTiebreakData = {},
   ): SaveGroupStandingData[] {
     // Validar que hay 4 equipos
     if (teamIds.length !== 4) {
@@ -72,6 +95,122 @@ export class CalculateGroupStandingsService {
       );
     }
 
+    return this.buildStandings(
+      groupId,
+      teamIds,
+      matchPredictions,
+      tiebreakData,
+    );
+  }
+
+  /**
+   * Calcula tabla de posiciones de un grupo desde resultados oficiales
+   * A diferencia de calculateStandings, admite grupos en curso (0 a 6 partidos jugados)
+   *
+   * @param groupId - UUID del grupo
+   * @param teamIds - Array de 4 UUIDs de equipos del grupo
+   * @param results - Resultados en 90' de los partidos FINISHED del grupo
+   * @param tiebreakData - Juego limpio y ranking FIFA (opcional)
+   * @returns Array de 4 posiciones ordenadas (1º a 4º)
+   */
+  calculateStandingsFromResults(
+    groupId: string,
+    teamIds: string[],
+    results: MatchPredictionWithTeams[],
+    tiebreakData: GroupTiebreakData = {},
+  ): SaveGroupStandingData[] {
+    if (teamIds.length !== 4) {
+      throw new Error(`Group must have exactly 4 teams, got ${teamIds.length}`);
+    }
+
+    if (results.length > 6) {
+      throw new Error(
+        `Group stage cannot have more than 6 matches, got ${results.length}`,
+      );
+    }
+
+    return this.buildStandings(groupId, teamIds, results, tiebreakData);
+  }
+
+  /**
+   * Construye los datos de desempate a partir de los equipos
+   *
+   * Las predicciones no incluyen tarjetas, por lo que solo las tablas
+   * oficiales usan el juego limpio (includeFairPlay).
+   */
+  buildTiebreakData(
+    teams: Team[],
+    includeFairPlay: boolean,
+  ): GroupTiebreakData {
+    return {
+      fairPlayPoints: includeFairPlay
+        ? new Map(teams.map((team) => [team.id, team.fairPlayPoints]))
+        : undefined,
+      fifaRankings: new Map(
+        teams
+          .filter((team) => team.fifaRanking !== null)
+          .map((team) => [team.id, team.fifaRanking!]),
+      ),
+    };
+  }
+
+  /**
+   * Construye la tabla aplicando las reglas de puntuación y ordenación FIFA
+   */
+  private buildStandings(
+    groupId: string,
+    teamIds: string[],
+    matchPredictions: MatchPredictionWithTeams[],
+    tiebreakData: GroupTiebreakData,
+  ): SaveGroupStandingData[] {
+    // 1-2. Estadísticas de cada equipo con todos los partidos del grupo
+    const teamStats = this.calculateTeamStats(teamIds, matchPredictions);
+
+    // 3. Ordenar según criterios FIFA en bloques (un bloque con más de un
+    // equipo = empate que ningún criterio resuelve)
+    const blocks = this.splitByKey(teamStats, (stats) => [stats.points]).flatMap(
+      (block) => this.resolveTie(block, matchPredictions, tiebreakData),
+    );
+
+    // 4. Asignar posiciones (1-4) y marcar los empates sin resolver
+    const standingsWithPosition: SaveGroupStandingData[] = [];
+    let tiebreakGroupCounter = 1;
+
+    for (const block of blocks) {
+      const hasTiebreakConflict = block.length > 1;
+      const tiebreakGroup = hasTiebreakConflict ? tiebreakGroupCounter++ : null;
+
+      for (const stats of block) {
+        standingsWithPosition.push({
+          groupId,
+          teamId: stats.teamId,
+          position: standingsWithPosition.length + 1, // 1-based position
+          points: stats.points,
+          played: stats.played,
+          wins: stats.wins,
+          draws: stats.draws,
+          losses: stats.losses,
+          goalsFor: stats.goalsFor,
+          goalsAgainst: stats.goalsAgainst,
+          goalDifference: stats.goalDifference,
+          hasTiebreakConflict,
+          tiebreakGroup,
+          manualTiebreakOrder: null,
+        });
+      }
+    }
+
+    return standingsWithPosition;
+  }
+
+  /**
+   * Calcula las estadísticas de los equipos indicados contando solo los
+   * partidos entre ellos (todo el grupo o los enfrentamientos directos)
+   */
+  private calculateTeamStats(
+    teamIds: string[],
+    matchPredictions: MatchPredictionWithTeams[],
+  ): TeamStats[] {
     // 1. Inicializar estadísticas para cada equipo
     const teamStatsMap = new Map<string, TeamStats>();
 
@@ -143,109 +282,107 @@ export class CalculateGroupStandingsService {
       awayStats.goalDifference = awayStats.goalsFor - awayStats.goalsAgainst;
     }
 
-    // 3. Convertir Map a Array y ordenar según criterios FIFA
-    const standings = Array.from(teamStatsMap.values()).sort(
-      (a, b) => this.compareFIFACriteria(a, b),
-    );
-
-    // 4. Asignar posiciones (1-4)
-    const standingsWithPosition: SaveGroupStandingData[] = standings.map(
-      (stats, index) => ({
-        groupId,
-        teamId: stats.teamId,
-        position: index + 1, // 1-based position
-        points: stats.points,
-        played: stats.played,
-        wins: stats.wins,
-        draws: stats.draws,
-        losses: stats.losses,
-        goalsFor: stats.goalsFor,
-        goalsAgainst: stats.goalsAgainst,
-        goalDifference: stats.goalDifference,
-        hasTiebreakConflict: false, // Por defecto, lo detectamos después
-        tiebreakGroup: null,
-        manualTiebreakOrder: null,
-      }),
-    );
-
-    // 5. Detectar empates (conflictos de desempate)
-    this.detectTiebreakConflicts(standingsWithPosition);
-
-    return standingsWithPosition;
+    return Array.from(teamStatsMap.values());
   }
 
   /**
-   * Compara dos equipos según criterios FIFA
-   * @returns positivo si a > b, negativo si a < b, 0 si iguales
+   * Desempata equipos igualados a puntos
+   *
+   * Aplica los enfrentamientos directos y, si separan solo a una parte de
+   * los equipos, se llama recursivamente con los que siguen empatados. Cuando
+   * los enfrentamientos directos ya no separan a nadie, se aplican los
+   * criterios generales (diferencia de goles, goles, juego limpio, ranking).
+   *
+   * @returns Bloques ordenados de equipos (bloque de más de uno = empate sin resolver)
    */
-  private compareFIFACriteria(a: TeamStats, b: TeamStats): number {
-    // 1. Puntos (descendente - más puntos = mejor)
-    if (a.points !== b.points) {
-      return b.points - a.points;
+  private resolveTie(
+    tied: TeamStats[],
+    matchPredictions: MatchPredictionWithTeams[],
+    tiebreakData: GroupTiebreakData,
+  ): TeamStats[][] {
+    if (tied.length === 1) {
+      return [tied];
     }
 
-    // 2. Diferencia de goles (descendente)
-    if (a.goalDifference !== b.goalDifference) {
-      return b.goalDifference - a.goalDifference;
-    }
+    // Enfrentamientos directos: solo partidos entre los equipos empatados
+    const tiedIds = new Set(tied.map((stats) => stats.teamId));
+    const headToHead = new Map(
+      this.calculateTeamStats(
+        [...tiedIds],
+        matchPredictions.filter(
+          (match) =>
+            tiedIds.has(match.homeTeamId) && tiedIds.has(match.awayTeamId),
+        ),
+      ).map((stats) => [stats.teamId, stats]),
+    );
+
+    const headToHeadBlocks = this.splitByKey(tied, (stats) => {
+      const h2h = headToHead.get(stats.teamId)!;
+      return [h2h.points, h2h.goalDifference, h2h.goalsFor];
+    });
 
-    // 3. Goles a favor (descendente)
-    if (a.goalsFor !== b.goalsFor) {
-      return b.goalsFor - a.goalsFor;
+    if (headToHeadBlocks.length > 1) {
+      return headToHeadBlocks.flatMap((block) =>
+        this.resolveTie(block, matchPredictions, tiebreakData),
+      );
     }
 
-    // Si todo es igual, hay empate total
-    return 0;
+    // Criterios generales (no se reaplican por subgrupos)
+    return this.splitByKey(tied, (stats) => [
+      stats.goalDifference,
+      stats.goalsFor,
+      tiebreakData.fairPlayPoints?.get(stats.teamId) ?? 0,
+      -(tiebreakData.fifaRankings?.get(stats.teamId) ?? Infinity),
+    ]);
   }
 
   /**
-   * Detecta equipos que están empatados en todos los criterios FIFA
-   * Marca has_tiebreak_conflict y agrupa equipos empatados
+   * Ordena los equipos por una clave (comparación lexicográfica descendente)
+   * y los agrupa en bloques de equipos con la misma clave
    */
-  private detectTiebreakConflicts(
-    standings: SaveGroupStandingData[],
-  ): void {
-    let tiebreakGroupCounter = 1;
-
-    for (let i = 0; i < standings.length; i++) {
-      const currentTeam = standings[i];
-
-      // Si ya tiene grupo de desempate asignado, skip
-      if (currentTeam.tiebreakGroup !== null) {
-        continue;
+  private splitByKey(
+    teams: TeamStats[],
+    key: (stats: TeamStats) => number[],
+  ): TeamStats[][] {
+    const keyed = teams
+      .map((stats) => ({ stats, key: key(stats) }))
+      .sort((a, b) => this.compareKeys(b.key, a.key));
+
+    const blocks: TeamStats[][] = [];
+    let previousKey: number[] | null = null;
+
+    for (const { stats, key: currentKey } of keyed) {
+      if (previousKey && this.compareKeys(previousKey, currentKey) === 0) {
+        blocks[blocks.length - 1].push(stats);
+      } else {
+        blocks.push([stats]);
       }
+      previousKey = currentKey;
+    }
 
-      // Buscar equipos empatados con este
-      const tiedTeams: SaveGroupStandingData[] = [currentTeam];
-
-      for (let j = i + 1; j < standings.length; j++) {
-        const otherTeam = standings[j];
-
-        // Comparar si están empatados en TODOS los criterios
-        if (
-          currentTeam.points === otherTeam.points &&
-          currentTeam.goalDifference === otherTeam.goalDifference &&
-          currentTeam.goalsFor === otherTeam.goalsFor
-        ) {
-          tiedTeams.push(otherTeam);
-        }
-      }
+    return blocks;
+  }
 
-      // Si hay más de 1 equipo empatado, marcar conflicto
-      if (tiedTeams.length > 1) {
-        for (const team of tiedTeams) {
-          team.hasTiebreakConflict = true;
-          team.tiebreakGroup = tiebreakGroupCounter;
-        }
-        tiebreakGroupCounter++;
+  /**
+   * @returns positivo si a > b, negativo si a < b, 0 si iguales
+   */
+  private compareKeys(a: number[], b: number[]): number {
+    for (let i = 0; i < a.length; i++) {
+      if (a[i] !== b[i]) {
+        return a[i] > b[i] ? 1 : -1;
       }
     }
+    return 0;
   }
 
   /**
-   * Valida que las estadísticas de una tabla sean consistentes
+   * Valida que las estadísticas y el orden de una tabla sean consistentes
    * con las predicciones de partidos
    *
+   * El orden debe coincidir con el calculado; solo dentro de un bloque con
+   * hasTiebreakConflict (ningún criterio FIFA separa a los equipos) el usuario
+   * puede ordenar libremente las posiciones de ese bloque.
+   *
    * @returns { valid: boolean, errors: string[] }
    */
   validateStandings(
@@ -315,6 +452,19 @@ export class CalculateGroupStandingsService {
         );
       }
 
+      // Validar posición (libre solo dentro de su bloque de empate sin resolver)
+      const allowedPositions = calculatedTeam.hasTiebreakConflict
+        ? calculatedStandings
+            .filter((c) => c.tiebreakGroup === calculatedTeam.tiebreakGroup)
+            .map((c) => c.position)
+        : [calculatedTeam.position];
+
+      if (!allowedPositions.includes(providedTeam.position)) {
+        errors.push(
+          `Team ${providedTeam.teamId}: position mismatch (provided=${providedTeam.position}, calculated=${allowedPositions.join(' or ')})`,
+        );
+      }
+
       // Validar goles a favor
       if (providedTeam.goalsFor !== calculatedTeam.goalsFor) {
         errors.push(
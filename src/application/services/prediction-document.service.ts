@@ -0,0 +1,404 @@
+import { Injectable } from '@nestjs/common';
+import type { SaveGroupStandingData } from '@domain/repositories/group-standing-prediction.repository.interface';
+import type { SaveBestThirdPlaceData } from '@domain/repositories/best-third-place-prediction.repository.interface';
+
+/**
+ * Identificador y versión del documento de exportación
+ * Subir la versión si cambia la forma del documento de forma incompatible
+ */
+export const PREDICTION_DOCUMENT_FORMAT = 'porraza-prediction';
+export const PREDICTION_DOCUMENT_VERSION = 1;
+
+/**
+ * Columnas del CSV de partidos (en este orden al exportar)
+ */
+export const PREDICTION_CSV_COLUMNS = [
+  'match_number',
+  'phase',
+  'home_team',
+  'away_team',
+  'home_score',
+  'away_score',
+  'home_score_et',
+  'away_score_et',
+  'penalties_winner',
+] as const;
+
+/**
+ * UUID (cualquier versión): los IDs que no lo son no deben llegar a Postgres
+ */
+const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Partido predicho dentro del documento
+ */
+export interface PredictionDocumentMatch {
+  matchId: string;
+  matchNumber: number;
+  homeTeamId: string | null;
+  awayTeamId: string | null;
+  homeScore: number;
+  awayScore: number;
+  homeScoreET: number | null;
+  awayScoreET: number | null;
+  penaltiesWinner: 'home' | 'away' | null;
+}
+
+/**
+ * Grupo: sus partidos y la tabla predicha (incluye desempates manuales)
+ */
+export interface PredictionDocumentGroup {
+  groupId: string;
+  matches: PredictionDocumentMatch[];
+  standings: SaveGroupStandingData[];
+}
+
+export interface PredictionDocumentKnockoutPhase {
+  phase: string;
+  matches: PredictionDocumentMatch[];
+}
+
+export interface PredictionDocumentAwards {
+  goldenBootPlayerId: string | null;
+  goldenBallPlayerId: string | null;
+  goldenGlovePlayerId: string | null;
+}
+
+/**
+ * Contenido importable de una predicción
+ * Los mejores terceros no se importan: se recalculan al completar los grupos
+ */
+export interface PredictionDocumentContent {
+  groups: PredictionDocumentGroup[];
+  knockouts: PredictionDocumentKnockoutPhase[];
+  awards: PredictionDocumentAwards | null;
+  championTeamId: string | null;
+}
+
+/**
+ * Documento versionado con la predicción completa
+ */
+export interface PredictionDocument extends PredictionDocumentContent {
+  format: typeof PREDICTION_DOCUMENT_FORMAT;
+  version: number;
+  exportedAt: string;
+  predictionId: string;
+  leagueId: string;
+  bestThirdPlaces: SaveBestThirdPlaceData[];
+}
+
+/**
+ * Fila leída del CSV de partidos (equipos como código FIFA)
+ */
+export interface PredictionCsvRow {
+  line: number;
+  matchNumber: number;
+  homeTeam: string | null;
+  awayTeam: string | null;
+  homeScore: number;
+  awayScore: number;
+  homeScoreET: number | null;
+  awayScoreET: number | null;
+  penaltiesWinner: 'home' | 'away' | null;
+}
+
+export type PredictionImportSection =
+  | 'csv'
+  | 'group'
+  | 'knockout'
+  | 'awards'
+  | 'champion';
+
+/**
+ * Error de importación asociado a una sección y, si aplica, a una fila
+ * - reference: grupo, fase o partido afectado
+ * - row: posición 1-based dentro de la sección (línea del fichero en CSV)
+ */
+export interface PredictionImportError {
+  section: PredictionImportSection;
+  reference: string | null;
+  row: number | null;
+  message: string;
+}
+
+/**
+ * PredictionDocumentService
+ *
+ * Servicio helper para el formato de intercambio de predicciones:
+ * serializa los partidos de un documento a CSV, lo vuelve a leer y valida
+ * la forma de cada fila antes de pasarla a los casos de uso de guardado.
+ *
+ * Notas:
+ * - El CSV solo lleva partidos; tablas, premios y campeón van en el JSON
+ * - Al leer se acepta ',' o ';' como separador (Excel en español usa ';')
+ * - Prórroga y penaltis vacíos se leen como null
+ *
+ * Este servicio NO maneja persistencia, solo transformaciones puras.
+ */
+@Injectable()
+export class PredictionDocumentService {
+  /**
+   * Serializa los partidos del documento (grupos y eliminatorias) a CSV
+   *
+   * @param document - Documento exportado
+   * @param teamCodes - Código FIFA por UUID de equipo
+   */
+  toCsv(document: PredictionDocument, teamCodes: Map<string, string>): string {
+    const rows = [
+      ...document.groups.flatMap((group) =>
+        group.matches.map((match) => ({ phase: 'GROUP_STAGE', match })),
+      ),
+      ...document.knockouts.flatMap((knockout) =>
+        knockout.matches.map((match) => ({ phase: knockout.phase, match })),
+      ),
+    ].sort((a, b) => a.match.matchNumber - b.match.matchNumber);
+
+    const teamCode = (teamId: string | null): string =>
+      teamId ? (teamCodes.get(teamId) ?? '') : '';
+
+    const lines = rows.map(({ phase, match }) =>
+      [
+        match.matchNumber,
+        phase,
+        teamCode(match.homeTeamId),
+        teamCode(match.awayTeamId),
+        match.homeScore,
+        match.awayScore,
+        match.homeScoreET ?? '',
+        match.awayScoreET ?? '',
+        match.penaltiesWinner ?? '',
+      ].join(','),
+    );
+
+    return [PREDICTION_CSV_COLUMNS.join(','), ...lines].join('\n') + '\n';
+  }
+
+  /**
+   * Lee un CSV de partidos
+   * Las filas inválidas no se devuelven: se reportan en errors con su línea
+   */
+  parseCsv(csv: string): {
+    rows: PredictionCsvRow[];
+    errors: PredictionImportError[];
+  } {
+    const lines = csv
+      .replace(/^\uFEFF/, '') // BOM de Excel
+      .split(/\r?\n/)
+      .map((text, index) => ({ text: text.trim(), line: index + 1 }))
+      .filter(({ text }) => text !== '');
+
+    if (lines.length === 0) {
+      return { rows: [], errors: [this.csvError(null, 'CSV is empty')] };
+    }
+
+    const [header, ...body] = lines;
+    const separator =
+      header.text.includes(';') && !header.text.includes(',') ? ';' : ',';
+    const columns = header.text
+      .split(separator)
+      .map((column) => column.trim().toLowerCase());
+
+    const missing = ['match_number', 'home_score', 'away_score'].filter(
+      (column) => !columns.includes(column),
+    );
+
+    if (missing.length > 0) {
+      return {
+        rows: [],
+        errors: [
+          this.csvError(
+            header.line,
+            `Missing required columns: ${missing.join(', ')}`,
+          ),
+        ],
+      };
+    }
+
+    const rows: PredictionCsvRow[] = [];
+    const errors: PredictionImportError[] = [];
+
+    for (const { text, line } of body) {
+      const values = text.split(separator).map((value) => value.trim());
+      const cell = (column: string): string => {
+        const index = columns.indexOf(column);
+        return index >= 0 ? (values[index] ?? '') : '';
+      };
+
+      const matchNumber = this.parseInteger(cell('match_number'));
+      const homeScore = this.parseInteger(cell('home_score'));
+      const awayScore = this.parseInteger(cell('away_score'));
+      const homeScoreET = this.parseInteger(cell('home_score_et'));
+      const awayScoreET = this.parseInteger(cell('away_score_et'));
+      const penaltiesWinner = cell('penalties_winner').toLowerCase();
+
+      const rowErrors: string[] = [];
+
+      if (matchNumber === null || matchNumber < 1 || matchNumber > 104) {
+        rowErrors.push('Match number must be an integer between 1 and 104');
+      }
+      if (homeScore === null || awayScore === null) {
+        rowErrors.push('Home and away scores are required');
+      }
+      if (
+        [homeScore, awayScore, homeScoreET, awayScoreET].some(
+          (score) => score !== null && (Number.isNaN(score) || score < 0),
+        )
+      ) {
+        rowErrors.push('Scores must be non-negative integers');
+      }
+      if (
+        penaltiesWinner !== '' &&
+        !['home', 'away'].includes(penaltiesWinner)
+      ) {
+        rowErrors.push('Penalties winner must be "home" or "away"');
+      }
+
+      if (rowErrors.length > 0) {
+        errors.push(
+          ...rowErrors.map((message) => this.csvError(line, message)),
+        );
+        continue;
+      }
+
+      rows.push({
+        line,
+        matchNumber: matchNumber!,
+        homeTeam: cell('home_team').toUpperCase() || null,
+        awayTeam: cell('away_team').toUpperCase() || null,
+        homeScore: homeScore!,
+        awayScore: awayScore!,
+        homeScoreET,
+        awayScoreET,
+        penaltiesWinner:
+          penaltiesWinner === '' ? null : (penaltiesWinner as 'home' | 'away'),
+      });
+    }
+
+    return { rows, errors };
+  }
+
+  /**
+   * Valida la forma de un partido del documento
+   * @param requireTeams - En eliminatorias los equipos son obligatorios
+   * @returns Mensajes de error (vacío si es válido)
+   */
+  validateMatchRow(
+    match: PredictionDocumentMatch,
+    requireTeams: boolean,
+  ): string[] {
+    if (typeof match !== 'object' || match === null) {
+      return ['Match must be an object'];
+    }
+
+    const errors: string[] = [];
+    const isScore = (value: unknown): boolean =>
+      Number.isInteger(value) && (value as number) >= 0;
+    const isOptionalScore = (value: unknown): boolean =>
+      value === null || value === undefined || isScore(value);
+
+    if (typeof match.matchId !== 'string' || match.matchId === '') {
+      errors.push('Match ID is required');
+    } else if (!this.isUuid(match.matchId)) {
+      errors.push('Match ID must be a valid UUID');
+    }
+    if (!isScore(match.homeScore) || !isScore(match.awayScore)) {
+      errors.push('Home and away scores must be non-negative integers');
+    }
+    if (
+      !isOptionalScore(match.homeScoreET) ||
+      !isOptionalScore(match.awayScoreET)
+    ) {
+      errors.push('Extra time scores must be non-negative integers');
+    }
+    if (
+      match.penaltiesWinner !== null &&
+      match.penaltiesWinner !== undefined &&
+      !['home', 'away'].includes(match.penaltiesWinner)
+    ) {
+      errors.push('Penalties winner must be "home" or "away"');
+    }
+    if (requireTeams && (!match.homeTeamId || !match.awayTeamId)) {
+      errors.push('Home and away team IDs are required in knockout matches');
+    } else if (
+      [match.homeTeamId, match.awayTeamId].some(
+        (teamId) => teamId && !this.isUuid(teamId),
+      )
+    ) {
+      errors.push('Team IDs must be valid UUIDs');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Valida la forma de una fila de la tabla de un grupo
+   * Las estadísticas y el orden se validan después contra los partidos
+   * (SaveGroupPredictionsUseCase)
+   * @returns Mensajes de error (vacío si es válido)
+   */
+  validateStandingRow(standing: SaveGroupStandingData): string[] {
+    if (typeof standing !== 'object' || standing === null) {
+      return ['Standing must be an object'];
+    }
+
+    const errors: string[] = [];
+    const isCount = (value: unknown): boolean =>
+      Number.isInteger(value) && (value as number) >= 0;
+
+    if (!this.isUuid(standing.teamId)) {
+      errors.push('Team ID must be a valid UUID');
+    }
+    if (
+      !Number.isInteger(standing.position) ||
+      standing.position < 1 ||
+      standing.position > 4
+    ) {
+      errors.push('Position must be an integer between 1 and 4');
+    }
+    if (
+      ![
+        standing.points,
+        standing.played,
+        standing.wins,
+        standing.draws,
+        standing.losses,
+        standing.goalsFor,
+        standing.goalsAgainst,
+      ].every(isCount)
+    ) {
+      errors.push(
+        'Points, played, wins, draws, losses and goals must be non-negative integers',
+      );
+    }
+    if (!Number.isInteger(standing.goalDifference)) {
+      errors.push('Goal difference must be an integer');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Verifica que un valor del documento es un UUID
+   */
+  isUuid(value: unknown): value is string {
+    return typeof value === 'string' && UUID_PATTERN.test(value);
+  }
+
+  /**
+   * Entero de una celda: null si está vacía, NaN si no es un entero
+   */
+  private parseInteger(value: string): number | null {
+    if (value === '') {
+      return null;
+    }
+    return /^\d+$/.test(value) ? parseInt(value, 10) : NaN;
+  }
+
+  private csvError(
+    line: number | null,
+    message: string,
+  ): PredictionImportError {
+    return { section: 'csv', reference: null, row: line, message };
+  }
+}
@@ -0,0 +1,192 @@
+import { Injectable } from '@nestjs/common';
+import type { SaveMatchPredictionData } from '@domain/repositories/match-prediction.repository.interface';
+import type { RecordPredictionChangeData } from '@domain/repositories/prediction-history.repository.interface';
+import type { PredictionChangeSource } from '@domain/entities/prediction-history-entry.entity';
+
+/**
+ * Posición de un equipo en su grupo (lo que se audita de la tabla)
+ * Compatible con GroupStandingPrediction y SaveGroupStandingData
+ */
+export interface AuditedGroupStanding {
+  groupId: string;
+  teamId: string;
+  position: number;
+  manualTiebreakOrder?: number | null;
+}
+
+/**
+ * Campeón y premios de una predicción (compatible con Prediction)
+ */
+export interface AuditedPicks {
+  goldenBootPlayerId: string | null;
+  goldenBallPlayerId: string | null;
+  goldenGlovePlayerId: string | null;
+  championTeamId: string | null;
+}
+
+const AWARD_FIELDS = {
+  goldenBoot: 'goldenBootPlayerId',
+  goldenBall: 'goldenBallPlayerId',
+  goldenGlove: 'goldenGlovePlayerId',
+} as const;
+
+/**
+ * PredictionHistoryService
+ *
+ * Servicio helper que compara el estado anterior y el nuevo de una predicción
+ * y genera las entradas del historial (solo para los valores que cambian).
+ *
+ * Notas:
+ * - replaced = true indica que "after" sustituye por completo a "before"
+ *   (copia): lo que falta en "after" se registra como eliminado
+ * - En guardados parciales (un grupo, una fase) solo se comparan los
+ *   elementos enviados
+ *
+ * Este servicio NO maneja persistencia, solo genera los cambios.
+ */
+@Injectable()
+export class PredictionHistoryService {
+  /**
+   * Cambios en resultados predichos de partidos
+   */
+  diffMatches(
+    predictionId: string,
+    source: PredictionChangeSource,
+    before: SaveMatchPredictionData[],
+    after: SaveMatchPredictionData[],
+    replaced = false,
+  ): RecordPredictionChangeData[] {
+    return this.diffByKey(
+      before,
+      after,
+      (match) => match.matchId,
+      (match) => ({
+        homeScore: match.homeScore,
+        awayScore: match.awayScore,
+        homeScoreET: match.homeScoreET ?? null,
+        awayScoreET: match.awayScoreET ?? null,
+        penaltiesWinner: match.penaltiesWinner ?? null,
+      }),
+      replaced,
+    ).map((change) => ({
+      predictionId,
+      changeType: 'MATCH',
+      source,
+      ...change,
+    }));
+  }
+
+  /**
+   * Cambios en posiciones y desempates manuales de las tablas de grupos
+   */
+  diffStandings(
+    predictionId: string,
+    source: PredictionChangeSource,
+    before: AuditedGroupStanding[],
+    after: AuditedGroupStanding[],
+    replaced = false,
+  ): RecordPredictionChangeData[] {
+    return this.diffByKey(
+      before,
+      after,
+      (standing) => standing.teamId,
+      (standing) => ({
+        groupId: standing.groupId,
+        position: standing.position,
+        manualTiebreakOrder: standing.manualTiebreakOrder ?? null,
+      }),
+      replaced,
+    ).map((change) => ({
+      predictionId,
+      changeType: 'STANDING',
+      source,
+      ...change,
+    }));
+  }
+
+  /**
+   * Cambios en premios individuales y campeón
+   */
+  diffPicks(
+    predictionId: string,
+    source: PredictionChangeSource,
+    before: AuditedPicks,
+    after: AuditedPicks,
+  ): RecordPredictionChangeData[] {
+    const changes: RecordPredictionChangeData[] = [];
+
+    for (const [award, field] of Object.entries(AWARD_FIELDS)) {
+      if (before[field] !== after[field]) {
+        changes.push({
+          predictionId,
+          changeType: 'AWARD',
+          reference: award,
+          oldValue: before[field] === null ? null : { playerId: before[field] },
+          newValue: after[field] === null ? null : { playerId: after[field] },
+          source,
+        });
+      }
+    }
+
+    if (before.championTeamId !== after.championTeamId) {
+      changes.push({
+        predictionId,
+        changeType: 'CHAMPION',
+        reference: null,
+        oldValue:
+          before.championTeamId === null
+            ? null
+            : { teamId: before.championTeamId },
+        newValue:
+          after.championTeamId === null
+            ? null
+            : { teamId: after.championTeamId },
+        source,
+      });
+    }
+
+    return changes;
+  }
+
+  /**
+   * Compara dos colecciones por clave y devuelve los valores que cambian
+   */
+  private diffByKey<T>(
+    before: T[],
+    after: T[],
+    keyOf: (item: T) => string,
+    valueOf: (item: T) => Record<string, unknown>,
+    replaced: boolean,
+  ): Pick<RecordPredictionChangeData, 'reference' | 'oldValue' | 'newValue'>[] {
+    const beforeByKey = new Map(before.map((item) => [keyOf(item), item]));
+    const afterKeys = new Set(after.map(keyOf));
+    const changes: Pick<
+      RecordPredictionChangeData,
+      'reference' | 'oldValue' | 'newValue'
+    >[] = [];
+
+    for (const item of after) {
+      const previous = beforeByKey.get(keyOf(item));
+      const oldValue = previous ? valueOf(previous) : null;
+      const newValue = valueOf(item);
+
+      if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+        changes.push({ reference: keyOf(item), oldValue, newValue });
+      }
+    }
+
+    if (replaced) {
+      for (const [key, item] of beforeByKey) {
+        if (!afterKeys.has(key)) {
+          changes.push({
+            reference: key,
+            oldValue: valueOf(item),
+            newValue: null,
+          });
+        }
+      }
+    }
+
+    return changes;
+  }
+}
@@ -0,0 +1,319 @@
+import { PredictionScoringService } from './prediction-scoring.service';
+import { Match, MatchPhase, MatchStatus } from '@domain/entities/match.entity';
+import { MatchPrediction } from '@domain/entities/match-prediction.entity';
+import { GroupStandingPrediction } from '@domain/entities/group-standing-prediction.entity';
+import { GroupStandingActual } from '@domain/entities/group-standing-actual.entity';
+import { DEFAULT_SCORING_RULES } from '@domain/constants/scoring-rules.constant';
+
+const SPAIN = 'team-spain';
+const GERMANY = 'team-germany';
+const FRANCE = 'team-france';
+const ITALY = 'team-italy';
+
+interface MatchOverrides {
+  phase?: MatchPhase;
+  homeTeamId?: string | null;
+  awayTeamId?: string | null;
+  homeScore?: number | null;
+  awayScore?: number | null;
+  homeScoreEt?: number | null;
+  awayScoreEt?: number | null;
+  homePenalties?: number | null;
+  awayPenalties?: number | null;
+  status?: MatchStatus;
+}
+
+const buildMatch = (overrides: MatchOverrides = {}): Match => {
+  const phase = overrides.phase ?? MatchPhase.QUARTER_FINAL;
+
+  return new Match(
+    'match-1',
+    97,
+    overrides.homeTeamId !== undefined ? overrides.homeTeamId : FRANCE,
+    overrides.awayTeamId !== undefined ? overrides.awayTeamId : ITALY,
+    null,
+    null,
+    'stadium-1',
+    phase === MatchPhase.GROUP_STAGE ? 'group-a' : null,
+    phase,
+    new Date('2026-07-09'),
+    '20:00',
+    overrides.homeScore !== undefined ? overrides.homeScore : 2,
+    overrides.awayScore !== undefined ? overrides.awayScore : 1,
+    overrides.homeScoreEt ?? null,
+    overrides.awayScoreEt ?? null,
+    overrides.homePenalties ?? null,
+    overrides.awayPenalties ?? null,
+    overrides.status ?? MatchStatus.FINISHED,
+    new Date('2026-07-09'),
+    null,
+    new Date('2026-06-01'),
+    new Date('2026-07-09'),
+  );
+};
+
+const buildPrediction = (
+  homeScore: number,
+  awayScore: number,
+  homeScoreET: number | null = null,
+  awayScoreET: number | null = null,
+  penaltiesWinner: 'home' | 'away' | null = null,
+): MatchPrediction =>
+  new MatchPrediction(
+    'match-prediction-1',
+    'prediction-1',
+    'match-1',
+    homeScore,
+    awayScore,
+    homeScoreET,
+    awayScoreET,
+    penaltiesWinner,
+    0,
+    {},
+    new Date('2026-06-01'),
+    new Date('2026-06-01'),
+  );
+
+const buildStanding = (position: number): GroupStandingPrediction =>
+  new GroupStandingPrediction(
+    'standing-1',
+    'prediction-1',
+    'group-a',
+    SPAIN,
+    position,
+    0,
+    0,
+    0,
+    0,
+    0,
+    0,
+    0,
+    0,
+    false,
+    null,
+    null,
+    0,
+    new Date('2026-06-01'),
+    new Date('2026-06-01'),
+  );
+
+const buildActual = (position: number): GroupStandingActual =>
+  new GroupStandingActual(
+    'actual-1',
+    'group-a',
+    SPAIN,
+    position,
+    0,
+    0,
+    0,
+    0,
+    0,
+    0,
+    0,
+    0,
+    new Date('2026-06-28'),
+    new Date('2026-06-28'),
+  );
+
+describe('PredictionScoringService', () => {
+  const service = new PredictionScoringService();
+  const rules = DEFAULT_SCORING_RULES;
+
+  describe('scoreMatchPrediction (knockout)', () => {
+    it('awards every criterion when the predicted fixture is the real one', () => {
+      const score = service.scoreMatchPrediction(
+        buildMatch(),
+        buildPrediction(2, 1),
+        { homeTeamId: FRANCE, awayTeamId: ITALY },
+      );
+
+      expect(score.pointsBreakdown).toEqual({
+        exactResult: rules.exactResult,
+        correct1X2: rules.correct1X2,
+        correctWinner: rules.correctWinner,
+        phaseBonus: rules.phaseBonus.QUARTER_FINAL,
+      });
+      expect(score.pointsEarned).toBe(
+        rules.exactResult +
+          rules.correct1X2 +
+          rules.correctWinner +
+          rules.phaseBonus.QUARTER_FINAL,
+      );
+    });
+
+    it('awards nothing when the predicted teams are different', () => {
+      const score = service.scoreMatchPrediction(
+        buildMatch(),
+        buildPrediction(2, 1),
+        { homeTeamId: SPAIN, awayTeamId: GERMANY },
+      );
+
+      expect(score).toEqual({ pointsEarned: 0, pointsBreakdown: {} });
+    });
+
+    it('awards the advancing team even if the rival is different', () => {
+      const score = service.scoreMatchPrediction(
+        buildMatch(),
+        buildPrediction(2, 1),
+        { homeTeamId: FRANCE, awayTeamId: GERMANY },
+      );
+
+      expect(score.pointsBreakdown).toEqual({
+        correctWinner: rules.correctWinner,
+        phaseBonus: rules.phaseBonus.QUARTER_FINAL,
+      });
+    });
+
+    it('compares the advancing team by id, not by side', () => {
+      // Predice que Francia (visitante en su cuadro) gana a Alemania
+      const score = service.scoreMatchPrediction(
+        buildMatch(),
+        buildPrediction(0, 1),
+        { homeTeamId: GERMANY, awayTeamId: FRANCE },
+      );
+
+      expect(score.pointsBreakdown).toEqual({
+        correctWinner: rules.correctWinner,
+        phaseBonus: rules.phaseBonus.QUARTER_FINAL,
+      });
+    });
+
+    it('awards nothing when the predicted bracket does not reach the match', () => {
+      const score = service.scoreMatchPrediction(
+        buildMatch(),
+        buildPrediction(2, 1),
+        { homeTeamId: null, awayTeamId: null },
+      );
+
+      expect(score.pointsEarned).toBe(0);
+    });
+
+    it('scores extra time and penalties only with the real fixture', () => {
+      const match = buildMatch({
+        homeScore: 1,
+        awayScore: 1,
+        homeScoreEt: 2,
+        awayScoreEt: 2,
+        homePenalties: 4,
+        awayPenalties: 3,
+      });
+      const prediction = buildPrediction(1, 1, 2, 2, 'home');
+
+      const sameFixture = service.scoreMatchPrediction(match, prediction, {
+        homeTeamId: FRANCE,
+        awayTeamId: ITALY,
+      });
+      const otherFixture = service.scoreMatchPrediction(match, prediction, {
+        homeTeamId: SPAIN,
+        awayTeamId: GERMANY,
+      });
+
+      expect(sameFixture.pointsBreakdown).toEqual({
+        exactResult: rules.exactResult,
+        correct1X2: rules.correct1X2,
+        correctWinner: rules.correctWinner,
+        phaseBonus: rules.phaseBonus.QUARTER_FINAL,
+        correctET: rules.correctET,
+        correctPenalties: rules.correctPenalties,
+      });
+      expect(otherFixture.pointsEarned).toBe(0);
+    });
+
+    it('uses the real fixture when no predicted teams are given', () => {
+      const score = service.scoreMatchPrediction(
+        buildMatch(),
+        buildPrediction(2, 1),
+        null,
+      );
+
+      expect(score.pointsBreakdown.exactResult).toBe(rules.exactResult);
+      expect(score.pointsBreakdown.correctWinner).toBe(rules.correctWinner);
+    });
+
+    it('awards nothing for a match that is not finished', () => {
+      const score = service.scoreMatchPrediction(
+        buildMatch({ status: MatchStatus.LIVE }),
+        buildPrediction(2, 1),
+        { homeTeamId: FRANCE, awayTeamId: ITALY },
+      );
+
+      expect(score.pointsEarned).toBe(0);
+    });
+  });
+
+  describe('getMaxMatchPredictionPoints (knockout)', () => {
+    const pending = (
+      homeTeamId: string | null,
+      awayTeamId: string | null,
+    ): Match =>
+      buildMatch({
+        homeTeamId,
+        awayTeamId,
+        homeScore: null,
+        awayScore: null,
+        status: MatchStatus.SCHEDULED,
+      });
+
+    const fullPoints =
+      rules.correct1X2 +
+      rules.exactResult +
+      rules.correctWinner +
+      rules.phaseBonus.QUARTER_FINAL;
+
+    it('keeps every criterion while the real teams are not defined', () => {
+      expect(
+        service.getMaxMatchPredictionPoints(
+          pending(null, null),
+          buildPrediction(2, 1),
+          { homeTeamId: SPAIN, awayTeamId: GERMANY },
+        ),
+      ).toBe(fullPoints);
+    });
+
+    it('keeps only the advancing team when the rival is different', () => {
+      expect(
+        service.getMaxMatchPredictionPoints(
+          pending(SPAIN, ITALY),
+          buildPrediction(2, 1),
+          { homeTeamId: SPAIN, awayTeamId: GERMANY },
+        ),
+      ).toBe(rules.correctWinner + rules.phaseBonus.QUARTER_FINAL);
+    });
+
+    it('gives nothing when the predicted winner cannot play the match', () => {
+      expect(
+        service.getMaxMatchPredictionPoints(
+          pending(FRANCE, ITALY),
+          buildPrediction(2, 1),
+          { homeTeamId: SPAIN, awayTeamId: GERMANY },
+        ),
+      ).toBe(0);
+    });
+  });
+
+  describe('scoreGroupStanding', () => {
+    it('awards the exact position', () => {
+      expect(service.scoreGroupStanding(buildStanding(2), buildActual(2))).toBe(
+        rules.groupExactPosition,
+      );
+    });
+
+    it('awards the qualification when both are in the top two', () => {
+      expect(service.scoreGroupStanding(buildStanding(1), buildActual(2))).toBe(
+        rules.groupQualification,
+      );
+    });
+
+    it('awards the qualification when both are outside the top two', () => {
+      expect(service.scoreGroupStanding(buildStanding(4), buildActual(3))).toBe(
+        rules.groupQualification,
+      );
+    });
+
+    it('awards nothing when the qualification is wrong', () => {
+      expect(service.scoreGroupStanding(buildStanding(2), buildActual(3))).toBe(
+        0,
+      );
+    });
+  });
+});
@@ -0,0 +1,360 @@
+import { Injectable } from '@nestjs/common';
+import type { Match } from '@domain/entities/match.entity';
+import type { GroupStandingPrediction } from '@domain/entities/group-standing-prediction.entity';
+import type { GroupStandingActual } from '@domain/entities/group-standing-actual.entity';
+import type { BestThirdPlacePrediction } from '@domain/entities/best-third-place-prediction.entity';
+import type { BestThirdPlaceActual } from '@domain/entities/best-third-place-actual.entity';
+import type { Prediction } from '@domain/entities/prediction.entity';
+import type { TournamentResult } from '@domain/entities/tournament-result.entity';
+import type {
+  MatchPrediction,
+  PointsBreakdown,
+} from '@domain/entities/match-prediction.entity';
+import {
+  DEFAULT_SCORING_RULES,
+  type ScoringRules,
+} from '@domain/constants/scoring-rules.constant';
+
+/**
+ * Resultado de puntuar una predicción de partido
+ */
+export interface MatchPredictionScore {
+  pointsEarned: number;
+  pointsBreakdown: PointsBreakdown;
+}
+
+/**
+ * Equipos que el usuario predijo para un partido de eliminatorias
+ * (resueltos con la cascada de su cuadro, null si la rama no llega al partido)
+ */
+export interface PredictedMatchTeams {
+  homeTeamId: string | null;
+  awayTeamId: string | null;
+}
+
+/**
+ * Desglose de puntos de premios individuales y campeón
+ */
+export interface AwardPoints {
+  champion: number;
+  goldenBoot: number;
+  goldenBall: number;
+  goldenGlove: number;
+  total: number;
+}
+
+/**
+ * PredictionScoringService
+ *
+ * Servicio helper que puntúa predicciones comparándolas con los resultados
+ * oficiales del torneo.
+ *
+ * Criterios (ver ScoringRules):
+ * 1. Partidos: 1X2 y resultado exacto en 90' (todas las fases)
+ * 2. Partidos: equipo que avanza, prórroga, penaltis y bonus de fase (solo eliminatorias)
+ * 3. Grupos: posición exacta o acierto de clasificación directa
+ * 4. Mejores terceros: tercero clasificado y ranking exacto
+ * 5. Premios: campeón, Golden Boot, Golden Ball y Golden Glove
+ *
+ * Notas:
+ * - En eliminatorias los equipos predichos salen del cuadro del usuario
+ *   (PredictedMatchTeams). El marcador (90', prórroga, penaltis) solo puntúa
+ *   si el cruce predicho es el real; el equipo que avanza y el bonus de fase
+ *   se comparan por equipo, aunque el rival sea otro
+ * - predictedTeams = null significa que el usuario predice el cruce real
+ *   (fase de grupos y ligas MATCHDAY, sin cuadro propio)
+ * - Los goles de prórroga son acumulados tanto en Match como en MatchPrediction
+ *
+ * Este servicio NO maneja persistencia, solo cálculos puros.
+ */
+@Injectable()
+export class PredictionScoringService {
+  /**
+   * Calcula los puntos de una predicción contra el resultado oficial
+   *
+   * @param match - Partido FINISHED con resultado registrado
+   * @param matchPrediction - Predicción del usuario para ese partido
+   * @param predictedTeams - Equipos predichos (null si predice el cruce real)
+   * @param rules - Reglas de puntuación (por defecto DEFAULT_SCORING_RULES)
+   * @returns Puntos totales y desglose (solo incluye los criterios acertados)
+   */
+  scoreMatchPrediction(
+    match: Match,
+    matchPrediction: MatchPrediction,
+    predictedTeams: PredictedMatchTeams | null,
+    rules: ScoringRules = DEFAULT_SCORING_RULES,
+  ): MatchPredictionScore {
+    const breakdown: PointsBreakdown = {};
+
+    if (!match.isFinished() || !match.hasResult()) {
+      return { pointsEarned: 0, pointsBreakdown: breakdown };
+    }
+
+    const teams = predictedTeams ?? {
+      homeTeamId: match.homeTeamId,
+      awayTeamId: match.awayTeamId,
+    };
+    const sameFixture =
+      teams.homeTeamId === match.homeTeamId &&
+      teams.awayTeamId === match.awayTeamId;
+
+    // 1. Resultado en 90 minutos (en eliminatorias, solo con el cruce real)
+    if (sameFixture && matchPrediction.getWinner90() === match.getWinner90()) {
+      breakdown.correct1X2 = rules.correct1X2;
+
+      if (
+        matchPrediction.homeScore === match.homeScore &&
+        matchPrediction.awayScore === match.awayScore
+      ) {
+        breakdown.exactResult = rules.exactResult;
+      }
+    }
+
+    // 2. Criterios exclusivos de eliminatorias
+    if (!match.isGroupStage()) {
+      const actualWinner = match.getFinalWinner();
+      const actualWinnerTeamId = this.getAdvancingTeamId(actualWinner, match);
+      const predictedWinnerTeamId = this.getAdvancingTeamId(
+        matchPrediction.getFinalWinner(),
+        teams,
+      );
+
+      // El equipo que avanza se compara por id, no por lado
+      if (
+        actualWinnerTeamId !== null &&
+        predictedWinnerTeamId === actualWinnerTeamId
+      ) {
+        breakdown.correctWinner = rules.correctWinner;
+
+        const phaseBonus = rules.phaseBonus[match.phase] ?? 0;
+        if (phaseBonus > 0) {
+          breakdown.phaseBonus = phaseBonus;
+        }
+      }
+
+      if (
+        sameFixture &&
+        match.hasExtraTime() &&
+        matchPrediction.hasExtraTime() &&
+        matchPrediction.homeScoreET === match.homeScoreEt &&
+        matchPrediction.awayScoreET === match.awayScoreEt
+      ) {
+        breakdown.correctET = rules.correctET;
+      }
+
+      if (
+        sameFixture &&
+        match.hasPenalties() &&
+        matchPrediction.hasPenalties() &&
+        matchPrediction.penaltiesWinner === actualWinner
+      ) {
+        breakdown.correctPenalties = rules.correctPenalties;
+      }
+    }
+
+    // 3. Eliminar criterios que otorgan 0 puntos (reglas personalizadas)
+    for (const key of Object.keys(breakdown) as (keyof PointsBreakdown)[]) {
+      if (!breakdown[key]) {
+        delete breakdown[key];
+      }
+    }
+
+    const pointsEarned = Object.values(breakdown).reduce(
+      (total, points) => total + (points ?? 0),
+      0,
+    );
+
+    return { pointsEarned, pointsBreakdown: breakdown };
+  }
+
+  /**
+   * Calcula el máximo de puntos que aún puede dar una predicción de un partido
+   * no finalizado (mismos criterios que scoreMatchPrediction)
+   *
+   * @param match - Partido pendiente
+   * @param matchPrediction - Predicción del usuario para ese partido
+   * @param predictedTeams - Equipos predichos aún vivos (null si predice el cruce real)
+   * @param rules - Reglas de puntuación (por defecto DEFAULT_SCORING_RULES)
+   * @returns Puntos si se acierta todo lo predicho
+   */
+  getMaxMatchPredictionPoints(
+    match: Match,
+    matchPrediction: MatchPrediction,
+    predictedTeams: PredictedMatchTeams | null,
+    rules: ScoringRules = DEFAULT_SCORING_RULES,
+  ): number {
+    if (match.isGroupStage()) {
+      return rules.correct1X2 + rules.exactResult;
+    }
+
+    // Un equipo predicho sigue siendo posible si coincide con el real
+    // o si ese lado del cruce aún no está definido
+    const canPlay = (teamId: string | null): boolean =>
+      teamId !== null &&
+      [match.homeTeamId, match.awayTeamId].some(
+        (actualTeamId) => actualTeamId === null || actualTeamId === teamId,
+      );
+
+    let points = 0;
+
+    const sameFixturePossible =
+      predictedTeams === null ||
+      (predictedTeams.homeTeamId !== null &&
+        predictedTeams.awayTeamId !== null &&
+        (match.homeTeamId === null ||
+          match.homeTeamId === predictedTeams.homeTeamId) &&
+        (match.awayTeamId === null ||
+          match.awayTeamId === predictedTeams.awayTeamId));
+
+    if (sameFixturePossible) {
+      points += rules.correct1X2 + rules.exactResult;
+
+      // Prórroga y penaltis solo puntúan si se predijeron
+      if (matchPrediction.hasExtraTime()) {
+        points += rules.correctET;
+      }
+
+      if (matchPrediction.hasPenalties()) {
+        points += rules.correctPenalties;
+      }
+    }
+
+    const finalWinner = matchPrediction.getFinalWinner();
+    const winnerPossible =
+      predictedTeams === null
+        ? finalWinner !== 'draw'
+        : canPlay(this.getAdvancingTeamId(finalWinner, predictedTeams));
+
+    if (winnerPossible) {
+      points += rules.correctWinner + (rules.phaseBonus[match.phase] ?? 0);
+    }
+
+    return points;
+  }
+
+  /**
+   * Obtiene el equipo que avanza según el ganador (local/visitante)
+   * @returns null si hay empate o el equipo de ese lado no está definido
+   */
+  private getAdvancingTeamId(
+    winner: 'home' | 'away' | 'draw' | null,
+    teams: PredictedMatchTeams,
+  ): string | null {
+    if (winner === 'home') {
+      return teams.homeTeamId;
+    }
+
+    if (winner === 'away') {
+      return teams.awayTeamId;
+    }
+
+    return null;
+  }
+
+  /**
+   * Calcula los puntos de una posición de grupo predicha contra la tabla oficial
+   *
+   * @param standing - Posición predicha de un equipo
+   * @param actual - Posición oficial del mismo equipo (grupo finalizado)
+   * @param rules - Reglas de puntuación (por defecto DEFAULT_SCORING_RULES)
+   * @returns Puntos ganados
+   */
+  scoreGroupStanding(
+    standing: GroupStandingPrediction,
+    actual: GroupStandingActual,
+    rules: ScoringRules = DEFAULT_SCORING_RULES,
+  ): number {
+    if (standing.position === actual.position) {
+      return rules.groupExactPosition;
+    }
+
+    if (
+      standing.qualifiesAsFirstOrSecond() === actual.qualifiesAsFirstOrSecond()
+    ) {
+      return rules.groupQualification;
+    }
+
+    return 0;
+  }
+
+  /**
+   * Calcula los puntos de un mejor tercero predicho contra el ranking oficial
+   *
+   * @param bestThird - Tercero predicho entre los 8 mejores
+   * @param actualBestThirds - Los 8 mejores terceros oficiales
+   * @param rules - Reglas de puntuación (por defecto DEFAULT_SCORING_RULES)
+   * @returns Puntos ganados
+   */
+  scoreBestThirdPlace(
+    bestThird: BestThirdPlacePrediction,
+    actualBestThirds: BestThirdPlaceActual[],
+    rules: ScoringRules = DEFAULT_SCORING_RULES,
+  ): number {
+    const actual = actualBestThirds.find(
+      (actualBestThird) => actualBestThird.teamId === bestThird.teamId,
+    );
+
+    if (!actual) {
+      return 0;
+    }
+
+    let points = rules.bestThirdQualified;
+
+    if (actual.rankingPosition === bestThird.rankingPosition) {
+      points += rules.bestThirdExactPosition;
+    }
+
+    return points;
+  }
+
+  /**
+   * Calcula los puntos de premios individuales y campeón de una predicción
+   *
+   * @param prediction - Predicción con premios y campeón elegidos
+   * @param tournamentResult - Ganadores oficiales (null si aún no hay ninguno)
+   * @returns Desglose por premio (0 si no acierta o el ganador está pendiente)
+   */
+  scoreAwards(
+    prediction: Prediction,
+    tournamentResult: TournamentResult | null,
+    rules: ScoringRules = DEFAULT_SCORING_RULES,
+  ): AwardPoints {
+    const isCorrect = (
+      predicted: string | null,
+      actual: string | null | undefined,
+    ): boolean => predicted !== null && predicted === actual;
+
+    const champion = isCorrect(
+      prediction.championTeamId,
+      tournamentResult?.championTeamId,
+    )
+      ? rules.correctChampion
+      : 0;
+    const goldenBoot = isCorrect(
+      prediction.goldenBootPlayerId,
+      tournamentResult?.goldenBootPlayerId,
+    )
+      ? rules.correctGoldenBoot
+      : 0;
+    const goldenBall = isCorrect(
+      prediction.goldenBallPlayerId,
+      tournamentResult?.goldenBallPlayerId,
+    )
+      ? rules.correctGoldenBall
+      : 0;
+    const goldenGlove = isCorrect(
+      prediction.goldenGlovePlayerId,
+      tournamentResult?.goldenGlovePlayerId,
+    )
+      ? rules.correctGoldenGlove
+      : 0;
+
+    return {
+      champion,
+      goldenBoot,
+      goldenBall,
+      goldenGlove,
+      total: champion + goldenBoot + goldenBall + goldenGlove,
+    };
+  }
+}
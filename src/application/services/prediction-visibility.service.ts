@@ -0,0 +1,94 @@
+import { Injectable } from '@nestjs/common';
+import type { Match } from '@domain/entities/match.entity';
+import type { League } from '@domain/entities/league.entity';
+
+/**
+ * Qué partes de las predicciones ajenas se pueden mostrar
+ */
+export interface PredictionVisibility {
+  visibleMatchIds: Set<string>;
+  visibleGroupIds: Set<string>; // Grupos con todos sus partidos visibles
+  groupStageVisible: boolean; // Toda la fase de grupos visible (mejores terceros)
+}
+
+/**
+ * PredictionVisibilityService
+ *
+ * Servicio helper con las reglas de qué predicciones de otros miembros se
+ * pueden mostrar. Lo usan todas las vistas que exponen picks ajenos
+ * (predicción de un miembro, comparación y consenso) para que ninguna
+ * permita saltarse las restricciones de la liga.
+ *
+ * Reglas:
+ * - Un partido es visible cuando ya no se puede editar: la predicción está
+ *   bloqueada o pasó el deadline del partido (en MATCHDAY solo cuenta el deadline)
+ * - Si la liga tiene hidePredictionsUntilKickoff, además el partido debe haber empezado
+ * - La tabla de un grupo solo es visible si lo son todos sus partidos, y los
+ *   mejores terceros si lo es toda la fase de grupos (se deducen de ellos)
+ */
+@Injectable()
+export class PredictionVisibilityService {
+  /**
+   * Verifica si la predicción de un partido ya se puede mostrar a otros miembros
+   *
+   * @param match - Partido
+   * @param league - Liga (modo de juego y hidePredictionsUntilKickoff)
+   * @param predictionLocked - Si las predicciones mostradas ya están bloqueadas
+   */
+  isMatchVisible(
+    match: Match,
+    league: League,
+    predictionLocked: boolean,
+  ): boolean {
+    const locked = league.isMatchdayMode()
+      ? match.arePredictionsLocked()
+      : predictionLocked || match.arePredictionsLocked();
+
+    if (!locked) {
+      return false;
+    }
+
+    return !league.hidePredictionsUntilKickoff || match.hasKickedOff();
+  }
+
+  /**
+   * Calcula partidos, grupos y fase de grupos visibles
+   *
+   * @param matches - Todos los partidos del torneo
+   * @param league - Liga
+   * @param predictionLocked - Si las predicciones mostradas ya están bloqueadas
+   * @param isOwner - El dueño de la predicción lo ve todo
+   */
+  getVisibility(
+    matches: Match[],
+    league: League,
+    predictionLocked: boolean,
+    isOwner = false,
+  ): PredictionVisibility {
+    const visibleMatchIds = new Set(
+      matches
+        .filter(
+          (match) =>
+            isOwner || this.isMatchVisible(match, league, predictionLocked),
+        )
+        .map((match) => match.id),
+    );
+
+    const groupMatches = matches.filter((match) => match.isGroupStage());
+    const visibleGroupIds = new Set(
+      groupMatches
+        .map((match) => match.groupId!)
+        .filter((groupId) =>
+          groupMatches.every(
+            (match) =>
+              match.groupId !== groupId || visibleMatchIds.has(match.id),
+          ),
+        ),
+    );
+    const groupStageVisible = groupMatches.every((match) =>
+      visibleMatchIds.has(match.id),
+    );
+
+    return { visibleMatchIds, visibleGroupIds, groupStageVisible };
+  }
+}
@@ -0,0 +1,101 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import type { ILeagueInvitationRepository } from '@domain/repositories/league-invitation.repository.interface';
+import type { IUserRepository } from '@domain/repositories/user.repository.interface';
+import type { IJwtRepository } from '@domain/repositories/jwt.repository.interface';
+import { JoinLeagueUseCase } from './join-league.use-case';
+
+/**
+ * AcceptLeagueInvitationUseCase (Application Layer)
+ *
+ * Caso de uso para unirse a una liga privada con el token recibido por email.
+ *
+ * Flujo:
+ * 1. Verificar el token (firma, caducidad y tipo 'league_invitation')
+ * 2. Validar que la invitación existe, sigue PENDING y no ha caducado
+ * 3. Validar que el usuario autenticado tiene el email invitado
+ * 4. Unirse con JoinLeagueUseCase (pago, email verificado, capacidad y
+ *    duplicados se validan igual que con código)
+ * 5. Marcar la invitación como ACCEPTED (el token ya no se puede reutilizar)
+ *
+ * Notas:
+ * - Si el paso 4 falla (ej: falta el pago) la invitación sigue pendiente y el
+ *   usuario puede volver a usar el enlace tras completar el requisito
+ */
+@Injectable()
+export class AcceptLeagueInvitationUseCase {
+  constructor(
+    @Inject('ILeagueInvitationRepository')
+    private readonly leagueInvitationRepository: ILeagueInvitationRepository,
+    @Inject('IUserRepository')
+    private readonly userRepository: IUserRepository,
+    @Inject('IJwtRepository')
+    private readonly jwtRepository: IJwtRepository,
+    private readonly joinLeagueUseCase: JoinLeagueUseCase,
+  ) {}
+
+  /**
+   * @param token - Token JWT de invitación
+   * @param userId - Usuario autenticado que acepta
+   * @returns UUID de la liga a la que se ha unido
+   * @throws UnauthorizedException si el token es inválido o ha expirado
+   * @throws NotFoundException si la invitación o el usuario no existen
+   * @throws BadRequestException si la invitación ya se usó, se revocó o caducó
+   * @throws ForbiddenException si el email del usuario no es el invitado
+   */
+  async execute(token: string, userId: string): Promise<{ leagueId: string }> {
+    // 1. Verificar token
+    let payload;
+    try {
+      payload = await this.jwtRepository.verifyLeagueInvitationToken(token);
+    } catch {
+      throw new UnauthorizedException('Invalid or expired invitation token');
+    }
+
+    // 2. Validar invitación
+    const invitation = await this.leagueInvitationRepository.findById(
+      payload.sub,
+    );
+
+    if (!invitation) {
+      throw new NotFoundException('Invitation not found');
+    }
+
+    if (!invitation.canBeAccepted()) {
+      throw new BadRequestException(
+        'This invitation has already been used, revoked or has expired',
+      );
+    }
+
+    // 3. Validar que el usuario es el invitado
+    const user = await this.userRepository.findById(userId);
+
+    if (!user) {
+      throw new NotFoundException(`User with id ${userId} not found`);
+    }
+
+    if (!invitation.isFor(user.email) || !invitation.isFor(payload.email)) {
+      throw new ForbiddenException(
+        'This invitation was sent to a different email address',
+      );
+    }
+
+    // 4. Unirse a la liga (mismas reglas que con código)
+    await this.joinLeagueUseCase.execute({
+      leagueId: invitation.leagueId,
+      userId,
+      viaInvitation: true,
+    });
+
+    // 5. Consumir la invitación
+    await this.leagueInvitationRepository.markAccepted(invitation.id, userId);
+
+    return { leagueId: invitation.leagueId };
+  }
+}
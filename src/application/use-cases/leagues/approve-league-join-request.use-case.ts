@@ -0,0 +1,140 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
+import type { ILeagueRepository } from '@domain/repositories/league.repository.interface';
+import { canManageLeague } from '@domain/constants/league-roles.constant';
+import type { ILeagueJoinRequestRepository } from '@domain/repositories/league-join-request.repository.interface';
+import type { ILeagueBanRepository } from '@domain/repositories/league-ban.repository.interface';
+import type { IUserRepository } from '@domain/repositories/user.repository.interface';
+import type { IEmailRepository } from '@domain/repositories/email.repository.interface';
+
+/**
+ * ApproveLeagueJoinRequestUseCase (Application Layer)
+ *
+ * Caso de uso para que el admin acepte una solicitud de unión.
+ *
+ * Flujo:
+ * 1. Validar liga, admin y solicitud PENDING de esa liga, y que el solicitante
+ *    no haya sido baneado después de pedir la unión
+ * 2. Validar que la liga no está llena (solo cuentan miembros aprobados)
+ * 3. Marcar la solicitud como APPROVED y agregar al usuario como miembro en
+ *    una transacción: solo quien reclama la solicitud PENDING lo agrega (si ya
+ *    era miembro, p. ej. por invitación, se da la solicitud por resuelta)
+ * 4. Avisar al usuario por email (fire and forget)
+ */
+@Injectable()
+export class ApproveLeagueJoinRequestUseCase {
+  constructor(
+    @Inject('ILeagueRepository')
+    private readonly leagueRepository: ILeagueRepository,
+    @Inject('ILeagueJoinRequestRepository')
+    private readonly leagueJoinRequestRepository: ILeagueJoinRequestRepository,
+    @Inject('ILeagueBanRepository')
+    private readonly leagueBanRepository: ILeagueBanRepository,
+    @Inject('IUserRepository')
+    private readonly userRepository: IUserRepository,
+    @Inject('IEmailRepository')
+    private readonly emailRepository: IEmailRepository,
+  ) {}
+
+  /**
+   * @param leagueId - UUID de la liga
+   * @param requestId - UUID de la solicitud
+   * @param adminUserId - UUID del admin que aprueba
+   * @throws NotFoundException si la liga, la solicitud o el usuario no existen
+   * @throws ForbiddenException si el usuario no es propietario ni co-admin
+   * @throws BadRequestException si la solicitud ya se decidió, el solicitante
+   *         está baneado o la liga está llena
+   */
+  async execute(
+    leagueId: string,
+    requestId: string,
+    adminUserId: string,
+  ): Promise<void> {
+    // 1. Validar liga, admin y solicitud
+    const league = await this.leagueRepository.findById(leagueId);
+
+    if (!league) {
+      throw new NotFoundException(`League with id ${leagueId} not found`);
+    }
+
+    const role = await this.leagueRepository.getMemberRole(
+      leagueId,
+      adminUserId,
+    );
+
+    if (!canManageLeague(role)) {
+      throw new ForbiddenException(
+        'Only the league owner or co-admins can approve join requests',
+      );
+    }
+
+    const request = await this.leagueJoinRequestRepository.findById(requestId);
+
+    if (!request || request.leagueId !== leagueId) {
+      throw new NotFoundException(
+        `Join request with id ${requestId} not found`,
+      );
+    }
+
+    if (!request.isPending()) {
+      throw new BadRequestException('Join request is no longer pending');
+    }
+
+    const ban = await this.leagueBanRepository.findByLeagueAndUser(
+      leagueId,
+      request.userId,
+    );
+
+    if (ban) {
+      throw new BadRequestException(
+        'User is banned from this league. Lift the ban before approving',
+      );
+    }
+
+    const user = await this.userRepository.findById(request.userId);
+
+    if (!user) {
+      throw new NotFoundException(`User with id ${request.userId} not found`);
+    }
+
+    // 2. Validar capacidad
+    const memberCount = await this.leagueRepository.getMemberCount(leagueId);
+
+    if (memberCount >= league.maxMembers) {
+      throw new BadRequestException(
+        `League has reached maximum capacity (${league.maxMembers} members)`,
+      );
+    }
+
+    // 3. Resolver la solicitud y agregar como miembro
+    const approved = await this.leagueJoinRequestRepository.approve(
+      requestId,
+      adminUserId,
+    );
+
+    if (!approved) {
+      throw new BadRequestException('Join request is no longer pending');
+    }
+
+    // 4. Avisar al usuario
+    this.emailRepository
+      .sendJoinRequestDecisionEmail(
+        user.email,
+        user.name,
+        league.id,
+        league.getNormalizedName(),
+        true,
+      )
+      .catch((error) => {
+        console.error(
+          `Failed to send join request approval email to ${user.email}:`,
+          error,
+        );
+      });
+  }
+}
@@ -0,0 +1,75 @@
+import {
+  Injectable,
+  Inject,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import type { ILeagueBanRepository } from '@domain/repositories/league-ban.repository.interface';
+import { RemoveMemberUseCase } from './remove-member.use-case';
+
+/**
+ * BanMemberUseCase (Application Layer)
+ *
+ * Caso de uso para expulsar a un miembro e impedir que vuelva a entrar.
+ *
+ * Flujo:
+ * 1. Validar con RemoveMemberUseCase (liga, permisos, jerarquía de roles y
+ *    pertenencia se validan igual que en una expulsión normal)
+ * 2. Expulsar y registrar el baneo con el motivo opcional en una única
+ *    transacción: si falla el baneo, el miembro no queda expulsado
+ *
+ * Notas:
+ * - El baneo se aplica en JoinLeagueUseCase, así que cubre todas las vías de
+ *   entrada: liga pública, código, invitación por email y solicitud
+ * - El motivo se muestra al usuario baneado cuando intenta volver a unirse
+ */
+@Injectable()
+export class BanMemberUseCase {
+  constructor(
+    @Inject('ILeagueBanRepository')
+    private readonly leagueBanRepository: ILeagueBanRepository,
+    private readonly removeMemberUseCase: RemoveMemberUseCase,
+  ) {}
+
+  /**
+   * @param leagueId - UUID de la liga
+   * @param adminUserId - UUID del propietario o co-admin que ejecuta la acción
+   * @param memberToBanId - UUID del miembro a expulsar y banear
+   * @param reason - Motivo opcional visible para el usuario baneado
+   * @throws NotFoundException si la liga no existe
+   * @throws ForbiddenException si el usuario no gestiona la liga o el miembro tiene un rol igual o superior
+   * @throws BadRequestException si intenta banearse a sí mismo o el miembro no existe
+   * @throws ConflictException si el usuario ya estaba baneado
+   */
+  async execute(
+    leagueId: string,
+    adminUserId: string,
+    memberToBanId: string,
+    reason?: string,
+  ): Promise<void> {
+    // 1. Validar la expulsión
+    await this.removeMemberUseCase.validate(
+      leagueId,
+      adminUserId,
+      memberToBanId,
+    );
+
+    // 2. Expulsar y banear
+    try {
+      await this.leagueBanRepository.removeMemberAndBan({
+        leagueId,
+        userId: memberToBanId,
+        bannedByUserId: adminUserId,
+        reason: reason?.trim() || null,
+      });
+    } catch (error: any) {
+      if (error.message === 'User is already banned from this league') {
+        throw new ConflictException(error.message);
+      }
+      if (error.message === 'User is not a member of this league') {
+        throw new BadRequestException(error.message);
+      }
+      throw error;
+    }
+  }
+}
@@ -6,7 +6,11 @@ import {
 } from '@nestjs/common';
 import type { ILeagueRepository } from '@domain/repositories/league.repository.interface';
 import type { IUserRepository } from '@domain/repositories/user.repository.interface';
-import type { League } from '@domain/entities/league.entity';
+import type {
+  League,
+  LeagueGameMode,
+  LeagueJoinPolicy,
+} from '@domain/entities/league.entity';
 
 /**
  * Datos de entrada para crear una liga
@@ -17,6 +21,9 @@ export interface CreateLeagueInput {
   type: 'public' | 'private';
   adminUserId: string;
   maxMembers?: number;
+  gameMode?: LeagueGameMode;
+  hidePredictionsUntilKickoff?: boolean;
+  joinPolicy?: LeagueJoinPolicy;
 }
 
 /**
@@ -89,6 +96,9 @@ export class CreateLeagueUseCase {
         type: input.type,
         adminUserId: input.adminUserId,
         maxMembers: input.maxMembers,
+        gameMode: input.gameMode,
+        hidePredictionsUntilKickoff: input.hidePredictionsUntilKickoff,
+        joinPolicy: input.joinPolicy,
       });
 
       return league;
@@ -13,11 +13,11 @@ import type { ILeagueRepository } from '@domain/repositories/league.repository.i
  *
  * Responsabilidades:
  * 1. Validar que la liga existe
- * 2. Validar que el usuario es el administrador de la liga
+ * 2. Validar que el usuario es el propietario (rol OWNER)
  * 3. Eliminar la liga (cascada elimina: miembros, predicciones)
  *
  * Reglas de negocio:
- * - Solo el admin puede eliminar la liga
+ * - Solo el propietario puede eliminar la liga (los co-admins no)
  * - La eliminación es física (hard delete)
  * - Se eliminan automáticamente: league_members, predictions (futuro)
  */
@@ -32,10 +32,10 @@ export class DeleteLeagueUseCase {
    * Ejecuta el caso de uso de eliminación de liga
    *
    * @param leagueId - UUID de la liga a eliminar
-   * @param userId - UUID del usuario que intenta eliminar (debe ser admin)
+   * @param userId - UUID del usuario que intenta eliminar (debe ser OWNER)
    * @returns void
    * @throws NotFoundException si la liga no existe
-   * @throws ForbiddenException si el usuario no es admin
+   * @throws ForbiddenException si el usuario no es el propietario
    */
   async execute(leagueId: string, userId: string): Promise<void> {
     // 1. Validar que la liga existe
@@ -45,10 +45,12 @@ export class DeleteLeagueUseCase {
       throw new NotFoundException(`League with id ${leagueId} not found`);
     }
 
-    // 2. Validar que el usuario es el administrador
-    if (!league.isAdmin(userId)) {
+    // 2. Validar que el usuario es el propietario
+    const role = await this.leagueRepository.getMemberRole(leagueId, userId);
+
+    if (role !== 'OWNER') {
       throw new ForbiddenException(
-        'Only the league admin can delete the league',
+        'Only the league owner can delete the league',
       );
     }
 
@@ -0,0 +1,82 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  ForbiddenException,
+} from '@nestjs/common';
+import type { ILeagueRepository } from '@domain/repositories/league.repository.interface';
+import { canManageLeague } from '@domain/constants/league-roles.constant';
+import type { ILeagueBanRepository } from '@domain/repositories/league-ban.repository.interface';
+import type { IUserRepository } from '@domain/repositories/user.repository.interface';
+import type { LeagueBan } from '@domain/entities/league-ban.entity';
+import type { User } from '@domain/entities/user.entity';
+
+/**
+ * Baneo junto con el usuario baneado
+ */
+export interface LeagueBanWithUser {
+  ban: LeagueBan;
+  user: User;
+}
+
+/**
+ * GetLeagueBansUseCase (Application Layer)
+ *
+ * Caso de uso para que el admin consulte la lista de baneados de la liga.
+ *
+ * Reglas de negocio:
+ * - Solo el propietario y los co-admins pueden ver la lista
+ * - Se devuelven del más reciente al más antiguo
+ * - Los baneos de usuarios que ya no existen se omiten
+ */
+@Injectable()
+export class GetLeagueBansUseCase {
+  constructor(
+    @Inject('ILeagueRepository')
+    private readonly leagueRepository: ILeagueRepository,
+    @Inject('ILeagueBanRepository')
+    private readonly leagueBanRepository: ILeagueBanRepository,
+    @Inject('IUserRepository')
+    private readonly userRepository: IUserRepository,
+  ) {}
+
+  /**
+   * @param leagueId - UUID de la liga
+   * @param adminUserId - UUID del admin que consulta
+   * @returns Baneos con los datos del usuario
+   * @throws NotFoundException si la liga no existe
+   * @throws ForbiddenException si el usuario no es propietario ni co-admin
+   */
+  async execute(
+    leagueId: string,
+    adminUserId: string,
+  ): Promise<LeagueBanWithUser[]> {
+    const league = await this.leagueRepository.findById(leagueId);
+
+    if (!league) {
+      throw new NotFoundException(`League with id ${leagueId} not found`);
+    }
+
+    const role = await this.leagueRepository.getMemberRole(
+      leagueId,
+      adminUserId,
+    );
+
+    if (!canManageLeague(role)) {
+      throw new ForbiddenException(
+        'Only the league owner or co-admins can view banned users',
+      );
+    }
+
+    const bans = await this.leagueBanRepository.findByLeague(leagueId);
+
+    const users = await Promise.all(
+      bans.map((ban) => this.userRepository.findById(ban.userId)),
+    );
+
+    return bans.flatMap((ban, index) => {
+      const user = users[index];
+      return user ? [{ ban, user }] : [];
+    });
+  }
+}
@@ -0,0 +1,60 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  ForbiddenException,
+} from '@nestjs/common';
+import type { ILeagueRepository } from '@domain/repositories/league.repository.interface';
+import { canManageLeague } from '@domain/constants/league-roles.constant';
+import type { ILeagueInvitationRepository } from '@domain/repositories/league-invitation.repository.interface';
+import type { LeagueInvitation } from '@domain/entities/league-invitation.entity';
+
+/**
+ * GetLeagueInvitationsUseCase (Application Layer)
+ *
+ * Caso de uso para que el admin consulte las invitaciones pendientes de su liga.
+ *
+ * Reglas de negocio:
+ * - Solo el propietario y los co-admins pueden verlas (incluyen emails de terceros)
+ * - Se incluyen las caducadas no revocadas (el admin puede reenviarlas)
+ */
+@Injectable()
+export class GetLeagueInvitationsUseCase {
+  constructor(
+    @Inject('ILeagueRepository')
+    private readonly leagueRepository: ILeagueRepository,
+    @Inject('ILeagueInvitationRepository')
+    private readonly leagueInvitationRepository: ILeagueInvitationRepository,
+  ) {}
+
+  /**
+   * @param leagueId - UUID de la liga
+   * @param adminUserId - UUID del admin que consulta
+   * @returns Invitaciones pendientes (más reciente primero)
+   * @throws NotFoundException si la liga no existe
+   * @throws ForbiddenException si el usuario no es propietario ni co-admin
+   */
+  async execute(
+    leagueId: string,
+    adminUserId: string,
+  ): Promise<LeagueInvitation[]> {
+    const league = await this.leagueRepository.findById(leagueId);
+
+    if (!league) {
+      throw new NotFoundException(`League with id ${leagueId} not found`);
+    }
+
+    const role = await this.leagueRepository.getMemberRole(
+      leagueId,
+      adminUserId,
+    );
+
+    if (!canManageLeague(role)) {
+      throw new ForbiddenException(
+        'Only the league owner or co-admins can view invitations',
+      );
+    }
+
+    return this.leagueInvitationRepository.findPendingByLeague(leagueId);
+  }
+}
@@ -0,0 +1,83 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  ForbiddenException,
+} from '@nestjs/common';
+import type { ILeagueRepository } from '@domain/repositories/league.repository.interface';
+import { canManageLeague } from '@domain/constants/league-roles.constant';
+import type { ILeagueJoinRequestRepository } from '@domain/repositories/league-join-request.repository.interface';
+import type { IUserRepository } from '@domain/repositories/user.repository.interface';
+import type { LeagueJoinRequest } from '@domain/entities/league-join-request.entity';
+import type { User } from '@domain/entities/user.entity';
+
+/**
+ * Solicitud pendiente junto con el usuario que la hizo
+ */
+export interface LeagueJoinRequestWithUser {
+  request: LeagueJoinRequest;
+  user: User;
+}
+
+/**
+ * GetLeagueJoinRequestsUseCase (Application Layer)
+ *
+ * Caso de uso para que el admin consulte las solicitudes de unión pendientes.
+ *
+ * Reglas de negocio:
+ * - Solo el propietario y los co-admins pueden ver las solicitudes
+ * - Se devuelven en orden de llegada (más antigua primero)
+ * - Las solicitudes de usuarios que ya no existen se omiten
+ */
+@Injectable()
+export class GetLeagueJoinRequestsUseCase {
+  constructor(
+    @Inject('ILeagueRepository')
+    private readonly leagueRepository: ILeagueRepository,
+    @Inject('ILeagueJoinRequestRepository')
+    private readonly leagueJoinRequestRepository: ILeagueJoinRequestRepository,
+    @Inject('IUserRepository')
+    private readonly userRepository: IUserRepository,
+  ) {}
+
+  /**
+   * @param leagueId - UUID de la liga
+   * @param adminUserId - UUID del admin que consulta
+   * @returns Solicitudes pendientes con los datos del usuario
+   * @throws NotFoundException si la liga no existe
+   * @throws ForbiddenException si el usuario no es propietario ni co-admin
+   */
+  async execute(
+    leagueId: string,
+    adminUserId: string,
+  ): Promise<LeagueJoinRequestWithUser[]> {
+    const league = await this.leagueRepository.findById(leagueId);
+
+    if (!league) {
+      throw new NotFoundException(`League with id ${leagueId} not found`);
+    }
+
+    const role = await this.leagueRepository.getMemberRole(
+      leagueId,
+      adminUserId,
+    );
+
+    if (!canManageLeague(role)) {
+      throw new ForbiddenException(
+        'Only the league owner or co-admins can view join requests',
+      );
+    }
+
+    const requests =
+      await this.leagueJoinRequestRepository.findPendingByLeague(leagueId);
+
+    const users = await Promise.all(
+      requests.map((request) => this.userRepository.findById(request.userId)),
+    );
+
+    return requests.flatMap((request, index) => {
+      const user = users[index];
+      return user ? [{ request, user }] : [];
+    });
+  }
+}
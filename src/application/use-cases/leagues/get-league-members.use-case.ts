@@ -1,6 +1,15 @@
 import { Injectable, Inject, NotFoundException } from '@nestjs/common';
 import type { ILeagueRepository } from '@domain/repositories/league.repository.interface';
 import type { User } from '@domain/entities/user.entity';
+import type { LeagueMemberRole } from '@domain/constants/league-roles.constant';
+
+/**
+ * Miembro de una liga junto con su rol
+ */
+export interface LeagueMemberWithRole {
+  user: User;
+  role: LeagueMemberRole;
+}
 
 /**
  * GetLeagueMembersUseCase (Application Layer)
@@ -9,8 +18,8 @@ import type { User } from '@domain/entities/user.entity';
  *
  * Responsabilidades:
  * 1. Validar que la liga existe
- * 2. Obtener todos los miembros de la liga
- * 3. Retornar array de usuarios ordenados por fecha de ingreso
+ * 2. Obtener todos los miembros de la liga y sus roles
+ * 3. Retornar array de miembros ordenados por fecha de ingreso
  *
  * Útil para:
  * - Mostrar lista de miembros en la liga
@@ -28,10 +37,10 @@ export class GetLeagueMembersUseCase {
    * Ejecuta el caso de uso
    *
    * @param leagueId - UUID de la liga
-   * @returns Array de usuarios miembros (ordenados por joined_at ASC)
+   * @returns Array de miembros con su rol (ordenados por joined_at ASC)
    * @throws NotFoundException si la liga no existe
    */
-  async execute(leagueId: string): Promise<User[]> {
+  async execute(leagueId: string): Promise<LeagueMemberWithRole[]> {
     // 1. Validar que la liga existe
     const league = await this.leagueRepository.findById(leagueId);
 
@@ -39,7 +48,15 @@ export class GetLeagueMembersUseCase {
       throw new NotFoundException(`League with id ${leagueId} not found`);
     }
 
-    // 2. Obtener miembros
-    return this.leagueRepository.getMembers(leagueId);
+    // 2. Obtener miembros y roles
+    const [members, roles] = await Promise.all([
+      this.leagueRepository.getMembers(leagueId),
+      this.leagueRepository.getMemberRoles(leagueId),
+    ]);
+
+    return members.map((user) => ({
+      user,
+      role: roles.get(user.id) ?? 'MEMBER',
+    }));
   }
 }
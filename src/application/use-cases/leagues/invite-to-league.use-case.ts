@@ -0,0 +1,206 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  ForbiddenException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import type { ILeagueRepository } from '@domain/repositories/league.repository.interface';
+import { canManageLeague } from '@domain/constants/league-roles.constant';
+import type { ILeagueInvitationRepository } from '@domain/repositories/league-invitation.repository.interface';
+import type { ILeagueBanRepository } from '@domain/repositories/league-ban.repository.interface';
+import type { IUserRepository } from '@domain/repositories/user.repository.interface';
+import type { IJwtRepository } from '@domain/repositories/jwt.repository.interface';
+import type { IEmailRepository } from '@domain/repositories/email.repository.interface';
+import { LeagueInvitation } from '@domain/entities/league-invitation.entity';
+
+/**
+ * Días de validez de una invitación (debe coincidir con la expiración del JWT)
+ */
+const INVITATION_EXPIRATION_DAYS = 7;
+
+/**
+ * InviteToLeagueUseCase (Application Layer)
+ *
+ * Caso de uso para que el admin de una liga invite a alguien por email.
+ *
+ * Responsabilidades:
+ * 1. Validar que la liga existe, admite invitaciones y el usuario es el admin
+ * 2. Validar que el email no es ya miembro, no está baneado y no tiene otra
+ *    invitación vigente
+ * 3. Validar que la liga no está llena
+ * 4. Crear la invitación (league_invitations) con caducidad de 7 días
+ * 5. Generar el token firmado y enviarlo por email
+ *
+ * Reglas de negocio:
+ * - Solo ligas privadas o con política APPROVAL / INVITE_ONLY (las públicas
+ *   de acceso libre no necesitan invitación)
+ * - Aceptar la invitación no pasa por la aprobación del admin (ya invitó él)
+ * - Una sola invitación PENDING vigente por email y liga (para reenviar, usar resend)
+ * - Al reenviar, la invitación sustituida se revoca solo después de crear la
+ *   nueva: si alguna validación falla, el enlace anterior sigue funcionando
+ * - Las invitaciones pendientes ya caducadas se revocan al invitar de nuevo
+ * - Los requisitos de pago y email verificado se comprueban al aceptar
+ */
+@Injectable()
+export class InviteToLeagueUseCase {
+  constructor(
+    @Inject('ILeagueRepository')
+    private readonly leagueRepository: ILeagueRepository,
+    @Inject('ILeagueInvitationRepository')
+    private readonly leagueInvitationRepository: ILeagueInvitationRepository,
+    @Inject('ILeagueBanRepository')
+    private readonly leagueBanRepository: ILeagueBanRepository,
+    @Inject('IUserRepository')
+    private readonly userRepository: IUserRepository,
+    @Inject('IJwtRepository')
+    private readonly jwtRepository: IJwtRepository,
+    @Inject('IEmailRepository')
+    private readonly emailRepository: IEmailRepository,
+  ) {}
+
+  /**
+   * @param leagueId - UUID de la liga
+   * @param adminUserId - UUID del admin que invita
+   * @param email - Email de la persona invitada
+   * @param replacedInvitationId - Invitación pendiente que sustituye (reenvío)
+   * @returns La invitación creada
+   * @throws NotFoundException si la liga no existe
+   * @throws ForbiddenException si el usuario no es propietario ni co-admin
+   * @throws BadRequestException si la liga no admite invitaciones, está llena o
+   *         el usuario invitado está baneado
+   * @throws ConflictException si el email ya es miembro o tiene invitación vigente
+   */
+  async execute(
+    leagueId: string,
+    adminUserId: string,
+    email: string,
+    replacedInvitationId?: string,
+  ): Promise<LeagueInvitation> {
+    // 1. Validar liga y admin
+    const league = await this.leagueRepository.findById(leagueId);
+
+    if (!league) {
+      throw new NotFoundException(`League with id ${leagueId} not found`);
+    }
+
+    const role = await this.leagueRepository.getMemberRole(
+      leagueId,
+      adminUserId,
+    );
+
+    if (!canManageLeague(role)) {
+      throw new ForbiddenException(
+        'Only the league owner or co-admins can invite members',
+      );
+    }
+
+    if (!league.acceptsInvitations()) {
+      throw new BadRequestException(
+        'Invitations are not available for public leagues open to everyone',
+      );
+    }
+
+    // 2. Validar que el email no es ya miembro, no está baneado ni tiene invitación vigente
+    const normalizedEmail = LeagueInvitation.normalizeEmail(email);
+    const invitedUser = await this.userRepository.findByEmail(normalizedEmail);
+
+    if (
+      invitedUser &&
+      (await this.leagueRepository.isMember(leagueId, invitedUser.id))
+    ) {
+      throw new ConflictException(
+        'This user is already a member of the league',
+      );
+    }
+
+    if (
+      invitedUser &&
+      (await this.leagueBanRepository.findByLeagueAndUser(
+        leagueId,
+        invitedUser.id,
+      ))
+    ) {
+      throw new BadRequestException(
+        'This user is banned from the league. Lift the ban before inviting them',
+      );
+    }
+
+    const pending =
+      await this.leagueInvitationRepository.findPendingByLeagueAndEmail(
+        leagueId,
+        normalizedEmail,
+      );
+
+    const replacesPending = pending?.id === replacedInvitationId;
+
+    if (pending && !pending.isExpired() && !replacesPending) {
+      throw new ConflictException(
+        'There is already a pending invitation for this email. Resend it instead',
+      );
+    }
+
+    if (pending && !replacesPending) {
+      await this.leagueInvitationRepository.revoke(pending.id);
+    }
+
+    // 3. Validar que la liga no está llena
+    const memberCount = await this.leagueRepository.getMemberCount(leagueId);
+
+    if (memberCount >= league.maxMembers) {
+      throw new BadRequestException(
+        `League has reached maximum capacity (${league.maxMembers} members)`,
+      );
+    }
+
+    // 4. Crear la invitación
+    const expiresAt = new Date(
+      Date.now() + INVITATION_EXPIRATION_DAYS * 24 * 60 * 60 * 1000,
+    );
+    const invitation = await this.leagueInvitationRepository.create({
+      leagueId,
+      email: normalizedEmail,
+      invitedByUserId: adminUserId,
+      expiresAt,
+    });
+
+    // En un reenvío, revocar la anterior ahora que existe la nueva. Si ya no
+    // estaba pendiente (se aceptó o revocó entretanto), se anula la nueva
+    if (replacedInvitationId) {
+      const revoked =
+        await this.leagueInvitationRepository.revoke(replacedInvitationId);
+
+      if (!revoked) {
+        await this.leagueInvitationRepository.revoke(invitation.id);
+        throw new BadRequestException('Invitation is no longer pending');
+      }
+    }
+
+    // 5. Generar token y enviar email (fire and forget - no bloquea)
+    const [token, admin] = await Promise.all([
+      this.jwtRepository.generateLeagueInvitationToken(
+        invitation.id,
+        invitation.email,
+      ),
+      this.userRepository.findById(adminUserId),
+    ]);
+
+    this.emailRepository
+      .sendLeagueInvitationEmail(
+        invitation.email,
+        token,
+        league.getNormalizedName(),
+        admin?.name ?? 'El admin de la liga',
+        invitation.expiresAt,
+      )
+      .catch((error) => {
+        console.error(
+          `Failed to send league invitation email to ${invitation.email}:`,
+          error,
+        );
+      });
+
+    return invitation;
+  }
+}
@@ -8,6 +8,8 @@ import {
 } from '@nestjs/common';
 import type { ILeagueRepository } from '@domain/repositories/league.repository.interface';
 import type { IUserRepository } from '@domain/repositories/user.repository.interface';
+import type { ILeagueJoinRequestRepository } from '@domain/repositories/league-join-request.repository.interface';
+import type { ILeagueBanRepository } from '@domain/repositories/league-ban.repository.interface';
 
 /**
  * Datos de entrada para unirse a una liga
@@ -16,30 +18,44 @@ export interface JoinLeagueInput {
   leagueId: string;
   userId: string;
   code?: string; // Solo requerido para ligas privadas
+  viaInvitation?: boolean; // Invitación por email ya validada: no se exige código ni aprobación
 }
 
+/**
+ * Resultado de intentar unirse a una liga
+ * - JOINED: el usuario ya es miembro
+ * - PENDING_APPROVAL: se ha creado una solicitud que el admin debe aprobar
+ */
+export type JoinLeagueResult = 'JOINED' | 'PENDING_APPROVAL';
+
 /**
  * JoinLeagueUseCase (Application Layer)
  *
  * Caso de uso para que un usuario se una a una liga.
  *
  * Responsabilidades:
- * 1. Validar que la liga existe
+ * 1. Validar que la liga existe, el usuario no está baneado y la política de
+ *    acceso permite unirse
  * 2. Validar que el usuario existe y está activo
  * 3. Validar que el usuario ha pagado (hasPaid = true)
  * 4. Validar que el usuario ha verificado su email (isEmailVerified = true)
  * 5. Validar que el usuario no es ya miembro
  * 6. Validar que la liga no ha alcanzado el límite de miembros
  * 7. Si liga privada, validar código de invitación
- * 8. Agregar usuario como miembro
+ * 8. Si la liga requiere aprobación, crear solicitud pendiente
+ * 9. Agregar usuario como miembro
  *
  * Reglas de negocio:
  * - Solo usuarios con has_paid = true pueden unirse a ligas
  * - Solo usuarios con email_verified = true pueden unirse a ligas
  * - Ligas públicas: unión automática (sin código)
- * - Ligas privadas: requiere invite_code válido
- * - No se puede exceder max_members
+ * - Ligas privadas: requiere invite_code válido (o una invitación por email aceptada)
+ * - Política INVITE_ONLY: solo se entra aceptando una invitación por email
+ * - Política APPROVAL: se crea una solicitud PENDING (una por usuario y liga)
+ *   y el usuario no es miembro hasta que el admin la aprueba
+ * - No se puede exceder max_members (solo cuentan los miembros aprobados)
  * - No se puede unirse dos veces a la misma liga
+ * - Un usuario baneado no puede unirse por ninguna vía (tampoco con invitación)
  */
 @Injectable()
 export class JoinLeagueUseCase {
@@ -48,19 +64,24 @@ export class JoinLeagueUseCase {
     private readonly leagueRepository: ILeagueRepository,
     @Inject('IUserRepository')
     private readonly userRepository: IUserRepository,
+    @Inject('ILeagueJoinRequestRepository')
+    private readonly leagueJoinRequestRepository: ILeagueJoinRequestRepository,
+    @Inject('ILeagueBanRepository')
+    private readonly leagueBanRepository: ILeagueBanRepository,
   ) {}
 
   /**
    * Ejecuta el caso de uso de unirse a una liga
    *
    * @param input - Datos para unirse (leagueId, userId, inviteCode)
-   * @returns void
+   * @returns JOINED si ya es miembro, PENDING_APPROVAL si queda pendiente del admin
    * @throws NotFoundException si la liga o usuario no existe
-   * @throws ForbiddenException si el usuario no ha pagado o no ha verificado email
-   * @throws ConflictException si el usuario ya es miembro
+   * @throws ForbiddenException si el usuario está baneado, no ha pagado, no ha
+   *         verificado email o la liga es solo por invitación
+   * @throws ConflictException si el usuario ya es miembro o tiene una solicitud pendiente
    * @throws BadRequestException si la liga está llena o falta invite_code
    */
-  async execute(input: JoinLeagueInput): Promise<void> {
+  async execute(input: JoinLeagueInput): Promise<JoinLeagueResult> {
     // 1. Validar que la liga existe
     const league = await this.leagueRepository.findById(input.leagueId);
 
@@ -70,6 +91,21 @@ export class JoinLeagueUseCase {
       );
     }
 
+    const ban = await this.leagueBanRepository.findByLeagueAndUser(
+      input.leagueId,
+      input.userId,
+    );
+
+    if (ban) {
+      throw new ForbiddenException(ban.getMessageForUser());
+    }
+
+    if (league.isInviteOnly() && !input.viaInvitation) {
+      throw new ForbiddenException(
+        'This league can only be joined through an invitation',
+      );
+    }
+
     // 2. Validar que el usuario existe
     const user = await this.userRepository.findById(input.userId);
 
@@ -110,8 +146,8 @@ export class JoinLeagueUseCase {
       );
     }
 
-    // 7. Si liga privada, validar código
-    if (league.isPrivate()) {
+    // 7. Si liga privada, validar código (salvo invitación por email)
+    if (league.isPrivate() && !input.viaInvitation) {
       if (!input.code) {
         throw new BadRequestException(
           'Code is required for private leagues',
@@ -127,7 +163,29 @@ export class JoinLeagueUseCase {
       }
     }
 
-    // 8. Agregar usuario como miembro
+    // 8. Si la liga requiere aprobación, crear solicitud (salvo invitación por email)
+    if (league.requiresApproval() && !input.viaInvitation) {
+      const pendingRequest =
+        await this.leagueJoinRequestRepository.findPendingByLeagueAndUser(
+          input.leagueId,
+          input.userId,
+        );
+
+      if (pendingRequest) {
+        throw new ConflictException(
+          'You already have a pending join request for this league',
+        );
+      }
+
+      await this.leagueJoinRequestRepository.create(
+        input.leagueId,
+        input.userId,
+      );
+
+      return 'PENDING_APPROVAL';
+    }
+
+    // 9. Agregar usuario como miembro
     try {
       await this.leagueRepository.addMember(input.leagueId, input.userId);
     } catch (error: any) {
@@ -137,5 +195,7 @@ export class JoinLeagueUseCase {
       }
       throw error;
     }
+
+    return 'JOINED';
   }
 }
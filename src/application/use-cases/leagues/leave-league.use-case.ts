@@ -15,12 +15,12 @@ import type { ILeagueRepository } from '@domain/repositories/league.repository.i
  * 1. Validar que la liga existe
  * 2. Validar que el usuario es miembro
  * 3. Si el usuario es admin:
- *    a. Si hay otros miembros: transferir admin al miembro más antiguo
+ *    a. Si hay otros miembros: transferir admin al miembro más antiguo (co-admins primero)
  *    b. Si es el único miembro: eliminar la liga completa
  * 4. Si el usuario no es admin: simplemente eliminar del registro
  *
  * Reglas de negocio:
- * - Admin que sale transfiere rol al miembro más antiguo automáticamente
+ * - Admin que sale transfiere rol al miembro más antiguo automáticamente (co-admins primero)
  * - Si admin es el único miembro, se elimina la liga completa
  * - Usuario normal puede salir libremente
  * - Al salir se eliminan sus predicciones en esa liga (futuro)
@@ -0,0 +1,68 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  ForbiddenException,
+} from '@nestjs/common';
+import type { ILeagueRepository } from '@domain/repositories/league.repository.interface';
+import { canManageLeague } from '@domain/constants/league-roles.constant';
+import type { ILeagueBanRepository } from '@domain/repositories/league-ban.repository.interface';
+
+/**
+ * LiftLeagueBanUseCase (Application Layer)
+ *
+ * Caso de uso para que el admin levante el baneo de un usuario.
+ *
+ * Reglas de negocio:
+ * - Solo el propietario y los co-admins pueden levantar baneos
+ * - Levantar el baneo no devuelve al usuario a la liga: debe volver a unirse
+ *   por la vía que permita la política de acceso
+ */
+@Injectable()
+export class LiftLeagueBanUseCase {
+  constructor(
+    @Inject('ILeagueRepository')
+    private readonly leagueRepository: ILeagueRepository,
+    @Inject('ILeagueBanRepository')
+    private readonly leagueBanRepository: ILeagueBanRepository,
+  ) {}
+
+  /**
+   * @param leagueId - UUID de la liga
+   * @param adminUserId - UUID del admin que levanta el baneo
+   * @param bannedUserId - UUID del usuario baneado
+   * @throws NotFoundException si la liga no existe o el usuario no está baneado
+   * @throws ForbiddenException si el usuario no es propietario ni co-admin
+   */
+  async execute(
+    leagueId: string,
+    adminUserId: string,
+    bannedUserId: string,
+  ): Promise<void> {
+    const league = await this.leagueRepository.findById(leagueId);
+
+    if (!league) {
+      throw new NotFoundException(`League with id ${leagueId} not found`);
+    }
+
+    const role = await this.leagueRepository.getMemberRole(
+      leagueId,
+      adminUserId,
+    );
+
+    if (!canManageLeague(role)) {
+      throw new ForbiddenException(
+        'Only the league owner or co-admins can lift bans',
+      );
+    }
+
+    const lifted = await this.leagueBanRepository.delete(
+      leagueId,
+      bannedUserId,
+    );
+
+    if (!lifted) {
+      throw new NotFoundException('User is not banned from this league');
+    }
+  }
+}
@@ -0,0 +1,106 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
+import type { ILeagueRepository } from '@domain/repositories/league.repository.interface';
+import { canManageLeague } from '@domain/constants/league-roles.constant';
+import type { ILeagueJoinRequestRepository } from '@domain/repositories/league-join-request.repository.interface';
+import type { IUserRepository } from '@domain/repositories/user.repository.interface';
+import type { IEmailRepository } from '@domain/repositories/email.repository.interface';
+
+/**
+ * RejectLeagueJoinRequestUseCase (Application Layer)
+ *
+ * Caso de uso para que el admin rechace una solicitud de unión.
+ *
+ * Reglas de negocio:
+ * - Solo el propietario o un co-admin pueden rechazar
+ * - Solo se pueden rechazar solicitudes PENDING de esa liga
+ * - El usuario recibe un email con la decisión y puede volver a solicitarlo
+ */
+@Injectable()
+export class RejectLeagueJoinRequestUseCase {
+  constructor(
+    @Inject('ILeagueRepository')
+    private readonly leagueRepository: ILeagueRepository,
+    @Inject('ILeagueJoinRequestRepository')
+    private readonly leagueJoinRequestRepository: ILeagueJoinRequestRepository,
+    @Inject('IUserRepository')
+    private readonly userRepository: IUserRepository,
+    @Inject('IEmailRepository')
+    private readonly emailRepository: IEmailRepository,
+  ) {}
+
+  /**
+   * @param leagueId - UUID de la liga
+   * @param requestId - UUID de la solicitud
+   * @param adminUserId - UUID del admin que rechaza
+   * @throws NotFoundException si la liga o la solicitud no existen
+   * @throws ForbiddenException si el usuario no es propietario ni co-admin
+   * @throws BadRequestException si la solicitud ya se decidió
+   */
+  async execute(
+    leagueId: string,
+    requestId: string,
+    adminUserId: string,
+  ): Promise<void> {
+    const league = await this.leagueRepository.findById(leagueId);
+
+    if (!league) {
+      throw new NotFoundException(`League with id ${leagueId} not found`);
+    }
+
+    const role = await this.leagueRepository.getMemberRole(
+      leagueId,
+      adminUserId,
+    );
+
+    if (!canManageLeague(role)) {
+      throw new ForbiddenException(
+        'Only the league owner or co-admins can reject join requests',
+      );
+    }
+
+    const request = await this.leagueJoinRequestRepository.findById(requestId);
+
+    if (!request || request.leagueId !== leagueId) {
+      throw new NotFoundException(
+        `Join request with id ${requestId} not found`,
+      );
+    }
+
+    const decided = await this.leagueJoinRequestRepository.markDecided(
+      requestId,
+      'REJECTED',
+      adminUserId,
+    );
+
+    if (!decided) {
+      throw new BadRequestException('Join request is no longer pending');
+    }
+
+    const user = await this.userRepository.findById(request.userId);
+
+    if (!user) {
+      return;
+    }
+
+    this.emailRepository
+      .sendJoinRequestDecisionEmail(
+        user.email,
+        user.name,
+        league.id,
+        league.getNormalizedName(),
+        false,
+      )
+      .catch((error) => {
+        console.error(
+          `Failed to send join request rejection email to ${user.email}:`,
+          error,
+        );
+      });
+  }
+}
@@ -6,22 +6,29 @@ import {
   BadRequestException,
 } from '@nestjs/common';
 import type { ILeagueRepository } from '@domain/repositories/league.repository.interface';
+import {
+  canManageLeague,
+  canRemoveMemberWithRole,
+} from '@domain/constants/league-roles.constant';
 
 /**
  * RemoveMemberUseCase (Application Layer)
  *
- * Caso de uso para que el admin expulse a un miembro de la liga.
+ * Caso de uso para que el propietario o un co-admin expulse a un miembro.
  *
  * Responsabilidades:
  * 1. Validar que la liga existe
- * 2. Validar que el usuario que ejecuta es el admin
- * 3. Validar que el miembro a expulsar es miembro de la liga
- * 4. Validar que el admin no se expulse a sí mismo (debe usar LeaveLeague)
- * 5. Expulsar al miembro
+ * 2. Validar que el usuario que ejecuta gestiona la liga (OWNER o CO_ADMIN)
+ * 3. Validar que no se expulse a sí mismo (debe usar LeaveLeague)
+ * 4. Validar que el miembro a expulsar es miembro de la liga
+ * 5. Validar la jerarquía de roles
+ * 6. Expulsar al miembro
  *
  * Reglas de negocio:
- * - Solo el admin puede expulsar miembros
- * - El admin no puede expulsarse a sí mismo (debe usar leave)
+ * - Solo el propietario y los co-admins pueden expulsar miembros
+ * - Solo se expulsa a roles inferiores: el propietario expulsa a co-admins y
+ *   miembros, un co-admin solo a miembros, y nadie al propietario
+ * - Nadie puede expulsarse a sí mismo (debe usar leave)
  * - Al expulsar se eliminan las predicciones del usuario en esa liga (futuro)
  */
 @Injectable()
@@ -35,17 +42,41 @@ export class RemoveMemberUseCase {
    * Ejecuta el caso de uso de expulsar un miembro
    *
    * @param leagueId - UUID de la liga
-   * @param adminUserId - UUID del admin que ejecuta la acción
+   * @param adminUserId - UUID del propietario o co-admin que ejecuta la acción
    * @param memberToRemoveId - UUID del miembro a expulsar
    * @returns void
    * @throws NotFoundException si la liga no existe
-   * @throws ForbiddenException si el usuario no es admin
+   * @throws ForbiddenException si el usuario no gestiona la liga o el miembro tiene un rol igual o superior
    * @throws BadRequestException si intenta expulsarse a sí mismo o el miembro no existe
    */
   async execute(
     leagueId: string,
     adminUserId: string,
     memberToRemoveId: string,
+  ): Promise<void> {
+    // 1-5. Validaciones
+    await this.validate(leagueId, adminUserId, memberToRemoveId);
+
+    // 6. Expulsar al miembro
+    try {
+      await this.leagueRepository.removeMember(leagueId, memberToRemoveId);
+    } catch (error: any) {
+      throw error;
+    }
+  }
+
+  /**
+   * Valida que el usuario puede expulsar al miembro (pasos 1-5), sin expulsarlo
+   * Usado también por BanMemberUseCase, que expulsa y banea en una transacción
+   *
+   * @throws NotFoundException si la liga no existe
+   * @throws ForbiddenException si el usuario no gestiona la liga o el miembro tiene un rol igual o superior
+   * @throws BadRequestException si intenta expulsarse a sí mismo o el miembro no existe
+   */
+  async validate(
+    leagueId: string,
+    adminUserId: string,
+    memberToRemoveId: string,
   ): Promise<void> {
     // 1. Validar que la liga existe
     const league = await this.leagueRepository.findById(leagueId);
@@ -54,14 +85,19 @@ export class RemoveMemberUseCase {
       throw new NotFoundException(`League with id ${leagueId} not found`);
     }
 
-    // 2. Validar que el usuario que ejecuta es el admin
-    if (!league.isAdmin(adminUserId)) {
+    // 2. Validar que el usuario que ejecuta gestiona la liga
+    const actorRole = await this.leagueRepository.getMemberRole(
+      leagueId,
+      adminUserId,
+    );
+
+    if (!canManageLeague(actorRole)) {
       throw new ForbiddenException(
-        'Only the league admin can remove members',
+        'Only the league owner or co-admins can remove members',
       );
     }
 
-    // 3. Validar que el admin no se expulse a sí mismo
+    // 3. Validar que no se expulse a sí mismo
     if (adminUserId === memberToRemoveId) {
       throw new BadRequestException(
         'Admin cannot remove themselves. Use leave league instead',
@@ -69,22 +105,22 @@ export class RemoveMemberUseCase {
     }
 
     // 4. Validar que el miembro a expulsar es miembro de la liga
-    const isMember = await this.leagueRepository.isMember(
+    const targetRole = await this.leagueRepository.getMemberRole(
       leagueId,
       memberToRemoveId,
     );
 
-    if (!isMember) {
+    if (!targetRole) {
       throw new BadRequestException(
         'User is not a member of this league',
       );
     }
 
-    // 5. Expulsar al miembro
-    try {
-      await this.leagueRepository.removeMember(leagueId, memberToRemoveId);
-    } catch (error: any) {
-      throw error;
+    // 5. Validar la jerarquía de roles
+    if (!canRemoveMemberWithRole(actorRole, targetRole)) {
+      throw new ForbiddenException(
+        'You can only remove members with a lower role than yours',
+      );
     }
   }
 }
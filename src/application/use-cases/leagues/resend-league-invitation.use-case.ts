@@ -0,0 +1,88 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
+import type { ILeagueRepository } from '@domain/repositories/league.repository.interface';
+import { canManageLeague } from '@domain/constants/league-roles.constant';
+import type { ILeagueInvitationRepository } from '@domain/repositories/league-invitation.repository.interface';
+import type { LeagueInvitation } from '@domain/entities/league-invitation.entity';
+import { InviteToLeagueUseCase } from './invite-to-league.use-case';
+
+/**
+ * ResendLeagueInvitationUseCase (Application Layer)
+ *
+ * Caso de uso para que el admin reenvíe una invitación pendiente.
+ *
+ * Flujo:
+ * 1. Validar liga, admin e invitación PENDING de esa liga
+ * 2. Crear y enviar una nueva con InviteToLeagueUseCase (nuevo token y
+ *    nueva caducidad de 7 días), que revoca la actual después de crearla
+ *
+ * Así solo el último enlace enviado es válido, y si el reenvío falla
+ * (ej: liga llena o usuario baneado) el enlace anterior sigue funcionando.
+ */
+@Injectable()
+export class ResendLeagueInvitationUseCase {
+  constructor(
+    @Inject('ILeagueRepository')
+    private readonly leagueRepository: ILeagueRepository,
+    @Inject('ILeagueInvitationRepository')
+    private readonly leagueInvitationRepository: ILeagueInvitationRepository,
+    private readonly inviteToLeagueUseCase: InviteToLeagueUseCase,
+  ) {}
+
+  /**
+   * @param leagueId - UUID de la liga
+   * @param invitationId - UUID de la invitación a reenviar
+   * @param adminUserId - UUID del admin
+   * @returns La nueva invitación (sustituye a la anterior)
+   * @throws NotFoundException si la liga o la invitación no existen
+   * @throws ForbiddenException si el usuario no es propietario ni co-admin
+   * @throws BadRequestException si la invitación ya no está pendiente
+   */
+  async execute(
+    leagueId: string,
+    invitationId: string,
+    adminUserId: string,
+  ): Promise<LeagueInvitation> {
+    const league = await this.leagueRepository.findById(leagueId);
+
+    if (!league) {
+      throw new NotFoundException(`League with id ${leagueId} not found`);
+    }
+
+    const role = await this.leagueRepository.getMemberRole(
+      leagueId,
+      adminUserId,
+    );
+
+    if (!canManageLeague(role)) {
+      throw new ForbiddenException(
+        'Only the league owner or co-admins can resend invitations',
+      );
+    }
+
+    const invitation =
+      await this.leagueInvitationRepository.findById(invitationId);
+
+    if (!invitation || invitation.leagueId !== leagueId) {
+      throw new NotFoundException(
+        `Invitation with id ${invitationId} not found`,
+      );
+    }
+
+    if (!invitation.isPending()) {
+      throw new BadRequestException('Invitation is no longer pending');
+    }
+
+    return this.inviteToLeagueUseCase.execute(
+      leagueId,
+      adminUserId,
+      invitation.email,
+      invitationId,
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
+import type { ILeagueRepository } from '@domain/repositories/league.repository.interface';
+import { canManageLeague } from '@domain/constants/league-roles.constant';
+import type { ILeagueInvitationRepository } from '@domain/repositories/league-invitation.repository.interface';
+
+/**
+ * RevokeLeagueInvitationUseCase (Application Layer)
+ *
+ * Caso de uso para que el admin anule una invitación pendiente.
+ * Tras revocarla, el enlace enviado por email deja de funcionar.
+ *
+ * Reglas de negocio:
+ * - Solo el propietario o un co-admin pueden revocar
+ * - Solo se pueden revocar invitaciones PENDING de esa liga
+ */
+@Injectable()
+export class RevokeLeagueInvitationUseCase {
+  constructor(
+    @Inject('ILeagueRepository')
+    private readonly leagueRepository: ILeagueRepository,
+    @Inject('ILeagueInvitationRepository')
+    private readonly leagueInvitationRepository: ILeagueInvitationRepository,
+  ) {}
+
+  /**
+   * @param leagueId - UUID de la liga
+   * @param invitationId - UUID de la invitación
+   * @param adminUserId - UUID del admin que revoca
+   * @throws NotFoundException si la liga o la invitación no existen
+   * @throws ForbiddenException si el usuario no es propietario ni co-admin
+   * @throws BadRequestException si la invitación ya no está pendiente
+   */
+  async execute(
+    leagueId: string,
+    invitationId: string,
+    adminUserId: string,
+  ): Promise<void> {
+    const league = await this.leagueRepository.findById(leagueId);
+
+    if (!league) {
+      throw new NotFoundException(`League with id ${leagueId} not found`);
+    }
+
+    const role = await this.leagueRepository.getMemberRole(
+      leagueId,
+      adminUserId,
+    );
+
+    if (!canManageLeague(role)) {
+      throw new ForbiddenException(
+        'Only the league owner or co-admins can revoke invitations',
+      );
+    }
+
+    const invitation =
+      await this.leagueInvitationRepository.findById(invitationId);
+
+    if (!invitation || invitation.leagueId !== leagueId) {
+      throw new NotFoundException(
+        `Invitation with id ${invitationId} not found`,
+      );
+    }
+
+    const revoked = await this.leagueInvitationRepository.revoke(invitationId);
+
+    if (!revoked) {
+      throw new BadRequestException('Invitation is no longer pending');
+    }
+  }
+}
@@ -10,20 +10,20 @@ import type { ILeagueRepository } from '@domain/repositories/league.repository.i
 /**
  * TransferAdminUseCase (Application Layer)
  *
- * Caso de uso para transferir el rol de administrador a otro usuario.
+ * Caso de uso para transferir la propiedad de la liga (rol OWNER) a otro usuario.
  *
  * Responsabilidades:
  * 1. Validar que la liga existe
- * 2. Validar que el usuario actual es el admin
+ * 2. Validar que el usuario actual es el propietario
  * 3. Validar que el nuevo admin es miembro de la liga
  * 4. Validar que no se transfiera a sí mismo (no tiene sentido)
  * 5. Transferir el rol de admin
  *
  * Reglas de negocio:
- * - Solo el admin actual puede transferir su rol
+ * - Solo el propietario puede transferir la propiedad (los co-admins no)
  * - El nuevo admin debe ser miembro activo de la liga
  * - No se puede transferir a sí mismo
- * - El admin anterior se mantiene como miembro normal
+ * - El admin anterior se mantiene como miembro normal (MEMBER)
  */
 @Injectable()
 export class TransferAdminUseCase {
@@ -40,7 +40,7 @@ export class TransferAdminUseCase {
    * @param newAdminId - UUID del nuevo admin
    * @returns void
    * @throws NotFoundException si la liga no existe
-   * @throws ForbiddenException si el usuario no es admin
+   * @throws ForbiddenException si el usuario no es el propietario
    * @throws BadRequestException si el nuevo admin no es miembro o es el mismo
    */
   async execute(
@@ -55,10 +55,15 @@ export class TransferAdminUseCase {
       throw new NotFoundException(`League with id ${leagueId} not found`);
     }
 
-    // 2. Validar que el usuario actual es el admin
-    if (!league.isAdmin(currentAdminId)) {
+    // 2. Validar que el usuario actual es el propietario
+    const role = await this.leagueRepository.getMemberRole(
+      leagueId,
+      currentAdminId,
+    );
+
+    if (role !== 'OWNER') {
       throw new ForbiddenException(
-        'Only the current admin can transfer admin role',
+        'Only the league owner can transfer ownership',
       );
     }
 
@@ -3,12 +3,32 @@ import {
   Inject,
   NotFoundException,
   ForbiddenException,
+  BadRequestException,
 } from '@nestjs/common';
 import type {
   ILeagueRepository,
   UpdateLeagueData,
 } from '@domain/repositories/league.repository.interface';
+import type { IMatchRepository } from '@domain/repositories/match.repository.interface';
 import type { League } from '@domain/entities/league.entity';
+import { ScoringProfile } from '@domain/value-objects/scoring-profile.vo';
+import { canManageLeague } from '@domain/constants/league-roles.constant';
+import type {
+  ScoringPreset,
+  ScoringRulesOverrides,
+} from '@domain/constants/scoring-rules.constant';
+
+/**
+ * Datos de entrada para actualizar una liga
+ * El perfil de puntuación llega sin validar (preset + valores CUSTOM)
+ */
+export interface UpdateLeagueInput
+  extends Omit<UpdateLeagueData, 'scoringProfile'> {
+  scoringProfile?: {
+    preset: ScoringPreset;
+    custom?: ScoringRulesOverrides;
+  };
+}
 
 /**
  * UpdateLeagueUseCase (Application Layer)
@@ -17,13 +37,16 @@ import type { League } from '@domain/entities/league.entity';
  *
  * Responsabilidades:
  * 1. Validar que la liga existe
- * 2. Validar que el usuario es el administrador de la liga
- * 3. Actualizar los datos de la liga
- * 4. Retornar la liga actualizada
+ * 2. Validar que el usuario gestiona la liga (OWNER o CO_ADMIN)
+ * 3. Validar el perfil de puntuación y el modo de juego (si se proporcionan)
+ * 4. Actualizar los datos de la liga
+ * 5. Retornar la liga actualizada
  *
  * Reglas de negocio:
- * - Solo el admin puede actualizar la liga
+ * - Solo el propietario y los co-admins pueden actualizar la liga
  * - Si se cambia de 'public' a 'private', se genera invite_code automáticamente
+ * - El perfil de puntuación y el modo de juego solo se pueden cambiar antes
+ *   del primer bloqueo de predicciones (MIN(matches.predictions_locked_at))
  * - updated_at se actualiza automáticamente por trigger de BD
  */
 @Injectable()
@@ -31,22 +54,25 @@ export class UpdateLeagueUseCase {
   constructor(
     @Inject('ILeagueRepository')
     private readonly leagueRepository: ILeagueRepository,
+    @Inject('IMatchRepository')
+    private readonly matchRepository: IMatchRepository,
   ) {}
 
   /**
    * Ejecuta el caso de uso de actualización de liga
    *
    * @param leagueId - UUID de la liga a actualizar
-   * @param userId - UUID del usuario que intenta actualizar (debe ser admin)
+   * @param userId - UUID del usuario que intenta actualizar (OWNER o CO_ADMIN)
    * @param data - Datos a actualizar
    * @returns Liga actualizada
    * @throws NotFoundException si la liga no existe
-   * @throws ForbiddenException si el usuario no es admin
+   * @throws ForbiddenException si el usuario no gestiona la liga o las reglas de juego ya están bloqueadas
+   * @throws BadRequestException si el perfil de puntuación no es válido
    */
   async execute(
     leagueId: string,
     userId: string,
-    data: UpdateLeagueData,
+    data: UpdateLeagueInput,
   ): Promise<League> {
     // 1. Validar que la liga existe
     const league = await this.leagueRepository.findById(leagueId);
@@ -55,19 +81,68 @@ export class UpdateLeagueUseCase {
       throw new NotFoundException(`League with id ${leagueId} not found`);
     }
 
-    // 2. Validar que el usuario es el administrador
-    if (!league.isAdmin(userId)) {
+    // 2. Validar que el usuario gestiona la liga
+    const role = await this.leagueRepository.getMemberRole(leagueId, userId);
+
+    if (!canManageLeague(role)) {
       throw new ForbiddenException(
-        'Only the league admin can update the league',
+        'Only the league owner or co-admins can update the league',
+      );
+    }
+
+    // 3. Validar el perfil de puntuación y el modo de juego
+    const { scoringProfile, ...leagueData } = data;
+    const updateData: UpdateLeagueData = leagueData;
+
+    if (scoringProfile || data.gameMode !== undefined) {
+      await this.assertGameRulesEditable();
+    }
+
+    if (scoringProfile) {
+      updateData.scoringProfile = this.buildScoringProfile(
+        scoringProfile.preset,
+        scoringProfile.custom,
       );
     }
 
-    // 3. Actualizar la liga
+    // 4. Actualizar la liga
     try {
-      const updatedLeague = await this.leagueRepository.update(leagueId, data);
+      const updatedLeague = await this.leagueRepository.update(
+        leagueId,
+        updateData,
+      );
       return updatedLeague;
     } catch (error: any) {
       throw error;
     }
   }
+
+  /**
+   * Verifica que aún no hay partidos bloqueados
+   * (puntuación y modo de juego quedan fijados a partir de ese momento)
+   */
+  private async assertGameRulesEditable(): Promise<void> {
+    const firstLockedAt =
+      await this.matchRepository.findFirstPredictionsLockedAt();
+
+    if (firstLockedAt && firstLockedAt <= new Date()) {
+      throw new ForbiddenException(
+        'The scoring profile and game mode cannot be changed after the first match has locked predictions',
+      );
+    }
+  }
+
+  /**
+   * Construye el perfil de puntuación validado
+   */
+  private buildScoringProfile(
+    preset: ScoringPreset,
+    custom?: ScoringRulesOverrides,
+  ): ScoringProfile {
+    try {
+      return new ScoringProfile(preset, custom ?? null);
+    } catch (error) {
+      throw new BadRequestException((error as Error).message);
+    }
+  }
 }
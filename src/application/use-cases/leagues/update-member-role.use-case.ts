@@ -0,0 +1,86 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
+import type { ILeagueRepository } from '@domain/repositories/league.repository.interface';
+import type { AssignableLeagueMemberRole } from '@domain/constants/league-roles.constant';
+
+/**
+ * UpdateMemberRoleUseCase (Application Layer)
+ *
+ * Caso de uso para que el propietario nombre o retire co-admins.
+ *
+ * Responsabilidades:
+ * 1. Validar que la liga existe
+ * 2. Validar que el usuario que ejecuta es el propietario
+ * 3. Validar que el destinatario es miembro y no es el propietario
+ * 4. Cambiar el rol (CO_ADMIN o MEMBER)
+ *
+ * Reglas de negocio:
+ * - Solo el propietario puede cambiar roles
+ * - La propiedad no se asigna aquí: se usa TransferAdminUseCase
+ */
+@Injectable()
+export class UpdateMemberRoleUseCase {
+  constructor(
+    @Inject('ILeagueRepository')
+    private readonly leagueRepository: ILeagueRepository,
+  ) {}
+
+  /**
+   * @param leagueId - UUID de la liga
+   * @param ownerUserId - UUID del propietario que ejecuta la acción
+   * @param memberUserId - UUID del miembro cuyo rol cambia
+   * @param role - Nuevo rol
+   * @throws NotFoundException si la liga no existe
+   * @throws ForbiddenException si el usuario no es el propietario
+   * @throws BadRequestException si el destinatario no es miembro o es el propietario
+   */
+  async execute(
+    leagueId: string,
+    ownerUserId: string,
+    memberUserId: string,
+    role: AssignableLeagueMemberRole,
+  ): Promise<void> {
+    // 1. Validar que la liga existe
+    const league = await this.leagueRepository.findById(leagueId);
+
+    if (!league) {
+      throw new NotFoundException(`League with id ${leagueId} not found`);
+    }
+
+    // 2. Validar que el usuario es el propietario
+    const ownerRole = await this.leagueRepository.getMemberRole(
+      leagueId,
+      ownerUserId,
+    );
+
+    if (ownerRole !== 'OWNER') {
+      throw new ForbiddenException(
+        'Only the league owner can change member roles',
+      );
+    }
+
+    // 3. Validar el destinatario
+    const memberRole = await this.leagueRepository.getMemberRole(
+      leagueId,
+      memberUserId,
+    );
+
+    if (!memberRole) {
+      throw new BadRequestException('User is not a member of this league');
+    }
+
+    if (memberRole === 'OWNER') {
+      throw new BadRequestException(
+        'The owner role can only be changed by transferring ownership',
+      );
+    }
+
+    // 4. Cambiar el rol
+    await this.leagueRepository.updateMemberRole(leagueId, memberUserId, role);
+  }
+}
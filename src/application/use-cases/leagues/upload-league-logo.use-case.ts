@@ -0,0 +1,143 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
+import type { ILeagueRepository } from '@domain/repositories/league.repository.interface';
+import type { IFileStorageRepository } from '@domain/repositories/file-storage.repository.interface';
+import type { IImageProcessorService } from '@domain/services/image-processor.service.interface';
+import type { League } from '@domain/entities/league.entity';
+import { canManageLeague } from '@domain/constants/league-roles.constant';
+import {
+  LEAGUE_LOGO_MAX_SIZE_BYTES,
+  LEAGUE_LOGO_VARIANTS,
+  DEFAULT_LEAGUE_LOGO_VARIANT,
+  isAllowedLeagueLogoMimeType,
+  getLeagueLogoKey,
+  type LeagueLogoVariant,
+} from '@domain/constants/league-logo.constant';
+
+/**
+ * Fichero de logo recibido en la petición
+ */
+export interface LeagueLogoUpload {
+  data: Buffer;
+  mimeType: string; // MIME type declarado por el cliente
+  size: number; // Bytes
+}
+
+/**
+ * UploadLeagueLogoUseCase (Application Layer)
+ *
+ * Caso de uso para que el admin suba el logo de la liga.
+ *
+ * Flujo:
+ * 1. Validar que la liga existe y el usuario es propietario o co-admin
+ * 2. Validar tamaño y formato (MIME declarado y formato real del contenido)
+ * 3. Generar las variantes cuadradas (sm, md, lg) en WebP
+ * 4. Guardarlas en el almacenamiento con una versión nueva
+ * 5. Apuntar league.logoUrl a la variante por defecto
+ *
+ * Notas:
+ * - Las variantes anteriores no se borran: sus URLs pueden seguir en cachés
+ *   de navegador y dejan de referenciarse al cambiar logoUrl
+ * - Si falla el guardado de una variante, logoUrl no cambia
+ */
+@Injectable()
+export class UploadLeagueLogoUseCase {
+  constructor(
+    @Inject('ILeagueRepository')
+    private readonly leagueRepository: ILeagueRepository,
+    @Inject('IFileStorageRepository')
+    private readonly fileStorageRepository: IFileStorageRepository,
+    @Inject('IImageProcessorService')
+    private readonly imageProcessorService: IImageProcessorService,
+  ) {}
+
+  /**
+   * @param leagueId - UUID de la liga
+   * @param adminUserId - UUID del propietario o co-admin que sube el logo
+   * @param file - Fichero subido
+   * @returns La liga con el logoUrl actualizado
+   * @throws NotFoundException si la liga no existe
+   * @throws ForbiddenException si el usuario no es propietario ni co-admin
+   * @throws BadRequestException si el fichero es demasiado grande, no es una
+   *         imagen PNG/JPEG/WebP o no se puede procesar
+   */
+  async execute(
+    leagueId: string,
+    adminUserId: string,
+    file: LeagueLogoUpload,
+  ): Promise<League> {
+    // 1. Validar liga y admin
+    const league = await this.leagueRepository.findById(leagueId);
+
+    if (!league) {
+      throw new NotFoundException(`League with id ${leagueId} not found`);
+    }
+
+    const role = await this.leagueRepository.getMemberRole(
+      leagueId,
+      adminUserId,
+    );
+
+    if (!canManageLeague(role)) {
+      throw new ForbiddenException(
+        'Only the league owner or co-admins can change the league logo',
+      );
+    }
+
+    // 2. Validar tamaño y formato
+    if (file.size > LEAGUE_LOGO_MAX_SIZE_BYTES) {
+      throw new BadRequestException(
+        `Logo must not exceed ${LEAGUE_LOGO_MAX_SIZE_BYTES / (1024 * 1024)} MB`,
+      );
+    }
+
+    const detectedMimeType = await this.imageProcessorService.detectMimeType(
+      file.data,
+    );
+
+    if (
+      !isAllowedLeagueLogoMimeType(file.mimeType) ||
+      !detectedMimeType ||
+      !isAllowedLeagueLogoMimeType(detectedMimeType)
+    ) {
+      throw new BadRequestException('Logo must be a PNG, JPEG or WebP image');
+    }
+
+    // 3-4. Generar y guardar variantes (en serie para limitar memoria)
+    const version = Date.now().toString();
+    const variants = Object.entries(LEAGUE_LOGO_VARIANTS) as [
+      LeagueLogoVariant,
+      number,
+    ][];
+
+    for (const [variant, size] of variants) {
+      let image;
+      try {
+        image = await this.imageProcessorService.resizeToSquare(
+          file.data,
+          size,
+        );
+      } catch {
+        throw new BadRequestException('Logo image could not be processed');
+      }
+
+      await this.fileStorageRepository.save(
+        getLeagueLogoKey(leagueId, version, variant),
+        image.data,
+        image.contentType,
+      );
+    }
+
+    // 5. Apuntar logoUrl a la variante por defecto
+    const logoUrl = this.fileStorageRepository.getPublicUrl(
+      getLeagueLogoKey(leagueId, version, DEFAULT_LEAGUE_LOGO_VARIANT),
+    );
+
+    return this.leagueRepository.update(leagueId, { logoUrl });
+  }
+}
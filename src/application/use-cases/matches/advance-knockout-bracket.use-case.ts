@@ -0,0 +1,186 @@
+import { Injectable, Inject } from '@nestjs/common';
+import type {
+  IMatchRepository,
+  UpdateMatchTeamsData,
+} from '@domain/repositories/match.repository.interface';
+import type {
+  IKnockoutBracketResolverService,
+  ResolvedTeams,
+} from '@domain/services/knockout-bracket-resolver.service.interface';
+import {
+  MatchPhase,
+  MatchStatus,
+  type Match,
+} from '@domain/entities/match.entity';
+import { CalculateActualGroupStandingsUseCase } from '@application/use-cases/predictions/calculate-actual-group-standings.use-case';
+import { CalculateActualBestThirdPlacesUseCase } from '@application/use-cases/predictions/calculate-actual-best-third-places.use-case';
+
+/**
+ * Resumen de una ejecución de la progresión del cuadro
+ */
+export interface AdvanceKnockoutBracketResult {
+  roundOf32Resolved: boolean;
+  updatedMatches: number;
+}
+
+/**
+ * AdvanceKnockoutBracketUseCase (Application Layer)
+ *
+ * Caso de uso que rellena los equipos REALES (home_team_id/away_team_id) de los
+ * partidos de eliminatorias a partir de los partidos ya finalizados.
+ *
+ * Responsabilidades:
+ * 1. Round of 32: cuando termina la fase de grupos, resolver los placeholders
+ *    ("Group A winners", "Group A/B/C/D/F third place") con la tabla oficial y
+ *    los mejores terceros oficiales (tabla FIFA de asignación de terceros)
+ * 2. Resto de rondas: asignar el ganador de cada partido de depends_on_match_ids
+ *    (el perdedor en el partido por el tercer puesto)
+ * 3. Persistir solo los partidos cuyos equipos cambian
+ *
+ * Reglas de negocio:
+ * - Solo se modifican partidos SCHEDULED (un partido ya jugado conserva sus equipos)
+ * - Un lado queda en null mientras su partido de origen no haya finalizado
+ * - Idempotente: se puede ejecutar tras cada resultado
+ *
+ * Usado por:
+ * - UpdateMatchResultUseCase - Al finalizar un partido
+ */
+@Injectable()
+export class AdvanceKnockoutBracketUseCase {
+  constructor(
+    @Inject('IMatchRepository')
+    private readonly matchRepository: IMatchRepository,
+    @Inject('IKnockoutBracketResolverService')
+    private readonly bracketResolver: IKnockoutBracketResolverService,
+    private readonly calculateActualGroupStandingsUseCase: CalculateActualGroupStandingsUseCase,
+    private readonly calculateActualBestThirdPlacesUseCase: CalculateActualBestThirdPlacesUseCase,
+  ) {}
+
+  async execute(): Promise<AdvanceKnockoutBracketResult> {
+    const allMatches = await this.matchRepository.findAll();
+    const knockoutMatches = allMatches
+      .filter((match) => !match.isGroupStage())
+      .sort((a, b) => a.matchNumber - b.matchNumber);
+
+    // 1. Round of 32 desde la tabla oficial de grupos
+    const roundOf32Teams = await this.resolveRoundOf32(
+      knockoutMatches.filter((match) => match.phase === MatchPhase.ROUND_OF_32),
+    );
+
+    // 2. Resto de rondas desde los partidos de origen
+    const matchesByNumber = new Map(
+      allMatches.map((match) => [match.matchNumber, match]),
+    );
+    const assignments: UpdateMatchTeamsData[] = [];
+
+    for (const match of knockoutMatches) {
+      if (match.status !== MatchStatus.SCHEDULED) {
+        continue;
+      }
+
+      const teams =
+        match.phase === MatchPhase.ROUND_OF_32
+          ? (roundOf32Teams?.get(match.id) ?? null)
+          : this.resolveFromFeedingMatches(match, matchesByNumber);
+
+      if (!teams) {
+        continue;
+      }
+
+      // 3. Solo persistir cambios
+      if (
+        teams.homeTeamId !== match.homeTeamId ||
+        teams.awayTeamId !== match.awayTeamId
+      ) {
+        assignments.push({ matchId: match.id, ...teams });
+      }
+    }
+
+    await this.matchRepository.updateTeamsMany(assignments);
+
+    if (assignments.length > 0) {
+      console.log(
+        `[BRACKET] Updated teams of ${assignments.length} knockout matches`,
+      );
+    }
+
+    return {
+      roundOf32Resolved: roundOf32Teams !== null,
+      updatedMatches: assignments.length,
+    };
+  }
+
+  /**
+   * Resuelve los equipos de Round of 32 si la fase de grupos ha terminado
+   * @returns Map<matchId, equipos>, o null si aún faltan grupos por finalizar
+   */
+  private async resolveRoundOf32(
+    roundOf32Matches: Match[],
+  ): Promise<Map<string, ResolvedTeams> | null> {
+    const actualStandings =
+      await this.calculateActualGroupStandingsUseCase.execute();
+    const bestThirdPlaces =
+      await this.calculateActualBestThirdPlacesUseCase.execute(actualStandings);
+
+    if (bestThirdPlaces.length === 0) {
+      return null;
+    }
+
+    return this.bracketResolver.resolveRoundOf32Teams(
+      actualStandings,
+      bestThirdPlaces,
+      roundOf32Matches,
+    );
+  }
+
+  /**
+   * Obtiene los equipos de un partido a partir de sus dos partidos de origen
+   */
+  private resolveFromFeedingMatches(
+    match: Match,
+    matchesByNumber: Map<number, Match>,
+  ): { homeTeamId: string | null; awayTeamId: string | null } | null {
+    const feedingNumbers = match.dependsOnMatchIds;
+
+    if (!feedingNumbers || feedingNumbers.length !== 2) {
+      return null;
+    }
+
+    const takeLoser = match.phase === MatchPhase.THIRD_PLACE;
+
+    return {
+      homeTeamId: this.getQualifiedTeam(
+        matchesByNumber.get(feedingNumbers[0]),
+        takeLoser,
+      ),
+      awayTeamId: this.getQualifiedTeam(
+        matchesByNumber.get(feedingNumbers[1]),
+        takeLoser,
+      ),
+    };
+  }
+
+  /**
+   * Equipo que avanza desde un partido finalizado (o el eliminado si takeLoser)
+   */
+  private getQualifiedTeam(
+    match: Match | undefined,
+    takeLoser: boolean,
+  ): string | null {
+    if (!match || !match.isFinished()) {
+      return null;
+    }
+
+    const winner = match.getFinalWinner();
+
+    if (winner === 'home') {
+      return takeLoser ? match.awayTeamId : match.homeTeamId;
+    }
+
+    if (winner === 'away') {
+      return takeLoser ? match.homeTeamId : match.awayTeamId;
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,190 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  BadRequestException,
+} from '@nestjs/common';
+import type {
+  IMatchRepository,
+  UpdateMatchResultData,
+} from '@domain/repositories/match.repository.interface';
+import { MatchStatus, type Match } from '@domain/entities/match.entity';
+import { AdvanceKnockoutBracketUseCase } from '@application/use-cases/matches/advance-knockout-bracket.use-case';
+
+/**
+ * UpdateMatchResultUseCase (Application Layer)
+ *
+ * Caso de uso para registrar el resultado oficial de un partido (solo administradores).
+ *
+ * Responsabilidades:
+ * 1. Validar que el partido existe
+ * 2. Validar la transición de estado (SCHEDULED → LIVE → FINISHED)
+ * 3. Validar el marcador según la fase del partido
+ * 4. Persistir resultado y estado
+ * 5. Si el partido finaliza, avanzar el cuadro de eliminatorias real
+ *
+ * Reglas de negocio:
+ * - Solo se registran goles en partidos LIVE o FINISHED
+ * - Ambos equipos deben estar definidos para registrar goles
+ * - Fase de grupos: no hay prórroga ni penaltis
+ * - Eliminatorias: prórroga solo si hay empate en 90', penaltis solo si hay empate en prórroga
+ * - Un partido de eliminatorias FINISHED debe tener un ganador
+ * - Los goles de prórroga son acumulados (incluyen los de 90 minutos)
+ */
+@Injectable()
+export class UpdateMatchResultUseCase {
+  constructor(
+    @Inject('IMatchRepository')
+    private readonly matchRepository: IMatchRepository,
+    private readonly advanceKnockoutBracketUseCase: AdvanceKnockoutBracketUseCase,
+  ) {}
+
+  async execute(matchId: string, data: UpdateMatchResultData): Promise<Match> {
+    // 1. Validar que el partido existe
+    const match = await this.matchRepository.findById(matchId);
+
+    if (!match) {
+      throw new NotFoundException(`Match with ID ${matchId} not found`);
+    }
+
+    // 2. Validar la transición de estado
+    if (!match.canTransitionTo(data.status)) {
+      throw new BadRequestException(
+        `Invalid status transition from ${match.status} to ${data.status}`,
+      );
+    }
+
+    // 3. Validar el marcador según estado y fase
+    this.validateResult(match, data);
+
+    // 4. Persistir resultado
+    const updatedMatch = await this.matchRepository.updateResult(matchId, data);
+
+    // 5. Avanzar el cuadro (el resultado ya está guardado: un fallo solo se registra)
+    if (updatedMatch.isFinished()) {
+      try {
+        await this.advanceKnockoutBracketUseCase.execute();
+      } catch (error) {
+        console.error('[BRACKET] Failed to advance knockout bracket:', error);
+      }
+    }
+
+    return updatedMatch;
+  }
+
+  /**
+   * Valida el marcador según el estado destino y la fase del partido
+   */
+  private validateResult(match: Match, data: UpdateMatchResultData): void {
+    const hasRegularScore = data.homeScore !== null || data.awayScore !== null;
+    const hasExtraTime = data.homeScoreEt !== null || data.awayScoreEt !== null;
+    const hasPenalties =
+      data.homePenalties !== null || data.awayPenalties !== null;
+
+    // Partidos no jugados: no pueden tener marcador
+    if (
+      data.status !== MatchStatus.LIVE &&
+      data.status !== MatchStatus.FINISHED
+    ) {
+      if (hasRegularScore || hasExtraTime || hasPenalties) {
+        throw new BadRequestException(
+          `Scores cannot be recorded for a ${data.status} match`,
+        );
+      }
+      return;
+    }
+
+    if (!match.homeTeamId || !match.awayTeamId) {
+      throw new BadRequestException(
+        'Both teams must be defined before recording a result',
+      );
+    }
+
+    if (data.homeScore === null || data.awayScore === null) {
+      throw new BadRequestException(
+        'Home and away scores are required for LIVE or FINISHED matches',
+      );
+    }
+
+    if (
+      (data.homeScoreEt === null) !== (data.awayScoreEt === null) ||
+      (data.homePenalties === null) !== (data.awayPenalties === null)
+    ) {
+      throw new BadRequestException(
+        'Extra time and penalty scores must be provided for both teams',
+      );
+    }
+
+    const isFinished = data.status === MatchStatus.FINISHED;
+
+    // Fase de grupos: sin prórroga ni penaltis
+    if (match.isGroupStage()) {
+      if (hasExtraTime || hasPenalties) {
+        throw new BadRequestException(
+          'Group stage matches cannot have extra time or penalties',
+        );
+      }
+      return;
+    }
+
+    // Eliminatorias: ganador en 90'
+    if (data.homeScore !== data.awayScore) {
+      if (hasExtraTime || hasPenalties) {
+        throw new BadRequestException(
+          'Extra time and penalties are not allowed when there is a winner in regular time',
+        );
+      }
+      return;
+    }
+
+    // Eliminatorias: empate en 90' → prórroga
+    if (!hasExtraTime) {
+      if (isFinished) {
+        throw new BadRequestException(
+          'Extra time scores are required when a knockout match ends in a draw',
+        );
+      }
+      if (hasPenalties) {
+        throw new BadRequestException(
+          'Penalties cannot be recorded before extra time',
+        );
+      }
+      return;
+    }
+
+    const homeScoreEt = data.homeScoreEt as number;
+    const awayScoreEt = data.awayScoreEt as number;
+
+    if (homeScoreEt < data.homeScore || awayScoreEt < data.awayScore) {
+      throw new BadRequestException(
+        'Extra time scores must be greater than or equal to regular time scores',
+      );
+    }
+
+    // Ganador en prórroga: sin penaltis
+    if (homeScoreEt !== awayScoreEt) {
+      if (hasPenalties) {
+        throw new BadRequestException(
+          'Penalties are not allowed when there is a winner in extra time',
+        );
+      }
+      return;
+    }
+
+    // Empate en prórroga → penaltis con ganador
+    if (!hasPenalties) {
+      if (isFinished) {
+        throw new BadRequestException(
+          'Penalties with a winner are required when extra time ends in a draw',
+        );
+      }
+      return;
+    }
+
+    if (isFinished && data.homePenalties === data.awayPenalties) {
+      throw new BadRequestException(
+        'Penalty shootout must have a winner for a FINISHED match',
+      );
+    }
+  }
+}
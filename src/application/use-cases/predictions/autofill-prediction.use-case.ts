@@ -0,0 +1,354 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  ForbiddenException,
+} from '@nestjs/common';
+import type { IPredictionRepository } from '@domain/repositories/prediction.repository.interface';
+import type { IMatchPredictionRepository } from '@domain/repositories/match-prediction.repository.interface';
+import type { IMatchRepository } from '@domain/repositories/match.repository.interface';
+import type { ILeagueRepository } from '@domain/repositories/league.repository.interface';
+import type { ITeamRepository } from '@domain/repositories/team.repository.interface';
+import type { Match } from '@domain/entities/match.entity';
+import type { MatchPrediction } from '@domain/entities/match-prediction.entity';
+import { KnockoutPhase } from '@domain/value-objects/knockout-phase.vo';
+import {
+  DEFAULT_TEAM_STRENGTH,
+  getTeamStrength,
+} from '@domain/constants/team-strength.constant';
+import {
+  CalculateGroupStandingsService,
+  type MatchPredictionWithTeams,
+} from '@application/services/calculate-group-standings.service';
+import {
+  AutofillScoreService,
+  type AutofillStrategy,
+} from '@application/services/autofill-score.service';
+import { SaveGroupPredictionsUseCase } from './save-group-predictions.use-case';
+import {
+  SaveKnockoutPredictionsUseCase,
+  type KnockoutPredictionInput,
+} from './save-knockout-predictions.use-case';
+import { UpdateChampionUseCase } from './update-champion.use-case';
+import {
+  GetPredictedBracketUseCase,
+  type BracketMatchPrediction,
+} from './get-predicted-bracket.use-case';
+
+/**
+ * Resultado del relleno automático
+ */
+export interface AutofillPredictionResult {
+  strategy: AutofillStrategy;
+  groupMatchesFilled: number;
+  knockoutMatchesFilled: number;
+  championFilled: boolean;
+  rejectedMatchIds: string[]; // Partidos bloqueados que no se pudieron rellenar (MATCHDAY)
+  stoppedAtPhase: string | null; // Fase con cruces aún sin resolver (el cuadro se detiene ahí)
+}
+
+/**
+ * Partido de eliminatorias a rellenar con sus equipos
+ */
+interface KnockoutSlot {
+  matchId: string;
+  homeTeamId: string | null;
+  awayTeamId: string | null;
+  prediction: BracketMatchPrediction | null; // Predicción ya introducida (se reenvía tal cual)
+}
+
+/**
+ * AutofillPredictionUseCase (Application Layer)
+ *
+ * Caso de uso de "quick pick": rellena automáticamente todos los partidos sin
+ * predicción según una estrategia (random, favourites, all_draws).
+ *
+ * Flujo:
+ * 1. Validar que la predicción existe, es del usuario y se puede editar
+ * 2. Grupos: generar los partidos que faltan, calcular la tabla con
+ *    CalculateGroupStandingsService y guardar con SaveGroupPredictionsUseCase
+ *    (que calcula los mejores terceros al completar los 12 grupos)
+ * 3. Eliminatorias, fase a fase (R32 → FINAL): generar los partidos que faltan
+ *    con los equipos del cuadro predicho y guardar con SaveKnockoutPredictionsUseCase
+ *    (mismas validaciones que desde la app)
+ * 4. Campeón: el ganador predicho de la FINAL, si aún no hay campeón
+ *
+ * Reglas de negocio:
+ * - Las predicciones ya introducidas no se modifican nunca (se reenvían tal cual)
+ * - Los grupos y fases ya completos no se tocan
+ * - Si una fase tiene cruces sin resolver, el relleno se detiene en ella
+ * - Modo MATCHDAY: solo se rellenan partidos abiertos; en eliminatorias, los
+ *   que ya tienen los equipos reales definidos
+ * - Los cambios quedan en el historial con origen AUTOFILL
+ */
+@Injectable()
+export class AutofillPredictionUseCase {
+  constructor(
+    @Inject('IPredictionRepository')
+    private readonly predictionRepository: IPredictionRepository,
+
+    @Inject('IMatchPredictionRepository')
+    private readonly matchPredictionRepository: IMatchPredictionRepository,
+
+    @Inject('IMatchRepository')
+    private readonly matchRepository: IMatchRepository,
+
+    @Inject('ILeagueRepository')
+    private readonly leagueRepository: ILeagueRepository,
+
+    @Inject('ITeamRepository')
+    private readonly teamRepository: ITeamRepository,
+
+    private readonly calculateStandingsService: CalculateGroupStandingsService,
+    private readonly autofillScoreService: AutofillScoreService,
+    private readonly saveGroupPredictionsUseCase: SaveGroupPredictionsUseCase,
+    private readonly saveKnockoutPredictionsUseCase: SaveKnockoutPredictionsUseCase,
+    private readonly updateChampionUseCase: UpdateChampionUseCase,
+    private readonly getPredictedBracketUseCase: GetPredictedBracketUseCase,
+  ) {}
+
+  /**
+   * @param predictionId - UUID de la predicción
+   * @param userId - Usuario autenticado (debe ser el dueño)
+   * @param strategy - Estrategia de generación de marcadores
+   * @throws NotFoundException si la predicción no existe
+   * @throws ForbiddenException si es de otro usuario o está bloqueada
+   */
+  async execute(
+    predictionId: string,
+    userId: string,
+    strategy: AutofillStrategy,
+  ): Promise<AutofillPredictionResult> {
+    // 1. Validar predicción
+    const prediction = await this.predictionRepository.findById(predictionId);
+
+    if (!prediction) {
+      throw new NotFoundException(
+        `Prediction with id ${predictionId} not found`,
+      );
+    }
+
+    if (prediction.userId !== userId) {
+      throw new ForbiddenException(
+        'You can only autofill your own predictions',
+      );
+    }
+
+    const league = await this.leagueRepository.findById(prediction.leagueId);
+    const isMatchdayMode = league?.isMatchdayMode() ?? false;
+
+    if (!isMatchdayMode && !prediction.canBeEdited()) {
+      throw new ForbiddenException(
+        'Predictions are locked. The deadline has passed.',
+      );
+    }
+
+    const teams = await this.teamRepository.findAll();
+    const strengths = new Map(
+      teams.map((team) => [team.id, getTeamStrength(team.fifaCode)]),
+    );
+    const strengthOf = (teamId: string): number =>
+      strengths.get(teamId) ?? DEFAULT_TEAM_STRENGTH;
+    const tiebreakData = this.calculateStandingsService.buildTiebreakData(
+      teams,
+      false,
+    );
+
+    const result: AutofillPredictionResult = {
+      strategy,
+      groupMatchesFilled: 0,
+      knockoutMatchesFilled: 0,
+      championFilled: false,
+      rejectedMatchIds: [],
+      stoppedAtPhase: null,
+    };
+
+    // 2. Fase de grupos
+    const [groupMatches, existingPredictions] = await Promise.all([
+      this.matchRepository.findGroupStageMatches(),
+      this.matchPredictionRepository.findByPrediction(prediction.id),
+    ]);
+    const existingByMatch = new Map(
+      existingPredictions.map((mp) => [mp.matchId, mp]),
+    );
+
+    const matchesByGroup = new Map<string, Match[]>();
+    for (const match of groupMatches) {
+      const groupId = match.groupId!;
+      matchesByGroup.set(groupId, [
+        ...(matchesByGroup.get(groupId) ?? []),
+        match,
+      ]);
+    }
+
+    for (const [groupId, matches] of matchesByGroup) {
+      const missing = matches.filter((match) => !existingByMatch.has(match.id));
+      if (missing.length === 0) {
+        continue;
+      }
+
+      const matchPredictions: MatchPredictionWithTeams[] = matches.map(
+        (match) => {
+          const homeTeamId = match.homeTeamId!;
+          const awayTeamId = match.awayTeamId!;
+          const existing = existingByMatch.get(match.id);
+          const score =
+            existing ??
+            this.autofillScoreService.generateGroupScore(
+              strategy,
+              strengthOf(homeTeamId),
+              strengthOf(awayTeamId),
+            );
+
+          return {
+            matchId: match.id,
+            homeScore: score.homeScore,
+            awayScore: score.awayScore,
+            homeTeamId,
+            awayTeamId,
+          };
+        },
+      );
+
+      const teamIds = [
+        ...new Set(
+          matches.flatMap((match) => [match.homeTeamId!, match.awayTeamId!]),
+        ),
+      ];
+
+      const saved = await this.saveGroupPredictionsUseCase.execute({
+        userId,
+        leagueId: prediction.leagueId,
+        groupId,
+        matchPredictions,
+        groupStandings: this.calculateStandingsService.calculateStandings(
+          groupId,
+          teamIds,
+          matchPredictions,
+          tiebreakData,
+        ),
+        source: 'AUTOFILL',
+      });
+
+      result.rejectedMatchIds.push(...saved.rejectedMatchIds);
+      result.groupMatchesFilled += missing.filter(
+        (match) => !saved.rejectedMatchIds.includes(match.id),
+      ).length;
+    }
+
+    // 3. Eliminatorias, fase a fase (cada fase depende de los ganadores de la anterior)
+    for (const phase of KnockoutPhase.getAllPhases()) {
+      const slots = isMatchdayMode
+        ? await this.getMatchdaySlots(phase, existingByMatch)
+        : await this.getBracketSlots(prediction.id, phase);
+
+      const missing = slots.filter((slot) => !slot.prediction);
+      if (missing.length === 0) {
+        continue;
+      }
+
+      if (
+        !isMatchdayMode &&
+        missing.some((slot) => !slot.homeTeamId || !slot.awayTeamId)
+      ) {
+        result.stoppedAtPhase = phase;
+        break;
+      }
+
+      // En MATCHDAY se envían solo los partidos nuevos (admite fases parciales)
+      const toSave = isMatchdayMode ? missing : slots;
+      const inputs: KnockoutPredictionInput[] = toSave.map((slot) => {
+        const score =
+          slot.prediction ??
+          this.autofillScoreService.generateKnockoutScore(
+            strategy,
+            strengthOf(slot.homeTeamId!),
+            strengthOf(slot.awayTeamId!),
+          );
+
+        return {
+          matchId: slot.matchId,
+          homeTeamId: slot.homeTeamId!,
+          awayTeamId: slot.awayTeamId!,
+          homeScore: score.homeScore,
+          awayScore: score.awayScore,
+          homeScoreET: score.homeScoreET,
+          awayScoreET: score.awayScoreET,
+          penaltiesWinner: score.penaltiesWinner,
+        };
+      });
+
+      const saved = await this.saveKnockoutPredictionsUseCase.execute(
+        prediction.id,
+        phase,
+        inputs,
+        'AUTOFILL',
+      );
+
+      result.rejectedMatchIds.push(...saved.rejectedMatchIds);
+      result.knockoutMatchesFilled += missing.filter(
+        (slot) => !saved.rejectedMatchIds.includes(slot.matchId),
+      ).length;
+    }
+
+    // 4. Campeón: ganador predicho de la FINAL (solo si no había uno elegido)
+    if (!prediction.championTeamId && prediction.canBeEdited()) {
+      const bracket = await this.getPredictedBracketUseCase.execute(
+        prediction.id,
+      );
+
+      if (bracket.championTeamId) {
+        await this.updateChampionUseCase.execute(
+          prediction.id,
+          { championTeamId: bracket.championTeamId },
+          'AUTOFILL',
+        );
+        result.championFilled = true;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Partidos de una fase según el cuadro predicho (equipos de los ganadores predichos)
+   */
+  private async getBracketSlots(
+    predictionId: string,
+    phase: string,
+  ): Promise<KnockoutSlot[]> {
+    const bracket = await this.getPredictedBracketUseCase.execute(predictionId);
+    const bracketPhase = bracket.phases.find((p) => p.phase === phase);
+
+    return (bracketPhase?.matches ?? []).map((node) => ({
+      matchId: node.matchId,
+      homeTeamId: node.homeTeam?.id ?? null,
+      awayTeamId: node.awayTeam?.id ?? null,
+      prediction: node.prediction,
+    }));
+  }
+
+  /**
+   * Partidos de una fase en modo MATCHDAY: cruces reales ya definidos y aún abiertos
+   */
+  private async getMatchdaySlots(
+    phase: string,
+    existingByMatch: Map<string, MatchPrediction>,
+  ): Promise<KnockoutSlot[]> {
+    const matches = await this.matchRepository.findByPhase(
+      new KnockoutPhase(phase).toMatchPhase(),
+    );
+
+    return matches
+      .filter(
+        (match) =>
+          match.homeTeamId && match.awayTeamId && !match.arePredictionsLocked(),
+      )
+      .map((match) => ({
+        matchId: match.id,
+        homeTeamId: match.homeTeamId,
+        awayTeamId: match.awayTeamId,
+        prediction: existingByMatch.get(match.id) ?? null,
+      }));
+  }
+}
@@ -0,0 +1,55 @@
+import { Injectable, Inject } from '@nestjs/common';
+import type { IBestThirdPlaceActualRepository } from '@domain/repositories/best-third-place-actual.repository.interface';
+import type { BestThirdPlaceActual } from '@domain/entities/best-third-place-actual.entity';
+import type { GroupStandingActual } from '@domain/entities/group-standing-actual.entity';
+import { CalculateBestThirdPlacesUseCase } from '@application/use-cases/predictions/calculate-best-third-places.use-case';
+
+/**
+ * CalculateActualBestThirdPlacesUseCase (Application Layer)
+ *
+ * Caso de uso que construye el ranking OFICIAL de los 8 mejores terceros
+ * a partir de la tabla oficial de grupos (group_standings_actual).
+ *
+ * Responsabilidades:
+ * 1. Verificar que los 12 grupos han finalizado
+ * 2. Ordenar los 12 terceros con CalculateBestThirdPlacesUseCase (mismos criterios que las predicciones)
+ * 3. Persistir el top 8 en best_third_places_actual
+ *
+ * Notas:
+ * - Mientras la fase de grupos esté en curso, el ranking oficial queda vacío
+ * - El resultado alimenta la asignación real de terceros en Round of 32
+ *   (IKnockoutBracketResolverService acepta standings y terceros oficiales)
+ */
+@Injectable()
+export class CalculateActualBestThirdPlacesUseCase {
+  constructor(
+    @Inject('IBestThirdPlaceActualRepository')
+    private readonly bestThirdPlaceActualRepository: IBestThirdPlaceActualRepository,
+    private readonly calculateBestThirdPlacesUseCase: CalculateBestThirdPlacesUseCase,
+  ) {}
+
+  /**
+   * @param actualStandings - Tabla oficial de los 12 grupos (48 registros)
+   * @returns Los 8 mejores terceros oficiales, o vacío si la fase de grupos no ha terminado
+   */
+  async execute(
+    actualStandings: GroupStandingActual[],
+  ): Promise<BestThirdPlaceActual[]> {
+    const groupIds = new Set(actualStandings.map((s) => s.groupId));
+    const groupStageFinished =
+      groupIds.size === 12 &&
+      actualStandings.every((standing) => standing.hasCompletedGroup());
+
+    if (!groupStageFinished) {
+      return await this.bestThirdPlaceActualRepository.replaceAll([]);
+    }
+
+    const thirdPlaces = actualStandings.filter(
+      (standing) => standing.position === 3,
+    );
+    const bestThirds =
+      this.calculateBestThirdPlacesUseCase.execute(thirdPlaces);
+
+    return await this.bestThirdPlaceActualRepository.replaceAll(bestThirds);
+  }
+}
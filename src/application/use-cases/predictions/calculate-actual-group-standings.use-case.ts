@@ -0,0 +1,96 @@
+import { Injectable, Inject } from '@nestjs/common';
+import type { IMatchRepository } from '@domain/repositories/match.repository.interface';
+import type { ITeamRepository } from '@domain/repositories/team.repository.interface';
+import type { IGroupStandingActualRepository } from '@domain/repositories/group-standing-actual.repository.interface';
+import type { GroupStandingActual } from '@domain/entities/group-standing-actual.entity';
+import type { Match } from '@domain/entities/match.entity';
+import {
+  CalculateGroupStandingsService,
+  type MatchPredictionWithTeams,
+} from '@application/services/calculate-group-standings.service';
+
+/**
+ * CalculateActualGroupStandingsUseCase (Application Layer)
+ *
+ * Caso de uso que construye la tabla OFICIAL de cada grupo a partir de los
+ * partidos FINISHED de fase de grupos.
+ *
+ * Responsabilidades:
+ * 1. Obtener los 72 partidos de fase de grupos
+ * 2. Agrupar por grupo y calcular la tabla con CalculateGroupStandingsService
+ *    (mismas reglas de ordenación que las predicciones)
+ * 3. Persistir la tabla de cada grupo en group_standings_actual
+ *
+ * Notas:
+ * - Los grupos en curso también se calculan (tabla provisional)
+ * - Solo los partidos FINISHED cuentan; LIVE se ignora hasta que finalice
+ * - Los desempates finales usan el juego limpio y el ranking FIFA de cada equipo
+ */
+@Injectable()
+export class CalculateActualGroupStandingsUseCase {
+  constructor(
+    @Inject('IMatchRepository')
+    private readonly matchRepository: IMatchRepository,
+    @Inject('IGroupStandingActualRepository')
+    private readonly groupStandingActualRepository: IGroupStandingActualRepository,
+    @Inject('ITeamRepository')
+    private readonly teamRepository: ITeamRepository,
+    private readonly calculateStandingsService: CalculateGroupStandingsService,
+  ) {}
+
+  async execute(): Promise<GroupStandingActual[]> {
+    // 1. Obtener partidos de fase de grupos agrupados por grupo
+    const [groupStageMatches, teams] = await Promise.all([
+      this.matchRepository.findGroupStageMatches(),
+      this.teamRepository.findAll(),
+    ]);
+    const tiebreakData = this.calculateStandingsService.buildTiebreakData(
+      teams,
+      true,
+    );
+    const matchesByGroup = new Map<string, Match[]>();
+
+    for (const match of groupStageMatches) {
+      const groupMatches = matchesByGroup.get(match.groupId!) ?? [];
+      groupMatches.push(match);
+      matchesByGroup.set(match.groupId!, groupMatches);
+    }
+
+    // 2. Calcular y persistir la tabla de cada grupo
+    const allStandings: GroupStandingActual[] = [];
+
+    for (const [groupId, matches] of matchesByGroup) {
+      const teamIds = [
+        ...new Set(
+          matches.flatMap((match) => [match.homeTeamId!, match.awayTeamId!]),
+        ),
+      ];
+
+      const results: MatchPredictionWithTeams[] = matches
+        .filter((match) => match.isFinished() && match.hasResult())
+        .map((match) => ({
+          matchId: match.id,
+          homeTeamId: match.homeTeamId!,
+          awayTeamId: match.awayTeamId!,
+          homeScore: match.homeScore!,
+          awayScore: match.awayScore!,
+        }));
+
+      const standings =
+        this.calculateStandingsService.calculateStandingsFromResults(
+          groupId,
+          teamIds,
+          results,
+          tiebreakData,
+        );
+
+      const saved = await this.groupStandingActualRepository.saveMany(
+        groupId,
+        standings,
+      );
+      allStandings.push(...saved);
+    }
+
+    return allStandings;
+  }
+}
@@ -2,6 +2,15 @@ import { Injectable } from '@nestjs/common';
 import type { GroupStandingPrediction } from '@domain/entities/group-standing-prediction.entity';
 import type { SaveBestThirdPlaceData } from '@domain/repositories/best-third-place-prediction.repository.interface';
 
+/**
+ * Tercer lugar candidato a mejor tercero
+ * Lo satisfacen GroupStandingPrediction (predicciones) y GroupStandingActual (oficial)
+ */
+export type ThirdPlaceCandidate = Pick<
+  GroupStandingPrediction,
+  'teamId' | 'groupId' | 'points' | 'goalDifference' | 'goalsFor'
+>;
+
 /**
  * CalculateBestThirdPlacesUseCase (Application Layer)
  *
@@ -23,7 +32,7 @@ export class CalculateBestThirdPlacesUseCase {
    * @param thirdPlaces - Array de 12 terceros lugares (uno por grupo)
    * @returns Array de 8 mejores terceros ordenados por ranking (1-8)
    */
-  execute(thirdPlaces: GroupStandingPrediction[]): SaveBestThirdPlaceData[] {
+  execute(thirdPlaces: ThirdPlaceCandidate[]): SaveBestThirdPlaceData[] {
     // 1. Validar que haya 12 terceros (uno por grupo)
     if (thirdPlaces.length !== 12) {
       throw new Error(
@@ -0,0 +1,421 @@
+import { Injectable, Inject } from '@nestjs/common';
+import type { IMatchRepository } from '@domain/repositories/match.repository.interface';
+import type {
+  IMatchPredictionRepository,
+  MatchPredictionPointsData,
+} from '@domain/repositories/match-prediction.repository.interface';
+import type {
+  IGroupStandingPredictionRepository,
+  GroupStandingPointsData,
+} from '@domain/repositories/group-standing-prediction.repository.interface';
+import type {
+  IBestThirdPlacePredictionRepository,
+  BestThirdPlacePointsData,
+} from '@domain/repositories/best-third-place-prediction.repository.interface';
+import type { IPredictionRepository } from '@domain/repositories/prediction.repository.interface';
+import type { ITournamentResultRepository } from '@domain/repositories/tournament-result.repository.interface';
+import type { ILeagueRepository } from '@domain/repositories/league.repository.interface';
+import type { Prediction } from '@domain/entities/prediction.entity';
+import type { League } from '@domain/entities/league.entity';
+import type { Match } from '@domain/entities/match.entity';
+import type { MatchPrediction } from '@domain/entities/match-prediction.entity';
+import type { GroupStandingActual } from '@domain/entities/group-standing-actual.entity';
+import {
+  DEFAULT_SCORING_RULES,
+  type ScoringRules,
+} from '@domain/constants/scoring-rules.constant';
+import {
+  PredictionScoringService,
+  type PredictedMatchTeams,
+} from '@application/services/prediction-scoring.service';
+import { CalculateActualGroupStandingsUseCase } from '@application/use-cases/predictions/calculate-actual-group-standings.use-case';
+import { CalculateActualBestThirdPlacesUseCase } from '@application/use-cases/predictions/calculate-actual-best-third-places.use-case';
+import { GetPredictedBracketUseCase } from '@application/use-cases/predictions/get-predicted-bracket.use-case';
+
+/**
+ * Resumen de un cálculo de puntos
+ */
+export interface CalculatePointsResult {
+  finishedMatches: number;
+  scoredMatchPredictions: number;
+  completedGroups: number;
+  scoredGroupStandings: number;
+  bestThirdPlacesResolved: boolean;
+  scoredBestThirdPlaces: number;
+  scoredAwards: number;
+  updatedPredictions: number;
+}
+
+/**
+ * CalculatePointsUseCase (Application Layer)
+ *
+ * Caso de uso que puntúa todas las predicciones contra los resultados oficiales.
+ *
+ * Responsabilidades:
+ * 1. Obtener los partidos FINISHED con resultado registrado
+ * 2. Puntuar cada match_prediction de esos partidos (points_earned + points_breakdown).
+ *    En eliminatorias se resuelven los equipos predichos con el cuadro de cada
+ *    usuario (GetPredictedBracketUseCase)
+ * 3. Recalcular la tabla oficial de grupos y puntuar group_standings_predictions
+ *    de los grupos finalizados
+ * 4. Calcular el ranking oficial de mejores terceros y puntuar best_third_places_predictions
+ * 5. Puntuar premios individuales y campeón contra tournament_results
+ * 6. Re-agregar predictions.total_points (y last_points_calculation)
+ *
+ * Reglas de negocio:
+ * - El cálculo es idempotente: recalcula desde cero en cada ejecución
+ * - Cada predicción se puntúa con las reglas de su liga (League.scoringProfile)
+ * - En ligas MATCHDAY se predicen los cruces reales, así que no se resuelve cuadro
+ * - Un grupo solo puntúa cuando sus 6 partidos están FINISHED
+ * - Los mejores terceros solo puntúan cuando los 12 grupos están finalizados
+ * - Los premios no se persisten por separado: se calculan al vuelo desde
+ *   tournament_results (GET /predictions/:id/stats muestra el desglose)
+ * - Los rankings de liga (GET /predictions/league/:leagueId) leen total_points
+ */
+@Injectable()
+export class CalculatePointsUseCase {
+  constructor(
+    @Inject('IMatchRepository')
+    private readonly matchRepository: IMatchRepository,
+    @Inject('IMatchPredictionRepository')
+    private readonly matchPredictionRepository: IMatchPredictionRepository,
+    @Inject('IGroupStandingPredictionRepository')
+    private readonly groupStandingRepository: IGroupStandingPredictionRepository,
+    @Inject('IBestThirdPlacePredictionRepository')
+    private readonly bestThirdPlaceRepository: IBestThirdPlacePredictionRepository,
+    @Inject('IPredictionRepository')
+    private readonly predictionRepository: IPredictionRepository,
+    @Inject('ITournamentResultRepository')
+    private readonly tournamentResultRepository: ITournamentResultRepository,
+    @Inject('ILeagueRepository')
+    private readonly leagueRepository: ILeagueRepository,
+    private readonly predictionScoringService: PredictionScoringService,
+    private readonly calculateActualGroupStandingsUseCase: CalculateActualGroupStandingsUseCase,
+    private readonly calculateActualBestThirdPlacesUseCase: CalculateActualBestThirdPlacesUseCase,
+    private readonly getPredictedBracketUseCase: GetPredictedBracketUseCase,
+  ) {}
+
+  async execute(): Promise<CalculatePointsResult> {
+    // 0. Reglas de puntuación de cada predicción (según su liga)
+    const [predictions, leagues] = await Promise.all([
+      this.predictionRepository.findAll(),
+      this.leagueRepository.findAll(),
+    ]);
+    const rulesByPrediction = this.getRulesByPrediction(predictions, leagues);
+
+    // 1. Obtener partidos finalizados
+    const matches = await this.matchRepository.findAll();
+    const finishedMatches = matches.filter(
+      (match) => match.isFinished() && match.hasResult(),
+    );
+    const finishedMatchesMap = new Map(
+      finishedMatches.map((match) => [match.id, match]),
+    );
+
+    // 2. Puntuar todas las predicciones de esos partidos
+    const matchPredictions =
+      await this.matchPredictionRepository.findByMatchIds(
+        finishedMatches.map((match) => match.id),
+      );
+
+    const predictedTeams = await this.getPredictedKnockoutTeams(
+      predictions,
+      leagues,
+      matchPredictions,
+      finishedMatchesMap,
+    );
+
+    const updates: MatchPredictionPointsData[] = matchPredictions.map(
+      (matchPrediction) => {
+        const match = finishedMatchesMap.get(matchPrediction.matchId)!;
+        const score = this.predictionScoringService.scoreMatchPrediction(
+          match,
+          matchPrediction,
+          this.getPredictedTeamsForMatch(
+            match,
+            matchPrediction,
+            predictedTeams,
+          ),
+          rulesByPrediction.get(matchPrediction.predictionId),
+        );
+
+        return {
+          id: matchPrediction.id,
+          pointsEarned: score.pointsEarned,
+          pointsBreakdown: score.pointsBreakdown,
+        };
+      },
+    );
+
+    await this.matchPredictionRepository.updatePointsMany(updates);
+
+    // 3. Tabla oficial de grupos y puntuación de clasificaciones
+    const actualStandings =
+      await this.calculateActualGroupStandingsUseCase.execute();
+    const groupResult = await this.scoreGroupStandings(
+      actualStandings,
+      rulesByPrediction,
+    );
+
+    // 4. Ranking oficial de mejores terceros y puntuación
+    const bestThirdResult = await this.scoreBestThirdPlaces(
+      actualStandings,
+      rulesByPrediction,
+    );
+
+    // 5. Premios individuales y campeón
+    const awardTotals = await this.scoreAwards(predictions, rulesByPrediction);
+
+    // 6. Re-agregar puntos totales por predicción
+    const totals = await this.aggregateTotals(awardTotals);
+
+    for (const [predictionId, totalPoints] of totals) {
+      await this.predictionRepository.updateTotalPoints(
+        predictionId,
+        totalPoints,
+      );
+    }
+
+    return {
+      finishedMatches: finishedMatches.length,
+      scoredMatchPredictions: updates.length,
+      completedGroups: groupResult.completedGroups,
+      scoredGroupStandings: groupResult.scoredGroupStandings,
+      bestThirdPlacesResolved: bestThirdResult.resolved,
+      scoredBestThirdPlaces: bestThirdResult.scoredBestThirdPlaces,
+      scoredAwards: awardTotals.size,
+      updatedPredictions: totals.size,
+    };
+  }
+
+  /**
+   * Puntúa las posiciones predichas contra la tabla oficial
+   * Los grupos no finalizados dejan sus posiciones predichas a 0 puntos
+   */
+  private async scoreGroupStandings(
+    actualStandings: GroupStandingActual[],
+    rulesByPrediction: Map<string, ScoringRules>,
+  ): Promise<{
+    completedGroups: number;
+    scoredGroupStandings: number;
+  }> {
+    // Indexar la tabla oficial por grupo y equipo
+    const actualByGroup = new Map<string, GroupStandingActual[]>();
+    for (const actual of actualStandings) {
+      const groupStandings = actualByGroup.get(actual.groupId) ?? [];
+      groupStandings.push(actual);
+      actualByGroup.set(actual.groupId, groupStandings);
+    }
+
+    const completedGroupIds = new Set(
+      [...actualByGroup.entries()]
+        .filter(([, standings]) =>
+          standings.every((standing) => standing.hasCompletedGroup()),
+        )
+        .map(([groupId]) => groupId),
+    );
+
+    const actualByTeam = new Map(
+      actualStandings.map((actual) => [
+        `${actual.groupId}:${actual.teamId}`,
+        actual,
+      ]),
+    );
+
+    // Puntuar todas las posiciones predichas
+    const predictedStandings =
+      await this.groupStandingRepository.findByGroupIds([
+        ...actualByGroup.keys(),
+      ]);
+
+    const updates: GroupStandingPointsData[] = predictedStandings.map(
+      (standing) => {
+        const actual = actualByTeam.get(
+          `${standing.groupId}:${standing.teamId}`,
+        );
+
+        if (!actual || !completedGroupIds.has(standing.groupId)) {
+          return { id: standing.id, pointsEarned: 0 };
+        }
+
+        return {
+          id: standing.id,
+          pointsEarned: this.predictionScoringService.scoreGroupStanding(
+            standing,
+            actual,
+            rulesByPrediction.get(standing.predictionId),
+          ),
+        };
+      },
+    );
+
+    await this.groupStandingRepository.updatePointsMany(updates);
+
+    return {
+      completedGroups: completedGroupIds.size,
+      scoredGroupStandings: updates.length,
+    };
+  }
+
+  /**
+   * Recalcula el ranking oficial de mejores terceros y puntúa los predichos
+   * Sin ranking oficial (fase de grupos en curso) todos quedan a 0 puntos
+   */
+  private async scoreBestThirdPlaces(
+    actualStandings: GroupStandingActual[],
+    rulesByPrediction: Map<string, ScoringRules>,
+  ): Promise<{ resolved: boolean; scoredBestThirdPlaces: number }> {
+    const actualBestThirds =
+      await this.calculateActualBestThirdPlacesUseCase.execute(actualStandings);
+
+    const predictedBestThirds = await this.bestThirdPlaceRepository.findAll();
+
+    const updates: BestThirdPlacePointsData[] = predictedBestThirds.map(
+      (bestThird) => ({
+        id: bestThird.id,
+        pointsEarned: this.predictionScoringService.scoreBestThirdPlace(
+          bestThird,
+          actualBestThirds,
+          rulesByPrediction.get(bestThird.predictionId),
+        ),
+      }),
+    );
+
+    await this.bestThirdPlaceRepository.updatePointsMany(updates);
+
+    return {
+      resolved: actualBestThirds.length > 0,
+      scoredBestThirdPlaces: updates.length,
+    };
+  }
+
+  /**
+   * Calcula los puntos de premios y campeón de todas las predicciones
+   * @returns Map de predictionId → puntos de premios
+   */
+  private async scoreAwards(
+    predictions: Prediction[],
+    rulesByPrediction: Map<string, ScoringRules>,
+  ): Promise<Map<string, number>> {
+    const tournamentResult = await this.tournamentResultRepository.find();
+
+    return new Map(
+      predictions.map((prediction) => [
+        prediction.id,
+        this.predictionScoringService.scoreAwards(
+          prediction,
+          tournamentResult,
+          rulesByPrediction.get(prediction.id),
+        ).total,
+      ]),
+    );
+  }
+
+  /**
+   * Resuelve los equipos del cuadro predicho por cada usuario con eliminatorias
+   * ya finalizadas (solo ligas con cuadro propio, no MATCHDAY)
+   * @returns Map de predictionId → (matchId → equipos predichos)
+   */
+  private async getPredictedKnockoutTeams(
+    predictions: Prediction[],
+    leagues: League[],
+    matchPredictions: MatchPrediction[],
+    finishedMatchesMap: Map<string, Match>,
+  ): Promise<Map<string, Map<string, PredictedMatchTeams>>> {
+    const matchdayLeagueIds = new Set(
+      leagues
+        .filter((league) => league.isMatchdayMode())
+        .map((league) => league.id),
+    );
+    const bracketPredictionIds = new Set(
+      predictions
+        .filter((prediction) => !matchdayLeagueIds.has(prediction.leagueId))
+        .map((prediction) => prediction.id),
+    );
+
+    const predictionIds = new Set(
+      matchPredictions
+        .filter(
+          (matchPrediction) =>
+            bracketPredictionIds.has(matchPrediction.predictionId) &&
+            !finishedMatchesMap.get(matchPrediction.matchId)?.isGroupStage(),
+        )
+        .map((matchPrediction) => matchPrediction.predictionId),
+    );
+
+    const predictedTeams = new Map<string, Map<string, PredictedMatchTeams>>();
+    for (const predictionId of predictionIds) {
+      predictedTeams.set(
+        predictionId,
+        await this.getPredictedBracketUseCase.getPredictedTeams(predictionId),
+      );
+    }
+
+    return predictedTeams;
+  }
+
+  /**
+   * Equipos predichos para un partido
+   * @returns null si el usuario predice el cruce real (grupos y ligas MATCHDAY)
+   */
+  private getPredictedTeamsForMatch(
+    match: Match,
+    matchPrediction: MatchPrediction,
+    predictedTeams: Map<string, Map<string, PredictedMatchTeams>>,
+  ): PredictedMatchTeams | null {
+    if (match.isGroupStage()) {
+      return null;
+    }
+
+    const bracket = predictedTeams.get(matchPrediction.predictionId);
+    if (!bracket) {
+      return null;
+    }
+
+    return bracket.get(match.id) ?? { homeTeamId: null, awayTeamId: null };
+  }
+
+  /**
+   * Resuelve las reglas de puntuación de cada predicción según su liga
+   * @returns Map de predictionId → reglas (DEFAULT si la liga no existe)
+   */
+  private getRulesByPrediction(
+    predictions: Prediction[],
+    leagues: League[],
+  ): Map<string, ScoringRules> {
+    const rulesByLeague = new Map(
+      leagues.map((league) => [league.id, league.getScoringRules()]),
+    );
+
+    return new Map(
+      predictions.map((prediction) => [
+        prediction.id,
+        rulesByLeague.get(prediction.leagueId) ?? DEFAULT_SCORING_RULES,
+      ]),
+    );
+  }
+
+  /**
+   * Suma los puntos de todas las fuentes por predicción
+   */
+  private async aggregateTotals(
+    awardTotals: Map<string, number>,
+  ): Promise<Map<string, number>> {
+    const sources = await Promise.all([
+      this.matchPredictionRepository.getTotalPointsByPrediction(),
+      this.groupStandingRepository.getTotalPointsByPrediction(),
+      this.bestThirdPlaceRepository.getTotalPointsByPrediction(),
+    ]);
+    sources.push(awardTotals);
+
+    const totals = new Map<string, number>();
+
+    for (const source of sources) {
+      for (const [predictionId, points] of source) {
+        totals.set(predictionId, (totals.get(predictionId) ?? 0) + points);
+      }
+    }
+
+    return totals;
+  }
+}
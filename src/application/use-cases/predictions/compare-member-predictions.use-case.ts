@@ -0,0 +1,500 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
+import type { IPredictionRepository } from '@domain/repositories/prediction.repository.interface';
+import type { IMatchPredictionRepository } from '@domain/repositories/match-prediction.repository.interface';
+import type { IGroupStandingPredictionRepository } from '@domain/repositories/group-standing-prediction.repository.interface';
+import type { IBestThirdPlacePredictionRepository } from '@domain/repositories/best-third-place-prediction.repository.interface';
+import type { IMatchRepository } from '@domain/repositories/match.repository.interface';
+import type { ILeagueRepository } from '@domain/repositories/league.repository.interface';
+import type { ITournamentResultRepository } from '@domain/repositories/tournament-result.repository.interface';
+import type { Prediction } from '@domain/entities/prediction.entity';
+import type { MatchPrediction } from '@domain/entities/match-prediction.entity';
+import type { GroupStandingPrediction } from '@domain/entities/group-standing-prediction.entity';
+import type { BestThirdPlacePrediction } from '@domain/entities/best-third-place-prediction.entity';
+import type { Match } from '@domain/entities/match.entity';
+import { PredictionScoringService } from '@application/services/prediction-scoring.service';
+import { PredictionVisibilityService } from '@application/services/prediction-visibility.service';
+import {
+  GetPredictedBracketUseCase,
+  type PredictedBracket,
+  type PredictedBracketMatch,
+} from './get-predicted-bracket.use-case';
+
+/**
+ * Un elemento comparado: el valor de cada miembro y los puntos que le dio
+ */
+export interface ComparedItem<T> {
+  a: T | null;
+  b: T | null;
+  pointsA: number;
+  pointsB: number;
+  same: boolean;
+}
+
+/**
+ * Resultado predicho de un partido
+ */
+export interface ComparedMatchScore {
+  homeScore: number;
+  awayScore: number;
+  homeScoreET: number | null;
+  awayScoreET: number | null;
+  penaltiesWinner: 'home' | 'away' | null;
+}
+
+export interface ComparedMatch extends ComparedItem<ComparedMatchScore> {
+  matchId: string;
+  matchNumber: number;
+  phase: string;
+  groupId: string | null;
+}
+
+export interface ComparedGroupStanding extends ComparedItem<number> {
+  groupId: string;
+  teamId: string;
+}
+
+export interface ComparedBestThirdPlace extends ComparedItem<number> {
+  teamId: string;
+}
+
+/**
+ * Cruce predicho de eliminatorias (equipos y ganador)
+ */
+export interface ComparedBracketPick {
+  homeTeamId: string | null;
+  awayTeamId: string | null;
+  predictedWinnerTeamId: string | null;
+}
+
+export interface ComparedBracketMatch
+  extends ComparedItem<ComparedBracketPick> {
+  matchId: string;
+  matchNumber: number;
+  phase: string;
+}
+
+/**
+ * Miembro comparado
+ */
+export interface ComparedMember {
+  userId: string;
+  name: string;
+  predictionId: string;
+  totalPoints: number;
+}
+
+/**
+ * Comparación completa entre dos miembros
+ */
+export interface MemberPredictionsComparison {
+  leagueId: string;
+  memberA: ComparedMember;
+  memberB: ComparedMember;
+  matches: ComparedMatch[];
+  groupStandings: ComparedGroupStanding[];
+  bestThirdPlaces: ComparedBestThirdPlace[];
+  bracket: ComparedBracketMatch[];
+  champion: ComparedItem<string>;
+  awards: {
+    goldenBoot: ComparedItem<string>;
+    goldenBall: ComparedItem<string>;
+    goldenGlove: ComparedItem<string>;
+  };
+}
+
+/**
+ * CompareMemberPredictionsUseCase (Application Layer)
+ *
+ * Caso de uso que compara cara a cara las predicciones de dos miembros de una
+ * liga: partido a partido, tablas de grupos, mejores terceros, cuadro,
+ * campeón y premios, con los puntos que obtuvo cada uno en cada elemento.
+ *
+ * Reglas de negocio:
+ * - Quien consulta y los dos miembros comparados deben pertenecer a la liga
+ * - Solo disponible cuando ambas predicciones están bloqueadas (nadie puede copiar)
+ * - Partidos y cuadro se filtran con PredictionVisibilityService (en MATCHDAY
+ *   solo los partidos cuyo deadline ya pasó, y con hidePredictionsUntilKickoff
+ *   solo los que ya han empezado)
+ * - La tabla de un grupo solo se compara si todos sus partidos son visibles, y
+ *   los mejores terceros si lo es toda la fase de grupos
+ * - Los puntos de partidos, posiciones y terceros son los persistidos por el
+ *   último cálculo; los de campeón y premios se calculan al vuelo
+ */
+@Injectable()
+export class CompareMemberPredictionsUseCase {
+  constructor(
+    @Inject('IPredictionRepository')
+    private readonly predictionRepository: IPredictionRepository,
+
+    @Inject('IMatchPredictionRepository')
+    private readonly matchPredictionRepository: IMatchPredictionRepository,
+
+    @Inject('IGroupStandingPredictionRepository')
+    private readonly groupStandingRepository: IGroupStandingPredictionRepository,
+
+    @Inject('IBestThirdPlacePredictionRepository')
+    private readonly bestThirdPlaceRepository: IBestThirdPlacePredictionRepository,
+
+    @Inject('IMatchRepository')
+    private readonly matchRepository: IMatchRepository,
+
+    @Inject('ILeagueRepository')
+    private readonly leagueRepository: ILeagueRepository,
+
+    @Inject('ITournamentResultRepository')
+    private readonly tournamentResultRepository: ITournamentResultRepository,
+
+    private readonly getPredictedBracketUseCase: GetPredictedBracketUseCase,
+    private readonly predictionScoringService: PredictionScoringService,
+    private readonly predictionVisibilityService: PredictionVisibilityService,
+  ) {}
+
+  /**
+   * @param leagueId - UUID de la liga
+   * @param requesterId - Usuario que consulta
+   * @param userAId - Primer miembro a comparar
+   * @param userBId - Segundo miembro a comparar
+   * @throws NotFoundException si la liga o alguna predicción no existe
+   * @throws ForbiddenException si algún usuario no es miembro o las predicciones no están bloqueadas
+   */
+  async execute(
+    leagueId: string,
+    requesterId: string,
+    userAId: string,
+    userBId: string,
+  ): Promise<MemberPredictionsComparison> {
+    if (userAId === userBId) {
+      throw new BadRequestException('Cannot compare a member with themselves');
+    }
+
+    // 1. Validar liga y membresías
+    const league = await this.leagueRepository.findById(leagueId);
+
+    if (!league) {
+      throw new NotFoundException(`League with id ${leagueId} not found`);
+    }
+
+    const members = await this.leagueRepository.getMembers(leagueId);
+    const membersMap = new Map(members.map((member) => [member.id, member]));
+
+    if (!membersMap.has(requesterId)) {
+      throw new ForbiddenException('You are not a member of this league');
+    }
+
+    const userA = membersMap.get(userAId);
+    const userB = membersMap.get(userBId);
+
+    if (!userA || !userB) {
+      throw new ForbiddenException('Both users must be members of this league');
+    }
+
+    // 2. Obtener predicciones y validar el bloqueo
+    const [predictionA, predictionB] = await Promise.all([
+      this.predictionRepository.findByUserAndLeague(userAId, leagueId),
+      this.predictionRepository.findByUserAndLeague(userBId, leagueId),
+    ]);
+
+    if (!predictionA || !predictionB) {
+      throw new NotFoundException(
+        'Both members must have a prediction in this league',
+      );
+    }
+
+    if (!predictionA.isLocked || !predictionB.isLocked) {
+      throw new ForbiddenException(
+        'Predictions can only be compared once they are locked',
+      );
+    }
+
+    // 3. Cargar todos los datos de ambos miembros
+    const [
+      matches,
+      matchPredictionsA,
+      matchPredictionsB,
+      standingsA,
+      standingsB,
+      bestThirdsA,
+      bestThirdsB,
+      bracketA,
+      bracketB,
+      tournamentResult,
+    ] = await Promise.all([
+      this.matchRepository.findAll(),
+      this.matchPredictionRepository.findByPrediction(predictionA.id),
+      this.matchPredictionRepository.findByPrediction(predictionB.id),
+      this.groupStandingRepository.findByPrediction(predictionA.id),
+      this.groupStandingRepository.findByPrediction(predictionB.id),
+      this.bestThirdPlaceRepository.findByPrediction(predictionA.id),
+      this.bestThirdPlaceRepository.findByPrediction(predictionB.id),
+      this.getPredictedBracketUseCase.execute(predictionA.id),
+      this.getPredictedBracketUseCase.execute(predictionB.id),
+      this.tournamentResultRepository.find(),
+    ]);
+
+    // Ambas predicciones están bloqueadas: en MATCHDAY manda el deadline de
+    // cada partido, y el kickoff si la liga oculta los picks hasta entonces
+    const { visibleMatchIds, visibleGroupIds, groupStageVisible } =
+      this.predictionVisibilityService.getVisibility(matches, league, true);
+    const visibleMatches = matches
+      .filter((match) => visibleMatchIds.has(match.id))
+      .sort((a, b) => a.matchNumber - b.matchNumber);
+
+    // 4. Campeón y premios (puntos al vuelo con las reglas de la liga)
+    const rules = league.getScoringRules();
+    const awardsA = this.predictionScoringService.scoreAwards(
+      predictionA,
+      tournamentResult,
+      rules,
+    );
+    const awardsB = this.predictionScoringService.scoreAwards(
+      predictionB,
+      tournamentResult,
+      rules,
+    );
+
+    return {
+      leagueId,
+      memberA: this.toComparedMember(userA.id, userA.name, predictionA),
+      memberB: this.toComparedMember(userB.id, userB.name, predictionB),
+      matches: this.compareMatches(
+        visibleMatches,
+        matchPredictionsA,
+        matchPredictionsB,
+      ),
+      groupStandings: this.compareGroupStandings(
+        standingsA.filter((standing) => visibleGroupIds.has(standing.groupId)),
+        standingsB.filter((standing) => visibleGroupIds.has(standing.groupId)),
+      ),
+      bestThirdPlaces: groupStageVisible
+        ? this.compareBestThirdPlaces(bestThirdsA, bestThirdsB)
+        : [],
+      bracket: this.compareBrackets(
+        visibleMatches,
+        bracketA,
+        bracketB,
+        matchPredictionsA,
+        matchPredictionsB,
+      ),
+      champion: this.compareValue(
+        predictionA.championTeamId,
+        predictionB.championTeamId,
+        awardsA.champion,
+        awardsB.champion,
+      ),
+      awards: {
+        goldenBoot: this.compareValue(
+          predictionA.goldenBootPlayerId,
+          predictionB.goldenBootPlayerId,
+          awardsA.goldenBoot,
+          awardsB.goldenBoot,
+        ),
+        goldenBall: this.compareValue(
+          predictionA.goldenBallPlayerId,
+          predictionB.goldenBallPlayerId,
+          awardsA.goldenBall,
+          awardsB.goldenBall,
+        ),
+        goldenGlove: this.compareValue(
+          predictionA.goldenGlovePlayerId,
+          predictionB.goldenGlovePlayerId,
+          awardsA.goldenGlove,
+          awardsB.goldenGlove,
+        ),
+      },
+    };
+  }
+
+  private toComparedMember(
+    userId: string,
+    name: string,
+    prediction: Prediction,
+  ): ComparedMember {
+    return {
+      userId,
+      name,
+      predictionId: prediction.id,
+      totalPoints: prediction.totalPoints,
+    };
+  }
+
+  /**
+   * Compara partido a partido (solo partidos que al menos uno predijo)
+   */
+  private compareMatches(
+    matches: Match[],
+    predictionsA: MatchPrediction[],
+    predictionsB: MatchPrediction[],
+  ): ComparedMatch[] {
+    const mapA = new Map(predictionsA.map((mp) => [mp.matchId, mp]));
+    const mapB = new Map(predictionsB.map((mp) => [mp.matchId, mp]));
+
+    return matches
+      .filter((match) => mapA.has(match.id) || mapB.has(match.id))
+      .map((match) => {
+        const a = mapA.get(match.id);
+        const b = mapB.get(match.id);
+        const scoreA = a ? this.toMatchScore(a) : null;
+        const scoreB = b ? this.toMatchScore(b) : null;
+
+        return {
+          matchId: match.id,
+          matchNumber: match.matchNumber,
+          phase: match.phase,
+          groupId: match.groupId,
+          a: scoreA,
+          b: scoreB,
+          pointsA: a?.pointsEarned ?? 0,
+          pointsB: b?.pointsEarned ?? 0,
+          same: JSON.stringify(scoreA) === JSON.stringify(scoreB),
+        };
+      });
+  }
+
+  /**
+   * Compara la posición predicha de cada equipo en su grupo
+   */
+  private compareGroupStandings(
+    standingsA: GroupStandingPrediction[],
+    standingsB: GroupStandingPrediction[],
+  ): ComparedGroupStanding[] {
+    const key = (standing: GroupStandingPrediction): string =>
+      `${standing.groupId}:${standing.teamId}`;
+    const mapA = new Map(standingsA.map((s) => [key(s), s]));
+    const mapB = new Map(standingsB.map((s) => [key(s), s]));
+    const keys = [...new Set([...mapA.keys(), ...mapB.keys()])];
+
+    return keys
+      .map((teamKey) => {
+        const a = mapA.get(teamKey);
+        const b = mapB.get(teamKey);
+        const standing = (a ?? b)!;
+
+        return {
+          groupId: standing.groupId,
+          teamId: standing.teamId,
+          ...this.compareValue(
+            a?.position ?? null,
+            b?.position ?? null,
+            a?.pointsEarned ?? 0,
+            b?.pointsEarned ?? 0,
+          ),
+        };
+      })
+      .sort(
+        (x, y) =>
+          x.groupId.localeCompare(y.groupId) ||
+          (x.a ?? x.b ?? 0) - (y.a ?? y.b ?? 0),
+      );
+  }
+
+  /**
+   * Compara los mejores terceros (un equipo puede estar solo en uno de los dos)
+   */
+  private compareBestThirdPlaces(
+    bestThirdsA: BestThirdPlacePrediction[],
+    bestThirdsB: BestThirdPlacePrediction[],
+  ): ComparedBestThirdPlace[] {
+    const mapA = new Map(bestThirdsA.map((t) => [t.teamId, t]));
+    const mapB = new Map(bestThirdsB.map((t) => [t.teamId, t]));
+    const teamIds = [...new Set([...mapA.keys(), ...mapB.keys()])];
+
+    return teamIds
+      .map((teamId) => {
+        const a = mapA.get(teamId);
+        const b = mapB.get(teamId);
+
+        return {
+          teamId,
+          ...this.compareValue(
+            a?.rankingPosition ?? null,
+            b?.rankingPosition ?? null,
+            a?.pointsEarned ?? 0,
+            b?.pointsEarned ?? 0,
+          ),
+        };
+      })
+      .sort(
+        (x, y) =>
+          (x.a ?? x.b ?? Number.MAX_SAFE_INTEGER) -
+          (y.a ?? y.b ?? Number.MAX_SAFE_INTEGER),
+      );
+  }
+
+  /**
+   * Compara los cruces del cuadro predicho de cada miembro
+   * Los puntos son los del partido (ya incluyen equipo que avanza y bonus de fase)
+   */
+  private compareBrackets(
+    visibleMatches: Match[],
+    bracketA: PredictedBracket,
+    bracketB: PredictedBracket,
+    predictionsA: MatchPrediction[],
+    predictionsB: MatchPrediction[],
+  ): ComparedBracketMatch[] {
+    const visibleIds = new Set(visibleMatches.map((match) => match.id));
+    const pointsA = new Map(
+      predictionsA.map((mp) => [mp.matchId, mp.pointsEarned]),
+    );
+    const pointsB = new Map(
+      predictionsB.map((mp) => [mp.matchId, mp.pointsEarned]),
+    );
+    const nodesB = new Map(
+      bracketB.phases
+        .flatMap((phase) => phase.matches)
+        .map((node) => [node.matchId, node]),
+    );
+
+    return bracketA.phases
+      .flatMap((phase) => phase.matches)
+      .filter((node) => visibleIds.has(node.matchId))
+      .map((nodeA) => {
+        const nodeB = nodesB.get(nodeA.matchId);
+        const pickA = this.toBracketPick(nodeA);
+        const pickB = nodeB ? this.toBracketPick(nodeB) : null;
+
+        return {
+          matchId: nodeA.matchId,
+          matchNumber: nodeA.matchNumber,
+          phase: nodeA.phase,
+          a: pickA,
+          b: pickB,
+          pointsA: pointsA.get(nodeA.matchId) ?? 0,
+          pointsB: pointsB.get(nodeA.matchId) ?? 0,
+          same: JSON.stringify(pickA) === JSON.stringify(pickB),
+        };
+      });
+  }
+
+  private compareValue<T extends string | number>(
+    a: T | null,
+    b: T | null,
+    pointsA: number,
+    pointsB: number,
+  ): ComparedItem<T> {
+    return { a, b, pointsA, pointsB, same: a === b };
+  }
+
+  private toMatchScore(matchPrediction: MatchPrediction): ComparedMatchScore {
+    return {
+      homeScore: matchPrediction.homeScore,
+      awayScore: matchPrediction.awayScore,
+      homeScoreET: matchPrediction.homeScoreET,
+      awayScoreET: matchPrediction.awayScoreET,
+      penaltiesWinner: matchPrediction.penaltiesWinner,
+    };
+  }
+
+  private toBracketPick(node: PredictedBracketMatch): ComparedBracketPick {
+    return {
+      homeTeamId: node.homeTeam?.id ?? null,
+      awayTeamId: node.awayTeam?.id ?? null,
+      predictedWinnerTeamId: node.predictedWinnerTeamId,
+    };
+  }
+}
@@ -0,0 +1,187 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  ForbiddenException,
+  BadRequestException,
+} from '@nestjs/common';
+import type { IPredictionRepository } from '@domain/repositories/prediction.repository.interface';
+import type { ILeagueRepository } from '@domain/repositories/league.repository.interface';
+import type { IUserRepository } from '@domain/repositories/user.repository.interface';
+import type { IMatchRepository } from '@domain/repositories/match.repository.interface';
+import type { IMatchPredictionRepository } from '@domain/repositories/match-prediction.repository.interface';
+import type { IGroupStandingPredictionRepository } from '@domain/repositories/group-standing-prediction.repository.interface';
+import type { Prediction } from '@domain/entities/prediction.entity';
+import { PredictionHistoryService } from '@application/services/prediction-history.service';
+
+/**
+ * CopyPredictionToLeagueUseCase (Application Layer)
+ *
+ * Caso de uso para reutilizar una porra en otra liga: clona partidos, tablas
+ * de grupos, mejores terceros, premios y campeón en la predicción del usuario
+ * para la liga destino (creándola si aún no existe).
+ *
+ * Reglas de negocio:
+ * - Solo se pueden copiar predicciones propias, y a una liga distinta
+ * - El usuario debe haber pagado y ser miembro de la liga destino
+ * - La predicción destino no puede estar bloqueada; en ligas MATCHDAY tampoco
+ *   se permite una vez bloqueado el primer partido (se pisarían partidos cerrados)
+ * - La copia reemplaza todo el contenido del destino en una única transacción
+ * - Lo que cambia en el destino queda registrado en su historial (origen COPY)
+ */
+@Injectable()
+export class CopyPredictionToLeagueUseCase {
+  constructor(
+    @Inject('IPredictionRepository')
+    private readonly predictionRepository: IPredictionRepository,
+
+    @Inject('ILeagueRepository')
+    private readonly leagueRepository: ILeagueRepository,
+
+    @Inject('IUserRepository')
+    private readonly userRepository: IUserRepository,
+
+    @Inject('IMatchRepository')
+    private readonly matchRepository: IMatchRepository,
+
+    @Inject('IMatchPredictionRepository')
+    private readonly matchPredictionRepository: IMatchPredictionRepository,
+
+    @Inject('IGroupStandingPredictionRepository')
+    private readonly groupStandingRepository: IGroupStandingPredictionRepository,
+
+    private readonly predictionHistoryService: PredictionHistoryService,
+  ) {}
+
+  /**
+   * @param predictionId - UUID de la predicción origen
+   * @param targetLeagueId - UUID de la liga destino
+   * @param userId - Usuario autenticado (dueño de la predicción origen)
+   * @returns Predicción destino con el contenido copiado
+   * @throws NotFoundException si la predicción, la liga o el usuario no existe
+   * @throws BadRequestException si la liga destino es la de la predicción origen
+   * @throws ForbiddenException si no es su predicción, no ha pagado, no es miembro o el destino está bloqueado
+   */
+  async execute(
+    predictionId: string,
+    targetLeagueId: string,
+    userId: string,
+  ): Promise<Prediction> {
+    // 1. Validar la predicción origen
+    const source = await this.predictionRepository.findById(predictionId);
+
+    if (!source) {
+      throw new NotFoundException(
+        `Prediction with id ${predictionId} not found`,
+      );
+    }
+
+    if (source.userId !== userId) {
+      throw new ForbiddenException('You can only copy your own predictions');
+    }
+
+    if (source.leagueId === targetLeagueId) {
+      throw new BadRequestException(
+        'Prediction already belongs to the target league',
+      );
+    }
+
+    // 2. Validar liga destino, pago y membresía
+    const league = await this.leagueRepository.findById(targetLeagueId);
+
+    if (!league) {
+      throw new NotFoundException(`League with id ${targetLeagueId} not found`);
+    }
+
+    const user = await this.userRepository.findById(userId);
+
+    if (!user) {
+      throw new NotFoundException(`User with id ${userId} not found`);
+    }
+
+    if (!user.hasCompletedPayment()) {
+      throw new ForbiddenException(
+        'You must complete payment to play in a league',
+      );
+    }
+
+    const isMember = await this.leagueRepository.isMember(
+      targetLeagueId,
+      userId,
+    );
+
+    if (!isMember) {
+      throw new ForbiddenException('You are not a member of this league');
+    }
+
+    // 3. Obtener (o crear) la predicción destino y validar el bloqueo
+    const target =
+      (await this.predictionRepository.findByUserAndLeague(
+        userId,
+        targetLeagueId,
+      )) ??
+      (await this.predictionRepository.create({
+        userId,
+        leagueId: targetLeagueId,
+      }));
+
+    if (!target.canBeEdited()) {
+      throw new ForbiddenException(
+        'Predictions are locked. The deadline has passed.',
+      );
+    }
+
+    if (league.isMatchdayMode()) {
+      const firstLockedAt =
+        await this.matchRepository.findFirstPredictionsLockedAt();
+
+      if (firstLockedAt && firstLockedAt <= new Date()) {
+        throw new ForbiddenException(
+          'Predictions cannot be copied into a MATCHDAY league after the first match has locked',
+        );
+      }
+    }
+
+    // 4. Lo que cambia en el destino: su contenido pasa a ser el del origen
+    const [previous, copiedContents] = await Promise.all([
+      this.loadContents(target.id),
+      this.loadContents(source.id),
+    ]);
+
+    // 5. Copiar todo y registrar el historial en una única transacción
+    return this.predictionRepository.copyContents(source.id, target.id, [
+      ...this.predictionHistoryService.diffMatches(
+        target.id,
+        'COPY',
+        previous.matchPredictions,
+        copiedContents.matchPredictions,
+        true,
+      ),
+      ...this.predictionHistoryService.diffStandings(
+        target.id,
+        'COPY',
+        previous.standings,
+        copiedContents.standings,
+        true,
+      ),
+      ...this.predictionHistoryService.diffPicks(
+        target.id,
+        'COPY',
+        target,
+        source,
+      ),
+    ]);
+  }
+
+  /**
+   * Partidos y tablas guardados de una predicción
+   */
+  private async loadContents(predictionId: string) {
+    const [matchPredictions, standings] = await Promise.all([
+      this.matchPredictionRepository.findByPrediction(predictionId),
+      this.groupStandingRepository.findByPrediction(predictionId),
+    ]);
+
+    return { matchPredictions, standings };
+  }
+}
@@ -0,0 +1,38 @@
+import { Injectable, Inject } from '@nestjs/common';
+import type { ITeamRepository } from '@domain/repositories/team.repository.interface';
+import { PredictionDocumentService } from '@application/services/prediction-document.service';
+import { ExportPredictionUseCase } from './export-prediction.use-case';
+
+/**
+ * ExportPredictionCsvUseCase (Application Layer)
+ *
+ * Caso de uso que exporta los partidos de una predicción como CSV, con los
+ * equipos como código FIFA para que se pueda editar en una hoja de cálculo
+ * y volver a importar (ver ImportPredictionCsvUseCase).
+ */
+@Injectable()
+export class ExportPredictionCsvUseCase {
+  constructor(
+    @Inject('ITeamRepository')
+    private readonly teamRepository: ITeamRepository,
+
+    private readonly exportPredictionUseCase: ExportPredictionUseCase,
+    private readonly documentService: PredictionDocumentService,
+  ) {}
+
+  /**
+   * @param predictionId - UUID de la predicción
+   * @param userId - Usuario autenticado (debe ser el dueño)
+   * @returns Contenido CSV
+   */
+  async execute(predictionId: string, userId: string): Promise<string> {
+    const [document, teams] = await Promise.all([
+      this.exportPredictionUseCase.execute(predictionId, userId),
+      this.teamRepository.findAll(),
+    ]);
+
+    const teamCodes = new Map(teams.map((team) => [team.id, team.fifaCode]));
+
+    return this.documentService.toCsv(document, teamCodes);
+  }
+}
@@ -0,0 +1,198 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  ForbiddenException,
+} from '@nestjs/common';
+import type { IPredictionRepository } from '@domain/repositories/prediction.repository.interface';
+import type { IMatchPredictionRepository } from '@domain/repositories/match-prediction.repository.interface';
+import type { IGroupStandingPredictionRepository } from '@domain/repositories/group-standing-prediction.repository.interface';
+import type { IBestThirdPlacePredictionRepository } from '@domain/repositories/best-third-place-prediction.repository.interface';
+import type { IMatchRepository } from '@domain/repositories/match.repository.interface';
+import type { MatchPrediction } from '@domain/entities/match-prediction.entity';
+import {
+  PREDICTION_DOCUMENT_FORMAT,
+  PREDICTION_DOCUMENT_VERSION,
+  type PredictionDocument,
+  type PredictionDocumentGroup,
+  type PredictionDocumentMatch,
+} from '@application/services/prediction-document.service';
+import { GetPredictedBracketUseCase } from './get-predicted-bracket.use-case';
+
+/**
+ * ExportPredictionUseCase (Application Layer)
+ *
+ * Caso de uso que exporta la predicción completa de un usuario como documento
+ * JSON versionado: partidos de grupos con su tabla (desempates manuales
+ * incluidos), mejores terceros, eliminatorias con los equipos predichos,
+ * premios y campeón.
+ *
+ * El documento se puede volver a importar en cualquier predicción del usuario
+ * (ver ImportPredictionUseCase).
+ */
+@Injectable()
+export class ExportPredictionUseCase {
+  constructor(
+    @Inject('IPredictionRepository')
+    private readonly predictionRepository: IPredictionRepository,
+
+    @Inject('IMatchPredictionRepository')
+    private readonly matchPredictionRepository: IMatchPredictionRepository,
+
+    @Inject('IGroupStandingPredictionRepository')
+    private readonly groupStandingRepository: IGroupStandingPredictionRepository,
+
+    @Inject('IBestThirdPlacePredictionRepository')
+    private readonly bestThirdPlaceRepository: IBestThirdPlacePredictionRepository,
+
+    @Inject('IMatchRepository')
+    private readonly matchRepository: IMatchRepository,
+
+    private readonly getPredictedBracketUseCase: GetPredictedBracketUseCase,
+  ) {}
+
+  /**
+   * @param predictionId - UUID de la predicción
+   * @param userId - Usuario autenticado (debe ser el dueño)
+   * @throws NotFoundException si la predicción no existe
+   * @throws ForbiddenException si la predicción es de otro usuario
+   */
+  async execute(
+    predictionId: string,
+    userId: string,
+  ): Promise<PredictionDocument> {
+    const prediction = await this.predictionRepository.findById(predictionId);
+
+    if (!prediction) {
+      throw new NotFoundException(
+        `Prediction with id ${predictionId} not found`,
+      );
+    }
+
+    if (prediction.userId !== userId) {
+      throw new ForbiddenException('You can only export your own predictions');
+    }
+
+    const [matches, matchPredictions, standings, bestThirds, bracket] =
+      await Promise.all([
+        this.matchRepository.findGroupStageMatches(),
+        this.matchPredictionRepository.findByPrediction(predictionId),
+        this.groupStandingRepository.findByPrediction(predictionId),
+        this.bestThirdPlaceRepository.findByPrediction(predictionId),
+        this.getPredictedBracketUseCase.execute(predictionId),
+      ]);
+
+    const predictionsByMatch = new Map(
+      matchPredictions.map((mp) => [mp.matchId, mp]),
+    );
+
+    // 1. Grupos: partidos predichos y tabla guardada
+    const groups = new Map<string, PredictionDocumentGroup>();
+    for (const match of [...matches].sort(
+      (a, b) => a.matchNumber - b.matchNumber,
+    )) {
+      const matchPrediction = predictionsByMatch.get(match.id);
+      if (!matchPrediction) continue;
+
+      const groupId = match.groupId!;
+      const group = groups.get(groupId) ?? {
+        groupId,
+        matches: [],
+        standings: standings
+          .filter((standing) => standing.groupId === groupId)
+          .sort((a, b) => a.position - b.position)
+          .map((standing) => ({
+            groupId: standing.groupId,
+            teamId: standing.teamId,
+            position: standing.position,
+            points: standing.points,
+            played: standing.played,
+            wins: standing.wins,
+            draws: standing.draws,
+            losses: standing.losses,
+            goalsFor: standing.goalsFor,
+            goalsAgainst: standing.goalsAgainst,
+            goalDifference: standing.goalDifference,
+            hasTiebreakConflict: standing.hasTiebreakConflict,
+            tiebreakGroup: standing.tiebreakGroup,
+            manualTiebreakOrder: standing.manualTiebreakOrder,
+          })),
+      };
+
+      group.matches.push(
+        this.toDocumentMatch(
+          matchPrediction,
+          match.matchNumber,
+          match.homeTeamId,
+          match.awayTeamId,
+        ),
+      );
+      groups.set(groupId, group);
+    }
+
+    // 2. Eliminatorias: equipos según el cuadro predicho
+    const knockouts = bracket.phases
+      .map((phase) => ({
+        phase: phase.phase,
+        matches: phase.matches
+          .filter((node) => predictionsByMatch.has(node.matchId))
+          .map((node) =>
+            this.toDocumentMatch(
+              predictionsByMatch.get(node.matchId)!,
+              node.matchNumber,
+              node.homeTeam?.id ?? null,
+              node.awayTeam?.id ?? null,
+            ),
+          ),
+      }))
+      .filter((phase) => phase.matches.length > 0);
+
+    return {
+      format: PREDICTION_DOCUMENT_FORMAT,
+      version: PREDICTION_DOCUMENT_VERSION,
+      exportedAt: new Date().toISOString(),
+      predictionId: prediction.id,
+      leagueId: prediction.leagueId,
+      groups: [...groups.values()],
+      bestThirdPlaces: bestThirds
+        .sort((a, b) => a.rankingPosition - b.rankingPosition)
+        .map((third) => ({
+          teamId: third.teamId,
+          rankingPosition: third.rankingPosition,
+          points: third.points,
+          goalDifference: third.goalDifference,
+          goalsFor: third.goalsFor,
+          fromGroupId: third.fromGroupId,
+          hasTiebreakConflict: third.hasTiebreakConflict,
+          tiebreakGroup: third.tiebreakGroup,
+          manualTiebreakOrder: third.manualTiebreakOrder,
+        })),
+      knockouts,
+      awards: {
+        goldenBootPlayerId: prediction.goldenBootPlayerId,
+        goldenBallPlayerId: prediction.goldenBallPlayerId,
+        goldenGlovePlayerId: prediction.goldenGlovePlayerId,
+      },
+      championTeamId: prediction.championTeamId,
+    };
+  }
+
+  private toDocumentMatch(
+    matchPrediction: MatchPrediction,
+    matchNumber: number,
+    homeTeamId: string | null,
+    awayTeamId: string | null,
+  ): PredictionDocumentMatch {
+    return {
+      matchId: matchPrediction.matchId,
+      matchNumber,
+      homeTeamId,
+      awayTeamId,
+      homeScore: matchPrediction.homeScore,
+      awayScore: matchPrediction.awayScore,
+      homeScoreET: matchPrediction.homeScoreET,
+      awayScoreET: matchPrediction.awayScoreET,
+      penaltiesWinner: matchPrediction.penaltiesWinner,
+    };
+  }
+}
@@ -0,0 +1,261 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  ForbiddenException,
+} from '@nestjs/common';
+import type {
+  IPredictionRepository,
+  PickCategory,
+  PickCount,
+} from '@domain/repositories/prediction.repository.interface';
+import type {
+  IMatchPredictionRepository,
+  MatchPredictionConsensus,
+} from '@domain/repositories/match-prediction.repository.interface';
+import type {
+  IGroupStandingPredictionRepository,
+  GroupPositionPicks,
+} from '@domain/repositories/group-standing-prediction.repository.interface';
+import type { IMatchRepository } from '@domain/repositories/match.repository.interface';
+import type { ILeagueRepository } from '@domain/repositories/league.repository.interface';
+import { PredictionVisibilityService } from '@application/services/prediction-visibility.service';
+
+/**
+ * Número de elecciones y porcentaje sobre el total del elemento
+ */
+export interface PickShare {
+  count: number;
+  percentage: number;
+}
+
+/**
+ * Consenso de la liga sobre un partido
+ */
+export interface MatchConsensus {
+  matchId: string;
+  matchNumber: number;
+  totalPredictions: number;
+  outcomes: {
+    home: PickShare;
+    draw: PickShare;
+    away: PickShare;
+  };
+  mostCommonScore: PickShare & { homeScore: number; awayScore: number };
+}
+
+/**
+ * Posiciones predichas por la liga para un equipo
+ */
+export interface TeamPositionConsensus {
+  groupId: string;
+  teamId: string;
+  teamName: string;
+  totalPredictions: number;
+  positions: Array<PickShare & { position: number }>;
+}
+
+/**
+ * Equipo o jugador elegido por la liga
+ */
+export interface SelectionConsensus extends PickShare {
+  id: string;
+  name: string;
+}
+
+/**
+ * Estadísticas de consenso de una liga
+ */
+export interface LeagueConsensus {
+  leagueId: string;
+  matches: MatchConsensus[];
+  groupPositions: TeamPositionConsensus[];
+  champion: SelectionConsensus[];
+  awards: {
+    goldenBoot: SelectionConsensus[];
+    goldenBall: SelectionConsensus[];
+    goldenGlove: SelectionConsensus[];
+  };
+}
+
+/**
+ * GetLeagueConsensusUseCase (Application Layer)
+ *
+ * Caso de uso que agrega las predicciones de todos los miembros de una liga:
+ * "el 72% de la liga eligió a España primera del grupo E".
+ *
+ * Incluye:
+ * 1. Por partido: reparto 1X2 y marcador exacto más repetido
+ * 2. Por equipo: reparto de posiciones predichas en su grupo
+ * 3. Reparto de elecciones de campeón y de cada premio individual
+ *
+ * Reglas de negocio:
+ * - La agregación se hace en SQL (repositorios), aquí solo se calculan porcentajes
+ * - Oculto hasta el deadline global, para que nadie se deje llevar por la mayoría
+ * - Los partidos se filtran con PredictionVisibilityService (en MATCHDAY solo
+ *   los que ya pasaron su deadline, y con hidePredictionsUntilKickoff solo los
+ *   que ya han empezado)
+ * - Las posiciones de un grupo solo se incluyen si todos sus partidos son visibles
+ * - Los porcentajes son sobre las predicciones que incluyen ese elemento
+ */
+@Injectable()
+export class GetLeagueConsensusUseCase {
+  constructor(
+    @Inject('IPredictionRepository')
+    private readonly predictionRepository: IPredictionRepository,
+
+    @Inject('IMatchPredictionRepository')
+    private readonly matchPredictionRepository: IMatchPredictionRepository,
+
+    @Inject('IGroupStandingPredictionRepository')
+    private readonly groupStandingRepository: IGroupStandingPredictionRepository,
+
+    @Inject('IMatchRepository')
+    private readonly matchRepository: IMatchRepository,
+
+    @Inject('ILeagueRepository')
+    private readonly leagueRepository: ILeagueRepository,
+
+    private readonly predictionVisibilityService: PredictionVisibilityService,
+  ) {}
+
+  /**
+   * @param leagueId - UUID de la liga
+   * @param userId - Usuario que consulta (debe ser miembro)
+   * @throws NotFoundException si la liga no existe
+   * @throws ForbiddenException si no es miembro o las predicciones aún no están bloqueadas
+   */
+  async execute(leagueId: string, userId: string): Promise<LeagueConsensus> {
+    const league = await this.leagueRepository.findById(leagueId);
+
+    if (!league) {
+      throw new NotFoundException(`League with id ${leagueId} not found`);
+    }
+
+    const isMember = await this.leagueRepository.isMember(leagueId, userId);
+
+    if (!isMember) {
+      throw new ForbiddenException('You are not a member of this league');
+    }
+
+    // 1. Oculto hasta el bloqueo global de predicciones
+    const deadline = await this.matchRepository.findFirstPredictionsLockedAt();
+
+    if (!deadline || deadline > new Date()) {
+      throw new ForbiddenException(
+        'League consensus is hidden until predictions are locked',
+      );
+    }
+
+    // 2. Agregados SQL
+    const [matchConsensus, positionPicks, pickCounts] = await Promise.all([
+      this.matchPredictionRepository.getConsensusByLeague(leagueId),
+      this.groupStandingRepository.getPositionPicksByLeague(leagueId),
+      this.predictionRepository.getPickCountsByLeague(leagueId),
+    ]);
+
+    // 3. Descartar partidos y grupos que aún no son visibles (pasado el
+    //    deadline global todas las predicciones están bloqueadas)
+    const { visibleMatchIds, visibleGroupIds } =
+      this.predictionVisibilityService.getVisibility(
+        await this.matchRepository.findAll(),
+        league,
+        true,
+      );
+    const visibleConsensus = matchConsensus.filter((consensus) =>
+      visibleMatchIds.has(consensus.matchId),
+    );
+    const visiblePositionPicks = positionPicks.filter((row) =>
+      visibleGroupIds.has(row.groupId),
+    );
+
+    return {
+      leagueId,
+      matches: visibleConsensus.map((consensus) =>
+        this.toMatchConsensus(consensus),
+      ),
+      groupPositions: this.toTeamPositions(visiblePositionPicks),
+      champion: this.toSelections(pickCounts, 'CHAMPION'),
+      awards: {
+        goldenBoot: this.toSelections(pickCounts, 'GOLDEN_BOOT'),
+        goldenBall: this.toSelections(pickCounts, 'GOLDEN_BALL'),
+        goldenGlove: this.toSelections(pickCounts, 'GOLDEN_GLOVE'),
+      },
+    };
+  }
+
+  private toMatchConsensus(
+    consensus: MatchPredictionConsensus,
+  ): MatchConsensus {
+    const total = consensus.totalPredictions;
+
+    return {
+      matchId: consensus.matchId,
+      matchNumber: consensus.matchNumber,
+      totalPredictions: total,
+      outcomes: {
+        home: this.toShare(consensus.homeWins, total),
+        draw: this.toShare(consensus.draws, total),
+        away: this.toShare(consensus.awayWins, total),
+      },
+      mostCommonScore: {
+        homeScore: consensus.topHomeScore,
+        awayScore: consensus.topAwayScore,
+        ...this.toShare(consensus.topScoreCount, total),
+      },
+    };
+  }
+
+  /**
+   * Agrupa las filas (grupo, equipo, posición) por equipo
+   */
+  private toTeamPositions(
+    positionPicks: GroupPositionPicks[],
+  ): TeamPositionConsensus[] {
+    const byTeam = new Map<string, GroupPositionPicks[]>();
+    for (const row of positionPicks) {
+      const rows = byTeam.get(row.teamId) ?? [];
+      rows.push(row);
+      byTeam.set(row.teamId, rows);
+    }
+
+    return [...byTeam.values()].map((rows) => {
+      const total = rows.reduce((sum, row) => sum + row.picks, 0);
+
+      return {
+        groupId: rows[0].groupId,
+        teamId: rows[0].teamId,
+        teamName: rows[0].teamName,
+        totalPredictions: total,
+        positions: rows.map((row) => ({
+          position: row.position,
+          ...this.toShare(row.picks, total),
+        })),
+      };
+    });
+  }
+
+  private toSelections(
+    pickCounts: PickCount[],
+    category: PickCategory,
+  ): SelectionConsensus[] {
+    const rows = pickCounts.filter((row) => row.category === category);
+    const total = rows.reduce((sum, row) => sum + row.picks, 0);
+
+    return rows.map((row) => ({
+      id: row.selectionId,
+      name: row.selectionName,
+      ...this.toShare(row.picks, total),
+    }));
+  }
+
+  /**
+   * Porcentaje con un decimal
+   */
+  private toShare(count: number, total: number): PickShare {
+    return {
+      count,
+      percentage: total > 0 ? Math.round((count * 1000) / total) / 10 : 0,
+    };
+  }
+}
@@ -0,0 +1,474 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  ForbiddenException,
+} from '@nestjs/common';
+import type { IMatchPredictionRepository } from '@domain/repositories/match-prediction.repository.interface';
+import type { IGroupStandingPredictionRepository } from '@domain/repositories/group-standing-prediction.repository.interface';
+import type { IBestThirdPlacePredictionRepository } from '@domain/repositories/best-third-place-prediction.repository.interface';
+import type { IMatchRepository } from '@domain/repositories/match.repository.interface';
+import type { ILeagueRepository } from '@domain/repositories/league.repository.interface';
+import type { ITournamentResultRepository } from '@domain/repositories/tournament-result.repository.interface';
+import type { Prediction } from '@domain/entities/prediction.entity';
+import type { MatchPrediction } from '@domain/entities/match-prediction.entity';
+import type { GroupStandingPrediction } from '@domain/entities/group-standing-prediction.entity';
+import type { BestThirdPlacePrediction } from '@domain/entities/best-third-place-prediction.entity';
+import type { TournamentResult } from '@domain/entities/tournament-result.entity';
+import { MatchPhase, type Match } from '@domain/entities/match.entity';
+import type { ScoringRules } from '@domain/constants/scoring-rules.constant';
+import {
+  PredictionScoringService,
+  type PredictedMatchTeams,
+} from '@application/services/prediction-scoring.service';
+import { GetLeagueRankingUseCase } from './get-league-ranking.use-case';
+import { GetPredictedBracketUseCase } from './get-predicted-bracket.use-case';
+
+/**
+ * Desglose de los puntos que un miembro aún puede sumar
+ */
+export interface RemainingPointsBreakdown {
+  matches: number; // Partidos no finalizados (grupos y eliminatorias)
+  groupStandings: number; // Posiciones de grupos aún en juego
+  bestThirdPlaces: number; // Mejores terceros (hasta que terminen los 12 grupos)
+  champion: number; // Campeón, si el equipo elegido sigue vivo
+  awards: number; // Golden Boot/Ball/Glove aún sin ganador oficial
+}
+
+/**
+ * Proyección de un miembro de la liga
+ */
+export interface LeagueMemberProjection {
+  position: number;
+  user: {
+    id: string;
+    name: string;
+    email: string;
+  };
+  predictionId: string;
+  currentPoints: number;
+  maxRemainingPoints: number;
+  maxPossiblePoints: number;
+  remaining: RemainingPointsBreakdown;
+  eliminated: boolean; // true si ya no puede alcanzar el primer puesto
+}
+
+/**
+ * Proyecciones de una liga
+ */
+export interface LeagueProjections {
+  leagueId: string;
+  leaderPoints: number;
+  remainingMatches: number;
+  projections: LeagueMemberProjection[];
+}
+
+/**
+ * Estado oficial del torneo compartido por todos los miembros
+ */
+interface TournamentState {
+  pendingMatches: Map<string, Match>;
+  pendingGroupIds: Set<string>;
+  groupStageFinished: boolean;
+  eliminatedTeamIds: Set<string>;
+  roundOf32TeamIds: Set<string> | null; // null mientras R32 no esté completo
+  tournamentResult: TournamentResult | null;
+  latestResultAt: Date | null; // Último resultado oficial registrado
+}
+
+/**
+ * Picks pendientes de puntuar de un miembro
+ */
+interface MemberPicks {
+  matchPredictions: MatchPrediction[];
+  groupStandings: GroupStandingPrediction[];
+  bestThirdPlaces: BestThirdPlacePrediction[];
+  predictedTeams: Map<string, PredictedMatchTeams> | null; // Cuadro predicho (null en ligas MATCHDAY)
+}
+
+/**
+ * GetLeagueProjectionsUseCase (Application Layer)
+ *
+ * Caso de uso que responde a "¿todavía puedo ganar?": para cada miembro de la
+ * liga calcula los puntos actuales y el máximo que aún puede sumar.
+ *
+ * Flujo:
+ * 1. Ranking de la liga (GetLeagueRankingUseCase) → total_points actuales
+ * 2. Estado oficial: partidos pendientes, grupos abiertos, equipos eliminados
+ *    y ganadores de premios ya registrados
+ * 3. Picks de todos los miembros en una sola consulta por tabla
+ * 4. Por miembro, máximo alcanzable con sus predicciones pendientes
+ *    (mismos criterios y reglas de liga que PredictionScoringService)
+ * 5. Un miembro queda eliminado si su máximo posible no alcanza al líder actual
+ *
+ * Notas:
+ * - Un partido es pendiente hasta que está FINISHED con resultado
+ * - En eliminatorias solo siguen vivos los picks del cuadro cuyos equipos
+ *   predichos no están eliminados (mismo cuadro que usa CalculatePointsUseCase).
+ *   En ligas MATCHDAY se predicen los cruces reales y todos siguen vivos
+ * - El campeón solo suma si su equipo no ha perdido una eliminatoria ni se
+ *   ha quedado fuera de Round of 32
+ * - total_points refleja el último POST /predictions/points/recalculate. Si hay
+ *   resultados posteriores a ese cálculo, sus puntos no están ni en los actuales
+ *   ni en los restantes, así que ese miembro nunca se marca como eliminado
+ */
+@Injectable()
+export class GetLeagueProjectionsUseCase {
+  constructor(
+    @Inject('IMatchPredictionRepository')
+    private readonly matchPredictionRepository: IMatchPredictionRepository,
+
+    @Inject('IGroupStandingPredictionRepository')
+    private readonly groupStandingRepository: IGroupStandingPredictionRepository,
+
+    @Inject('IBestThirdPlacePredictionRepository')
+    private readonly bestThirdPlaceRepository: IBestThirdPlacePredictionRepository,
+
+    @Inject('IMatchRepository')
+    private readonly matchRepository: IMatchRepository,
+
+    @Inject('ILeagueRepository')
+    private readonly leagueRepository: ILeagueRepository,
+
+    @Inject('ITournamentResultRepository')
+    private readonly tournamentResultRepository: ITournamentResultRepository,
+
+    private readonly getLeagueRankingUseCase: GetLeagueRankingUseCase,
+    private readonly getPredictedBracketUseCase: GetPredictedBracketUseCase,
+    private readonly predictionScoringService: PredictionScoringService,
+  ) {}
+
+  /**
+   * @param leagueId - UUID de la liga
+   * @param userId - Usuario que consulta (debe ser miembro)
+   * @throws NotFoundException si la liga no existe
+   * @throws ForbiddenException si el usuario no es miembro de la liga
+   */
+  async execute(leagueId: string, userId: string): Promise<LeagueProjections> {
+    const league = await this.leagueRepository.findById(leagueId);
+
+    if (!league) {
+      throw new NotFoundException(`League with id ${leagueId} not found`);
+    }
+
+    const isMember = await this.leagueRepository.isMember(leagueId, userId);
+
+    if (!isMember) {
+      throw new ForbiddenException('You are not a member of this league');
+    }
+
+    // 1. Ranking actual y estado oficial del torneo
+    const [ranking, state] = await Promise.all([
+      this.getLeagueRankingUseCase.execute(leagueId),
+      this.getTournamentState(),
+    ]);
+
+    const rules = league.getScoringRules();
+
+    // 2. Picks de todos los miembros (grupos y terceros solo si siguen en juego)
+    const predictionIds = ranking.map((item) => item.prediction.id);
+    const [matchPredictions, groupStandings, bestThirdPlaces] =
+      await Promise.all([
+        this.matchPredictionRepository.findByPredictionIds(predictionIds),
+        state.pendingGroupIds.size > 0
+          ? this.groupStandingRepository.findByPredictionIds(predictionIds)
+          : Promise.resolve([]),
+        state.groupStageFinished
+          ? Promise.resolve([])
+          : this.bestThirdPlaceRepository.findByPredictionIds(predictionIds),
+      ]);
+
+    const predictedTeams = league.isMatchdayMode()
+      ? null
+      : await this.getPredictedKnockoutTeams(matchPredictions, state);
+
+    // 3. Máximo alcanzable por miembro. Eliminado si no alcanza los puntos
+    //    actuales del líder (sin puntos al día no se puede afirmar)
+    const leaderPoints = Math.max(
+      0,
+      ...ranking.map((item) => item.prediction.totalPoints),
+    );
+
+    const projections = ranking.map((item) => {
+      const predictionId = item.prediction.id;
+      const remaining = this.getRemainingPoints(
+        item.prediction,
+        {
+          matchPredictions: matchPredictions.filter(
+            (pick) => pick.predictionId === predictionId,
+          ),
+          groupStandings: groupStandings.filter(
+            (pick) => pick.predictionId === predictionId,
+          ),
+          bestThirdPlaces: bestThirdPlaces.filter(
+            (pick) => pick.predictionId === predictionId,
+          ),
+          predictedTeams: predictedTeams?.get(predictionId) ?? null,
+        },
+        state,
+        rules,
+      );
+      const maxRemainingPoints = Object.values(remaining).reduce(
+        (total, points) => total + points,
+        0,
+      );
+
+      const maxPossiblePoints =
+        item.prediction.totalPoints + maxRemainingPoints;
+
+      return {
+        position: item.position,
+        user: item.user,
+        predictionId,
+        currentPoints: item.prediction.totalPoints,
+        maxRemainingPoints,
+        maxPossiblePoints,
+        remaining,
+        eliminated:
+          !this.isPointsOutdated(item.prediction, state) &&
+          maxPossiblePoints < leaderPoints,
+      };
+    });
+
+    return {
+      leagueId,
+      leaderPoints,
+      remainingMatches: state.pendingMatches.size,
+      projections,
+    };
+  }
+
+  /**
+   * Obtiene el estado oficial del torneo a partir de partidos y resultados
+   */
+  private async getTournamentState(): Promise<TournamentState> {
+    const [matches, tournamentResult] = await Promise.all([
+      this.matchRepository.findAll(),
+      this.tournamentResultRepository.find(),
+    ]);
+
+    const pendingMatches = new Map(
+      matches
+        .filter((match) => !match.isFinished() || !match.hasResult())
+        .map((match) => [match.id, match]),
+    );
+
+    // Fecha del último resultado oficial (partidos finalizados y premios)
+    const resultDates = matches
+      .filter((match) => !pendingMatches.has(match.id))
+      .map((match) => match.updatedAt.getTime());
+    if (tournamentResult) {
+      resultDates.push(tournamentResult.updatedAt.getTime());
+    }
+    const latestResultAt =
+      resultDates.length > 0 ? new Date(Math.max(...resultDates)) : null;
+
+    const pendingGroupIds = new Set(
+      [...pendingMatches.values()]
+        .filter((match) => match.isGroupStage() && match.groupId)
+        .map((match) => match.groupId as string),
+    );
+
+    // Perdedores de eliminatorias ya jugadas
+    const eliminatedTeamIds = new Set<string>();
+    for (const match of matches) {
+      if (match.isGroupStage() || pendingMatches.has(match.id)) {
+        continue;
+      }
+
+      const winner = match.getFinalWinner();
+      const loserId =
+        winner === 'home'
+          ? match.awayTeamId
+          : winner === 'away'
+            ? match.homeTeamId
+            : null;
+
+      if (loserId) {
+        eliminatedTeamIds.add(loserId);
+      }
+    }
+
+    // Equipos clasificados a R32 (solo cuando el cruce está completo)
+    const roundOf32Matches = matches.filter(
+      (match) => match.phase === MatchPhase.ROUND_OF_32,
+    );
+    const roundOf32Complete =
+      roundOf32Matches.length > 0 &&
+      roundOf32Matches.every((match) => match.homeTeamId && match.awayTeamId);
+    const roundOf32TeamIds = roundOf32Complete
+      ? new Set(
+          roundOf32Matches.flatMap((match) => [
+            match.homeTeamId as string,
+            match.awayTeamId as string,
+          ]),
+        )
+      : null;
+
+    return {
+      pendingMatches,
+      pendingGroupIds,
+      groupStageFinished: pendingGroupIds.size === 0,
+      eliminatedTeamIds,
+      roundOf32TeamIds,
+      tournamentResult,
+      latestResultAt,
+    };
+  }
+
+  /**
+   * Resuelve el cuadro predicho de los miembros con eliminatorias pendientes
+   * @returns Map de predictionId → (matchId → equipos predichos)
+   */
+  private async getPredictedKnockoutTeams(
+    matchPredictions: MatchPrediction[],
+    state: TournamentState,
+  ): Promise<Map<string, Map<string, PredictedMatchTeams>>> {
+    const predictionIds = new Set(
+      matchPredictions
+        .filter(
+          (matchPrediction) =>
+            state.pendingMatches
+              .get(matchPrediction.matchId)
+              ?.isGroupStage() === false,
+        )
+        .map((matchPrediction) => matchPrediction.predictionId),
+    );
+
+    const predictedTeams = new Map<string, Map<string, PredictedMatchTeams>>();
+    for (const predictionId of predictionIds) {
+      predictedTeams.set(
+        predictionId,
+        await this.getPredictedBracketUseCase.getPredictedTeams(predictionId),
+      );
+    }
+
+    return predictedTeams;
+  }
+
+  /**
+   * Equipos predichos de un partido que aún pueden jugarlo
+   * Los eliminados (o fuera de Round of 32) se descartan como null
+   * @returns null si el usuario predice el cruce real (grupos y ligas MATCHDAY)
+   */
+  private getSurvivingTeams(
+    match: Match,
+    predictedTeams: Map<string, PredictedMatchTeams> | null,
+    state: TournamentState,
+  ): PredictedMatchTeams | null {
+    if (match.isGroupStage() || !predictedTeams) {
+      return null;
+    }
+
+    const aliveTeam = (teamId: string | null | undefined): string | null =>
+      teamId &&
+      !state.eliminatedTeamIds.has(teamId) &&
+      (state.roundOf32TeamIds?.has(teamId) ?? true)
+        ? teamId
+        : null;
+
+    const teams = predictedTeams.get(match.id);
+    return {
+      homeTeamId: aliveTeam(teams?.homeTeamId),
+      awayTeamId: aliveTeam(teams?.awayTeamId),
+    };
+  }
+
+  /**
+   * Verifica si hay resultados oficiales posteriores al último cálculo de puntos
+   */
+  private isPointsOutdated(
+    prediction: Prediction,
+    state: TournamentState,
+  ): boolean {
+    if (!state.latestResultAt) {
+      return false;
+    }
+
+    return (
+      !prediction.lastPointsCalculation ||
+      prediction.lastPointsCalculation < state.latestResultAt
+    );
+  }
+
+  /**
+   * Calcula los puntos que una predicción aún puede sumar
+   */
+  private getRemainingPoints(
+    prediction: Prediction,
+    {
+      matchPredictions,
+      groupStandings,
+      bestThirdPlaces,
+      predictedTeams,
+    }: MemberPicks,
+    state: TournamentState,
+    rules: ScoringRules,
+  ): RemainingPointsBreakdown {
+    // 1. Partidos pendientes predichos (en eliminatorias, solo con equipos vivos)
+    const matches = matchPredictions.reduce((total, matchPrediction) => {
+      const match = state.pendingMatches.get(matchPrediction.matchId);
+      return match
+        ? total +
+            this.predictionScoringService.getMaxMatchPredictionPoints(
+              match,
+              matchPrediction,
+              this.getSurvivingTeams(match, predictedTeams, state),
+              rules,
+            )
+        : total;
+    }, 0);
+
+    // 2. Posiciones de grupos aún abiertos (máximo: posición exacta)
+    const openStandings = groupStandings.filter((standing) =>
+      state.pendingGroupIds.has(standing.groupId),
+    );
+    const groupStandingPoints = openStandings.length * rules.groupExactPosition;
+
+    // 3. Mejores terceros (solo puntúan al terminar la fase de grupos)
+    const bestThirdPlacePoints =
+      bestThirdPlaces.length *
+      (rules.bestThirdQualified + rules.bestThirdExactPosition);
+
+    // 4. Campeón y premios sin ganador oficial
+    const result = state.tournamentResult;
+    const championAlive =
+      prediction.championTeamId !== null &&
+      !result?.championTeamId &&
+      !state.eliminatedTeamIds.has(prediction.championTeamId) &&
+      (state.roundOf32TeamIds?.has(prediction.championTeamId) ?? true);
+
+    const isAwardPending = (
+      predicted: string | null,
+      actual: string | null | undefined,
+    ): boolean => predicted !== null && !actual;
+
+    let awards = 0;
+    if (
+      isAwardPending(prediction.goldenBootPlayerId, result?.goldenBootPlayerId)
+    ) {
+      awards += rules.correctGoldenBoot;
+    }
+    if (
+      isAwardPending(prediction.goldenBallPlayerId, result?.goldenBallPlayerId)
+    ) {
+      awards += rules.correctGoldenBall;
+    }
+    if (
+      isAwardPending(
+        prediction.goldenGlovePlayerId,
+        result?.goldenGlovePlayerId,
+      )
+    ) {
+      awards += rules.correctGoldenGlove;
+    }
+
+    return {
+      matches,
+      groupStandings: groupStandingPoints,
+      bestThirdPlaces: bestThirdPlacePoints,
+      champion: championAlive ? rules.correctChampion : 0,
+      awards,
+    };
+  }
+}
@@ -0,0 +1,247 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  ForbiddenException,
+} from '@nestjs/common';
+import type { IPredictionRepository } from '@domain/repositories/prediction.repository.interface';
+import type { IMatchPredictionRepository } from '@domain/repositories/match-prediction.repository.interface';
+import type { IGroupStandingPredictionRepository } from '@domain/repositories/group-standing-prediction.repository.interface';
+import type { IBestThirdPlacePredictionRepository } from '@domain/repositories/best-third-place-prediction.repository.interface';
+import type { IMatchRepository } from '@domain/repositories/match.repository.interface';
+import type { ILeagueRepository } from '@domain/repositories/league.repository.interface';
+import { PredictionVisibilityService } from '@application/services/prediction-visibility.service';
+import {
+  GetPredictedBracketUseCase,
+  type PredictedBracketPhase,
+} from './get-predicted-bracket.use-case';
+
+/**
+ * Resultado predicho de un partido por el miembro
+ */
+export interface MemberMatchPrediction {
+  matchId: string;
+  matchNumber: number;
+  phase: string;
+  groupId: string | null;
+  homeScore: number;
+  awayScore: number;
+  homeScoreET: number | null;
+  awayScoreET: number | null;
+  penaltiesWinner: 'home' | 'away' | null;
+  pointsEarned: number;
+}
+
+export interface MemberGroupStanding {
+  groupId: string;
+  teamId: string;
+  position: number;
+  pointsEarned: number;
+}
+
+export interface MemberBestThirdPlace {
+  teamId: string;
+  rankingPosition: number;
+  pointsEarned: number;
+}
+
+/**
+ * Predicción completa de un miembro, filtrada según lo que ya es visible
+ */
+export interface MemberPrediction {
+  leagueId: string;
+  member: {
+    userId: string;
+    name: string;
+    predictionId: string;
+    totalPoints: number;
+    isLocked: boolean;
+  };
+  matches: MemberMatchPrediction[];
+  groupStandings: MemberGroupStanding[];
+  bestThirdPlaces: MemberBestThirdPlace[];
+  bracket: PredictedBracketPhase[];
+  picksHidden: boolean; // Campeón y premios ocultos hasta el bloqueo
+  champion: string | null;
+  awards: {
+    goldenBoot: string | null;
+    goldenBall: string | null;
+    goldenGlove: string | null;
+  };
+  hiddenMatches: number;
+}
+
+/**
+ * GetMemberPredictionUseCase (Application Layer)
+ *
+ * Caso de uso de solo lectura para consultar la porra completa de otro
+ * miembro de la liga: partidos, tablas de grupos, mejores terceros, cuadro,
+ * campeón y premios.
+ *
+ * Reglas de visibilidad (no aplican a la propia predicción):
+ * - Partidos, tablas de grupos y mejores terceros: PredictionVisibilityService
+ * - Campeón y premios solo son visibles con la predicción bloqueada
+ */
+@Injectable()
+export class GetMemberPredictionUseCase {
+  constructor(
+    @Inject('IPredictionRepository')
+    private readonly predictionRepository: IPredictionRepository,
+
+    @Inject('IMatchPredictionRepository')
+    private readonly matchPredictionRepository: IMatchPredictionRepository,
+
+    @Inject('IGroupStandingPredictionRepository')
+    private readonly groupStandingRepository: IGroupStandingPredictionRepository,
+
+    @Inject('IBestThirdPlacePredictionRepository')
+    private readonly bestThirdPlaceRepository: IBestThirdPlacePredictionRepository,
+
+    @Inject('IMatchRepository')
+    private readonly matchRepository: IMatchRepository,
+
+    @Inject('ILeagueRepository')
+    private readonly leagueRepository: ILeagueRepository,
+
+    private readonly getPredictedBracketUseCase: GetPredictedBracketUseCase,
+    private readonly predictionVisibilityService: PredictionVisibilityService,
+  ) {}
+
+  /**
+   * @param leagueId - UUID de la liga
+   * @param requesterId - Usuario que consulta
+   * @param memberId - Miembro cuya predicción se consulta
+   * @throws NotFoundException si la liga o la predicción del miembro no existe
+   * @throws ForbiddenException si alguno de los dos no es miembro de la liga
+   */
+  async execute(
+    leagueId: string,
+    requesterId: string,
+    memberId: string,
+  ): Promise<MemberPrediction> {
+    // 1. Validar liga y membresías
+    const league = await this.leagueRepository.findById(leagueId);
+
+    if (!league) {
+      throw new NotFoundException(`League with id ${leagueId} not found`);
+    }
+
+    const members = await this.leagueRepository.getMembers(leagueId);
+    const membersMap = new Map(members.map((member) => [member.id, member]));
+
+    if (!membersMap.has(requesterId)) {
+      throw new ForbiddenException('You are not a member of this league');
+    }
+
+    const member = membersMap.get(memberId);
+
+    if (!member) {
+      throw new ForbiddenException('User is not a member of this league');
+    }
+
+    const prediction = await this.predictionRepository.findByUserAndLeague(
+      memberId,
+      leagueId,
+    );
+
+    if (!prediction) {
+      throw new NotFoundException(
+        `Prediction not found for user ${memberId} in league ${leagueId}`,
+      );
+    }
+
+    // 2. Cargar la predicción completa
+    const [matches, matchPredictions, standings, bestThirds, bracket] =
+      await Promise.all([
+        this.matchRepository.findAll(),
+        this.matchPredictionRepository.findByPrediction(prediction.id),
+        this.groupStandingRepository.findByPrediction(prediction.id),
+        this.bestThirdPlaceRepository.findByPrediction(prediction.id),
+        this.getPredictedBracketUseCase.execute(prediction.id),
+      ]);
+
+    // 3. Calcular qué partidos son visibles para quien consulta
+    const isOwner = requesterId === memberId;
+    const { visibleMatchIds, visibleGroupIds, groupStageVisible } =
+      this.predictionVisibilityService.getVisibility(
+        matches,
+        league,
+        prediction.isLocked,
+        isOwner,
+      );
+    const picksVisible = isOwner || prediction.isLocked;
+
+    // 4. Filtrar cada sección
+    const matchesById = new Map(matches.map((match) => [match.id, match]));
+    const visibleMatchPredictions = matchPredictions
+      .filter((mp) => visibleMatchIds.has(mp.matchId))
+      .map((mp) => {
+        const match = matchesById.get(mp.matchId)!;
+
+        return {
+          matchId: mp.matchId,
+          matchNumber: match.matchNumber,
+          phase: match.phase,
+          groupId: match.groupId,
+          homeScore: mp.homeScore,
+          awayScore: mp.awayScore,
+          homeScoreET: mp.homeScoreET,
+          awayScoreET: mp.awayScoreET,
+          penaltiesWinner: mp.penaltiesWinner,
+          pointsEarned: mp.pointsEarned,
+        };
+      })
+      .sort((a, b) => a.matchNumber - b.matchNumber);
+
+    return {
+      leagueId,
+      member: {
+        userId: member.id,
+        name: member.name,
+        predictionId: prediction.id,
+        totalPoints: prediction.totalPoints,
+        isLocked: prediction.isLocked,
+      },
+      matches: visibleMatchPredictions,
+      groupStandings: standings
+        .filter((standing) => visibleGroupIds.has(standing.groupId))
+        .map((standing) => ({
+          groupId: standing.groupId,
+          teamId: standing.teamId,
+          position: standing.position,
+          pointsEarned: standing.pointsEarned,
+        }))
+        .sort(
+          (a, b) =>
+            a.groupId.localeCompare(b.groupId) || a.position - b.position,
+        ),
+      bestThirdPlaces: groupStageVisible
+        ? bestThirds
+            .map((third) => ({
+              teamId: third.teamId,
+              rankingPosition: third.rankingPosition,
+              pointsEarned: third.pointsEarned,
+            }))
+            .sort((a, b) => a.rankingPosition - b.rankingPosition)
+        : [],
+      bracket: bracket.phases
+        .map((phase) => ({
+          phase: phase.phase,
+          matches: phase.matches.filter((node) =>
+            visibleMatchIds.has(node.matchId),
+          ),
+        }))
+        .filter((phase) => phase.matches.length > 0),
+      picksHidden: !picksVisible,
+      champion: picksVisible ? prediction.championTeamId : null,
+      awards: {
+        goldenBoot: picksVisible ? prediction.goldenBootPlayerId : null,
+        goldenBall: picksVisible ? prediction.goldenBallPlayerId : null,
+        goldenGlove: picksVisible ? prediction.goldenGlovePlayerId : null,
+      },
+      hiddenMatches: matchPredictions.filter(
+        (mp) => !visibleMatchIds.has(mp.matchId),
+      ).length,
+    };
+  }
+}
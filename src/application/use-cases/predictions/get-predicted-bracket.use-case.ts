@@ -0,0 +1,364 @@
+import { Injectable, Inject, NotFoundException } from '@nestjs/common';
+import type { IPredictionRepository } from '@domain/repositories/prediction.repository.interface';
+import type { IMatchPredictionRepository } from '@domain/repositories/match-prediction.repository.interface';
+import type { IGroupStandingPredictionRepository } from '@domain/repositories/group-standing-prediction.repository.interface';
+import type { IBestThirdPlacePredictionRepository } from '@domain/repositories/best-third-place-prediction.repository.interface';
+import type { IMatchRepository } from '@domain/repositories/match.repository.interface';
+import type { ITeamRepository } from '@domain/repositories/team.repository.interface';
+import type {
+  IKnockoutBracketResolverService,
+  ResolvedTeams,
+} from '@domain/services/knockout-bracket-resolver.service.interface';
+import type { Prediction } from '@domain/entities/prediction.entity';
+import type { Match } from '@domain/entities/match.entity';
+import type { MatchPrediction } from '@domain/entities/match-prediction.entity';
+import { KnockoutPhase } from '@domain/value-objects/knockout-phase.vo';
+import type { PredictedMatchTeams } from '@application/services/prediction-scoring.service';
+
+/**
+ * Equipo de un nodo del cuadro
+ */
+export interface BracketTeam {
+  id: string;
+  name: string;
+  fifaCode: string;
+}
+
+/**
+ * Resultado predicho de un partido de eliminatorias
+ */
+export interface BracketMatchPrediction {
+  homeScore: number;
+  awayScore: number;
+  homeScoreET: number | null;
+  awayScoreET: number | null;
+  penaltiesWinner: 'home' | 'away' | null;
+}
+
+/**
+ * Nodo del cuadro predicho (un partido de eliminatorias)
+ */
+export interface PredictedBracketMatch {
+  matchId: string;
+  matchNumber: number;
+  phase: string;
+  homeTeam: BracketTeam | null;
+  awayTeam: BracketTeam | null;
+  homeTeamPlaceholder: string | null;
+  awayTeamPlaceholder: string | null;
+  prediction: BracketMatchPrediction | null;
+  predictedWinner: 'home' | 'away' | null;
+  predictedWinnerTeamId: string | null;
+}
+
+/**
+ * Ronda del cuadro predicho
+ */
+export interface PredictedBracketPhase {
+  phase: string;
+  matches: PredictedBracketMatch[];
+}
+
+/**
+ * Cuadro completo predicho (R32 → FINAL)
+ */
+export interface PredictedBracket {
+  predictionId: string;
+  groupsCompleted: boolean;
+  knockoutsCompleted: boolean;
+  phases: PredictedBracketPhase[];
+  championTeamId: string | null; // Ganador predicho de la FINAL
+}
+
+/**
+ * Nodo intermedio (solo IDs) durante el recorrido del cuadro
+ */
+interface BracketNode {
+  match: Match;
+  homeTeamId: string | null;
+  awayTeamId: string | null;
+  prediction: MatchPrediction | null;
+  predictedWinner: 'home' | 'away' | null;
+  predictedWinnerTeamId: string | null;
+  predictedLoserTeamId: string | null;
+}
+
+/**
+ * GetPredictedBracketUseCase (Application Layer)
+ *
+ * Caso de uso que construye el cuadro de eliminatorias COMPLETO predicho por
+ * un usuario, desde Round of 32 hasta la FINAL.
+ *
+ * Flujo:
+ * 1. Round of 32: resolver placeholders con las tablas y mejores terceros predichos
+ *    (mismo IKnockoutBracketResolverService que GetResolvedRoundOf32MatchesUseCase)
+ * 2. Recorrer las fases en el orden de KnockoutPhase (R32 → R16 → QF → SF → 3º → FINAL)
+ * 3. Cada partido toma como equipos los ganadores predichos de sus dos
+ *    partidos de origen (depends_on_match_ids); el partido por el tercer
+ *    puesto toma los perdedores de semifinales
+ * 4. Cada nodo incluye el resultado predicho (90', prórroga, penaltis) y el ganador
+ *
+ * Notas:
+ * - Los equipos quedan en null mientras la rama anterior no esté predicha
+ * - Es la misma cascada que aplica IKnockoutValidatorService al guardar,
+ *   así el frontend no necesita reimplementarla
+ */
+@Injectable()
+export class GetPredictedBracketUseCase {
+  constructor(
+    @Inject('IPredictionRepository')
+    private readonly predictionRepository: IPredictionRepository,
+
+    @Inject('IMatchPredictionRepository')
+    private readonly matchPredictionRepository: IMatchPredictionRepository,
+
+    @Inject('IGroupStandingPredictionRepository')
+    private readonly groupStandingRepository: IGroupStandingPredictionRepository,
+
+    @Inject('IBestThirdPlacePredictionRepository')
+    private readonly bestThirdPlaceRepository: IBestThirdPlacePredictionRepository,
+
+    @Inject('IMatchRepository')
+    private readonly matchRepository: IMatchRepository,
+
+    @Inject('ITeamRepository')
+    private readonly teamRepository: ITeamRepository,
+
+    @Inject('IKnockoutBracketResolverService')
+    private readonly knockoutResolver: IKnockoutBracketResolverService,
+  ) {}
+
+  /**
+   * @param predictionId - UUID de la predicción
+   * @throws NotFoundException si la predicción no existe
+   */
+  async execute(predictionId: string): Promise<PredictedBracket> {
+    const prediction = await this.predictionRepository.findById(predictionId);
+
+    if (!prediction) {
+      throw new NotFoundException(`Prediction ${predictionId} not found`);
+    }
+
+    const matchPredictions =
+      await this.matchPredictionRepository.findByPrediction(predictionId);
+    const predictionsByMatch = new Map(
+      matchPredictions.map((mp) => [mp.matchId, mp]),
+    );
+
+    // 1. Recorrer las fases en orden, resolviendo cada partido
+    const nodesByNumber = new Map<number, BracketNode>();
+    const nodesByPhase: Array<{ phase: string; nodes: BracketNode[] }> = [];
+
+    for (const phase of KnockoutPhase.getAllPhases()) {
+      const knockoutPhase = new KnockoutPhase(phase);
+      const matches = (
+        await this.matchRepository.findByPhase(knockoutPhase.toMatchPhase())
+      ).sort((a, b) => a.matchNumber - b.matchNumber);
+
+      const roundOf32Teams = knockoutPhase.isFirstPhase()
+        ? await this.resolveRoundOf32(prediction, matches)
+        : null;
+
+      const nodes = matches.map((match) => {
+        const teams = knockoutPhase.isFirstPhase()
+          ? (roundOf32Teams?.get(match.id) ?? null)
+          : this.resolveFromFeedingNodes(
+              match,
+              nodesByNumber,
+              knockoutPhase.isThirdPlace(),
+            );
+
+        const node = this.buildNode(
+          match,
+          teams?.homeTeamId ?? null,
+          teams?.awayTeamId ?? null,
+          predictionsByMatch.get(match.id) ?? null,
+        );
+        nodesByNumber.set(match.matchNumber, node);
+        return node;
+      });
+
+      nodesByPhase.push({ phase, nodes });
+    }
+
+    // 2. Obtener los datos de los equipos en una sola query
+    const teamIds = new Set<string>();
+    for (const node of nodesByNumber.values()) {
+      if (node.homeTeamId) teamIds.add(node.homeTeamId);
+      if (node.awayTeamId) teamIds.add(node.awayTeamId);
+    }
+
+    const teams = await this.teamRepository.findByIds(Array.from(teamIds));
+    const teamsMap = new Map<string, BracketTeam>(
+      teams.map((t) => [
+        t.id,
+        { id: t.id, name: t.name, fifaCode: t.fifaCode },
+      ]),
+    );
+
+    // 3. Construir la respuesta
+    const phases: PredictedBracketPhase[] = nodesByPhase.map(
+      ({ phase, nodes }) => ({
+        phase,
+        matches: nodes.map((node) => this.toBracketMatch(node, teamsMap)),
+      }),
+    );
+
+    const finalNode = nodesByPhase.find((p) =>
+      new KnockoutPhase(p.phase).isFinal(),
+    )?.nodes[0];
+
+    return {
+      predictionId,
+      groupsCompleted: prediction.groupsCompleted,
+      knockoutsCompleted: prediction.knockoutsCompleted,
+      phases,
+      championTeamId: finalNode?.predictedWinnerTeamId ?? null,
+    };
+  }
+
+  /**
+   * Equipos predichos de cada partido del cuadro (para puntuar eliminatorias)
+   *
+   * @param predictionId - UUID de la predicción
+   * @returns Map de matchId → equipos predichos (null en los lados sin resolver)
+   * @throws NotFoundException si la predicción no existe
+   */
+  async getPredictedTeams(
+    predictionId: string,
+  ): Promise<Map<string, PredictedMatchTeams>> {
+    const bracket = await this.execute(predictionId);
+
+    return new Map(
+      bracket.phases.flatMap((phase) =>
+        phase.matches.map((node) => [
+          node.matchId,
+          {
+            homeTeamId: node.homeTeam?.id ?? null,
+            awayTeamId: node.awayTeam?.id ?? null,
+          },
+        ]),
+      ),
+    );
+  }
+
+  /**
+   * Resuelve los equipos de Round of 32 con las predicciones de grupos
+   * @returns null si el usuario aún no completó los 12 grupos
+   */
+  private async resolveRoundOf32(
+    prediction: Prediction,
+    roundOf32Matches: Match[],
+  ): Promise<Map<string, ResolvedTeams> | null> {
+    if (!prediction.groupsCompleted) {
+      return null;
+    }
+
+    const [groupStandings, bestThirdPlaces] = await Promise.all([
+      this.groupStandingRepository.findByPrediction(prediction.id),
+      this.bestThirdPlaceRepository.findByPrediction(prediction.id),
+    ]);
+
+    if (groupStandings.length === 0 || bestThirdPlaces.length !== 8) {
+      return null;
+    }
+
+    return this.knockoutResolver.resolveRoundOf32Teams(
+      groupStandings,
+      bestThirdPlaces,
+      roundOf32Matches,
+    );
+  }
+
+  /**
+   * Equipos de un partido = ganadores predichos de sus partidos de origen
+   * (perdedores si takeLoser, para el partido por el tercer puesto)
+   */
+  private resolveFromFeedingNodes(
+    match: Match,
+    nodesByNumber: Map<number, BracketNode>,
+    takeLoser: boolean,
+  ): { homeTeamId: string | null; awayTeamId: string | null } | null {
+    const feedingNumbers = match.dependsOnMatchIds;
+
+    if (!feedingNumbers || feedingNumbers.length !== 2) {
+      return null;
+    }
+
+    const qualifiedTeam = (node: BracketNode | undefined): string | null =>
+      (takeLoser ? node?.predictedLoserTeamId : node?.predictedWinnerTeamId) ??
+      null;
+
+    return {
+      homeTeamId: qualifiedTeam(nodesByNumber.get(feedingNumbers[0])),
+      awayTeamId: qualifiedTeam(nodesByNumber.get(feedingNumbers[1])),
+    };
+  }
+
+  /**
+   * Crea un nodo calculando el ganador (y el perdedor) predicho
+   */
+  private buildNode(
+    match: Match,
+    homeTeamId: string | null,
+    awayTeamId: string | null,
+    prediction: MatchPrediction | null,
+  ): BracketNode {
+    const finalWinner = prediction?.getFinalWinner() ?? 'draw';
+    const predictedWinner = finalWinner === 'draw' ? null : finalWinner;
+
+    let predictedWinnerTeamId: string | null = null;
+    let predictedLoserTeamId: string | null = null;
+    if (predictedWinner === 'home') {
+      predictedWinnerTeamId = homeTeamId;
+      predictedLoserTeamId = awayTeamId;
+    }
+    if (predictedWinner === 'away') {
+      predictedWinnerTeamId = awayTeamId;
+      predictedLoserTeamId = homeTeamId;
+    }
+
+    return {
+      match,
+      homeTeamId,
+      awayTeamId,
+      prediction,
+      predictedWinner,
+      predictedWinnerTeamId,
+      predictedLoserTeamId,
+    };
+  }
+
+  /**
+   * Convierte un nodo interno al formato de respuesta
+   */
+  private toBracketMatch(
+    node: BracketNode,
+    teamsMap: Map<string, BracketTeam>,
+  ): PredictedBracketMatch {
+    return {
+      matchId: node.match.id,
+      matchNumber: node.match.matchNumber,
+      phase: node.match.phase,
+      homeTeam: node.homeTeamId
+        ? (teamsMap.get(node.homeTeamId) ?? null)
+        : null,
+      awayTeam: node.awayTeamId
+        ? (teamsMap.get(node.awayTeamId) ?? null)
+        : null,
+      homeTeamPlaceholder: node.match.homeTeamPlaceholder,
+      awayTeamPlaceholder: node.match.awayTeamPlaceholder,
+      prediction: node.prediction
+        ? {
+            homeScore: node.prediction.homeScore,
+            awayScore: node.prediction.awayScore,
+            homeScoreET: node.prediction.homeScoreET,
+            awayScoreET: node.prediction.awayScoreET,
+            penaltiesWinner: node.prediction.penaltiesWinner,
+          }
+        : null,
+      predictedWinner: node.predictedWinner,
+      predictedWinnerTeamId: node.predictedWinnerTeamId,
+    };
+  }
+}
@@ -0,0 +1,130 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  ForbiddenException,
+} from '@nestjs/common';
+import type { IPredictionRepository } from '@domain/repositories/prediction.repository.interface';
+import type { IPredictionHistoryRepository } from '@domain/repositories/prediction-history.repository.interface';
+import type { ILeagueRepository } from '@domain/repositories/league.repository.interface';
+import { canManageLeague } from '@domain/constants/league-roles.constant';
+import type { IMatchRepository } from '@domain/repositories/match.repository.interface';
+import type { PredictionHistoryEntry } from '@domain/entities/prediction-history-entry.entity';
+
+/**
+ * Historial de cambios de una predicción
+ */
+export interface PredictionHistory {
+  predictionId: string;
+  userId: string;
+  leagueId: string;
+  entries: PredictionHistoryEntry[];
+  hiddenEntries: number; // Cambios de partidos aún abiertos (admin en ligas MATCHDAY)
+}
+
+/**
+ * GetPredictionHistoryUseCase (Application Layer)
+ *
+ * Caso de uso para consultar el historial append-only de cambios de una
+ * predicción (partidos, desempates de grupos, premios y campeón).
+ *
+ * Reglas de acceso:
+ * - El dueño siempre puede ver su historial completo
+ * - El propietario y los co-admins de la liga pueden ver el de los miembros una
+ *   vez bloqueada la predicción (p. ej. para resolver disputas)
+ * - En ligas MATCHDAY el admin no ve los cambios de partidos cuyo plazo sigue abierto
+ */
+@Injectable()
+export class GetPredictionHistoryUseCase {
+  constructor(
+    @Inject('IPredictionRepository')
+    private readonly predictionRepository: IPredictionRepository,
+
+    @Inject('IPredictionHistoryRepository')
+    private readonly predictionHistoryRepository: IPredictionHistoryRepository,
+
+    @Inject('ILeagueRepository')
+    private readonly leagueRepository: ILeagueRepository,
+
+    @Inject('IMatchRepository')
+    private readonly matchRepository: IMatchRepository,
+  ) {}
+
+  /**
+   * @param predictionId - UUID de la predicción
+   * @param requesterId - Usuario que consulta
+   * @throws NotFoundException si la predicción no existe
+   * @throws ForbiddenException si no es el dueño ni gestiona la liga, o aún no está bloqueada
+   */
+  async execute(
+    predictionId: string,
+    requesterId: string,
+  ): Promise<PredictionHistory> {
+    const prediction = await this.predictionRepository.findById(predictionId);
+
+    if (!prediction) {
+      throw new NotFoundException(
+        `Prediction with id ${predictionId} not found`,
+      );
+    }
+
+    const entries =
+      await this.predictionHistoryRepository.findByPrediction(predictionId);
+    const history = {
+      predictionId: prediction.id,
+      userId: prediction.userId,
+      leagueId: prediction.leagueId,
+    };
+
+    // 1. El dueño ve todo
+    if (prediction.userId === requesterId) {
+      return { ...history, entries, hiddenEntries: 0 };
+    }
+
+    // 2. El propietario o un co-admin de la liga, solo tras el bloqueo
+    const league = await this.leagueRepository.findById(prediction.leagueId);
+    const role = league
+      ? await this.leagueRepository.getMemberRole(league.id, requesterId)
+      : null;
+
+    if (!league || !canManageLeague(role)) {
+      throw new ForbiddenException(
+        'Only the league owner or co-admins can view the history of other members',
+      );
+    }
+
+    if (!prediction.isLocked) {
+      throw new ForbiddenException(
+        'Prediction history is available to league admins after predictions lock',
+      );
+    }
+
+    if (!league.isMatchdayMode()) {
+      return { ...history, entries, hiddenEntries: 0 };
+    }
+
+    // 3. MATCHDAY: ocultar los partidos cuyo plazo sigue abierto
+    const matchIds = [
+      ...new Set(
+        entries
+          .filter((entry) => entry.isMatchChange() && entry.reference)
+          .map((entry) => entry.reference!),
+      ),
+    ];
+    const lockedMatchIds = new Set(
+      (await this.matchRepository.findByIds(matchIds))
+        .filter((match) => match.arePredictionsLocked())
+        .map((match) => match.id),
+    );
+
+    const visibleEntries = entries.filter(
+      (entry) => !entry.isMatchChange() || lockedMatchIds.has(entry.reference!),
+    );
+
+    return {
+      ...history,
+      entries: visibleEntries,
+      hiddenEntries: entries.length - visibleEntries.length,
+    };
+  }
+}
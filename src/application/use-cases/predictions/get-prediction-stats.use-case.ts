@@ -1,19 +1,58 @@
-import { Injectable, Inject } from '@nestjs/common';
+import { Injectable, Inject, NotFoundException } from '@nestjs/common';
 import type { IPredictionRepository } from '@domain/repositories/prediction.repository.interface';
+import type { ITournamentResultRepository } from '@domain/repositories/tournament-result.repository.interface';
+import type { ILeagueRepository } from '@domain/repositories/league.repository.interface';
+import {
+  PredictionScoringService,
+  type AwardPoints,
+} from '@application/services/prediction-scoring.service';
 
 /**
  * GetPredictionStatsUseCase (Application Layer)
  *
  * Caso de uso para obtener estadísticas de una predicción.
+ *
+ * Además del progreso, incluye los puntos totales y el desglose de
+ * puntos de premios individuales y campeón (contra tournament_results),
+ * con las reglas de puntuación de la liga de la predicción.
  */
 @Injectable()
 export class GetPredictionStatsUseCase {
   constructor(
     @Inject('IPredictionRepository')
     private readonly predictionRepository: IPredictionRepository,
+    @Inject('ITournamentResultRepository')
+    private readonly tournamentResultRepository: ITournamentResultRepository,
+    @Inject('ILeagueRepository')
+    private readonly leagueRepository: ILeagueRepository,
+    private readonly predictionScoringService: PredictionScoringService,
   ) {}
 
   async execute(predictionId: string) {
-    return await this.predictionRepository.getPredictionStats(predictionId);
+    const prediction = await this.predictionRepository.findById(predictionId);
+
+    if (!prediction) {
+      throw new NotFoundException(
+        `Prediction with id ${predictionId} not found`,
+      );
+    }
+
+    const [stats, tournamentResult, league] = await Promise.all([
+      this.predictionRepository.getPredictionStats(predictionId),
+      this.tournamentResultRepository.find(),
+      this.leagueRepository.findById(prediction.leagueId),
+    ]);
+
+    const awardPoints: AwardPoints = this.predictionScoringService.scoreAwards(
+      prediction,
+      tournamentResult,
+      league?.getScoringRules(),
+    );
+
+    return {
+      ...stats,
+      totalPoints: prediction.totalPoints,
+      awardPoints,
+    };
   }
 }
@@ -0,0 +1,274 @@
+import { Injectable, Inject } from '@nestjs/common';
+import type { IMatchRepository } from '@domain/repositories/match.repository.interface';
+import type { ITeamRepository } from '@domain/repositories/team.repository.interface';
+import type { SaveGroupStandingData } from '@domain/repositories/group-standing-prediction.repository.interface';
+import type { Match } from '@domain/entities/match.entity';
+import { KnockoutPhase } from '@domain/value-objects/knockout-phase.vo';
+import {
+  CalculateGroupStandingsService,
+  type GroupTiebreakData,
+} from '@application/services/calculate-group-standings.service';
+import {
+  PredictionDocumentService,
+  type PredictionCsvRow,
+  type PredictionDocumentGroup,
+  type PredictionDocumentKnockoutPhase,
+  type PredictionDocumentMatch,
+  type PredictionImportError,
+} from '@application/services/prediction-document.service';
+import {
+  ImportPredictionUseCase,
+  type ImportPredictionResult,
+} from './import-prediction.use-case';
+
+/**
+ * ImportPredictionCsvUseCase (Application Layer)
+ *
+ * Caso de uso que importa los partidos de una predicción desde un CSV
+ * (pensado para quien prepara la porra en una hoja de cálculo).
+ *
+ * Flujo:
+ * 1. Leer el CSV (errores de formato por línea)
+ * 2. Resolver cada fila: número de partido → partido, código FIFA → equipo
+ * 3. Agrupar por grupo / fase y calcular la tabla de cada grupo completo
+ * 4. Delegar en ImportPredictionUseCase (mismas validaciones que el JSON)
+ *
+ * Notas:
+ * - En grupos los equipos salen del calendario; si el CSV los trae deben coincidir
+ * - En eliminatorias los equipos son obligatorios (son los del cuadro predicho)
+ * - Las tablas se calculan sin desempates manuales: para fijarlos usar el JSON
+ */
+@Injectable()
+export class ImportPredictionCsvUseCase {
+  constructor(
+    @Inject('IMatchRepository')
+    private readonly matchRepository: IMatchRepository,
+
+    @Inject('ITeamRepository')
+    private readonly teamRepository: ITeamRepository,
+
+    private readonly calculateStandingsService: CalculateGroupStandingsService,
+    private readonly documentService: PredictionDocumentService,
+    private readonly importPredictionUseCase: ImportPredictionUseCase,
+  ) {}
+
+  /**
+   * @param predictionId - UUID de la predicción destino
+   * @param userId - Usuario autenticado (debe ser el dueño)
+   * @param csv - Contenido del fichero CSV
+   */
+  async execute(
+    predictionId: string,
+    userId: string,
+    csv: string,
+  ): Promise<ImportPredictionResult> {
+    const { rows, errors } = this.documentService.parseCsv(csv);
+
+    // 1. Catálogos para resolver números de partido y códigos FIFA
+    const [matches, teams] = await Promise.all([
+      this.matchRepository.findAll(),
+      this.teamRepository.findAll(),
+    ]);
+
+    const matchesByNumber = new Map(
+      matches.map((match) => [match.matchNumber, match]),
+    );
+    const teamIdsByCode = new Map(
+      teams.map((team) => [team.fifaCode.toUpperCase(), team.id]),
+    );
+
+    const knockoutPhaseByMatchId = new Map<string, string>();
+    for (const phase of KnockoutPhase.getAllPhases()) {
+      for (const match of await this.matchRepository.findByPhase(
+        new KnockoutPhase(phase).toMatchPhase(),
+      )) {
+        knockoutPhaseByMatchId.set(match.id, phase);
+      }
+    }
+
+    // 2. Resolver filas y agruparlas por grupo / fase
+    const groups = new Map<string, PredictionDocumentGroup>();
+    const knockouts = new Map<string, PredictionDocumentKnockoutPhase>();
+    const seenMatchNumbers = new Set<number>();
+
+    for (const row of rows) {
+      const match = matchesByNumber.get(row.matchNumber);
+
+      if (!match) {
+        errors.push(this.rowError(row, `Match #${row.matchNumber} not found`));
+        continue;
+      }
+
+      if (seenMatchNumbers.has(row.matchNumber)) {
+        errors.push(
+          this.rowError(
+            row,
+            `Match #${row.matchNumber} appears more than once`,
+          ),
+        );
+        continue;
+      }
+      seenMatchNumbers.add(row.matchNumber);
+
+      const rowErrors: string[] = [];
+      const homeTeamId = this.resolveTeam(
+        row.homeTeam,
+        teamIdsByCode,
+        rowErrors,
+      );
+      const awayTeamId = this.resolveTeam(
+        row.awayTeam,
+        teamIdsByCode,
+        rowErrors,
+      );
+
+      if (match.isGroupStage()) {
+        if (homeTeamId && homeTeamId !== match.homeTeamId) {
+          rowErrors.push(`${row.homeTeam} is not the home team of this match`);
+        }
+        if (awayTeamId && awayTeamId !== match.awayTeamId) {
+          rowErrors.push(`${row.awayTeam} is not the away team of this match`);
+        }
+      }
+
+      if (rowErrors.length > 0) {
+        errors.push(...rowErrors.map((message) => this.rowError(row, message)));
+        continue;
+      }
+
+      if (match.isGroupStage()) {
+        const groupId = match.groupId!;
+        const group = groups.get(groupId) ?? {
+          groupId,
+          matches: [],
+          standings: [],
+        };
+        group.matches.push(
+          this.toDocumentMatch(row, match, match.homeTeamId, match.awayTeamId),
+        );
+        groups.set(groupId, group);
+        continue;
+      }
+
+      const phase = knockoutPhaseByMatchId.get(match.id)!;
+      const knockout = knockouts.get(phase) ?? { phase, matches: [] };
+      knockout.matches.push(
+        this.toDocumentMatch(row, match, homeTeamId, awayTeamId),
+      );
+      knockouts.set(phase, knockout);
+    }
+
+    // 3. Tabla calculada de cada grupo completo
+    // (los grupos incompletos los rechaza SaveGroupPredictionsUseCase)
+    const tiebreakData = this.calculateStandingsService.buildTiebreakData(
+      teams,
+      false,
+    );
+    for (const group of groups.values()) {
+      group.standings = this.calculateGroupStandings(group, tiebreakData);
+    }
+
+    // 4. Importar con las validaciones de siempre
+    const result = await this.importPredictionUseCase.execute(
+      predictionId,
+      userId,
+      {
+        groups: [...groups.values()],
+        knockouts: [...knockouts.values()],
+        awards: null,
+        championTeamId: null,
+      },
+      'IMPORT_CSV',
+    );
+
+    const allErrors = [...errors, ...result.errors];
+
+    return {
+      ...result,
+      success: allErrors.length === 0,
+      errors: allErrors,
+    };
+  }
+
+  private calculateGroupStandings(
+    group: PredictionDocumentGroup,
+    tiebreakData: GroupTiebreakData,
+  ): SaveGroupStandingData[] {
+    const teamIds = [
+      ...new Set(
+        group.matches.flatMap((match) => [
+          match.homeTeamId!,
+          match.awayTeamId!,
+        ]),
+      ),
+    ];
+
+    if (group.matches.length !== 6 || teamIds.length !== 4) {
+      return [];
+    }
+
+    return this.calculateStandingsService.calculateStandings(
+      group.groupId,
+      teamIds,
+      group.matches.map((match) => ({
+        matchId: match.matchId,
+        homeScore: match.homeScore,
+        awayScore: match.awayScore,
+        homeTeamId: match.homeTeamId!,
+        awayTeamId: match.awayTeamId!,
+      })),
+      tiebreakData,
+    );
+  }
+
+  /**
+   * Resuelve un código FIFA (las celdas vacías se devuelven como null)
+   */
+  private resolveTeam(
+    code: string | null,
+    teamIdsByCode: Map<string, string>,
+    rowErrors: string[],
+  ): string | null {
+    if (!code) {
+      return null;
+    }
+
+    const teamId = teamIdsByCode.get(code);
+    if (!teamId) {
+      rowErrors.push(`Unknown team code ${code}`);
+      return null;
+    }
+    return teamId;
+  }
+
+  private toDocumentMatch(
+    row: PredictionCsvRow,
+    match: Match,
+    homeTeamId: string | null,
+    awayTeamId: string | null,
+  ): PredictionDocumentMatch {
+    return {
+      matchId: match.id,
+      matchNumber: match.matchNumber,
+      homeTeamId,
+      awayTeamId,
+      homeScore: row.homeScore,
+      awayScore: row.awayScore,
+      homeScoreET: row.homeScoreET,
+      awayScoreET: row.awayScoreET,
+      penaltiesWinner: row.penaltiesWinner,
+    };
+  }
+
+  private rowError(
+    row: PredictionCsvRow,
+    message: string,
+  ): PredictionImportError {
+    return {
+      section: 'csv',
+      reference: `#${row.matchNumber}`,
+      row: row.line,
+      message,
+    };
+  }
+}
@@ -0,0 +1,403 @@
+import {
+  Injectable,
+  Inject,
+  NotFoundException,
+  ForbiddenException,
+  HttpException,
+} from '@nestjs/common';
+import type { IPredictionRepository } from '@domain/repositories/prediction.repository.interface';
+import type { IKnockoutValidatorService } from '@domain/services/knockout-validator.service.interface';
+import { KnockoutPhase } from '@domain/value-objects/knockout-phase.vo';
+import type { PredictionChangeSource } from '@domain/entities/prediction-history-entry.entity';
+import type { SaveGroupStandingData } from '@domain/repositories/group-standing-prediction.repository.interface';
+import {
+  PredictionDocumentService,
+  type PredictionDocumentContent,
+  type PredictionDocumentMatch,
+  type PredictionImportError,
+  type PredictionImportSection,
+} from '@application/services/prediction-document.service';
+import { SaveGroupPredictionsUseCase } from './save-group-predictions.use-case';
+import { SaveKnockoutPredictionsUseCase } from './save-knockout-predictions.use-case';
+import { UpdateAwardsUseCase } from './update-awards.use-case';
+import { UpdateChampionUseCase } from './update-champion.use-case';
+
+/**
+ * Resultado de una importación
+ */
+export interface ImportPredictionResult {
+  success: boolean;
+  imported: {
+    groups: number;
+    knockoutPhases: number;
+    awards: boolean;
+    champion: boolean;
+  };
+  errors: PredictionImportError[];
+}
+
+/**
+ * ImportPredictionUseCase (Application Layer)
+ *
+ * Caso de uso que importa el contenido de un documento exportado en una
+ * predicción del usuario, sección a sección.
+ *
+ * Flujo:
+ * 1. Validar que la predicción existe y es del usuario
+ * 2. Grupos: SaveGroupPredictionsUseCase por cada grupo
+ * 3. Eliminatorias: SaveKnockoutPredictionsUseCase por fase, en orden (R32 → FINAL)
+ * 4. Premios y campeón: UpdateAwardsUseCase / UpdateChampionUseCase
+ *
+ * Reglas de negocio:
+ * - Se aplican exactamente las mismas validaciones que al guardar desde la app
+ * - Antes de cada sección se valida fila a fila (incluidos IDs como UUID y
+ *   filas de tabla de grupo); una sección con filas inválidas no se guarda y
+ *   cada fila se reporta con su error
+ * - Los errores de una sección no impiden importar las demás
+ * - Los mejores terceros se recalculan al completar los 12 grupos
+ */
+@Injectable()
+export class ImportPredictionUseCase {
+  constructor(
+    @Inject('IPredictionRepository')
+    private readonly predictionRepository: IPredictionRepository,
+
+    @Inject('IKnockoutValidatorService')
+    private readonly knockoutValidator: IKnockoutValidatorService,
+
+    private readonly saveGroupPredictionsUseCase: SaveGroupPredictionsUseCase,
+    private readonly saveKnockoutPredictionsUseCase: SaveKnockoutPredictionsUseCase,
+    private readonly updateAwardsUseCase: UpdateAwardsUseCase,
+    private readonly updateChampionUseCase: UpdateChampionUseCase,
+    private readonly documentService: PredictionDocumentService,
+  ) {}
+
+  /**
+   * @param predictionId - UUID de la predicción destino
+   * @param userId - Usuario autenticado (debe ser el dueño)
+   * @param content - Contenido del documento a importar
+   * @param source - Origen registrado en el historial (IMPORT o IMPORT_CSV)
+   * @throws NotFoundException si la predicción no existe
+   * @throws ForbiddenException si la predicción es de otro usuario
+   */
+  async execute(
+    predictionId: string,
+    userId: string,
+    content: PredictionDocumentContent,
+    source: PredictionChangeSource = 'IMPORT',
+  ): Promise<ImportPredictionResult> {
+    const prediction = await this.predictionRepository.findById(predictionId);
+
+    if (!prediction) {
+      throw new NotFoundException(
+        `Prediction with id ${predictionId} not found`,
+      );
+    }
+
+    if (prediction.userId !== userId) {
+      throw new ForbiddenException(
+        'You can only import into your own predictions',
+      );
+    }
+
+    const errors: PredictionImportError[] = [];
+    const imported = {
+      groups: 0,
+      knockoutPhases: 0,
+      awards: false,
+      champion: false,
+    };
+
+    // 1. Grupos
+    for (const group of content.groups) {
+      if (!Array.isArray(group?.matches) || !Array.isArray(group.standings)) {
+        errors.push(
+          this.sectionError(
+            'group',
+            group?.groupId,
+            'Group must include matches and standings',
+          ),
+        );
+        continue;
+      }
+
+      if (!this.documentService.isUuid(group.groupId)) {
+        errors.push(
+          this.sectionError(
+            'group',
+            group.groupId,
+            'Group ID must be a valid UUID',
+          ),
+        );
+        continue;
+      }
+
+      const rowErrors = [
+        ...this.validateRows('group', group.groupId, group.matches),
+        ...this.validateStandingRows(group.groupId, group.standings),
+      ];
+      if (rowErrors.length > 0) {
+        errors.push(...rowErrors);
+        continue;
+      }
+
+      const saved = await this.runSection('group', group.groupId, errors, () =>
+        this.saveGroupPredictionsUseCase.execute({
+          userId,
+          leagueId: prediction.leagueId,
+          groupId: group.groupId,
+          matchPredictions: group.matches.map((match) => ({
+            matchId: match.matchId,
+            homeScore: match.homeScore,
+            awayScore: match.awayScore,
+            homeTeamId: match.homeTeamId ?? '',
+            awayTeamId: match.awayTeamId ?? '',
+          })),
+          groupStandings: group.standings.map((standing) => ({
+            ...standing,
+            groupId: group.groupId,
+          })),
+          source,
+        }),
+      );
+
+      if (saved) {
+        errors.push(
+          ...this.lockedMatchErrors(
+            'group',
+            group.matches,
+            saved.rejectedMatchIds,
+          ),
+        );
+        imported.groups++;
+      }
+    }
+
+    // 2. Eliminatorias, en orden de fases (cada fase depende de la anterior)
+    const phaseOrder = KnockoutPhase.getAllPhases();
+    const knockouts = content.knockouts
+      .filter((knockout) => {
+        if (Array.isArray(knockout?.matches)) {
+          return true;
+        }
+        errors.push(
+          this.sectionError(
+            'knockout',
+            knockout?.phase,
+            'Knockout phase must include matches',
+          ),
+        );
+        return false;
+      })
+      .sort(
+        (a, b) => phaseOrder.indexOf(a.phase) - phaseOrder.indexOf(b.phase),
+      );
+
+    for (const knockout of knockouts) {
+      const rowErrors = this.validateRows(
+        'knockout',
+        knockout.phase,
+        knockout.matches,
+      );
+      if (rowErrors.length > 0) {
+        errors.push(...rowErrors);
+        continue;
+      }
+
+      const saved = await this.runSection(
+        'knockout',
+        knockout.phase,
+        errors,
+        () =>
+          this.saveKnockoutPredictionsUseCase.execute(
+            predictionId,
+            knockout.phase,
+            knockout.matches.map((match) => ({
+              matchId: match.matchId,
+              homeTeamId: match.homeTeamId!,
+              awayTeamId: match.awayTeamId!,
+              homeScore: match.homeScore,
+              awayScore: match.awayScore,
+              homeScoreET: match.homeScoreET,
+              awayScoreET: match.awayScoreET,
+              penaltiesWinner: match.penaltiesWinner,
+            })),
+            source,
+          ),
+      );
+
+      if (saved) {
+        errors.push(
+          ...this.lockedMatchErrors(
+            'knockout',
+            knockout.matches,
+            saved.rejectedMatchIds,
+          ),
+        );
+        imported.knockoutPhases++;
+      }
+    }
+
+    // 3. Premios y campeón (se omiten si el documento no los trae)
+    const awards = content.awards;
+    if (
+      awards &&
+      (awards.goldenBootPlayerId ||
+        awards.goldenBallPlayerId ||
+        awards.goldenGlovePlayerId)
+    ) {
+      imported.awards = await this.runSection('awards', null, errors, () =>
+        this.updateAwardsUseCase.execute(predictionId, awards, source),
+      ).then((saved) => saved !== null);
+    }
+
+    if (content.championTeamId) {
+      const championTeamId = content.championTeamId;
+      imported.champion = await this.runSection('champion', null, errors, () =>
+        this.updateChampionUseCase.execute(
+          predictionId,
+          { championTeamId },
+          source,
+        ),
+      ).then((saved) => saved !== null);
+    }
+
+    return { success: errors.length === 0, imported, errors };
+  }
+
+  /**
+   * Valida cada fila de una sección (forma y, en eliminatorias, coherencia
+   * entre 90', prórroga y penaltis)
+   */
+  private validateRows(
+    section: PredictionImportSection,
+    reference: string,
+    matches: PredictionDocumentMatch[],
+  ): PredictionImportError[] {
+    const isKnockout = section === 'knockout';
+
+    return matches.flatMap((match, index) => {
+      const messages = this.documentService.validateMatchRow(match, isKnockout);
+
+      if (messages.length === 0 && isKnockout) {
+        try {
+          this.knockoutValidator.validateMatchResult(
+            match.homeScore,
+            match.awayScore,
+            match.homeScoreET ?? null,
+            match.awayScoreET ?? null,
+            match.penaltiesWinner ?? null,
+          );
+        } catch (error) {
+          messages.push(...this.toMessages(error));
+        }
+      }
+
+      return messages.map((message) => ({
+        section,
+        reference: `${reference}#${match.matchNumber ?? index + 1}`,
+        row: index + 1,
+        message,
+      }));
+    });
+  }
+
+  /**
+   * Valida la forma de cada fila de la tabla de un grupo
+   */
+  private validateStandingRows(
+    groupId: string,
+    standings: SaveGroupStandingData[],
+  ): PredictionImportError[] {
+    return standings.flatMap((standing, index) =>
+      this.documentService.validateStandingRow(standing).map((message) => ({
+        section: 'group' as const,
+        reference: `${groupId}#standing-${index + 1}`,
+        row: index + 1,
+        message,
+      })),
+    );
+  }
+
+  /**
+   * Ejecuta el guardado de una sección y convierte sus errores de validación
+   * en errores de importación (los errores inesperados se propagan)
+   * @returns Resultado del guardado, o null si la sección fue rechazada
+   */
+  private async runSection<T>(
+    section: PredictionImportSection,
+    reference: string | null,
+    errors: PredictionImportError[],
+    save: () => Promise<T>,
+  ): Promise<T | null> {
+    try {
+      return await save();
+    } catch (error) {
+      if (!(error instanceof HttpException)) {
+        throw error;
+      }
+
+      errors.push(
+        ...this.toMessages(error).map((message) => ({
+          section,
+          reference,
+          row: null,
+          message,
+        })),
+      );
+      return null;
+    }
+  }
+
+  private sectionError(
+    section: PredictionImportSection,
+    reference: string | undefined,
+    message: string,
+  ): PredictionImportError {
+    return { section, reference: reference ?? null, row: null, message };
+  }
+
+  /**
+   * Partidos bloqueados que no se guardaron (ligas MATCHDAY)
+   */
+  private lockedMatchErrors(
+    section: PredictionImportSection,
+    matches: PredictionDocumentMatch[],
+    rejectedMatchIds: string[],
+  ): PredictionImportError[] {
+    return matches
+      .map((match, index) => ({ match, row: index + 1 }))
+      .filter(({ match }) => rejectedMatchIds.includes(match.matchId))
+      .map(({ match, row }) => ({
+        section,
+        reference: match.matchId,
+        row,
+        message: 'Match is locked and was not saved',
+      }));
+  }
+
+  /**
+   * Extrae los mensajes de una excepción (incluye la lista de errores de
+   * validación de tablas de grupo)
+   */
+  private toMessages(error: unknown): string[] {
+    if (!(error instanceof HttpException)) {
+      return [error instanceof Error ? error.message : String(error)];
+    }
+
+    const response = error.getResponse();
+    if (typeof response === 'string') {
+      return [response];
+    }
+
+    const { errors, message } = response as {
+      errors?: string[];
+      message?: string | string[];
+    };
+
+    if (Array.isArray(errors) && errors.length > 0) {
+      return errors;
+    }
+    return Array.isArray(message) ? message : [message ?? error.message];
+  }
+}
@@ -0,0 +1,68 @@
+import { Injectable, Inject } from '@nestjs/common';
+import type { IPredictionRepository } from '@domain/repositories/prediction.repository.interface';
+import type { IMatchRepository } from '@domain/repositories/match.repository.interface';
+
+/**
+ * Resumen de una ejecución del bloqueo de predicciones
+ */
+export interface LockPredictionsResult {
+  deadline: Date | null;
+  deadlineReached: boolean;
+  dryRun: boolean;
+  lockedPredictions: number;
+}
+
+/**
+ * LockPredictionsUseCase (Application Layer)
+ *
+ * Caso de uso que bloquea todas las predicciones al llegar el deadline global
+ * (el primer predictions_locked_at de los partidos).
+ *
+ * Responsabilidades:
+ * 1. Obtener el deadline global
+ * 2. Si ya ha pasado, bloquear todas las predicciones desbloqueadas
+ * 3. En modo dry-run, solo contar las que se bloquearían
+ *
+ * Reglas de negocio:
+ * - Idempotente: las predicciones ya bloqueadas no se modifican
+ * - Antes del deadline no se bloquea nada
+ * - En ligas MATCHDAY el bloqueo solo afecta a campeón y premios: los partidos
+ *   se siguen rigiendo por su propio predictions_locked_at
+ *
+ * Usado por:
+ * - PredictionLockScheduler - Ejecución automática al llegar el deadline
+ * - POST /predictions/lock - Ejecución manual o dry-run (admin)
+ */
+@Injectable()
+export class LockPredictionsUseCase {
+  constructor(
+    @Inject('IPredictionRepository')
+    private readonly predictionRepository: IPredictionRepository,
+    @Inject('IMatchRepository')
+    private readonly matchRepository: IMatchRepository,
+  ) {}
+
+  /**
+   * @param dryRun - Si es true, no bloquea y devuelve cuántas se bloquearían
+   */
+  async execute(dryRun = false): Promise<LockPredictionsResult> {
+    const deadline = await this.matchRepository.findFirstPredictionsLockedAt();
+    const deadlineReached = deadline !== null && deadline <= new Date();
+
+    if (!deadlineReached) {
+      return { deadline, deadlineReached, dryRun, lockedPredictions: 0 };
+    }
+
+    const lockedPredictions = dryRun
+      ? await this.predictionRepository.countUnlocked()
+      : await this.predictionRepository.lockAllUnlocked();
+
+    if (!dryRun) {
+      console.log(
+        `[PREDICTION LOCK] Locked ${lockedPredictions} predictions (deadline ${deadline.toISOString()})`,
+      );
+    }
+
+    return { deadline, deadlineReached, dryRun, lockedPredictions };
+  }
+}
@@ -9,9 +9,13 @@ import type { IPredictionRepository } from '@domain/repositories/prediction.repo
 import type { IMatchPredictionRepository } from '@domain/repositories/match-prediction.repository.interface';
 import type { IGroupStandingPredictionRepository } from '@domain/repositories/group-standing-prediction.repository.interface';
 import type { IMatchRepository } from '@domain/repositories/match.repository.interface';
+import type { ILeagueRepository } from '@domain/repositories/league.repository.interface';
+import type { ITeamRepository } from '@domain/repositories/team.repository.interface';
 import type { IBestThirdPlacePredictionRepository } from '@domain/repositories/best-third-place-prediction.repository.interface';
 import type { SaveGroupStandingData } from '@domain/repositories/group-standing-prediction.repository.interface';
 import type { SaveBestThirdPlaceData } from '@domain/repositories/best-third-place-prediction.repository.interface';
+import type { PredictionChangeSource } from '@domain/entities/prediction-history-entry.entity';
+import { PredictionHistoryService } from '@application/services/prediction-history.service';
 import {
   CalculateGroupStandingsService,
   type MatchPredictionWithTeams,
@@ -28,6 +32,7 @@ export interface SaveGroupPredictionsInput {
   groupId: string;
   matchPredictions: MatchPredictionWithTeams[];
   groupStandings: SaveGroupStandingData[]; // ✅ NUEVO: Frontend envía la clasificación
+  source?: PredictionChangeSource; // Origen del cambio para el historial (por defecto APP)
 }
 
 /**
@@ -41,6 +46,7 @@ export interface SaveGroupPredictionsOutput {
   groupsCompleted: boolean;
   totalGroupsCompleted: number;
   bestThirdPlaces?: SaveBestThirdPlaceData[]; // Opcional: solo cuando groupsCompleted = true
+  rejectedMatchIds: string[]; // Partidos bloqueados no guardados (solo modo MATCHDAY)
 }
 
 /**
@@ -51,13 +57,23 @@ export interface SaveGroupPredictionsOutput {
  *
  * Responsabilidades:
  * 1. Validar que la predicción exista y no esté bloqueada
+ *    (en ligas MATCHDAY el bloqueo se valida partido a partido)
  * 2. Validar que hay 6 partidos (fase de grupos)
  * 3. Calcular tabla de posiciones desde matchPredictions (source of truth)
- * 4. Validar que groupStandings enviado coincida con el calculado
+ * 4. Validar que groupStandings enviado coincida con el calculado (estadísticas
+ *    y orden, con los mismos desempates que la importación y el autorrelleno)
  * 5. Guardar matchPredictions en BD
  * 6. Guardar groupStandings en BD (usa el enviado por frontend, ya validado)
  * 7. Verificar si se completaron todos los grupos (12)
  * 8. Marcar groups_completed si corresponde
+ * 9. Registrar en el historial los partidos y posiciones que cambian (en la
+ *    misma transacción que los pasos 5 y 6)
+ *
+ * Modo MATCHDAY:
+ * - Los partidos con predictions_locked_at pasado no se guardan y se devuelven
+ *   en rejectedMatchIds (salvo que se reenvíen sin cambios)
+ * - Si se rechaza algún partido, la tabla enviada no se valida ni se guarda
+ *   (se conserva la tabla guardada previamente)
  *
  * Ventajas de este enfoque:
  * - Frontend maneja UX de empates (drag & drop)
@@ -82,8 +98,15 @@ export class SaveGroupPredictionsUseCase {
     @Inject('IMatchRepository')
     private readonly matchRepository: IMatchRepository,
 
+    @Inject('ILeagueRepository')
+    private readonly leagueRepository: ILeagueRepository,
+
+    @Inject('ITeamRepository')
+    private readonly teamRepository: ITeamRepository,
+
     private readonly calculateStandingsService: CalculateGroupStandingsService,
     private readonly calculateBestThirdPlacesUseCase: CalculateBestThirdPlacesUseCase,
+    private readonly predictionHistoryService: PredictionHistoryService,
   ) {}
 
   async execute(
@@ -102,7 +125,11 @@ export class SaveGroupPredictionsUseCase {
     }
 
     // 2. Validar que la predicción NO esté bloqueada
-    if (!prediction.canBeEdited()) {
+    // En modo MATCHDAY cada partido tiene su propio deadline (ver paso 6.6)
+    const league = await this.leagueRepository.findById(input.leagueId);
+    const isMatchdayMode = league?.isMatchdayMode() ?? false;
+
+    if (!isMatchdayMode && !prediction.canBeEdited()) {
       throw new ForbiddenException(
         'Predictions are locked. The deadline has passed.',
       );
@@ -176,38 +203,88 @@ export class SaveGroupPredictionsUseCase {
       };
     });
 
+    // 6.6. En modo MATCHDAY, descartar los partidos ya bloqueados
+    const lockedMatchIds = isMatchdayMode
+      ? matches.filter((m) => m.arePredictionsLocked()).map((m) => m.id)
+      : [];
+    const rejectedMatchIds = await this.findRejectedMatchIds(
+      prediction.id,
+      input.groupId,
+      lockedMatchIds,
+      enrichedMatchPredictions,
+    );
+
     // 7. Calcular tabla de posiciones desde matchPredictions (source of truth)
-    const calculatedStandings =
-      this.calculateStandingsService.calculateStandings(
-        input.groupId,
-        teamIds,
-        enrichedMatchPredictions,
-      );
+    // Si hay partidos rechazados la tabla enviada ya no es coherente: se conserva la guardada
+    if (rejectedMatchIds.length === 0) {
+      const teams = await this.teamRepository.findByIds(teamIds);
+      const calculatedStandings =
+        this.calculateStandingsService.calculateStandings(
+          input.groupId,
+          teamIds,
+          enrichedMatchPredictions,
+          this.calculateStandingsService.buildTiebreakData(teams, false),
+        );
 
-    // 8. Validar que groupStandings enviado coincida con el calculado
-    const validation = this.calculateStandingsService.validateStandings(
-      input.groupStandings,
-      calculatedStandings,
-    );
+      // 8. Validar que groupStandings enviado coincida con el calculado
+      const validation = this.calculateStandingsService.validateStandings(
+        input.groupStandings,
+        calculatedStandings,
+      );
 
-    if (!validation.valid) {
-      throw new BadRequestException({
-        message: 'Group standings validation failed',
-        errors: validation.errors,
-      });
+      if (!validation.valid) {
+        throw new BadRequestException({
+          message: 'Group standings validation failed',
+          errors: validation.errors,
+        });
+      }
     }
 
-    // 9. Guardar matchPredictions en BD (usa los datos enriquecidos)
-    await this.matchPredictionRepository.saveMany(
-      prediction.id,
-      enrichedMatchPredictions,
+    // 8.5. Estado anterior del grupo (para el historial de cambios)
+    const [previousMatchPredictions, previousStandings] = await Promise.all([
+      this.matchPredictionRepository.findByPredictionAndGroup(
+        prediction.id,
+        input.groupId,
+      ),
+      this.groupStandingRepository.findByPredictionAndGroup(
+        prediction.id,
+        input.groupId,
+      ),
+    ]);
+
+    // 9. Guardar matchPredictions en BD (solo partidos no bloqueados)
+    //    Los cambios se registran en el historial en la misma transacción
+    const source = input.source ?? 'APP';
+    const editableMatchPredictions = enrichedMatchPredictions.filter(
+      (mp) => !lockedMatchIds.includes(mp.matchId),
     );
 
+    if (editableMatchPredictions.length > 0) {
+      await this.matchPredictionRepository.saveMany(
+        prediction.id,
+        editableMatchPredictions,
+        this.predictionHistoryService.diffMatches(
+          prediction.id,
+          source,
+          previousMatchPredictions,
+          editableMatchPredictions,
+        ),
+      );
+    }
+
     // 10. Guardar groupStandings en BD (usa el enviado por frontend, ya validado)
-    await this.groupStandingRepository.saveMany(
-      prediction.id,
-      input.groupStandings,
-    );
+    if (rejectedMatchIds.length === 0) {
+      await this.groupStandingRepository.saveMany(
+        prediction.id,
+        input.groupStandings,
+        this.predictionHistoryService.diffStandings(
+          prediction.id,
+          source,
+          previousStandings,
+          input.groupStandings,
+        ),
+      );
+    }
 
     // 11. Verificar si se completaron todos los 12 grupos
     const allGroupStandings =
@@ -249,11 +326,47 @@ export class SaveGroupPredictionsUseCase {
 
     return {
       success: true,
-      message: 'Group predictions saved successfully',
+      message:
+        rejectedMatchIds.length > 0
+          ? 'Group predictions saved. Some matches are locked and were not saved'
+          : 'Group predictions saved successfully',
       groupsCompleted,
       totalGroupsCompleted,
       bestThirdPlaces, // Incluir mejores terceros si se completaron todos los grupos
+      rejectedMatchIds,
     };
   }
 
+  /**
+   * Obtiene los partidos bloqueados cuya predicción enviada no coincide con la guardada
+   * Reenviar un partido bloqueado sin cambios no se considera un rechazo
+   */
+  private async findRejectedMatchIds(
+    predictionId: string,
+    groupId: string,
+    lockedMatchIds: string[],
+    submitted: MatchPredictionWithTeams[],
+  ): Promise<string[]> {
+    if (lockedMatchIds.length === 0) {
+      return [];
+    }
+
+    const stored =
+      await this.matchPredictionRepository.findByPredictionAndGroup(
+        predictionId,
+        groupId,
+      );
+
+    return submitted
+      .filter((mp) => lockedMatchIds.includes(mp.matchId))
+      .filter((mp) => {
+        const current = stored.find((sp) => sp.matchId === mp.matchId);
+        return (
+          !current ||
+          current.homeScore !== mp.homeScore ||
+          current.awayScore !== mp.awayScore
+        );
+      })
+      .map((mp) => mp.matchId);
+  }
 }
@@ -1,10 +1,39 @@
 import { Injectable, Inject, NotFoundException, BadRequestException } from '@nestjs/common';
 import type { IPredictionRepository } from '@domain/repositories/prediction.repository.interface';
-import type { IMatchPredictionRepository } from '@domain/repositories/match-prediction.repository.interface';
+import type {
+  IMatchPredictionRepository,
+  SaveMatchPredictionData,
+} from '@domain/repositories/match-prediction.repository.interface';
 import type { IMatchRepository } from '@domain/repositories/match.repository.interface';
+import type { ILeagueRepository } from '@domain/repositories/league.repository.interface';
 import type { IKnockoutValidatorService } from '@domain/services/knockout-validator.service.interface';
 import { KnockoutPhase } from '@domain/value-objects/knockout-phase.vo';
 import type { MatchPrediction } from '@domain/entities/match-prediction.entity';
+import type { Match } from '@domain/entities/match.entity';
+import type { PredictionChangeSource } from '@domain/entities/prediction-history-entry.entity';
+import { PredictionHistoryService } from '@application/services/prediction-history.service';
+
+/**
+ * Predicción de un partido de eliminatorias recibida del cliente
+ */
+export interface KnockoutPredictionInput {
+  matchId: string;
+  homeTeamId: string;
+  awayTeamId: string;
+  homeScore: number;
+  awayScore: number;
+  homeScoreET?: number | null;
+  awayScoreET?: number | null;
+  penaltiesWinner?: 'home' | 'away' | null;
+}
+
+/**
+ * Resultado de guardar una fase de eliminatorias
+ */
+export interface SaveKnockoutPredictionsOutput {
+  savedPredictions: MatchPrediction[];
+  rejectedMatchIds: string[]; // Partidos bloqueados no guardados (solo modo MATCHDAY)
+}
 
 /**
  * SaveKnockoutPredictionsUseCase
@@ -21,14 +50,25 @@ import type { MatchPrediction } from '@domain/entities/match-prediction.entity';
  *
  * Flujo:
  * 1. Obtener predicción y validar que existe
- * 2. Validar que predicción no esté bloqueada
- * 3. Crear value object de fase y validar que es válida
+ * 2. Crear value object de fase y validar que es válida
+ * 3. Validar que predicción no esté bloqueada
  * 4. Validar que la fase anterior esté completa (via domain service)
  * 5. Validar cada partido:
  *    - Equipos coinciden con ganadores esperados
  *    - Resultados son consistentes (90', ET, penalties)
  * 6. Guardar todas las predicciones de partidos (batch)
  * 7. Si completó todas las predicciones de la fase, marcar como completada
+ * 8. Registrar en el historial los partidos que cambian
+ *
+ * Modo MATCHDAY (liga con plazos por partido):
+ * - No se exige la fase anterior ni la fase completa: se predicen los cruces reales
+ * - Todos los partidos deben pertenecer a la fase indicada
+ * - Los equipos deben coincidir con los del partido real cuando ya estén definidos
+ * - El lote se valida completo antes de guardar: si alguna fila es inválida
+ *   (partido inexistente, de otra fase, con otros equipos o resultado incoherente)
+ *   se rechaza entero con un 400 que indica todos los partidos en invalidMatchIds
+ * - Los partidos con predictions_locked_at pasado no se guardan y se devuelven
+ *   en rejectedMatchIds
  */
 @Injectable()
 export class SaveKnockoutPredictionsUseCase {
@@ -39,43 +79,49 @@ export class SaveKnockoutPredictionsUseCase {
     private readonly matchPredictionRepository: IMatchPredictionRepository,
     @Inject('IMatchRepository')
     private readonly matchRepository: IMatchRepository,
+    @Inject('ILeagueRepository')
+    private readonly leagueRepository: ILeagueRepository,
     @Inject('IKnockoutValidatorService')
     private readonly knockoutValidator: IKnockoutValidatorService,
+    private readonly predictionHistoryService: PredictionHistoryService,
   ) {}
 
   async execute(
     predictionId: string,
     phase: string,
-    predictions: Array<{
-      matchId: string;
-      homeTeamId: string;
-      awayTeamId: string;
-      homeScore: number;
-      awayScore: number;
-      homeScoreET?: number | null;
-      awayScoreET?: number | null;
-      penaltiesWinner?: 'home' | 'away' | null;
-    }>,
-  ): Promise<MatchPrediction[]> {
+    predictions: KnockoutPredictionInput[],
+    source: PredictionChangeSource = 'APP',
+  ): Promise<SaveKnockoutPredictionsOutput> {
     // 1. Obtener predicción y validar que existe
     const prediction = await this.predictionRepository.findById(predictionId);
     if (!prediction) {
       throw new NotFoundException(`Prediction ${predictionId} not found`);
     }
 
-    // 2. Validar que predicción no esté bloqueada
+    // 2. Crear value object de fase y validar
+    if (!KnockoutPhase.isValid(phase)) {
+      throw new BadRequestException(`Invalid phase: ${phase}`);
+    }
+    const knockoutPhase = new KnockoutPhase(phase);
+
+    // 3. Validar que predicción no esté bloqueada
+    // (en modo MATCHDAY el bloqueo es por partido)
+    const league = await this.leagueRepository.findById(prediction.leagueId);
+    if (league?.isMatchdayMode()) {
+      return this.saveMatchdayPredictions(
+        predictionId,
+        knockoutPhase,
+        predictions,
+        source,
+      );
+    }
+
     if (prediction.isLocked) {
       throw new BadRequestException(
         'Cannot save predictions. Predictions are locked',
       );
     }
 
-    // 3. Crear value object de fase y validar
-    if (!KnockoutPhase.isValid(phase)) {
-      throw new BadRequestException(`Invalid phase: ${phase}`);
-    }
-    const knockoutPhase = new KnockoutPhase(phase);
-
     // 4. Validar que la fase anterior esté completa
     await this.knockoutValidator.validatePhaseCanBePredicted(
       predictionId,
@@ -115,20 +161,173 @@ export class SaveKnockoutPredictionsUseCase {
     }
 
     // 7. Guardar todas las predicciones de partidos (batch)
-    const savedPredictions = await this.matchPredictionRepository.saveMany(
+    const savedPredictions = await this.saveAndRecord(
       predictionId,
-      predictions.map((pred) => ({
-        matchId: pred.matchId,
-        homeScore: pred.homeScore,
-        awayScore: pred.awayScore,
-        homeScoreET: pred.homeScoreET ?? null,
-        awayScoreET: pred.awayScoreET ?? null,
-        penaltiesWinner: pred.penaltiesWinner ?? null,
-      })),
+      predictions,
+      source,
     );
 
     // 8. Actualizar estado de completitud según la fase
-    // Verificar si todas las fases de eliminatorias están completas
+    await this.updateKnockoutsCompleted(predictionId);
+
+    return { savedPredictions, rejectedMatchIds: [] };
+  }
+
+  /**
+   * Guarda una fase en modo MATCHDAY: solo los partidos aún abiertos
+   */
+  private async saveMatchdayPredictions(
+    predictionId: string,
+    knockoutPhase: KnockoutPhase,
+    predictions: KnockoutPredictionInput[],
+    source: PredictionChangeSource,
+  ): Promise<SaveKnockoutPredictionsOutput> {
+    const expectedMatchCount = knockoutPhase.getExpectedMatchCount();
+    if (predictions.length === 0 || predictions.length > expectedMatchCount) {
+      throw new BadRequestException(
+        `Invalid number of predictions for ${knockoutPhase.value}. Expected between 1 and ${expectedMatchCount}, got ${predictions.length}`,
+      );
+    }
+
+    const matches = await this.matchRepository.findByIds(
+      predictions.map((pred) => pred.matchId),
+    );
+    const matchesById = new Map(matches.map((match) => [match.id, match]));
+
+    // Se valida el lote completo antes de guardar: si alguna fila es inválida
+    // se rechaza entero, indicando todos los partidos erróneos a la vez
+    const errors: string[] = [];
+    const invalidMatchIds: string[] = [];
+
+    for (const pred of predictions) {
+      const error = this.validateMatchdayPrediction(
+        pred,
+        matchesById.get(pred.matchId),
+        knockoutPhase,
+      );
+      if (error) {
+        invalidMatchIds.push(pred.matchId);
+        errors.push(`Match ${pred.matchId}: ${error}`);
+      }
+    }
+
+    if (invalidMatchIds.length > 0) {
+      throw new BadRequestException({
+        message: 'Knockout predictions validation failed',
+        invalidMatchIds,
+        errors,
+      });
+    }
+
+    // Los partidos ya bloqueados no se guardan y se devuelven aparte
+    const rejectedMatchIds: string[] = [];
+    const editablePredictions: KnockoutPredictionInput[] = [];
+
+    for (const pred of predictions) {
+      if (matchesById.get(pred.matchId)?.arePredictionsLocked()) {
+        rejectedMatchIds.push(pred.matchId);
+      } else {
+        editablePredictions.push(pred);
+      }
+    }
+
+    const savedPredictions =
+      editablePredictions.length > 0
+        ? await this.saveAndRecord(predictionId, editablePredictions, source)
+        : [];
+
+    await this.updateKnockoutsCompleted(predictionId);
+
+    return { savedPredictions, rejectedMatchIds };
+  }
+
+  /**
+   * Valida una fila en modo MATCHDAY
+   * @returns El motivo por el que la fila es inválida, o null si es válida
+   */
+  private validateMatchdayPrediction(
+    pred: KnockoutPredictionInput,
+    match: Match | undefined,
+    knockoutPhase: KnockoutPhase,
+  ): string | null {
+    if (!match) {
+      return 'not found';
+    }
+
+    // Solo partidos de la fase de la ruta (igual que validateMatchTeams)
+    if (match.phase !== knockoutPhase.toMatchPhase()) {
+      return `does not belong to phase ${knockoutPhase.value}`;
+    }
+
+    // Los cruces reales ya definidos no se pueden alterar
+    if (
+      (match.homeTeamId && match.homeTeamId !== pred.homeTeamId) ||
+      (match.awayTeamId && match.awayTeamId !== pred.awayTeamId)
+    ) {
+      return 'teams do not match the actual fixture';
+    }
+
+    try {
+      this.knockoutValidator.validateMatchResult(
+        pred.homeScore,
+        pred.awayScore,
+        pred.homeScoreET ?? null,
+        pred.awayScoreET ?? null,
+        pred.penaltiesWinner ?? null,
+      );
+    } catch (error) {
+      if (error instanceof BadRequestException) {
+        return error.message;
+      }
+      throw error;
+    }
+
+    return null;
+  }
+
+  /**
+   * Guarda los partidos y registra en el historial los que cambian
+   */
+  private async saveAndRecord(
+    predictionId: string,
+    predictions: KnockoutPredictionInput[],
+    source: PredictionChangeSource,
+  ): Promise<MatchPrediction[]> {
+    const previous =
+      await this.matchPredictionRepository.findByPrediction(predictionId);
+    const data = predictions.map((pred) => this.toSaveData(pred));
+
+    // El historial se guarda en la misma transacción que los partidos
+    return this.matchPredictionRepository.saveMany(
+      predictionId,
+      data,
+      this.predictionHistoryService.diffMatches(
+        predictionId,
+        source,
+        previous,
+        data,
+      ),
+    );
+  }
+
+  /**
+   * Convierte la predicción recibida al formato del repositorio
+   */
+  private toSaveData(pred: KnockoutPredictionInput): SaveMatchPredictionData {
+    return {
+      matchId: pred.matchId,
+      homeScore: pred.homeScore,
+      awayScore: pred.awayScore,
+      homeScoreET: pred.homeScoreET ?? null,
+      awayScoreET: pred.awayScoreET ?? null,
+      penaltiesWinner: pred.penaltiesWinner ?? null,
+    };
+  }
+
+  /**
+   * Marca las eliminatorias como completadas si todas las fases tienen predicción
+   */
+  private async updateKnockoutsCompleted(predictionId: string): Promise<void> {
     const allPhases = KnockoutPhase.getAllPhases();
     const allPhasesComplete = await this.checkAllPhasesComplete(
       predictionId,
@@ -138,8 +337,6 @@ export class SaveKnockoutPredictionsUseCase {
     if (allPhasesComplete) {
       await this.predictionRepository.markKnockoutsCompleted(predictionId);
     }
-
-    return savedPredictions;
   }
 
   /**
@@ -156,7 +353,7 @@ export class SaveKnockoutPredictionsUseCase {
       const phasePredictions =
         await this.matchPredictionRepository.findByPredictionAndPhase(
           predictionId,
-          phaseStr,
+          phase.toMatchPhase(),
         );
 
       if (phasePredictions.length !== expectedCount) {
@@ -9,6 +9,8 @@ import type { IPredictionRepository } from '@domain/repositories/prediction.repo
 import type { IPlayerRepository } from '@domain/repositories/player.repository.interface';
 import type { UpdateAwardsData } from '@domain/repositories/prediction.repository.interface';
 import type { Prediction } from '@domain/entities/prediction.entity';
+import type { PredictionChangeSource } from '@domain/entities/prediction-history-entry.entity';
+import { PredictionHistoryService } from '@application/services/prediction-history.service';
 
 /**
  * UpdateAwardsUseCase (Application Layer)
@@ -19,6 +21,8 @@ import type { Prediction } from '@domain/entities/prediction.entity';
  * - Predicción no bloqueada
  * - Jugadores existen
  * - Golden Glove debe ser portero
+ *
+ * Cada premio que cambia queda registrado en el historial de la predicción.
  */
 @Injectable()
 export class UpdateAwardsUseCase {
@@ -28,11 +32,14 @@ export class UpdateAwardsUseCase {
 
     @Inject('IPlayerRepository')
     private readonly playerRepository: IPlayerRepository,
+
+    private readonly predictionHistoryService: PredictionHistoryService,
   ) {}
 
   async execute(
     predictionId: string,
     awards: UpdateAwardsData,
+    source: PredictionChangeSource = 'APP',
   ): Promise<Prediction> {
     // 1. Validar que la predicción exista y no esté bloqueada
     const prediction = await this.predictionRepository.findById(predictionId);
@@ -76,7 +83,34 @@ export class UpdateAwardsUseCase {
       }
     }
 
-    // 4. Actualizar premios
-    return await this.predictionRepository.updateAwards(predictionId, awards);
+    // 4. Actualizar premios y registrar los que cambian en el historial
+    //    (misma transacción; undefined = el premio no cambia)
+    const pick = (value: string | null | undefined, current: string | null) =>
+      value === undefined ? current : value;
+
+    return this.predictionRepository.updateAwards(
+      predictionId,
+      awards,
+      this.predictionHistoryService.diffPicks(
+        predictionId,
+        source,
+        prediction,
+        {
+          ...prediction,
+          goldenBootPlayerId: pick(
+            awards.goldenBootPlayerId,
+            prediction.goldenBootPlayerId,
+          ),
+          goldenBallPlayerId: pick(
+            awards.goldenBallPlayerId,
+            prediction.goldenBallPlayerId,
+          ),
+          goldenGlovePlayerId: pick(
+            awards.goldenGlovePlayerId,
+            prediction.goldenGlovePlayerId,
+          ),
+        },
+      ),
+    );
   }
 }
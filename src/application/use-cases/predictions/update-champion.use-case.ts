@@ -7,22 +7,28 @@ import {
 import type { IPredictionRepository } from '@domain/repositories/prediction.repository.interface';
 import type { UpdateChampionData } from '@domain/repositories/prediction.repository.interface';
 import type { Prediction } from '@domain/entities/prediction.entity';
+import type { PredictionChangeSource } from '@domain/entities/prediction-history-entry.entity';
+import { PredictionHistoryService } from '@application/services/prediction-history.service';
 
 /**
  * UpdateChampionUseCase (Application Layer)
  *
  * Caso de uso para actualizar el campeón predicho.
+ * El cambio queda registrado en el historial de la predicción.
  */
 @Injectable()
 export class UpdateChampionUseCase {
   constructor(
     @Inject('IPredictionRepository')
     private readonly predictionRepository: IPredictionRepository,
+
+    private readonly predictionHistoryService: PredictionHistoryService,
   ) {}
 
   async execute(
     predictionId: string,
     data: UpdateChampionData,
+    source: PredictionChangeSource = 'APP',
   ): Promise<Prediction> {
     // 1. Validar que la predicción exista y no esté bloqueada
     const prediction = await this.predictionRepository.findById(predictionId);
@@ -39,7 +45,20 @@ export class UpdateChampionUseCase {
       );
     }
 
-    // 2. Actualizar campeón
-    return await this.predictionRepository.updateChampion(predictionId, data);
+    // 2. Actualizar campeón y registrar el cambio en el historial
+    //    (misma transacción)
+    return this.predictionRepository.updateChampion(
+      predictionId,
+      data,
+      this.predictionHistoryService.diffPicks(
+        predictionId,
+        source,
+        prediction,
+        {
+          ...prediction,
+          championTeamId: data.championTeamId,
+        },
+      ),
+    );
   }
 }
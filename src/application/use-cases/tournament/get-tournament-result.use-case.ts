@@ -0,0 +1,21 @@
+import { Injectable, Inject } from '@nestjs/common';
+import type { ITournamentResultRepository } from '@domain/repositories/tournament-result.repository.interface';
+import type { TournamentResult } from '@domain/entities/tournament-result.entity';
+
+/**
+ * GetTournamentResultUseCase (Application Layer)
+ *
+ * Caso de uso para obtener los ganadores oficiales del torneo.
+ * Devuelve null si el admin aún no ha registrado ningún ganador.
+ */
+@Injectable()
+export class GetTournamentResultUseCase {
+  constructor(
+    @Inject('ITournamentResultRepository')
+    private readonly tournamentResultRepository: ITournamentResultRepository,
+  ) {}
+
+  async execute(): Promise<TournamentResult | null> {
+    return await this.tournamentResultRepository.find();
+  }
+}
@@ -0,0 +1,103 @@
+import { Injectable, Inject, BadRequestException } from '@nestjs/common';
+import type {
+  ITournamentResultRepository,
+  SaveTournamentResultData,
+} from '@domain/repositories/tournament-result.repository.interface';
+import type { IPlayerRepository } from '@domain/repositories/player.repository.interface';
+import type { ITeamRepository } from '@domain/repositories/team.repository.interface';
+import type { TournamentResult } from '@domain/entities/tournament-result.entity';
+
+/**
+ * Datos para actualizar el resultado oficial
+ * undefined = mantener el valor actual, null = borrar el valor
+ */
+export type UpdateTournamentResultData = Partial<SaveTournamentResultData>;
+
+/**
+ * UpdateTournamentResultUseCase (Application Layer)
+ *
+ * Caso de uso para registrar los ganadores oficiales del torneo (solo admin).
+ *
+ * Validaciones:
+ * - Equipo campeón existe
+ * - Jugadores existen
+ * - Golden Glove debe ser portero
+ *
+ * Notas:
+ * - Actualización parcial: los campos omitidos conservan su valor actual
+ * - No recalcula puntos; se aplican en POST /predictions/points/recalculate
+ */
+@Injectable()
+export class UpdateTournamentResultUseCase {
+  constructor(
+    @Inject('ITournamentResultRepository')
+    private readonly tournamentResultRepository: ITournamentResultRepository,
+
+    @Inject('IPlayerRepository')
+    private readonly playerRepository: IPlayerRepository,
+
+    @Inject('ITeamRepository')
+    private readonly teamRepository: ITeamRepository,
+  ) {}
+
+  async execute(data: UpdateTournamentResultData): Promise<TournamentResult> {
+    // 1. Validar que el equipo campeón exista
+    if (data.championTeamId) {
+      const team = await this.teamRepository.findById(data.championTeamId);
+      if (!team) {
+        throw new BadRequestException(
+          `Team with id ${data.championTeamId} not found`,
+        );
+      }
+    }
+
+    // 2. Validar que los jugadores existan
+    const playerIds = [
+      data.goldenBootPlayerId,
+      data.goldenBallPlayerId,
+      data.goldenGlovePlayerId,
+    ].filter((id) => id !== null && id !== undefined);
+
+    for (const playerId of playerIds) {
+      const exists = await this.playerRepository.exists(playerId);
+      if (!exists) {
+        throw new BadRequestException(`Player with id ${playerId} not found`);
+      }
+    }
+
+    // 3. Validar que Golden Glove sea portero
+    if (data.goldenGlovePlayerId) {
+      const player = await this.playerRepository.findById(
+        data.goldenGlovePlayerId,
+      );
+
+      if (player && !player.canBeGoldenGlove()) {
+        throw new BadRequestException(
+          'Golden Glove award must be assigned to a goalkeeper',
+        );
+      }
+    }
+
+    // 4. Combinar con el resultado actual y guardar
+    const current = await this.tournamentResultRepository.find();
+
+    return await this.tournamentResultRepository.save({
+      championTeamId:
+        data.championTeamId !== undefined
+          ? data.championTeamId
+          : (current?.championTeamId ?? null),
+      goldenBootPlayerId:
+        data.goldenBootPlayerId !== undefined
+          ? data.goldenBootPlayerId
+          : (current?.goldenBootPlayerId ?? null),
+      goldenBallPlayerId:
+        data.goldenBallPlayerId !== undefined
+          ? data.goldenBallPlayerId
+          : (current?.goldenBallPlayerId ?? null),
+      goldenGlovePlayerId:
+        data.goldenGlovePlayerId !== undefined
+          ? data.goldenGlovePlayerId
+          : (current?.goldenGlovePlayerId ?? null),
+    });
+  }
+}
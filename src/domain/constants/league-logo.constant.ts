@@ -0,0 +1,63 @@
+/**
+ * Reglas del logo de liga
+ *
+ * El admin sube una imagen (PNG, JPEG o WebP) y se generan variantes
+ * cuadradas en WebP. League.logoUrl apunta a la variante por defecto; el resto
+ * se guardan junto a ella con la misma versión (ver getLeagueLogoKey).
+ */
+
+/**
+ * Formatos de imagen aceptados (MIME declarado y formato real del fichero)
+ */
+export const LEAGUE_LOGO_ALLOWED_MIME_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/webp',
+] as const;
+
+/**
+ * Tamaño máximo del fichero subido (2 MB)
+ */
+export const LEAGUE_LOGO_MAX_SIZE_BYTES = 2 * 1024 * 1024;
+
+/**
+ * Variantes generadas: lado del cuadrado en píxeles
+ */
+export const LEAGUE_LOGO_VARIANTS = {
+  sm: 64,
+  md: 256,
+  lg: 512,
+} as const;
+
+export type LeagueLogoVariant = keyof typeof LEAGUE_LOGO_VARIANTS;
+
+/**
+ * Variante a la que apunta League.logoUrl
+ */
+export const DEFAULT_LEAGUE_LOGO_VARIANT: LeagueLogoVariant = 'md';
+
+/**
+ * Comprueba si un MIME type está entre los formatos aceptados
+ */
+export function isAllowedLeagueLogoMimeType(mimeType: string): boolean {
+  return (LEAGUE_LOGO_ALLOWED_MIME_TYPES as readonly string[]).includes(
+    mimeType,
+  );
+}
+
+/**
+ * Clave de almacenamiento de una variante del logo
+ *
+ * Cada subida usa una versión nueva, así que el contenido de una clave nunca
+ * cambia y se puede cachear indefinidamente.
+ *
+ * @example getLeagueLogoKey('e096...', '1718900000000', 'sm')
+ * // 'league-logos/e096.../1718900000000/sm.webp'
+ */
+export function getLeagueLogoKey(
+  leagueId: string,
+  version: string,
+  variant: LeagueLogoVariant,
+): string {
+  return `league-logos/${leagueId}/${version}/${variant}.webp`;
+}
@@ -0,0 +1,51 @@
+/**
+ * Roles de un miembro dentro de una liga (league_members.role)
+ * - OWNER: propietario (coincide con leagues.admin_user_id). Único que puede
+ *   eliminar la liga, transferir la propiedad y cambiar roles
+ * - CO_ADMIN: gestiona la liga (editar datos, expulsar miembros, invitaciones
+ *   y solicitudes de unión)
+ * - MEMBER: participante sin permisos de gestión
+ */
+export const LEAGUE_MEMBER_ROLES = ['OWNER', 'CO_ADMIN', 'MEMBER'] as const;
+
+export type LeagueMemberRole = (typeof LEAGUE_MEMBER_ROLES)[number];
+
+/**
+ * Roles que el propietario puede asignar (OWNER solo se cambia transfiriendo)
+ */
+export const ASSIGNABLE_LEAGUE_MEMBER_ROLES = ['CO_ADMIN', 'MEMBER'] as const;
+
+export type AssignableLeagueMemberRole =
+  (typeof ASSIGNABLE_LEAGUE_MEMBER_ROLES)[number];
+
+/**
+ * Jerarquía de roles (mayor = más permisos)
+ */
+const ROLE_RANK: Readonly<Record<LeagueMemberRole, number>> = {
+  OWNER: 2,
+  CO_ADMIN: 1,
+  MEMBER: 0,
+};
+
+/**
+ * Verifica si un rol puede gestionar la liga
+ * @param role - Rol del usuario, null si no es miembro
+ */
+export function canManageLeague(role: LeagueMemberRole | null): boolean {
+  return role === 'OWNER' || role === 'CO_ADMIN';
+}
+
+/**
+ * Verifica si un rol puede expulsar a otro: hay que gestionar la liga y
+ * estar por encima en la jerarquía (un co-admin no expulsa a otro co-admin)
+ */
+export function canRemoveMemberWithRole(
+  actorRole: LeagueMemberRole | null,
+  targetRole: LeagueMemberRole,
+): boolean {
+  return (
+    actorRole !== null &&
+    canManageLeague(actorRole) &&
+    ROLE_RANK[actorRole] > ROLE_RANK[targetRole]
+  );
+}
@@ -0,0 +1,145 @@
+/**
+ * Reglas de puntuación de predicciones
+ *
+ * Los campos de partido corresponden a las claves de PointsBreakdown (MatchPrediction).
+ * Los puntos son acumulativos: un resultado exacto también suma el 1X2.
+ *
+ * Partidos de fase de grupos:
+ * - correct1X2: Acertar victoria local / empate / victoria visitante en 90'
+ * - exactResult: Acertar el marcador exacto en 90'
+ *
+ * Partidos de eliminatorias (además de los anteriores):
+ * - correctWinner: Acertar qué equipo avanza (tras prórroga y penaltis)
+ * - correctET: Acertar el marcador exacto tras la prórroga (si la hubo)
+ * - correctPenalties: Acertar el ganador de la tanda de penaltis (si la hubo)
+ * - phaseBonus: Extra por acertar quién avanza, creciente según la fase
+ *
+ * Clasificación de grupos (GroupStandingPrediction, por equipo):
+ * - groupExactPosition: Acertar la posición exacta del equipo
+ * - groupQualification: Posición distinta, pero acertando si clasifica
+ *   directamente (1º-2º) o no (3º-4º)
+ *
+ * Mejores terceros (BestThirdPlacePrediction, por equipo):
+ * - bestThirdQualified: El tercero predicho está entre los 8 mejores reales
+ * - bestThirdExactPosition: Además, acierta su ranking_position exacto
+ *
+ * Premios y campeón (Prediction, contra TournamentResult):
+ * - correctChampion: Acertar el campeón del torneo
+ * - correctGoldenBoot / correctGoldenBall / correctGoldenGlove: Acertar cada premio individual
+ */
+
+/**
+ * Puntos otorgados por cada acierto
+ */
+export interface ScoringRules {
+  exactResult: number;
+  correct1X2: number;
+  correctWinner: number;
+  correctET: number;
+  correctPenalties: number;
+  phaseBonus: Record<string, number>;
+  groupExactPosition: number;
+  groupQualification: number;
+  bestThirdQualified: number;
+  bestThirdExactPosition: number;
+  correctChampion: number;
+  correctGoldenBoot: number;
+  correctGoldenBall: number;
+  correctGoldenGlove: number;
+}
+
+/**
+ * Reglas de puntuación por defecto
+ * Las claves de phaseBonus coinciden con MatchPhase
+ */
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  exactResult: 3,
+  correct1X2: 1,
+  correctWinner: 2,
+  correctET: 1,
+  correctPenalties: 1,
+  phaseBonus: {
+    GROUP_STAGE: 0,
+    ROUND_OF_32: 1,
+    ROUND_OF_16: 2,
+    QUARTER_FINAL: 3,
+    SEMI_FINAL: 4,
+    THIRD_PLACE: 2,
+    FINAL: 5,
+  },
+  groupExactPosition: 3,
+  groupQualification: 1,
+  bestThirdQualified: 2,
+  bestThirdExactPosition: 1,
+  correctChampion: 10,
+  correctGoldenBoot: 5,
+  correctGoldenBall: 5,
+  correctGoldenGlove: 5,
+};
+
+/**
+ * Perfiles de puntuación disponibles para una liga
+ * - STANDARD: Reglas por defecto
+ * - EXACT_SCORE: Premia más el marcador exacto
+ * - HIGH_STAKES: Eliminatorias, premios y campeón valen el doble
+ * - CUSTOM: Valores propios del admin sobre la base STANDARD
+ */
+export const SCORING_PRESET_NAMES = [
+  'STANDARD',
+  'EXACT_SCORE',
+  'HIGH_STAKES',
+  'CUSTOM',
+] as const;
+
+export type ScoringPreset = (typeof SCORING_PRESET_NAMES)[number];
+
+/**
+ * Valores propios de un perfil CUSTOM
+ * Los campos omitidos toman el valor de DEFAULT_SCORING_RULES
+ */
+export type ScoringRulesOverrides = Partial<
+  Omit<ScoringRules, 'phaseBonus'>
+> & {
+  phaseBonus?: Partial<
+    Record<
+      | 'ROUND_OF_32'
+      | 'ROUND_OF_16'
+      | 'QUARTER_FINAL'
+      | 'SEMI_FINAL'
+      | 'THIRD_PLACE'
+      | 'FINAL',
+      number
+    >
+  >;
+};
+
+/**
+ * Reglas de cada preset (CUSTOM parte de STANDARD)
+ */
+export const SCORING_PRESETS: Record<ScoringPreset, ScoringRules> = {
+  STANDARD: DEFAULT_SCORING_RULES,
+  EXACT_SCORE: {
+    ...DEFAULT_SCORING_RULES,
+    exactResult: 5,
+    groupExactPosition: 4,
+    bestThirdExactPosition: 2,
+  },
+  HIGH_STAKES: {
+    ...DEFAULT_SCORING_RULES,
+    correctWinner: 4,
+    phaseBonus: {
+      GROUP_STAGE: 0,
+      ROUND_OF_32: 2,
+      ROUND_OF_16: 4,
+      QUARTER_FINAL: 6,
+      SEMI_FINAL: 8,
+      THIRD_PLACE: 4,
+      FINAL: 10,
+    },
+    correctChampion: 20,
+    correctGoldenBoot: 10,
+    correctGoldenBall: 10,
+    correctGoldenGlove: 10,
+  },
+  CUSTOM: DEFAULT_SCORING_RULES,
+};
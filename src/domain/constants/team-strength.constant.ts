@@ -0,0 +1,113 @@
+/**
+ * Rating de fuerza de las selecciones (escala Elo, por código FIFA)
+ *
+ * Valores aproximados y redondeados a partir del ranking Elo de selecciones
+ * previo al torneo. Solo se usan para generar predicciones automáticas con la
+ * estrategia "favourites" (AutofillPredictionUseCase): no influyen en la
+ * puntuación.
+ *
+ * Las selecciones que no aparecen usan DEFAULT_TEAM_STRENGTH.
+ */
+export const TEAM_STRENGTH_RATINGS: Readonly<Record<string, number>> = {
+  // UEFA
+  ESP: 2170,
+  FRA: 2090,
+  ENG: 2040,
+  POR: 2000,
+  NED: 1980,
+  GER: 1960,
+  ITA: 1920,
+  BEL: 1930,
+  CRO: 1930,
+  DEN: 1870,
+  SUI: 1850,
+  AUT: 1850,
+  NOR: 1860,
+  SRB: 1800,
+  UKR: 1780,
+  TUR: 1800,
+  SWE: 1760,
+  POL: 1760,
+  CZE: 1750,
+  SCO: 1750,
+  WAL: 1720,
+  HUN: 1740,
+  GRE: 1740,
+  SVK: 1700,
+  ROU: 1690,
+  SVN: 1690,
+  IRL: 1660,
+  BIH: 1640,
+  ALB: 1660,
+  NIR: 1600,
+  ISL: 1610,
+
+  // CONMEBOL
+  ARG: 2140,
+  BRA: 2000,
+  COL: 1980,
+  URU: 1930,
+  ECU: 1920,
+  PAR: 1830,
+  PER: 1730,
+  CHI: 1720,
+  VEN: 1720,
+  BOL: 1580,
+
+  // CONCACAF
+  MEX: 1850,
+  USA: 1790,
+  CAN: 1790,
+  PAN: 1740,
+  CRC: 1680,
+  JAM: 1640,
+  HON: 1620,
+  HAI: 1570,
+  CUW: 1560,
+  SLV: 1520,
+
+  // CAF
+  MAR: 1900,
+  SEN: 1850,
+  NGA: 1760,
+  EGY: 1750,
+  ALG: 1760,
+  TUN: 1700,
+  CIV: 1750,
+  CMR: 1700,
+  GHA: 1640,
+  RSA: 1670,
+  MLI: 1690,
+  CPV: 1620,
+  COD: 1680,
+  BFA: 1660,
+
+  // AFC
+  JPN: 1900,
+  IRN: 1820,
+  KOR: 1790,
+  AUS: 1780,
+  KSA: 1650,
+  QAT: 1640,
+  UZB: 1710,
+  IRQ: 1680,
+  JOR: 1660,
+  UAE: 1630,
+  OMA: 1600,
+  CHN: 1560,
+
+  // OFC
+  NZL: 1600,
+};
+
+/**
+ * Rating usado para selecciones sin valor en TEAM_STRENGTH_RATINGS
+ */
+export const DEFAULT_TEAM_STRENGTH = 1600;
+
+/**
+ * Obtiene el rating de fuerza de una selección por su código FIFA
+ */
+export function getTeamStrength(fifaCode: string): number {
+  return TEAM_STRENGTH_RATINGS[fifaCode.toUpperCase()] ?? DEFAULT_TEAM_STRENGTH;
+}
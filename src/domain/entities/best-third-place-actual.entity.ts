@@ -0,0 +1,81 @@
+/**
+ * Interfaz para los datos de mejores terceros oficiales desde la base de datos
+ */
+export interface BestThirdPlaceActualDatabaseRow {
+  id: string;
+  team_id: string;
+  ranking_position: number;
+  points: number;
+  goal_difference: number;
+  goals_for: number;
+  from_group_id: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * BestThirdPlaceActual Entity (Domain Layer)
+ *
+ * Entidad de dominio que representa uno de los 8 mejores terceros REALES del torneo.
+ * Se calcula a partir de group_standings_actual cuando los 12 grupos han finalizado.
+ *
+ * Notas:
+ * - Contrapartida oficial de BestThirdPlacePrediction (tabla best_third_places_actual)
+ * - ranking_position va de 1 (mejor tercero) a 8 (octavo mejor tercero)
+ * - Alimenta la asignación real de terceros en Round of 32
+ */
+export class BestThirdPlaceActual {
+  constructor(
+    public readonly id: string,
+    public readonly teamId: string,
+    public readonly rankingPosition: number,
+    public readonly points: number,
+    public readonly goalDifference: number,
+    public readonly goalsFor: number,
+    public readonly fromGroupId: string,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date,
+  ) {
+    this.validate();
+  }
+
+  /**
+   * Validaciones de negocio (Domain Rules)
+   */
+  private validate(): void {
+    if (!this.teamId || this.teamId.trim() === '') {
+      throw new Error('BestThirdPlaceActual teamId is required');
+    }
+
+    if (!this.fromGroupId || this.fromGroupId.trim() === '') {
+      throw new Error('BestThirdPlaceActual fromGroupId is required');
+    }
+
+    if (this.rankingPosition < 1 || this.rankingPosition > 8) {
+      throw new Error('Ranking position must be between 1 and 8');
+    }
+  }
+
+  /**
+   * Factory method para crear instancia desde datos de base de datos
+   */
+  static fromDatabase(
+    data: BestThirdPlaceActualDatabaseRow,
+  ): BestThirdPlaceActual {
+    return new BestThirdPlaceActual(
+      data.id,
+      data.team_id,
+      data.ranking_position,
+      data.points,
+      data.goal_difference,
+      data.goals_for,
+      data.from_group_id,
+      new Date(data.created_at),
+      new Date(data.updated_at),
+    );
+  }
+
+  toString(): string {
+    return `BestThirdPlaceActual #${this.rankingPosition}: ${this.points} pts, GD ${this.goalDifference}`;
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Interfaz para los datos de la tabla oficial de grupo desde la base de datos
+ */
+export interface GroupStandingActualDatabaseRow {
+  id: string;
+  group_id: string;
+  team_id: string;
+  position: number;
+  points: number;
+  played: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  goals_for: number;
+  goals_against: number;
+  goal_difference: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * GroupStandingActual Entity (Domain Layer)
+ *
+ * Entidad de dominio que representa la posición REAL de un equipo en la tabla de un grupo.
+ * Se calcula a partir de los partidos FINISHED de fase de grupos (resultados oficiales).
+ *
+ * Notas:
+ * - Contrapartida oficial de GroupStandingPrediction (tabla group_standings_actual)
+ * - Se recalcula completa en cada cálculo de puntos (DELETE + INSERT por grupo)
+ * - Un grupo es definitivo cuando sus 4 equipos han jugado 3 partidos
+ */
+export class GroupStandingActual {
+  constructor(
+    public readonly id: string,
+    public readonly groupId: string,
+    public readonly teamId: string,
+    public readonly position: number,
+    public readonly points: number,
+    public readonly played: number,
+    public readonly wins: number,
+    public readonly draws: number,
+    public readonly losses: number,
+    public readonly goalsFor: number,
+    public readonly goalsAgainst: number,
+    public readonly goalDifference: number,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date,
+  ) {
+    this.validate();
+  }
+
+  /**
+   * Validaciones de negocio (Domain Rules)
+   */
+  private validate(): void {
+    if (!this.groupId || this.groupId.trim() === '') {
+      throw new Error('GroupStandingActual groupId is required');
+    }
+
+    if (!this.teamId || this.teamId.trim() === '') {
+      throw new Error('GroupStandingActual teamId is required');
+    }
+
+    if (this.position < 1 || this.position > 4) {
+      throw new Error('Position must be between 1 and 4');
+    }
+
+    if (this.played < 0 || this.played > 3) {
+      throw new Error('Played matches must be between 0 and 3');
+    }
+
+    if (this.wins + this.draws + this.losses !== this.played) {
+      throw new Error('Wins + draws + losses must equal played matches');
+    }
+  }
+
+  /**
+   * Factory method para crear instancia desde datos de base de datos
+   */
+  static fromDatabase(
+    data: GroupStandingActualDatabaseRow,
+  ): GroupStandingActual {
+    return new GroupStandingActual(
+      data.id,
+      data.group_id,
+      data.team_id,
+      data.position,
+      data.points,
+      data.played,
+      data.wins,
+      data.draws,
+      data.losses,
+      data.goals_for,
+      data.goals_against,
+      data.goal_difference,
+      new Date(data.created_at),
+      new Date(data.updated_at),
+    );
+  }
+
+  /**
+   * Verifica si el equipo ya jugó sus 3 partidos de grupo
+   */
+  hasCompletedGroup(): boolean {
+    return this.played === 3;
+  }
+
+  /**
+   * Verifica si el equipo clasifica directamente (1º o 2º)
+   */
+  qualifiesAsFirstOrSecond(): boolean {
+    return this.position === 1 || this.position === 2;
+  }
+
+  toString(): string {
+    return `GroupStandingActual: Pos ${this.position} - ${this.points} pts (${this.played} played)`;
+  }
+}
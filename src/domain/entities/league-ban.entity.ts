@@ -0,0 +1,60 @@
+/**
+ * Interfaz para los datos de baneo desde la base de datos
+ */
+export interface LeagueBanDatabaseRow {
+  id: string;
+  league_id: string;
+  user_id: string;
+  banned_by_user_id: string;
+  reason: string | null;
+  created_at: Date;
+}
+
+/**
+ * LeagueBan Entity (Domain Layer)
+ *
+ * Entidad de dominio que representa la prohibición de que un usuario vuelva
+ * a entrar en una liga tras ser expulsado (league_bans).
+ *
+ * Notas:
+ * - Mientras exista el baneo, el usuario no puede unirse por ninguna vía
+ *   (liga pública, código, invitación ni solicitud)
+ * - Levantar el baneo elimina la fila; el usuario puede volver a unirse
+ */
+export class LeagueBan {
+  constructor(
+    public readonly id: string,
+    public readonly leagueId: string,
+    public readonly userId: string,
+    public readonly bannedByUserId: string,
+    public readonly reason: string | null,
+    public readonly createdAt: Date,
+  ) {}
+
+  /**
+   * Factory method para crear instancia desde datos de base de datos
+   */
+  static fromDatabase(data: LeagueBanDatabaseRow): LeagueBan {
+    return new LeagueBan(
+      data.id,
+      data.league_id,
+      data.user_id,
+      data.banned_by_user_id,
+      data.reason,
+      new Date(data.created_at),
+    );
+  }
+
+  /**
+   * Mensaje para el usuario baneado (incluye el motivo si el admin lo dio)
+   */
+  getMessageForUser(): string {
+    return this.reason
+      ? `You have been banned from this league. Reason: ${this.reason}`
+      : 'You have been banned from this league';
+  }
+
+  toString(): string {
+    return `LeagueBan: user ${this.userId} ✗ league ${this.leagueId}`;
+  }
+}
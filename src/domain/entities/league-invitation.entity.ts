@@ -0,0 +1,104 @@
+/**
+ * Estado de una invitación por email
+ * - PENDING: enviada, aún no usada
+ * - ACCEPTED: usada para unirse a la liga (no se puede reutilizar)
+ * - REVOKED: anulada por el admin o sustituida por un reenvío
+ */
+export type LeagueInvitationStatus = 'PENDING' | 'ACCEPTED' | 'REVOKED';
+
+/**
+ * Interfaz para los datos de invitación desde la base de datos
+ */
+export interface LeagueInvitationDatabaseRow {
+  id: string;
+  league_id: string;
+  email: string;
+  invited_by_user_id: string;
+  status: LeagueInvitationStatus;
+  accepted_by_user_id: string | null;
+  expires_at: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * LeagueInvitation Entity (Domain Layer)
+ *
+ * Entidad de dominio que representa una invitación por email a una liga
+ * privada (league_invitations).
+ *
+ * Notas:
+ * - El token enviado por email es un JWT firmado con el id de la invitación;
+ *   la fila guarda el estado para que el token sea de un solo uso
+ * - El email se guarda normalizado (minúsculas, sin espacios)
+ * - Una invitación caducada sigue en PENDING pero ya no se puede aceptar
+ */
+export class LeagueInvitation {
+  constructor(
+    public readonly id: string,
+    public readonly leagueId: string,
+    public readonly email: string,
+    public readonly invitedByUserId: string,
+    public readonly status: LeagueInvitationStatus,
+    public readonly acceptedByUserId: string | null,
+    public readonly expiresAt: Date,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date,
+  ) {}
+
+  /**
+   * Factory method para crear instancia desde datos de base de datos
+   */
+  static fromDatabase(data: LeagueInvitationDatabaseRow): LeagueInvitation {
+    return new LeagueInvitation(
+      data.id,
+      data.league_id,
+      data.email,
+      data.invited_by_user_id,
+      data.status,
+      data.accepted_by_user_id,
+      new Date(data.expires_at),
+      new Date(data.created_at),
+      new Date(data.updated_at),
+    );
+  }
+
+  /**
+   * Normaliza un email para compararlo con el de la invitación
+   */
+  static normalizeEmail(email: string): string {
+    return email.trim().toLowerCase();
+  }
+
+  /**
+   * Verifica si la invitación sigue pendiente (ni aceptada ni revocada)
+   */
+  isPending(): boolean {
+    return this.status === 'PENDING';
+  }
+
+  /**
+   * Verifica si la invitación ha caducado
+   */
+  isExpired(now: Date = new Date()): boolean {
+    return now >= this.expiresAt;
+  }
+
+  /**
+   * Verifica si la invitación se puede usar para unirse a la liga
+   */
+  canBeAccepted(now: Date = new Date()): boolean {
+    return this.isPending() && !this.isExpired(now);
+  }
+
+  /**
+   * Verifica si la invitación es para un email concreto
+   */
+  isFor(email: string): boolean {
+    return this.email === LeagueInvitation.normalizeEmail(email);
+  }
+
+  toString(): string {
+    return `LeagueInvitation: ${this.email} → league ${this.leagueId} (${this.status})`;
+  }
+}
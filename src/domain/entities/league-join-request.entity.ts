@@ -0,0 +1,72 @@
+/**
+ * Estado de una solicitud de unión a una liga con política APPROVAL
+ * - PENDING: esperando decisión del admin
+ * - APPROVED: aceptada, el usuario ya es miembro
+ * - REJECTED: rechazada por el admin
+ */
+export type LeagueJoinRequestStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+/**
+ * Interfaz para los datos de solicitud desde la base de datos
+ */
+export interface LeagueJoinRequestDatabaseRow {
+  id: string;
+  league_id: string;
+  user_id: string;
+  status: LeagueJoinRequestStatus;
+  decided_by_user_id: string | null;
+  decided_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * LeagueJoinRequest Entity (Domain Layer)
+ *
+ * Entidad de dominio que representa la petición de un usuario para entrar en
+ * una liga que requiere aprobación (league_join_requests).
+ *
+ * Notas:
+ * - Mientras está PENDING el usuario NO es miembro ni ocupa plaza
+ *   (max_members solo cuenta league_members)
+ * - Un usuario puede volver a solicitar tras un rechazo
+ */
+export class LeagueJoinRequest {
+  constructor(
+    public readonly id: string,
+    public readonly leagueId: string,
+    public readonly userId: string,
+    public readonly status: LeagueJoinRequestStatus,
+    public readonly decidedByUserId: string | null,
+    public readonly decidedAt: Date | null,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date,
+  ) {}
+
+  /**
+   * Factory method para crear instancia desde datos de base de datos
+   */
+  static fromDatabase(data: LeagueJoinRequestDatabaseRow): LeagueJoinRequest {
+    return new LeagueJoinRequest(
+      data.id,
+      data.league_id,
+      data.user_id,
+      data.status,
+      data.decided_by_user_id,
+      data.decided_at ? new Date(data.decided_at) : null,
+      new Date(data.created_at),
+      new Date(data.updated_at),
+    );
+  }
+
+  /**
+   * Verifica si la solicitud sigue esperando decisión del admin
+   */
+  isPending(): boolean {
+    return this.status === 'PENDING';
+  }
+
+  toString(): string {
+    return `LeagueJoinRequest: user ${this.userId} → league ${this.leagueId} (${this.status})`;
+  }
+}
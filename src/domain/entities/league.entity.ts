@@ -1,3 +1,33 @@
+import { ScoringProfile } from '@domain/value-objects/scoring-profile.vo';
+import type {
+  ScoringPreset,
+  ScoringRules,
+  ScoringRulesOverrides,
+} from '@domain/constants/scoring-rules.constant';
+
+/**
+ * Modos de juego de una liga
+ * - TOURNAMENT: todas las predicciones se bloquean en el deadline global
+ * - MATCHDAY: cada partido se puede editar hasta su propio predictions_locked_at
+ */
+export const LEAGUE_GAME_MODES = ['TOURNAMENT', 'MATCHDAY'] as const;
+
+export type LeagueGameMode = (typeof LEAGUE_GAME_MODES)[number];
+
+/**
+ * Políticas de acceso a una liga
+ * - OPEN: unión directa (con código si la liga es privada)
+ * - APPROVAL: unirse crea una solicitud que el admin aprueba o rechaza
+ * - INVITE_ONLY: solo se entra aceptando una invitación por email
+ */
+export const LEAGUE_JOIN_POLICIES = [
+  'OPEN',
+  'APPROVAL',
+  'INVITE_ONLY',
+] as const;
+
+export type LeagueJoinPolicy = (typeof LEAGUE_JOIN_POLICIES)[number];
+
 /**
  * Interfaz para los datos de liga desde la base de datos
  */
@@ -10,6 +40,11 @@ export interface LeagueDatabaseRow {
   max_members: number;
   code: string; // Código único para todas las ligas (públicas y privadas)
   logo_url: string | null;
+  scoring_preset: string | null;
+  scoring_rules: ScoringRulesOverrides | null; // JSONB, solo para preset CUSTOM
+  game_mode: LeagueGameMode | null;
+  hide_predictions_until_kickoff: boolean | null;
+  join_policy: LeagueJoinPolicy | null;
   created_at: Date;
   updated_at: Date;
 }
@@ -29,12 +64,22 @@ export interface LeagueDatabaseRow {
  * Notas importantes:
  * - name debe tener al menos 3 caracteres y máximo 100
  * - type puede ser 'public' o 'private'
- * - admin_user_id es el UUID del usuario administrador (único admin por liga)
+ * - admin_user_id es el UUID del propietario (rol OWNER en league_members).
+ *   Los co-admins se guardan como rol CO_ADMIN en league_members
  * - max_members define el límite de usuarios permitidos (default 200, configurable en BD)
  * - code es un código único obligatorio para TODAS las ligas (públicas y privadas)
  *   - Ligas públicas: pueden tener código amigable (ej: MUNDIAL26)
  *   - Ligas privadas: código generado automáticamente (ej: XK7M9P2T)
- * - logo_url almacenará la URL de S3 del logo (implementación futura)
+ * - logo_url es la URL pública de la variante por defecto del logo subido
+ *   (UploadLeagueLogoUseCase, ver league-logo.constant.ts)
+ * - scoring_preset/scoring_rules definen cómo se puntúan las predicciones de la liga
+ *   (null = STANDARD)
+ * - game_mode define si los partidos se bloquean todos a la vez (TOURNAMENT, default)
+ *   o cada uno en su propio horario (MATCHDAY)
+ * - hide_predictions_until_kickoff mantiene ocultas las predicciones de los demás
+ *   miembros para cada partido hasta que empieza (aunque ya esté bloqueado)
+ * - join_policy define cómo se entra en la liga (OPEN, APPROVAL o INVITE_ONLY).
+ *   max_members solo cuenta miembros aprobados, no solicitudes pendientes
  */
 export class League {
   constructor(
@@ -46,6 +91,10 @@ export class League {
     public readonly maxMembers: number,
     public readonly code: string,
     public readonly logoUrl: string | null,
+    public readonly scoringProfile: ScoringProfile,
+    public readonly gameMode: LeagueGameMode,
+    public readonly hidePredictionsUntilKickoff: boolean,
+    public readonly joinPolicy: LeagueJoinPolicy,
     public readonly createdAt: Date,
     public readonly updatedAt: Date,
   ) {
@@ -94,6 +143,18 @@ export class League {
       throw new Error('League code must be between 6 and 20 characters');
     }
 
+    // Validar modo de juego
+    if (!LEAGUE_GAME_MODES.includes(this.gameMode)) {
+      throw new Error('League game mode must be TOURNAMENT or MATCHDAY');
+    }
+
+    // Validar política de acceso
+    if (!LEAGUE_JOIN_POLICIES.includes(this.joinPolicy)) {
+      throw new Error(
+        'League join policy must be OPEN, APPROVAL or INVITE_ONLY',
+      );
+    }
+
     // Validar admin user ID
     if (!this.adminUserId || this.adminUserId.trim() === '') {
       throw new Error('League admin user ID is required');
@@ -119,6 +180,15 @@ export class League {
       data.max_members,
       data.code,
       data.logo_url,
+      data.scoring_preset
+        ? new ScoringProfile(
+            data.scoring_preset as ScoringPreset,
+            data.scoring_rules,
+          )
+        : ScoringProfile.standard(),
+      data.game_mode ?? 'TOURNAMENT',
+      data.hide_predictions_until_kickoff ?? false,
+      data.join_policy ?? 'OPEN',
       new Date(data.created_at),
       new Date(data.updated_at),
     );
@@ -181,6 +251,42 @@ export class League {
     return this.logoUrl !== null && this.logoUrl.trim() !== '';
   }
 
+  /**
+   * Obtiene las reglas de puntuación efectivas de la liga
+   */
+  getScoringRules(): ScoringRules {
+    return this.scoringProfile.getRules();
+  }
+
+  /**
+   * Verifica si la liga usa plazos por partido (modo jornada)
+   */
+  isMatchdayMode(): boolean {
+    return this.gameMode === 'MATCHDAY';
+  }
+
+  /**
+   * Verifica si unirse requiere la aprobación del admin
+   */
+  requiresApproval(): boolean {
+    return this.joinPolicy === 'APPROVAL';
+  }
+
+  /**
+   * Verifica si solo se puede entrar por invitación por email
+   */
+  isInviteOnly(): boolean {
+    return this.joinPolicy === 'INVITE_ONLY';
+  }
+
+  /**
+   * Verifica si el admin puede invitar por email
+   * (no tiene sentido en ligas públicas de acceso libre)
+   */
+  acceptsInvitations(): boolean {
+    return this.isPrivate() || this.joinPolicy !== 'OPEN';
+  }
+
   /**
    * Convierte la entidad a un objeto plano (sin métodos)
    * Útil para serialización
@@ -194,6 +300,11 @@ export class League {
     maxMembers: number;
     code: string;
     logoUrl: string | null;
+    scoringPreset: ScoringPreset;
+    scoringRules: ScoringRules;
+    gameMode: LeagueGameMode;
+    hidePredictionsUntilKickoff: boolean;
+    joinPolicy: LeagueJoinPolicy;
     createdAt: Date;
     updatedAt: Date;
   } {
@@ -206,6 +317,11 @@ export class League {
       maxMembers: this.maxMembers,
       code: this.code,
       logoUrl: this.logoUrl,
+      scoringPreset: this.scoringProfile.preset,
+      scoringRules: this.getScoringRules(),
+      gameMode: this.gameMode,
+      hidePredictionsUntilKickoff: this.hidePredictionsUntilKickoff,
+      joinPolicy: this.joinPolicy,
       createdAt: this.createdAt,
       updatedAt: this.updatedAt,
     };
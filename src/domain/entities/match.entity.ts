@@ -24,6 +24,23 @@ export enum MatchStatus {
   CANCELLED = 'CANCELLED',
 }
 
+/**
+ * Transiciones de estado permitidas para un partido
+ * Flujo normal: SCHEDULED → LIVE → FINISHED
+ * Mantener el mismo estado está permitido (ej: actualizar el marcador en directo)
+ */
+export const MATCH_STATUS_TRANSITIONS: Record<MatchStatus, MatchStatus[]> = {
+  [MatchStatus.SCHEDULED]: [
+    MatchStatus.LIVE,
+    MatchStatus.POSTPONED,
+    MatchStatus.CANCELLED,
+  ],
+  [MatchStatus.LIVE]: [MatchStatus.FINISHED],
+  [MatchStatus.FINISHED]: [],
+  [MatchStatus.POSTPONED]: [MatchStatus.SCHEDULED, MatchStatus.CANCELLED],
+  [MatchStatus.CANCELLED]: [],
+};
+
 /**
  * Interfaz para los datos de partido desde la base de datos
  */
@@ -202,6 +219,70 @@ export class Match {
     return this.status === MatchStatus.FINISHED;
   }
 
+  /**
+   * Verifica si el partido tiene marcador registrado en 90'
+   */
+  hasResult(): boolean {
+    return this.homeScore !== null && this.awayScore !== null;
+  }
+
+  /**
+   * Verifica si el partido se fue a la prórroga
+   */
+  hasExtraTime(): boolean {
+    return this.homeScoreEt !== null && this.awayScoreEt !== null;
+  }
+
+  /**
+   * Verifica si el partido se decidió en penaltis
+   */
+  hasPenalties(): boolean {
+    return this.homePenalties !== null && this.awayPenalties !== null;
+  }
+
+  /**
+   * Obtiene el resultado real en 90 minutos
+   * @returns 'home' | 'away' | 'draw', o null si no hay marcador
+   */
+  getWinner90(): 'home' | 'away' | 'draw' | null {
+    if (!this.hasResult()) return null;
+    if (this.homeScore! > this.awayScore!) return 'home';
+    if (this.homeScore! < this.awayScore!) return 'away';
+    return 'draw';
+  }
+
+  /**
+   * Obtiene el ganador final (incluye prórroga y penaltis)
+   * Los goles de prórroga son acumulados (incluyen los de 90')
+   * @returns 'home' | 'away' | 'draw', o null si no hay marcador
+   */
+  getFinalWinner(): 'home' | 'away' | 'draw' | null {
+    if (this.hasPenalties()) {
+      if (this.homePenalties! > this.awayPenalties!) return 'home';
+      if (this.homePenalties! < this.awayPenalties!) return 'away';
+    }
+
+    if (this.hasExtraTime()) {
+      if (this.homeScoreEt! > this.awayScoreEt!) return 'home';
+      if (this.homeScoreEt! < this.awayScoreEt!) return 'away';
+      return 'draw';
+    }
+
+    return this.getWinner90();
+  }
+
+  /**
+   * Verifica si el partido puede pasar al estado indicado
+   * @param nextStatus - Estado destino
+   */
+  canTransitionTo(nextStatus: MatchStatus): boolean {
+    if (this.status === nextStatus) {
+      return true;
+    }
+
+    return MATCH_STATUS_TRANSITIONS[this.status].includes(nextStatus);
+  }
+
   /**
    * Verifica si las predicciones están bloqueadas
    */
@@ -209,6 +290,16 @@ export class Match {
     return new Date() >= this.predictionsLockedAt;
   }
 
+  /**
+   * Verifica si el partido ya ha empezado (en directo o finalizado)
+   * Se basa en el estado y no en match_time (depende de la zona horaria del estadio)
+   */
+  hasKickedOff(): boolean {
+    return (
+      this.status === MatchStatus.LIVE || this.status === MatchStatus.FINISHED
+    );
+  }
+
   /**
    * Representación en string para debugging
    */
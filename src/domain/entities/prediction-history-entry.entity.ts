@@ -0,0 +1,89 @@
+/**
+ * Tipo de cambio registrado en el historial
+ * - MATCH: resultado predicho de un partido (reference = match_id)
+ * - STANDING: posición / desempate manual de un equipo en su grupo (reference = team_id)
+ * - AWARD: premio individual (reference = goldenBoot | goldenBall | goldenGlove)
+ * - CHAMPION: campeón predicho (reference = null)
+ */
+export type PredictionChangeType = 'MATCH' | 'STANDING' | 'AWARD' | 'CHAMPION';
+
+/**
+ * Origen de la petición que produjo el cambio
+ * - APP: guardado normal desde la aplicación
+ * - IMPORT / IMPORT_CSV: importación de un documento JSON / CSV
+ * - COPY: copia desde otra predicción del usuario
+ * - AUTOFILL: relleno automático de los partidos sin predicción
+ */
+export type PredictionChangeSource =
+  | 'APP'
+  | 'IMPORT'
+  | 'IMPORT_CSV'
+  | 'COPY'
+  | 'AUTOFILL';
+
+/**
+ * Interfaz para los datos de una entrada del historial desde la base de datos
+ */
+export interface PredictionHistoryEntryDatabaseRow {
+  id: string;
+  prediction_id: string;
+  change_type: PredictionChangeType;
+  reference: string | null;
+  old_value: Record<string, unknown> | null; // jsonb
+  new_value: Record<string, unknown> | null; // jsonb
+  source: PredictionChangeSource;
+  created_at: Date;
+}
+
+/**
+ * PredictionHistoryEntry Entity (Domain Layer)
+ *
+ * Entidad de dominio que representa un cambio en una predicción: valor
+ * anterior, valor nuevo, momento y origen de la petición.
+ *
+ * Notas:
+ * - El historial es append-only (prediction_history): nunca se actualiza ni borra
+ * - old_value null = el valor se creó; new_value null = el valor se eliminó
+ * - Sirve para resolver disputas ("puse 2-1 antes del deadline")
+ */
+export class PredictionHistoryEntry {
+  constructor(
+    public readonly id: string,
+    public readonly predictionId: string,
+    public readonly changeType: PredictionChangeType,
+    public readonly reference: string | null,
+    public readonly oldValue: Record<string, unknown> | null,
+    public readonly newValue: Record<string, unknown> | null,
+    public readonly source: PredictionChangeSource,
+    public readonly createdAt: Date,
+  ) {}
+
+  /**
+   * Factory method para crear instancia desde datos de base de datos
+   */
+  static fromDatabase(
+    data: PredictionHistoryEntryDatabaseRow,
+  ): PredictionHistoryEntry {
+    return new PredictionHistoryEntry(
+      data.id,
+      data.prediction_id,
+      data.change_type,
+      data.reference,
+      data.old_value,
+      data.new_value,
+      data.source,
+      new Date(data.created_at),
+    );
+  }
+
+  /**
+   * Verifica si el cambio afecta a un partido concreto
+   */
+  isMatchChange(): boolean {
+    return this.changeType === 'MATCH';
+  }
+
+  toString(): string {
+    return `PredictionHistoryEntry: ${this.changeType} ${this.reference ?? ''} (${this.source}) at ${this.createdAt.toISOString()}`;
+  }
+}
@@ -7,6 +7,8 @@ export interface TeamDatabaseRow {
   fifa_code: string;
   confederation: string;
   is_host: boolean;
+  fifa_ranking: number | null; // Ranking FIFA/Coca-Cola previo al torneo
+  fair_play_points: number; // Puntos de juego limpio en fase de grupos (≤ 0)
   created_at: Date;
   updated_at: Date;
 }
@@ -30,6 +32,8 @@ export class Team {
     public readonly fifaCode: string,
     public readonly confederation: string,
     public readonly isHost: boolean,
+    public readonly fifaRanking: number | null,
+    public readonly fairPlayPoints: number,
     public readonly createdAt: Date,
     public readonly updatedAt: Date,
   ) {
@@ -74,6 +78,15 @@ export class Team {
         `Team confederation must be one of: ${validConfederations.join(', ')}`,
       );
     }
+
+    if (this.fifaRanking !== null && this.fifaRanking < 1) {
+      throw new Error('Team FIFA ranking must be a positive number');
+    }
+
+    // Las tarjetas solo restan puntos
+    if (this.fairPlayPoints > 0) {
+      throw new Error('Team fair play points cannot be positive');
+    }
   }
 
   /**
@@ -86,6 +99,8 @@ export class Team {
       data.fifa_code,
       data.confederation,
       data.is_host,
+      data.fifa_ranking,
+      data.fair_play_points,
       new Date(data.created_at),
       new Date(data.updated_at),
     );
@@ -0,0 +1,72 @@
+/**
+ * Interfaz para los datos del resultado oficial del torneo desde la base de datos
+ */
+export interface TournamentResultDatabaseRow {
+  id: number;
+  champion_team_id: string | null;
+  golden_boot_player_id: string | null;
+  golden_ball_player_id: string | null;
+  golden_glove_player_id: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * TournamentResult Entity (Domain Layer)
+ *
+ * Entidad de dominio que representa los ganadores OFICIALES del torneo:
+ * campeón y premios individuales (Golden Boot, Ball, Glove).
+ *
+ * Notas:
+ * - Contrapartida oficial de los campos de premios/campeón de Prediction
+ * - Tabla de un único registro (tournament_results, id = 1)
+ * - Cada campo es null hasta que el admin registra el ganador
+ */
+export class TournamentResult {
+  constructor(
+    public readonly id: number,
+    public readonly championTeamId: string | null,
+    public readonly goldenBootPlayerId: string | null,
+    public readonly goldenBallPlayerId: string | null,
+    public readonly goldenGlovePlayerId: string | null,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date,
+  ) {}
+
+  /**
+   * Factory method para crear instancia desde datos de base de datos
+   */
+  static fromDatabase(data: TournamentResultDatabaseRow): TournamentResult {
+    return new TournamentResult(
+      data.id,
+      data.champion_team_id,
+      data.golden_boot_player_id,
+      data.golden_ball_player_id,
+      data.golden_glove_player_id,
+      new Date(data.created_at),
+      new Date(data.updated_at),
+    );
+  }
+
+  /**
+   * Verifica si el campeón oficial ya está registrado
+   */
+  hasChampion(): boolean {
+    return this.championTeamId !== null;
+  }
+
+  /**
+   * Verifica si los 3 premios individuales oficiales están registrados
+   */
+  hasAllAwards(): boolean {
+    return (
+      this.goldenBootPlayerId !== null &&
+      this.goldenBallPlayerId !== null &&
+      this.goldenGlovePlayerId !== null
+    );
+  }
+
+  toString(): string {
+    return `TournamentResult: champion ${this.championTeamId ?? 'pending'}, awards ${this.hasAllAwards() ? 'complete' : 'pending'}`;
+  }
+}
@@ -0,0 +1,30 @@
+import type { BestThirdPlaceActual } from '@domain/entities/best-third-place-actual.entity';
+import type { SaveBestThirdPlaceData } from '@domain/repositories/best-third-place-prediction.repository.interface';
+
+/**
+ * IBestThirdPlaceActualRepository (Domain Layer - Port)
+ *
+ * Interface que define el contrato para el ranking oficial de mejores terceros
+ * (best_third_places_actual).
+ *
+ * Usado por:
+ * - CalculateActualBestThirdPlacesUseCase - Persistir el ranking oficial
+ * - CalculatePointsUseCase - Puntuar BestThirdPlacePrediction
+ */
+export interface IBestThirdPlaceActualRepository {
+  /**
+   * Reemplaza el ranking oficial completo (DELETE + INSERT en transacción)
+   * Un array vacío limpia el ranking (fase de grupos aún en curso)
+   *
+   * @param bestThirds - Array con 8 mejores terceros (ranking 1-8)
+   */
+  replaceAll(
+    bestThirds: SaveBestThirdPlaceData[],
+  ): Promise<BestThirdPlaceActual[]>;
+
+  /**
+   * Obtiene el ranking oficial de mejores terceros
+   * @returns Array de 8 terceros ordenados por ranking_position, o vacío
+   */
+  findAll(): Promise<BestThirdPlaceActual[]>;
+}
@@ -23,6 +23,14 @@ export interface ResolveBestThirdTiebreakData {
   manualTiebreakOrder: number;
 }
 
+/**
+ * Datos para actualizar los puntos de un mejor tercero predicho
+ */
+export interface BestThirdPlacePointsData {
+  id: string;
+  pointsEarned: number;
+}
+
 /**
  * IBestThirdPlacePredictionRepository (Domain Layer - Port)
  *
@@ -70,6 +78,14 @@ export interface IBestThirdPlacePredictionRepository {
    */
   findByPrediction(predictionId: string): Promise<BestThirdPlacePrediction[]>;
 
+  /**
+   * Obtiene los mejores terceros de varias predicciones a la vez
+   * Usado por GetLeagueProjectionsUseCase (todos los miembros de una liga)
+   */
+  findByPredictionIds(
+    predictionIds: string[],
+  ): Promise<BestThirdPlacePrediction[]>;
+
   /**
    * Actualiza orden manual para resolver desempate entre terceros
    * Se ejecuta cuando el usuario arrastra terceros para ordenar manualmente
@@ -91,6 +107,23 @@ export interface IBestThirdPlacePredictionRepository {
    */
   updatePoints(id: string, pointsEarned: number): Promise<void>;
 
+  /**
+   * Obtiene los mejores terceros predichos de todas las predicciones
+   * Usado por CalculatePointsUseCase para puntuar contra el ranking oficial
+   */
+  findAll(): Promise<BestThirdPlacePrediction[]>;
+
+  /**
+   * Actualiza puntos de múltiples mejores terceros (batch en transacción)
+   */
+  updatePointsMany(updates: BestThirdPlacePointsData[]): Promise<void>;
+
+  /**
+   * Obtiene la suma de points_earned agrupada por predicción
+   * @returns Map predictionId → puntos de mejores terceros
+   */
+  getTotalPointsByPrediction(): Promise<Map<string, number>>;
+
   /**
    * Elimina best third places de una predicción
    * Útil para reset o eliminación en cascada
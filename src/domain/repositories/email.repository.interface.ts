@@ -8,7 +8,8 @@
  * Responsabilidades:
  * - Enviar email de verificación de cuenta
  * - Enviar email de bienvenida después de verificar
- * - Enviar email de restablecimiento de contraseña (futuro)
+ * - Enviar email de restablecimiento de contraseña
+ * - Enviar invitaciones a ligas privadas
  *
  * IMPORTANTE:
  * - Esta interface NO tiene dependencias de Resend (inversión de dependencias)
@@ -57,4 +58,40 @@ export interface IEmailRepository {
    * @throws Error si el envío falla
    */
   sendPasswordChangedEmail(to: string, name: string): Promise<void>;
+
+  /**
+   * Envía una invitación a una liga privada
+   *
+   * @param to - Email de la persona invitada
+   * @param token - Token JWT de invitación (válido por 7 días, un solo uso)
+   * @param leagueName - Nombre de la liga
+   * @param inviterName - Nombre del admin que invita
+   * @param expiresAt - Fecha de caducidad de la invitación
+   * @throws Error si el envío falla
+   */
+  sendLeagueInvitationEmail(
+    to: string,
+    token: string,
+    leagueName: string,
+    inviterName: string,
+    expiresAt: Date,
+  ): Promise<void>;
+
+  /**
+   * Notifica al usuario la decisión del admin sobre su solicitud de unión
+   *
+   * @param to - Email del usuario que solicitó unirse
+   * @param name - Nombre del usuario para personalizar el email
+   * @param leagueId - UUID de la liga (para enlazarla si se aprobó)
+   * @param leagueName - Nombre de la liga
+   * @param approved - true si se aprobó, false si se rechazó
+   * @throws Error si el envío falla
+   */
+  sendJoinRequestDecisionEmail(
+    to: string,
+    name: string,
+    leagueId: string,
+    leagueName: string,
+    approved: boolean,
+  ): Promise<void>;
 }
@@ -0,0 +1,48 @@
+/**
+ * Fichero leído del almacenamiento
+ */
+export interface StoredFile {
+  data: Buffer;
+  contentType: string;
+}
+
+/**
+ * IFileStorageRepository (Domain Layer - Port)
+ *
+ * Interface que define el contrato para guardar y servir ficheros subidos por
+ * los usuarios (ej: logos de liga).
+ *
+ * Implementaciones:
+ * - LocalFileStorageService: disco local, servido por FileController
+ * - (futuro) almacenamiento compatible con S3, servido por el propio bucket/CDN
+ *
+ * IMPORTANTE:
+ * - Las claves son rutas relativas con "/" (ej: "league-logos/<id>/<v>/md.webp")
+ * - El dominio solo conoce claves y URLs públicas, nunca rutas de disco
+ */
+export interface IFileStorageRepository {
+  /**
+   * Guarda un fichero (sobrescribe si la clave ya existe)
+   *
+   * @param key - Clave del fichero
+   * @param data - Contenido
+   * @param contentType - MIME type con el que se servirá
+   * @throws Error si la clave no es válida o falla la escritura
+   */
+  save(key: string, data: Buffer, contentType: string): Promise<void>;
+
+  /**
+   * Lee un fichero
+   *
+   * @param key - Clave del fichero
+   * @returns El fichero, o null si no existe o la clave no es válida
+   */
+  get(key: string): Promise<StoredFile | null>;
+
+  /**
+   * URL pública desde la que el frontend puede descargar el fichero
+   *
+   * @param key - Clave del fichero
+   */
+  getPublicUrl(key: string): string;
+}
@@ -0,0 +1,40 @@
+import type { GroupStandingActual } from '@domain/entities/group-standing-actual.entity';
+import type { SaveGroupStandingData } from '@domain/repositories/group-standing-prediction.repository.interface';
+
+/**
+ * IGroupStandingActualRepository (Domain Layer - Port)
+ *
+ * Interface que define el contrato para la tabla oficial de grupos (group_standings_actual).
+ *
+ * Responsabilidades:
+ * - Guardar la tabla oficial de un grupo (calculada desde resultados reales)
+ * - Consultar la tabla oficial de todos los grupos
+ *
+ * Usado por:
+ * - CalculateActualGroupStandingsUseCase - Persistir tablas oficiales
+ * - CalculatePointsUseCase - Puntuar GroupStandingPrediction contra la tabla oficial
+ */
+export interface IGroupStandingActualRepository {
+  /**
+   * Guarda la tabla oficial de un grupo (DELETE + INSERT en transacción)
+   *
+   * @param groupId - UUID del grupo
+   * @param standings - Array con 4 posiciones (1º a 4º)
+   */
+  saveMany(
+    groupId: string,
+    standings: SaveGroupStandingData[],
+  ): Promise<GroupStandingActual[]>;
+
+  /**
+   * Obtiene la tabla oficial de todos los grupos
+   * @returns Registros ordenados por grupo y posición
+   */
+  findAll(): Promise<GroupStandingActual[]>;
+
+  /**
+   * Obtiene la tabla oficial de un grupo
+   * @returns Array de 4 posiciones ordenadas (1º a 4º)
+   */
+  findByGroup(groupId: string): Promise<GroupStandingActual[]>;
+}
@@ -1,4 +1,5 @@
 import type { GroupStandingPrediction } from '@domain/entities/group-standing-prediction.entity';
+import type { RecordPredictionChangeData } from '@domain/repositories/prediction-history.repository.interface';
 
 /**
  * Datos para guardar tabla de posiciones de un grupo
@@ -29,6 +30,25 @@ export interface ResolveTiebreakData {
   manualTiebreakOrder: number;
 }
 
+/**
+ * Datos para actualizar los puntos de una posición de grupo predicha
+ */
+export interface GroupStandingPointsData {
+  id: string;
+  pointsEarned: number;
+}
+
+/**
+ * Veces que una liga predijo a un equipo en una posición de su grupo
+ */
+export interface GroupPositionPicks {
+  groupId: string;
+  teamId: string;
+  teamName: string;
+  position: number;
+  picks: number;
+}
+
 /**
  * IGroupStandingPredictionRepository (Domain Layer - Port)
  *
@@ -54,6 +74,7 @@ export interface IGroupStandingPredictionRepository {
    *
    * @param predictionId - UUID de la predicción principal
    * @param standings - Array con 4 posiciones (1º, 2º, 3º, 4º)
+   * @param history - Cambios a registrar en el historial (misma transacción)
    * @returns Array de GroupStandingPrediction creadas/actualizadas
    *
    * Comportamiento:
@@ -64,6 +85,7 @@ export interface IGroupStandingPredictionRepository {
   saveMany(
     predictionId: string,
     standings: SaveGroupStandingData[],
+    history?: RecordPredictionChangeData[],
   ): Promise<GroupStandingPrediction[]>;
 
   /**
@@ -81,6 +103,14 @@ export interface IGroupStandingPredictionRepository {
    */
   findByPrediction(predictionId: string): Promise<GroupStandingPrediction[]>;
 
+  /**
+   * Obtiene las tablas de posiciones de varias predicciones a la vez
+   * Usado por GetLeagueProjectionsUseCase (todos los miembros de una liga)
+   */
+  findByPredictionIds(
+    predictionIds: string[],
+  ): Promise<GroupStandingPrediction[]>;
+
   /**
    * Obtiene todos los terceros lugares de una predicción (12 terceros)
    * Útil para calcular los 8 mejores terceros
@@ -113,6 +143,29 @@ export interface IGroupStandingPredictionRepository {
    */
   updatePoints(id: string, pointsEarned: number): Promise<void>;
 
+  /**
+   * Obtiene las posiciones predichas de varios grupos (todas las predicciones)
+   * Usado por CalculatePointsUseCase para puntuar contra la tabla oficial
+   */
+  findByGroupIds(groupIds: string[]): Promise<GroupStandingPrediction[]>;
+
+  /**
+   * Actualiza puntos de múltiples posiciones de grupo (batch en transacción)
+   */
+  updatePointsMany(updates: GroupStandingPointsData[]): Promise<void>;
+
+  /**
+   * Obtiene la suma de points_earned agrupada por predicción
+   * @returns Map predictionId → puntos de clasificación de grupos
+   */
+  getTotalPointsByPrediction(): Promise<Map<string, number>>;
+
+  /**
+   * Obtiene el reparto de posiciones predichas por equipo entre las
+   * predicciones de una liga (una fila por grupo, equipo y posición)
+   */
+  getPositionPicksByLeague(leagueId: string): Promise<GroupPositionPicks[]>;
+
   /**
    * Elimina standings de una predicción
    * Útil para reset o eliminación en cascada
@@ -5,9 +5,9 @@
  * Este payload es visible (no encriptado), solo firmado.
  *
  * Campos:
- * - sub: Subject (ID del usuario) - estándar JWT
- * - email: Email del usuario (útil para debugging/logs)
- * - type: Tipo de token ('access' o 'refresh')
+ * - sub: Subject (ID del usuario; ID de la invitación en 'league_invitation') - estándar JWT
+ * - email: Email del usuario (el invitado en 'league_invitation')
+ * - type: Tipo de token ('access', 'refresh', etc.)
  * - iat: Issued at (timestamp de creación) - automático por JWT
  * - exp: Expiration (timestamp de expiración) - automático por JWT
  */
@@ -17,7 +17,12 @@ export interface JwtPayload {
   /** User email */
   email: string;
   /** Token type */
-  type: 'access' | 'refresh' | 'email_verification' | 'password_reset';
+  type:
+    | 'access'
+    | 'refresh'
+    | 'email_verification'
+    | 'password_reset'
+    | 'league_invitation';
 }
 
 /**
@@ -133,4 +138,27 @@ export interface IJwtRepository {
    * @throws Error si no es un token de reset válido o ha expirado
    */
   verifyPasswordResetToken(token: string): Promise<JwtPayload>;
+
+  /**
+   * Genera un token de invitación a una liga
+   * Se envía por email a la persona invitada por el admin
+   *
+   * @param invitationId - ID de la invitación (league_invitations)
+   * @param email - Email de la persona invitada
+   * @returns Token JWT con expiración de 7 días
+   */
+  generateLeagueInvitationToken(
+    invitationId: string,
+    email: string,
+  ): Promise<string>;
+
+  /**
+   * Verifica que un token sea de tipo 'league_invitation'
+   * Usado en el endpoint de aceptar invitación
+   *
+   * @param token - Token JWT a verificar
+   * @returns Payload si es válido y de tipo 'league_invitation'
+   * @throws Error si no es un token de invitación válido o ha expirado
+   */
+  verifyLeagueInvitationToken(token: string): Promise<JwtPayload>;
 }
@@ -0,0 +1,51 @@
+import type { LeagueBan } from '@domain/entities/league-ban.entity';
+
+/**
+ * Datos necesarios para banear a un usuario de una liga
+ * No incluye id ni created_at (generados por BD)
+ */
+export interface CreateLeagueBanData {
+  leagueId: string;
+  userId: string;
+  bannedByUserId: string;
+  reason: string | null;
+}
+
+/**
+ * ILeagueBanRepository (Domain Layer - Port)
+ *
+ * Interface que define el contrato para la lista de baneados de cada liga
+ * (league_bans).
+ *
+ * Usado por:
+ * - BanMemberUseCase - Expulsar y banear
+ * - JoinLeagueUseCase / ApproveLeagueJoinRequestUseCase - Impedir que vuelva a entrar
+ * - GetLeagueBansUseCase / LiftLeagueBanUseCase - Gestión por los admins
+ */
+export interface ILeagueBanRepository {
+  /**
+   * Expulsa al miembro y crea el baneo en una única transacción
+   * @throws Error si el usuario no es miembro o ya está baneado de esa liga
+   */
+  removeMemberAndBan(data: CreateLeagueBanData): Promise<LeagueBan>;
+
+  /**
+   * Busca el baneo de un usuario en una liga
+   * @returns LeagueBan si está baneado, null si no
+   */
+  findByLeagueAndUser(
+    leagueId: string,
+    userId: string,
+  ): Promise<LeagueBan | null>;
+
+  /**
+   * Obtiene los baneos de una liga (más reciente primero)
+   */
+  findByLeague(leagueId: string): Promise<LeagueBan[]>;
+
+  /**
+   * Levanta el baneo de un usuario
+   * @returns true si existía y se eliminó, false si no estaba baneado
+   */
+  delete(leagueId: string, userId: string): Promise<boolean>;
+}
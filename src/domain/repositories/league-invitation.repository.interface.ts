@@ -0,0 +1,64 @@
+import type { LeagueInvitation } from '@domain/entities/league-invitation.entity';
+
+/**
+ * Datos necesarios para crear una invitación
+ * No incluye id, status, created_at, updated_at (generados por BD)
+ */
+export interface CreateLeagueInvitationData {
+  leagueId: string;
+  email: string; // Ya normalizado
+  invitedByUserId: string;
+  expiresAt: Date;
+}
+
+/**
+ * ILeagueInvitationRepository (Domain Layer - Port)
+ *
+ * Interface que define el contrato para las invitaciones por email a ligas
+ * privadas (league_invitations).
+ *
+ * Usado por:
+ * - InviteToLeagueUseCase / ResendLeagueInvitationUseCase - Crear invitaciones
+ * - GetLeagueInvitationsUseCase - Listar las pendientes
+ * - RevokeLeagueInvitationUseCase - Anular una invitación
+ * - AcceptLeagueInvitationUseCase - Consumir la invitación (un solo uso)
+ */
+export interface ILeagueInvitationRepository {
+  /**
+   * Crea una invitación en estado PENDING
+   */
+  create(data: CreateLeagueInvitationData): Promise<LeagueInvitation>;
+
+  /**
+   * Busca una invitación por su ID
+   * @returns LeagueInvitation si existe, null si no se encuentra
+   */
+  findById(id: string): Promise<LeagueInvitation | null>;
+
+  /**
+   * Obtiene las invitaciones pendientes de una liga (más reciente primero)
+   * Incluye las caducadas que nadie ha revocado
+   */
+  findPendingByLeague(leagueId: string): Promise<LeagueInvitation[]>;
+
+  /**
+   * Busca la invitación pendiente de un email en una liga
+   * @returns LeagueInvitation si existe, null si no se encuentra
+   */
+  findPendingByLeagueAndEmail(
+    leagueId: string,
+    email: string,
+  ): Promise<LeagueInvitation | null>;
+
+  /**
+   * Marca la invitación como aceptada, solo si sigue PENDING
+   * @returns true si se marcó, false si ya no estaba pendiente (token ya usado)
+   */
+  markAccepted(id: string, userId: string): Promise<boolean>;
+
+  /**
+   * Marca la invitación como revocada, solo si sigue PENDING
+   * @returns true si se revocó, false si ya no estaba pendiente
+   */
+  revoke(id: string): Promise<boolean>;
+}
@@ -0,0 +1,57 @@
+import type { LeagueJoinRequest } from '@domain/entities/league-join-request.entity';
+
+/**
+ * ILeagueJoinRequestRepository (Domain Layer - Port)
+ *
+ * Interface que define el contrato para las solicitudes de unión a ligas con
+ * política APPROVAL (league_join_requests).
+ *
+ * Usado por:
+ * - JoinLeagueUseCase - Crear la solicitud en lugar de unir directamente
+ * - GetLeagueJoinRequestsUseCase - Listar las pendientes
+ * - ApproveLeagueJoinRequestUseCase / RejectLeagueJoinRequestUseCase - Decidir
+ */
+export interface ILeagueJoinRequestRepository {
+  /**
+   * Crea una solicitud en estado PENDING
+   */
+  create(leagueId: string, userId: string): Promise<LeagueJoinRequest>;
+
+  /**
+   * Busca una solicitud por su ID
+   * @returns LeagueJoinRequest si existe, null si no se encuentra
+   */
+  findById(id: string): Promise<LeagueJoinRequest | null>;
+
+  /**
+   * Obtiene las solicitudes pendientes de una liga (más antigua primero)
+   */
+  findPendingByLeague(leagueId: string): Promise<LeagueJoinRequest[]>;
+
+  /**
+   * Busca la solicitud pendiente de un usuario en una liga
+   * @returns LeagueJoinRequest si existe, null si no se encuentra
+   */
+  findPendingByLeagueAndUser(
+    leagueId: string,
+    userId: string,
+  ): Promise<LeagueJoinRequest | null>;
+
+  /**
+   * Registra la decisión del admin, solo si la solicitud sigue PENDING
+   * @returns true si se actualizó, false si ya estaba decidida
+   */
+  markDecided(
+    id: string,
+    status: 'APPROVED' | 'REJECTED',
+    adminUserId: string,
+  ): Promise<boolean>;
+
+  /**
+   * Aprueba la solicitud y agrega al usuario como miembro en una transacción
+   * La solicitud se reclama primero (solo si sigue PENDING); si el usuario ya
+   * era miembro (p. ej. por invitación) la solicitud se da por resuelta
+   * @returns true si se aprobó, false si ya estaba decidida
+   */
+  approve(id: string, adminUserId: string): Promise<boolean>;
+}
@@ -1,5 +1,14 @@
-import type { League } from '@domain/entities/league.entity';
+import type {
+  League,
+  LeagueGameMode,
+  LeagueJoinPolicy,
+} from '@domain/entities/league.entity';
 import type { User } from '@domain/entities/user.entity';
+import type { ScoringProfile } from '@domain/value-objects/scoring-profile.vo';
+import type {
+  AssignableLeagueMemberRole,
+  LeagueMemberRole,
+} from '@domain/constants/league-roles.constant';
 
 /**
  * Datos necesarios para crear una liga
@@ -13,6 +22,9 @@ export interface CreateLeagueData {
   adminUserId: string;
   maxMembers?: number; // Opcional, default 200 en BD
   code?: string; // Opcional: si no se proporciona, se genera automáticamente
+  gameMode?: LeagueGameMode; // Opcional, default TOURNAMENT
+  hidePredictionsUntilKickoff?: boolean; // Opcional, default false
+  joinPolicy?: LeagueJoinPolicy; // Opcional, default OPEN
 }
 
 /**
@@ -23,6 +35,11 @@ export interface UpdateLeagueData {
   name?: string;
   description?: string;
   type?: 'public' | 'private';
+  scoringProfile?: ScoringProfile; // Solo editable antes del primer bloqueo de partidos
+  gameMode?: LeagueGameMode; // Solo editable antes del primer bloqueo de partidos
+  hidePredictionsUntilKickoff?: boolean;
+  joinPolicy?: LeagueJoinPolicy;
+  logoUrl?: string | null; // Solo lo asigna UploadLeagueLogoUseCase (no editable por DTO)
 }
 
 /**
@@ -41,6 +58,7 @@ export interface UpdateLeagueData {
  * - Operaciones CRUD básicas para ligas
  * - Búsquedas por diferentes criterios (id, tipo, código de invitación, admin)
  * - Gestión de miembros (agregar, eliminar, listar, contar)
+ * - Roles de los miembros (OWNER, CO_ADMIN, MEMBER)
  * - Transferencia de administrador
  */
 export interface ILeagueRepository {
@@ -104,7 +122,7 @@ export interface ILeagueRepository {
   /**
    * Actualiza los datos de una liga existente
    * @param id - UUID de la liga a actualizar
-   * @param data - Datos a actualizar (name, description, type)
+   * @param data - Datos a actualizar (name, description, type, scoringProfile)
    * @returns Liga actualizada
    * @throws Error si la liga no existe
    * @note updated_at se actualiza automáticamente por trigger de BD
@@ -130,6 +148,7 @@ export interface ILeagueRepository {
    * @throws Error si la liga no existe
    * @throws Error si el nuevo admin no es miembro de la liga
    * @note El nuevo admin debe ser miembro activo de la liga
+   * @note El nuevo admin pasa a OWNER y el anterior queda como MEMBER
    */
   transferAdmin(leagueId: string, newAdminUserId: string): Promise<void>;
 
@@ -147,6 +166,7 @@ export interface ILeagueRepository {
    * @throws Error si el usuario ya es miembro
    * @throws Error si la liga ha alcanzado max_members
    * @note joined_at se establece automáticamente a NOW()
+   * @note Se agrega con rol MEMBER
    */
   addMember(leagueId: string, userId: string): Promise<void>;
 
@@ -191,9 +211,47 @@ export interface ILeagueRepository {
    * @param excludeUserId - UUID del usuario a excluir (típicamente el admin actual)
    * @returns User del miembro más antiguo, null si no hay otros miembros
    * @note Usado para transferir admin cuando el admin actual sale de la liga
+   * @note Los co-admins tienen prioridad sobre los miembros normales
    */
   getOldestMember(
     leagueId: string,
     excludeUserId: string,
   ): Promise<User | null>;
+
+  // =========================================================================
+  // ROLES DE MIEMBROS
+  // =========================================================================
+
+  /**
+   * Obtiene el rol de un usuario en una liga
+   * @param leagueId - UUID de la liga
+   * @param userId - UUID del usuario
+   * @returns Rol del miembro, null si no es miembro
+   * @note El admin_user_id de la liga siempre se considera OWNER
+   */
+  getMemberRole(
+    leagueId: string,
+    userId: string,
+  ): Promise<LeagueMemberRole | null>;
+
+  /**
+   * Obtiene el rol de todos los miembros de una liga
+   * @param leagueId - UUID de la liga
+   * @returns Map userId → rol
+   */
+  getMemberRoles(leagueId: string): Promise<Map<string, LeagueMemberRole>>;
+
+  /**
+   * Cambia el rol de un miembro (CO_ADMIN o MEMBER)
+   * @param leagueId - UUID de la liga
+   * @param userId - UUID del miembro
+   * @param role - Nuevo rol
+   * @throws Error si el usuario no es miembro
+   * @note La propiedad (OWNER) solo cambia con transferAdmin
+   */
+  updateMemberRole(
+    leagueId: string,
+    userId: string,
+    role: AssignableLeagueMemberRole,
+  ): Promise<void>;
 }
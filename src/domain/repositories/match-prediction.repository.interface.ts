@@ -1,4 +1,8 @@
-import type { MatchPrediction } from '@domain/entities/match-prediction.entity';
+import type {
+  MatchPrediction,
+  PointsBreakdown,
+} from '@domain/entities/match-prediction.entity';
+import type { RecordPredictionChangeData } from '@domain/repositories/prediction-history.repository.interface';
 
 /**
  * Datos para crear/actualizar predicción de partido
@@ -12,6 +16,30 @@ export interface SaveMatchPredictionData {
   penaltiesWinner?: 'home' | 'away' | null;
 }
 
+/**
+ * Datos para actualizar los puntos de una predicción de partido
+ */
+export interface MatchPredictionPointsData {
+  id: string;
+  pointsEarned: number;
+  pointsBreakdown: PointsBreakdown;
+}
+
+/**
+ * Consenso de una liga sobre un partido (agregado en SQL)
+ */
+export interface MatchPredictionConsensus {
+  matchId: string;
+  matchNumber: number;
+  totalPredictions: number;
+  homeWins: number;
+  draws: number;
+  awayWins: number;
+  topHomeScore: number; // Marcador exacto más repetido
+  topAwayScore: number;
+  topScoreCount: number;
+}
+
 /**
  * IMatchPredictionRepository (Domain Layer - Port)
  *
@@ -35,6 +63,7 @@ export interface IMatchPredictionRepository {
    *
    * @param predictionId - UUID de la predicción principal
    * @param matchPredictions - Array de predicciones de partidos
+   * @param history - Cambios a registrar en el historial (misma transacción)
    * @returns Array de MatchPrediction creadas/actualizadas
    *
    * Comportamiento:
@@ -44,6 +73,7 @@ export interface IMatchPredictionRepository {
   saveMany(
     predictionId: string,
     matchPredictions: SaveMatchPredictionData[],
+    history?: RecordPredictionChangeData[],
   ): Promise<MatchPrediction[]>;
 
   /**
@@ -59,6 +89,12 @@ export interface IMatchPredictionRepository {
    */
   findByPrediction(predictionId: string): Promise<MatchPrediction[]>;
 
+  /**
+   * Obtiene las predicciones de partidos de varias predicciones a la vez
+   * Usado por GetLeagueProjectionsUseCase (todos los miembros de una liga)
+   */
+  findByPredictionIds(predictionIds: string[]): Promise<MatchPrediction[]>;
+
   /**
    * Obtiene predicciones de partidos de un grupo específico
    * Útil para mostrar/editar predicciones de un grupo
@@ -85,6 +121,12 @@ export interface IMatchPredictionRepository {
     phase: string,
   ): Promise<MatchPrediction[]>;
 
+  /**
+   * Obtiene todas las predicciones (de todos los usuarios) de varios partidos
+   * Usado por CalculatePointsUseCase para puntuar partidos finalizados
+   */
+  findByMatchIds(matchIds: string[]): Promise<MatchPrediction[]>;
+
   /**
    * Actualiza puntos ganados en una predicción de partido
    * Se ejecuta cuando el partido real finaliza (CalculatePointsUseCase)
@@ -99,6 +141,23 @@ export interface IMatchPredictionRepository {
     pointsBreakdown: any,
   ): Promise<void>;
 
+  /**
+   * Actualiza puntos de múltiples predicciones de partidos (batch en transacción)
+   */
+  updatePointsMany(updates: MatchPredictionPointsData[]): Promise<void>;
+
+  /**
+   * Obtiene la suma de points_earned agrupada por predicción
+   * @returns Map predictionId → puntos de partidos
+   */
+  getTotalPointsByPrediction(): Promise<Map<string, number>>;
+
+  /**
+   * Obtiene el reparto 1X2 y el marcador exacto más repetido de cada partido
+   * entre las predicciones de una liga (ordenado por número de partido)
+   */
+  getConsensusByLeague(leagueId: string): Promise<MatchPredictionConsensus[]>;
+
   /**
    * Elimina predicciones de partidos de una predicción
    * Útil para reset o eliminación en cascada
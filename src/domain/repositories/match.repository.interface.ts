@@ -1,4 +1,28 @@
-import type { Match } from '@domain/entities/match.entity';
+import type { Match, MatchStatus } from '@domain/entities/match.entity';
+
+/**
+ * Datos para registrar el resultado oficial de un partido
+ * Los goles de prórroga son acumulados (incluyen los de 90 minutos)
+ */
+export interface UpdateMatchResultData {
+  homeScore: number | null;
+  awayScore: number | null;
+  homeScoreEt: number | null;
+  awayScoreEt: number | null;
+  homePenalties: number | null;
+  awayPenalties: number | null;
+  status: MatchStatus;
+}
+
+/**
+ * Equipos reales de un partido de eliminatorias
+ * null = equipo aún por definir (se muestra el placeholder)
+ */
+export interface UpdateMatchTeamsData {
+  matchId: string;
+  homeTeamId: string | null;
+  awayTeamId: string | null;
+}
 
 /**
  * Interfaz para los datos combinados simplificados de un partido
@@ -132,4 +156,24 @@ export interface IMatchRepository {
    * @returns Array de 72 partidos con todos los detalles
    */
   findGroupStageMatchesWithDetails(): Promise<MatchWithBasicDetailsRow[]>;
+
+  /**
+   * Registra el resultado oficial y el estado de un partido
+   * @param id - UUID del partido
+   * @param data - Marcador (90', prórroga, penaltis) y nuevo estado
+   * @returns Match actualizado
+   */
+  updateResult(id: string, data: UpdateMatchResultData): Promise<Match>;
+
+  /**
+   * Asigna los equipos reales de varios partidos de eliminatorias (transacción)
+   * @param assignments - Equipos local/visitante por partido
+   */
+  updateTeamsMany(assignments: UpdateMatchTeamsData[]): Promise<void>;
+
+  /**
+   * Obtiene el primer bloqueo de predicciones del torneo
+   * @returns MIN(predictions_locked_at), o null si no hay partidos
+   */
+  findFirstPredictionsLockedAt(): Promise<Date | null>;
 }
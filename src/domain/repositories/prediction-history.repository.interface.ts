@@ -0,0 +1,38 @@
+import type {
+  PredictionHistoryEntry,
+  PredictionChangeType,
+  PredictionChangeSource,
+} from '@domain/entities/prediction-history-entry.entity';
+
+/**
+ * Datos para registrar un cambio en el historial
+ */
+export interface RecordPredictionChangeData {
+  predictionId: string;
+  changeType: PredictionChangeType;
+  reference: string | null;
+  oldValue: Record<string, unknown> | null;
+  newValue: Record<string, unknown> | null;
+  source: PredictionChangeSource;
+}
+
+/**
+ * IPredictionHistoryRepository (Domain Layer - Port)
+ *
+ * Interface que define el contrato para el historial de cambios de
+ * predicciones (prediction_history).
+ *
+ * El historial es append-only: el contrato no expone actualizaciones ni borrados.
+ * Los cambios se registran en la misma transacción que los datos, a través del
+ * parámetro history de los repositorios que guardan predicciones
+ * (saveMany de partidos y tablas, updateAwards, updateChampion, copyContents).
+ *
+ * Usado por:
+ * - GetPredictionHistoryUseCase - Consultar el historial de una predicción
+ */
+export interface IPredictionHistoryRepository {
+  /**
+   * Obtiene el historial de una predicción (más reciente primero)
+   */
+  findByPrediction(predictionId: string): Promise<PredictionHistoryEntry[]>;
+}
@@ -1,4 +1,5 @@
 import type { Prediction } from '@domain/entities/prediction.entity';
+import type { RecordPredictionChangeData } from '@domain/repositories/prediction-history.repository.interface';
 
 /**
  * Datos para crear una predicción
@@ -25,6 +26,25 @@ export interface UpdateChampionData {
   championTeamId: string;
 }
 
+/**
+ * Selecciones de campeón y premios agregadas
+ */
+export type PickCategory =
+  | 'CHAMPION'
+  | 'GOLDEN_BOOT'
+  | 'GOLDEN_BALL'
+  | 'GOLDEN_GLOVE';
+
+/**
+ * Veces que una liga eligió un equipo (campeón) o jugador (premios)
+ */
+export interface PickCount {
+  category: PickCategory;
+  selectionId: string;
+  selectionName: string;
+  picks: number;
+}
+
 /**
  * IPredictionRepository (Domain Layer - Port)
  *
@@ -66,6 +86,12 @@ export interface IPredictionRepository {
    */
   findByUser(userId: string): Promise<Prediction[]>;
 
+  /**
+   * Obtiene todas las predicciones (todas las ligas)
+   * Usado por CalculatePointsUseCase para puntuar premios y campeón
+   */
+  findAll(): Promise<Prediction[]>;
+
   /**
    * Obtiene todas las predicciones de una liga
    * Útil para calcular rankings
@@ -80,13 +106,23 @@ export interface IPredictionRepository {
 
   /**
    * Actualiza premios individuales (Golden Boot, Ball, Glove)
+   * @param history - Cambios a registrar en el historial (misma transacción)
    */
-  updateAwards(id: string, data: UpdateAwardsData): Promise<Prediction>;
+  updateAwards(
+    id: string,
+    data: UpdateAwardsData,
+    history?: RecordPredictionChangeData[],
+  ): Promise<Prediction>;
 
   /**
    * Actualiza el campeón predicho
+   * @param history - Cambios a registrar en el historial (misma transacción)
    */
-  updateChampion(id: string, data: UpdateChampionData): Promise<Prediction>;
+  updateChampion(
+    id: string,
+    data: UpdateChampionData,
+    history?: RecordPredictionChangeData[],
+  ): Promise<Prediction>;
 
   /**
    * Marca fase de grupos como completada
@@ -108,11 +144,35 @@ export interface IPredictionRepository {
    */
   lock(id: string): Promise<Prediction>;
 
+  /**
+   * Bloquea todas las predicciones aún desbloqueadas (deadline global)
+   * @returns Número de predicciones bloqueadas en esta llamada
+   */
+  lockAllUnlocked(): Promise<number>;
+
+  /**
+   * Cuenta las predicciones aún desbloqueadas
+   * Usado para previsualizar (dry-run) el bloqueo
+   */
+  countUnlocked(): Promise<number>;
+
   /**
    * Actualiza el total de puntos acumulados
    */
   updateTotalPoints(id: string, points: number): Promise<Prediction>;
 
+  /**
+   * Copia el contenido de una predicción en otra en una única transacción:
+   * partidos, tablas de grupos, mejores terceros, premios y campeón.
+   * Reemplaza lo que tuviera la predicción destino (sin puntos ganados)
+   * @param history - Cambios a registrar en el historial (misma transacción)
+   */
+  copyContents(
+    sourceId: string,
+    targetId: string,
+    history?: RecordPredictionChangeData[],
+  ): Promise<Prediction>;
+
   /**
    * Verifica si existe una predicción para un usuario en una liga
    */
@@ -134,6 +194,12 @@ export interface IPredictionRepository {
     }>
   >;
 
+  /**
+   * Obtiene cuántas predicciones de una liga eligieron cada campeón y cada
+   * ganador de premios (ordenado por categoría y número de elecciones)
+   */
+  getPickCountsByLeague(leagueId: string): Promise<PickCount[]>;
+
   /**
    * Obtiene estadísticas globales de una predicción
    */
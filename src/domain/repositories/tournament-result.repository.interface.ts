@@ -0,0 +1,36 @@
+import type { TournamentResult } from '@domain/entities/tournament-result.entity';
+
+/**
+ * Datos para registrar el resultado oficial del torneo
+ * null = ganador aún no conocido (o corrección de un valor erróneo)
+ */
+export interface SaveTournamentResultData {
+  championTeamId: string | null;
+  goldenBootPlayerId: string | null;
+  goldenBallPlayerId: string | null;
+  goldenGlovePlayerId: string | null;
+}
+
+/**
+ * ITournamentResultRepository (Domain Layer - Port)
+ *
+ * Interface que define el contrato para el resultado oficial del torneo
+ * (tournament_results: campeón y premios individuales).
+ *
+ * Usado por:
+ * - UpdateTournamentResultUseCase - Registrar ganadores oficiales (admin)
+ * - CalculatePointsUseCase - Puntuar premios y campeón de cada Prediction
+ * - GetPredictionStatsUseCase - Desglose de puntos de premios
+ */
+export interface ITournamentResultRepository {
+  /**
+   * Obtiene el resultado oficial del torneo
+   * @returns TournamentResult, o null si aún no se ha registrado nada
+   */
+  find(): Promise<TournamentResult | null>;
+
+  /**
+   * Crea o actualiza el resultado oficial (registro único)
+   */
+  save(data: SaveTournamentResultData): Promise<TournamentResult>;
+}
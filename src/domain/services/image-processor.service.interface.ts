@@ -0,0 +1,36 @@
+/**
+ * Imagen resultante de un procesado
+ */
+export interface ProcessedImage {
+  data: Buffer;
+  contentType: string;
+}
+
+/**
+ * IImageProcessorService (Domain Layer)
+ *
+ * Servicio para inspeccionar y redimensionar imágenes subidas por los usuarios.
+ * La implementación concreta (SharpImageProcessorService) vive en
+ * infraestructura para que los casos de uso no dependan de la librería.
+ */
+export interface IImageProcessorService {
+  /**
+   * Detecta el formato real de la imagen a partir de su contenido
+   * (no del nombre ni del MIME type declarado)
+   *
+   * @param data - Contenido del fichero
+   * @returns MIME type detectado (ej: "image/png"), o null si no es una imagen legible
+   */
+  detectMimeType(data: Buffer): Promise<string | null>;
+
+  /**
+   * Genera una versión cuadrada de la imagen en WebP
+   *
+   * La imagen se recorta al centro para rellenar el cuadrado y se aplica la
+   * orientación EXIF.
+   *
+   * @param data - Contenido de la imagen original
+   * @param size - Lado del cuadrado en píxeles
+   */
+  resizeToSquare(data: Buffer, size: number): Promise<ProcessedImage>;
+}
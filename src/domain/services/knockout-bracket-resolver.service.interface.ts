@@ -1,5 +1,3 @@
-import type { GroupStandingPrediction } from '@domain/entities/group-standing-prediction.entity';
-import type { BestThirdPlacePrediction } from '@domain/entities/best-third-place-prediction.entity';
 import type { Match } from '@domain/entities/match.entity';
 
 /**
@@ -32,14 +30,14 @@ export interface IKnockoutBracketResolverService {
    * Resuelve los equipos (home/away) de partidos de Round of 32
    * basándose en predicciones de grupos
    *
-   * @param groupStandings - Tablas de posiciones predichas de los 12 grupos
-   * @param bestThirdPlaces - Los 8 mejores terceros predichos (ordenados 1-8)
+   * @param groupStandings - Tablas de posiciones de los 12 grupos (predichas u oficiales)
+   * @param bestThirdPlaces - Los 8 mejores terceros (predichos u oficiales, ordenados 1-8)
    * @param roundOf32Matches - Partidos de R32 con placeholders (73-88)
    * @returns Map<matchId, { homeTeamId, awayTeamId }>
    */
   resolveRoundOf32Teams(
-    groupStandings: GroupStandingPrediction[],
-    bestThirdPlaces: BestThirdPlacePrediction[],
+    groupStandings: BracketGroupStanding[],
+    bestThirdPlaces: BracketThirdPlace[],
     roundOf32Matches: Match[],
   ): Promise<Map<string, ResolvedTeams>>;
 }
@@ -51,3 +49,24 @@ export interface ResolvedTeams {
   homeTeamId: string;
   awayTeamId: string;
 }
+
+/**
+ * Posición de un equipo en su grupo, tal como la necesita el resolver
+ * La satisfacen GroupStandingPrediction (predicciones) y GroupStandingActual (oficial)
+ */
+export interface BracketGroupStanding {
+  groupId: string;
+  teamId: string;
+  position: number;
+  manualTiebreakOrder?: number | null;
+}
+
+/**
+ * Tercer lugar clasificado, tal como lo necesita el resolver
+ * La satisfacen BestThirdPlacePrediction (predicciones) y BestThirdPlaceActual (oficial)
+ */
+export interface BracketThirdPlace {
+  teamId: string;
+  rankingPosition: number;
+  fromGroupId: string;
+}
@@ -9,6 +9,7 @@ import type { MatchPrediction } from '@domain/entities/match-prediction.entity';
  * Responsabilidades:
  * - Validar que la fase anterior esté completa
  * - Validar que los equipos en los partidos coincidan con los ganadores de la fase anterior
+ *   (con los perdedores de semifinales en el partido por el tercer puesto)
  * - Validar consistencia de resultados (90', prórroga, penaltis)
  */
 export interface IKnockoutValidatorService {
@@ -27,14 +28,14 @@ export interface IKnockoutValidatorService {
 
   /**
    * Valida que los equipos en un partido coincidan con los ganadores esperados
-   * de la fase anterior
+   * de la fase anterior (perdedores de semifinales si la fase es THIRD_PLACE)
    *
    * @param predictionId - ID de la predicción
    * @param phase - Fase actual
    * @param matchId - ID del partido
    * @param homeTeamId - ID del equipo local predicho
    * @param awayTeamId - ID del equipo visitante predicho
-   * @throws Error si los equipos no coinciden con los ganadores esperados
+   * @throws Error si los equipos no coinciden con los equipos esperados
    */
   validateMatchTeams(
     predictionId: string,
@@ -1,8 +1,13 @@
+import { MatchPhase } from '@domain/entities/match.entity';
+
 /**
  * KnockoutPhase Value Object
  *
  * Representa las fases de eliminatorias del Mundial 2026.
  * Inmutable y con validaciones.
+ *
+ * THIRD_PLACE se juega con los perdedores de semifinales: comparte nivel con
+ * la FINAL (ambas tienen SEMI_FINALS como fase anterior) pero no lleva a ninguna otra.
  */
 export class KnockoutPhase {
   private static readonly VALID_PHASES = [
@@ -10,6 +15,7 @@ export class KnockoutPhase {
     'ROUND_OF_16',
     'QUARTER_FINALS',
     'SEMI_FINALS',
+    'THIRD_PLACE',
     'FINAL',
   ] as const;
 
@@ -18,6 +24,7 @@ export class KnockoutPhase {
     ['ROUND_OF_16', 2],
     ['QUARTER_FINALS', 3],
     ['SEMI_FINALS', 4],
+    ['THIRD_PLACE', 5],
     ['FINAL', 5],
   ]);
 
@@ -26,6 +33,7 @@ export class KnockoutPhase {
     ['ROUND_OF_16', 'QUARTER_FINALS'],
     ['QUARTER_FINALS', 'SEMI_FINALS'],
     ['SEMI_FINALS', 'FINAL'],
+    ['THIRD_PLACE', null],
     ['FINAL', null],
   ]);
 
@@ -34,9 +42,20 @@ export class KnockoutPhase {
     ['ROUND_OF_16', 8],
     ['QUARTER_FINALS', 4],
     ['SEMI_FINALS', 2],
+    ['THIRD_PLACE', 1],
     ['FINAL', 1],
   ]);
 
+  // Los partidos se guardan con el vocabulario de MatchPhase (singular)
+  private static readonly MATCH_PHASE_MAP = new Map<string, MatchPhase>([
+    ['ROUND_OF_32', MatchPhase.ROUND_OF_32],
+    ['ROUND_OF_16', MatchPhase.ROUND_OF_16],
+    ['QUARTER_FINALS', MatchPhase.QUARTER_FINAL],
+    ['SEMI_FINALS', MatchPhase.SEMI_FINAL],
+    ['THIRD_PLACE', MatchPhase.THIRD_PLACE],
+    ['FINAL', MatchPhase.FINAL],
+  ]);
+
   constructor(public readonly value: string) {
     this.validate();
   }
@@ -73,6 +92,14 @@ export class KnockoutPhase {
     return nextPhaseValue ? new KnockoutPhase(nextPhaseValue) : null;
   }
 
+  /**
+   * Obtiene la MatchPhase equivalente, usada en los partidos y en las
+   * consultas a los repositorios (QUARTER_FINALS → QUARTER_FINAL, etc.)
+   */
+  toMatchPhase(): MatchPhase {
+    return KnockoutPhase.MATCH_PHASE_MAP.get(this.value)!;
+  }
+
   /**
    * Obtiene el número esperado de partidos para esta fase
    */
@@ -94,6 +121,14 @@ export class KnockoutPhase {
     return this.value === 'FINAL';
   }
 
+  /**
+   * Verifica si es el partido por el tercer puesto
+   * (sus equipos son los perdedores de la fase anterior)
+   */
+  isThirdPlace(): boolean {
+    return this.value === 'THIRD_PLACE';
+  }
+
   /**
    * Compara si esta fase es anterior a otra
    */
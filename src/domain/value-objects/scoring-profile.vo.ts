@@ -0,0 +1,111 @@
+import {
+  SCORING_PRESETS,
+  SCORING_PRESET_NAMES,
+  type ScoringPreset,
+  type ScoringRules,
+  type ScoringRulesOverrides,
+} from '@domain/constants/scoring-rules.constant';
+
+/**
+ * ScoringProfile Value Object
+ *
+ * Representa el perfil de puntuación de una liga: un preset y,
+ * solo para CUSTOM, los valores propios definidos por el admin.
+ * Inmutable y con validaciones.
+ */
+export class ScoringProfile {
+  private static readonly MAX_POINTS = 100;
+
+  constructor(
+    public readonly preset: ScoringPreset,
+    public readonly overrides: ScoringRulesOverrides | null = null,
+  ) {
+    this.validate();
+  }
+
+  private validate(): void {
+    if (!ScoringProfile.isValidPreset(this.preset)) {
+      throw new Error(
+        `Invalid scoring preset: ${String(this.preset)}. Valid presets are: ${SCORING_PRESET_NAMES.join(', ')}`,
+      );
+    }
+
+    if (this.preset !== 'CUSTOM' && this.overrides !== null) {
+      throw new Error('Custom scoring values require the CUSTOM preset');
+    }
+
+    if (this.preset === 'CUSTOM' && this.overrides === null) {
+      throw new Error('The CUSTOM preset requires custom scoring values');
+    }
+
+    const { phaseBonus, ...points } = this.overrides ?? {};
+    const values = [
+      ...Object.values(points),
+      ...Object.values(phaseBonus ?? {}),
+    ].filter((value): value is number => value !== undefined);
+
+    for (const value of values) {
+      if (
+        !Number.isInteger(value) ||
+        value < 0 ||
+        value > ScoringProfile.MAX_POINTS
+      ) {
+        throw new Error(
+          `Scoring values must be integers between 0 and ${ScoringProfile.MAX_POINTS}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Perfil por defecto de las ligas
+   */
+  static standard(): ScoringProfile {
+    return new ScoringProfile('STANDARD');
+  }
+
+  /**
+   * Obtiene las reglas efectivas del perfil
+   * CUSTOM combina los valores propios con STANDARD
+   */
+  getRules(): ScoringRules {
+    const base = SCORING_PRESETS[this.preset];
+
+    if (!this.overrides) {
+      return base;
+    }
+
+    const { phaseBonus, ...points } = this.overrides;
+
+    return {
+      ...base,
+      ...ScoringProfile.withoutUndefined(points),
+      phaseBonus: {
+        ...base.phaseBonus,
+        ...ScoringProfile.withoutUndefined(phaseBonus ?? {}),
+      },
+    };
+  }
+
+  /**
+   * Descarta los campos no definidos para no pisar los valores base
+   */
+  private static withoutUndefined(
+    values: Record<string, number | undefined>,
+  ): Record<string, number> {
+    return Object.fromEntries(
+      Object.entries(values).filter(([, value]) => value !== undefined),
+    ) as Record<string, number>;
+  }
+
+  /**
+   * Verifica si un string es un preset válido
+   */
+  static isValidPreset(preset: string): preset is ScoringPreset {
+    return (SCORING_PRESET_NAMES as readonly string[]).includes(preset);
+  }
+
+  toString(): string {
+    return this.preset;
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Admin Configuration (Infrastructure Layer)
+ *
+ * Configuración de los administradores globales de la plataforma.
+ * Los administradores pueden registrar resultados oficiales del torneo
+ * y ejecutar tareas de mantenimiento (cálculo de puntos, bloqueos, etc.).
+ *
+ * Variables de entorno:
+ * - ADMIN_EMAILS: Lista de emails separados por comas (ej: "a@porraza.com,b@porraza.com")
+ *
+ * IMPORTANTE:
+ * - Si ADMIN_EMAILS no está definido, ningún usuario tiene permisos de admin
+ * - La comparación de emails es case-insensitive
+ */
+
+/**
+ * Obtiene la lista de emails con permisos de administrador
+ * @returns Array de emails normalizados (lowercase, sin espacios)
+ */
+export function getAdminEmails(): string[] {
+  const adminEmails = process.env.ADMIN_EMAILS || '';
+
+  return adminEmails
+    .split(',')
+    .map((email) => email.trim().toLowerCase())
+    .filter((email) => email.length > 0);
+}
+
+/**
+ * Verifica si un email pertenece a un administrador global
+ * @param email - Email del usuario autenticado
+ */
+export function isAdminEmail(email: string): boolean {
+  return getAdminEmails().includes(email.trim().toLowerCase());
+}
@@ -224,4 +224,43 @@ export class JwtServiceImpl implements IJwtRepository {
 
     return payload;
   }
+
+  /**
+   * Genera un token de invitación a una liga
+   * Expira en 7 días (mismo plazo que league_invitations.expires_at)
+   */
+  async generateLeagueInvitationToken(
+    invitationId: string,
+    email: string,
+  ): Promise<string> {
+    const payload = {
+      sub: invitationId,
+      email,
+      type: 'league_invitation',
+    };
+
+    return this.jwtService.signAsync(
+      payload as any,
+      {
+        secret: this.jwtConfig.secret,
+        expiresIn: '7d', // Token expira en 7 días
+      } as any,
+    );
+  }
+
+  /**
+   * Verifica que un token sea de tipo 'league_invitation'
+   * Previene que se usen otros tipos de tokens
+   */
+  async verifyLeagueInvitationToken(token: string): Promise<JwtPayload> {
+    const payload = await this.verifyToken(token);
+
+    if (payload.type !== 'league_invitation') {
+      throw new UnauthorizedException(
+        'Invalid token type. Expected league invitation token',
+      );
+    }
+
+    return payload;
+  }
 }
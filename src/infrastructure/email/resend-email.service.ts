@@ -5,6 +5,8 @@ import { getVerificationEmailTemplate } from './templates/verification-email.tem
 import { getWelcomeEmailTemplate } from './templates/welcome-email.template';
 import { getPasswordResetEmailTemplate } from './templates/password-reset-email.template';
 import { getPasswordChangedEmailTemplate } from './templates/password-changed-email.template';
+import { getLeagueInvitationEmailTemplate } from './templates/league-invitation-email.template';
+import { getJoinRequestDecisionEmailTemplate } from './templates/join-request-decision-email.template';
 
 /**
  * ResendEmailService (Infrastructure Layer)
@@ -106,6 +108,56 @@ export class ResendEmailService implements IEmailRepository {
     await this.sendEmail(to, subject, html, 'password-changed');
   }
 
+  /**
+   * Envía invitación a una liga privada
+   */
+  async sendLeagueInvitationEmail(
+    to: string,
+    token: string,
+    leagueName: string,
+    inviterName: string,
+    expiresAt: Date,
+  ): Promise<void> {
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+    const invitationUrl = `${frontendUrl}/leagues/invitation?token=${token}`;
+
+    const subject = `${inviterName} te invita a ${leagueName} - Porraza`;
+    const html = getLeagueInvitationEmailTemplate(
+      leagueName,
+      inviterName,
+      invitationUrl,
+      expiresAt,
+    );
+
+    await this.sendEmail(to, subject, html, 'league-invitation');
+  }
+
+  /**
+   * Envía la decisión del admin sobre una solicitud de unión a liga
+   */
+  async sendJoinRequestDecisionEmail(
+    to: string,
+    name: string,
+    leagueId: string,
+    leagueName: string,
+    approved: boolean,
+  ): Promise<void> {
+    const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+    const leagueUrl = `${frontendUrl}/leagues/${leagueId}`;
+
+    const subject = approved
+      ? `Ya eres miembro de ${leagueName} - Porraza`
+      : `Tu solicitud para ${leagueName} no ha sido aceptada - Porraza`;
+    const html = getJoinRequestDecisionEmailTemplate(
+      name,
+      leagueName,
+      approved,
+      leagueUrl,
+    );
+
+    await this.sendEmail(to, subject, html, 'join-request-decision');
+  }
+
   /**
    * Método privado para enviar emails usando Resend
    */
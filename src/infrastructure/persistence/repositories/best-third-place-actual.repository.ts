@@ -0,0 +1,120 @@
+import { Injectable, Inject } from '@nestjs/common';
+import type { Pool, QueryResult } from 'pg';
+import type { IBestThirdPlaceActualRepository } from '@domain/repositories/best-third-place-actual.repository.interface';
+import type { SaveBestThirdPlaceData } from '@domain/repositories/best-third-place-prediction.repository.interface';
+import {
+  BestThirdPlaceActual,
+  type BestThirdPlaceActualDatabaseRow,
+} from '@domain/entities/best-third-place-actual.entity';
+
+/**
+ * BestThirdPlaceActualRepository (Infrastructure Layer - Adapter)
+ *
+ * Implementación concreta del IBestThirdPlaceActualRepository usando PostgreSQL con pg.
+ *
+ * Responsabilidades:
+ * - Guardar el ranking oficial de mejores terceros (best_third_places_actual)
+ * - Consultar el ranking oficial
+ */
+@Injectable()
+export class BestThirdPlaceActualRepository
+  implements IBestThirdPlaceActualRepository
+{
+  constructor(
+    @Inject('DATABASE_POOL')
+    private readonly pool: Pool,
+  ) {}
+
+  /**
+   * Reemplaza el ranking oficial completo (DELETE + INSERT)
+   */
+  async replaceAll(
+    bestThirds: SaveBestThirdPlaceData[],
+  ): Promise<BestThirdPlaceActual[]> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      await client.query('DELETE FROM best_third_places_actual');
+
+      const savedBestThirds: BestThirdPlaceActual[] = [];
+
+      for (const bestThird of bestThirds) {
+        const query = `
+          INSERT INTO best_third_places_actual (
+            team_id,
+            ranking_position,
+            points,
+            goal_difference,
+            goals_for,
+            from_group_id
+          )
+          VALUES ($1, $2, $3, $4, $5, $6)
+          RETURNING
+            id,
+            team_id,
+            ranking_position,
+            points,
+            goal_difference,
+            goals_for,
+            from_group_id,
+            created_at,
+            updated_at
+        `;
+
+        const result: QueryResult<BestThirdPlaceActualDatabaseRow> =
+          await client.query(query, [
+            bestThird.teamId,
+            bestThird.rankingPosition,
+            bestThird.points,
+            bestThird.goalDifference,
+            bestThird.goalsFor,
+            bestThird.fromGroupId,
+          ]);
+
+        savedBestThirds.push(BestThirdPlaceActual.fromDatabase(result.rows[0]));
+      }
+
+      await client.query('COMMIT');
+
+      return savedBestThirds;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error('Error saving actual best third places:', error);
+      throw new Error('Failed to save actual best third places in database');
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Obtiene el ranking oficial de mejores terceros
+   */
+  async findAll(): Promise<BestThirdPlaceActual[]> {
+    const query = `
+      SELECT
+        id,
+        team_id,
+        ranking_position,
+        points,
+        goal_difference,
+        goals_for,
+        from_group_id,
+        created_at,
+        updated_at
+      FROM best_third_places_actual
+      ORDER BY ranking_position ASC
+    `;
+
+    try {
+      const result: QueryResult<BestThirdPlaceActualDatabaseRow> =
+        await this.pool.query(query);
+
+      return result.rows.map((row) => BestThirdPlaceActual.fromDatabase(row));
+    } catch (error) {
+      console.error('Error fetching actual best third places:', error);
+      throw new Error('Failed to fetch actual best third places from database');
+    }
+  }
+}
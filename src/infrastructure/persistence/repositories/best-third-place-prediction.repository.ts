@@ -4,6 +4,7 @@ import type {
   IBestThirdPlacePredictionRepository,
   SaveBestThirdPlaceData,
   ResolveBestThirdTiebreakData,
+  BestThirdPlacePointsData,
 } from '@domain/repositories/best-third-place-prediction.repository.interface';
 import {
   BestThirdPlacePrediction,
@@ -169,6 +170,55 @@ export class BestThirdPlacePredictionRepository
     }
   }
 
+  /**
+   * Obtiene los mejores terceros de varias predicciones
+   */
+  async findByPredictionIds(
+    predictionIds: string[],
+  ): Promise<BestThirdPlacePrediction[]> {
+    if (predictionIds.length === 0) {
+      return [];
+    }
+
+    const query = `
+      SELECT
+        id,
+        prediction_id,
+        team_id,
+        ranking_position,
+        points,
+        goal_difference,
+        goals_for,
+        from_group_id,
+        has_tiebreak_conflict,
+        tiebreak_group,
+        manual_tiebreak_order,
+        points_earned,
+        created_at,
+        updated_at
+      FROM best_third_places_predictions
+      WHERE prediction_id = ANY($1)
+      ORDER BY prediction_id, ranking_position ASC
+    `;
+
+    try {
+      const result: QueryResult<BestThirdPlacePredictionDatabaseRow> =
+        await this.pool.query(query, [predictionIds]);
+
+      return result.rows.map((row) =>
+        BestThirdPlacePrediction.fromDatabase(row),
+      );
+    } catch (error) {
+      console.error(
+        'Error fetching best third places by prediction IDs:',
+        error,
+      );
+      throw new Error(
+        'Failed to fetch best third places by prediction IDs from database',
+      );
+    }
+  }
+
   /**
    * Actualiza orden manual para resolver desempate entre terceros
    */
@@ -233,6 +283,103 @@ export class BestThirdPlacePredictionRepository
     }
   }
 
+  /**
+   * Obtiene los mejores terceros predichos de todas las predicciones
+   */
+  async findAll(): Promise<BestThirdPlacePrediction[]> {
+    const query = `
+      SELECT
+        id,
+        prediction_id,
+        team_id,
+        ranking_position,
+        points,
+        goal_difference,
+        goals_for,
+        from_group_id,
+        has_tiebreak_conflict,
+        tiebreak_group,
+        manual_tiebreak_order,
+        points_earned,
+        created_at,
+        updated_at
+      FROM best_third_places_predictions
+    `;
+
+    try {
+      const result: QueryResult<BestThirdPlacePredictionDatabaseRow> =
+        await this.pool.query(query);
+
+      return result.rows.map((row) =>
+        BestThirdPlacePrediction.fromDatabase(row),
+      );
+    } catch (error) {
+      console.error('Error fetching all best third places:', error);
+      throw new Error('Failed to fetch all best third places from database');
+    }
+  }
+
+  /**
+   * Actualiza puntos de múltiples mejores terceros (batch en transacción)
+   */
+  async updatePointsMany(updates: BestThirdPlacePointsData[]): Promise<void> {
+    if (updates.length === 0) {
+      return;
+    }
+
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      for (const update of updates) {
+        await client.query(
+          `UPDATE best_third_places_predictions
+           SET points_earned = $1
+           WHERE id = $2`,
+          [update.pointsEarned, update.id],
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error('Error updating best third place points (batch):', error);
+      throw new Error('Failed to update best third place points in database');
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Obtiene la suma de points_earned agrupada por predicción
+   */
+  async getTotalPointsByPrediction(): Promise<Map<string, number>> {
+    const query = `
+      SELECT
+        prediction_id,
+        COALESCE(SUM(points_earned), 0)::int AS total_points
+      FROM best_third_places_predictions
+      GROUP BY prediction_id
+    `;
+
+    try {
+      const result: QueryResult<{
+        prediction_id: string;
+        total_points: number;
+      }> = await this.pool.query(query);
+
+      return new Map(
+        result.rows.map((row) => [row.prediction_id, row.total_points]),
+      );
+    } catch (error) {
+      console.error('Error aggregating best third place points:', error);
+      throw new Error(
+        'Failed to aggregate best third place points from database',
+      );
+    }
+  }
+
   /**
    * Elimina best third places de una predicción
    */
@@ -0,0 +1,190 @@
+import { Injectable, Inject } from '@nestjs/common';
+import type { Pool, QueryResult } from 'pg';
+import type { IGroupStandingActualRepository } from '@domain/repositories/group-standing-actual.repository.interface';
+import type { SaveGroupStandingData } from '@domain/repositories/group-standing-prediction.repository.interface';
+import {
+  GroupStandingActual,
+  type GroupStandingActualDatabaseRow,
+} from '@domain/entities/group-standing-actual.entity';
+
+/**
+ * GroupStandingActualRepository (Infrastructure Layer - Adapter)
+ *
+ * Implementación concreta del IGroupStandingActualRepository usando PostgreSQL con pg.
+ *
+ * Responsabilidades:
+ * - Guardar la tabla oficial de cada grupo (group_standings_actual)
+ * - Consultar tablas oficiales
+ */
+@Injectable()
+export class GroupStandingActualRepository
+  implements IGroupStandingActualRepository
+{
+  constructor(
+    @Inject('DATABASE_POOL')
+    private readonly pool: Pool,
+  ) {}
+
+  /**
+   * Guarda la tabla oficial de un grupo (batch con DELETE + INSERT)
+   */
+  async saveMany(
+    groupId: string,
+    standings: SaveGroupStandingData[],
+  ): Promise<GroupStandingActual[]> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      // Eliminar tabla anterior del grupo
+      await client.query(
+        `DELETE FROM group_standings_actual WHERE group_id = $1`,
+        [groupId],
+      );
+
+      // Insertar nueva tabla
+      const savedStandings: GroupStandingActual[] = [];
+
+      for (const standing of standings) {
+        const query = `
+          INSERT INTO group_standings_actual (
+            group_id,
+            team_id,
+            position,
+            points,
+            played,
+            wins,
+            draws,
+            losses,
+            goals_for,
+            goals_against,
+            goal_difference
+          )
+          VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+          RETURNING
+            id,
+            group_id,
+            team_id,
+            position,
+            points,
+            played,
+            wins,
+            draws,
+            losses,
+            goals_for,
+            goals_against,
+            goal_difference,
+            created_at,
+            updated_at
+        `;
+
+        const result: QueryResult<GroupStandingActualDatabaseRow> =
+          await client.query(query, [
+            groupId,
+            standing.teamId,
+            standing.position,
+            standing.points,
+            standing.played,
+            standing.wins,
+            standing.draws,
+            standing.losses,
+            standing.goalsFor,
+            standing.goalsAgainst,
+            standing.goalDifference,
+          ]);
+
+        savedStandings.push(GroupStandingActual.fromDatabase(result.rows[0]));
+      }
+
+      await client.query('COMMIT');
+
+      return savedStandings;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error(
+        `Error saving actual standings for group ${groupId}:`,
+        error,
+      );
+      throw new Error('Failed to save actual group standings in database');
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Obtiene la tabla oficial de todos los grupos
+   */
+  async findAll(): Promise<GroupStandingActual[]> {
+    const query = `
+      SELECT
+        id,
+        group_id,
+        team_id,
+        position,
+        points,
+        played,
+        wins,
+        draws,
+        losses,
+        goals_for,
+        goals_against,
+        goal_difference,
+        created_at,
+        updated_at
+      FROM group_standings_actual
+      ORDER BY group_id, position ASC
+    `;
+
+    try {
+      const result: QueryResult<GroupStandingActualDatabaseRow> =
+        await this.pool.query(query);
+
+      return result.rows.map((row) => GroupStandingActual.fromDatabase(row));
+    } catch (error) {
+      console.error('Error fetching actual group standings:', error);
+      throw new Error('Failed to fetch actual group standings from database');
+    }
+  }
+
+  /**
+   * Obtiene la tabla oficial de un grupo
+   */
+  async findByGroup(groupId: string): Promise<GroupStandingActual[]> {
+    const query = `
+      SELECT
+        id,
+        group_id,
+        team_id,
+        position,
+        points,
+        played,
+        wins,
+        draws,
+        losses,
+        goals_for,
+        goals_against,
+        goal_difference,
+        created_at,
+        updated_at
+      FROM group_standings_actual
+      WHERE group_id = $1
+      ORDER BY position ASC
+    `;
+
+    try {
+      const result: QueryResult<GroupStandingActualDatabaseRow> =
+        await this.pool.query(query, [groupId]);
+
+      return result.rows.map((row) => GroupStandingActual.fromDatabase(row));
+    } catch (error) {
+      console.error(
+        `Error fetching actual standings for group ${groupId}:`,
+        error,
+      );
+      throw new Error(
+        'Failed to fetch actual group standings by group from database',
+      );
+    }
+  }
+}
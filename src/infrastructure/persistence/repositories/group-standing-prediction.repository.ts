@@ -4,7 +4,11 @@ import type {
   IGroupStandingPredictionRepository,
   SaveGroupStandingData,
   ResolveTiebreakData,
+  GroupStandingPointsData,
+  GroupPositionPicks,
 } from '@domain/repositories/group-standing-prediction.repository.interface';
+import type { RecordPredictionChangeData } from '@domain/repositories/prediction-history.repository.interface';
+import { insertPredictionHistory } from './prediction-history.repository';
 import {
   GroupStandingPrediction,
   type GroupStandingPredictionDatabaseRow,
@@ -32,11 +36,12 @@ export class GroupStandingPredictionRepository
   ) {}
 
   /**
-   * Guarda tabla de posiciones de un grupo (batch con DELETE + INSERT)
+   * Guarda tabla de posiciones de un grupo (batch con DELETE + INSERT) y su historial
    */
   async saveMany(
     predictionId: string,
     standings: SaveGroupStandingData[],
+    history: RecordPredictionChangeData[] = [],
   ): Promise<GroupStandingPrediction[]> {
     if (standings.length === 0) {
       return [];
@@ -130,6 +135,8 @@ export class GroupStandingPredictionRepository
         );
       }
 
+      await insertPredictionHistory(client, history);
+
       await client.query('COMMIT');
 
       return savedStandings;
@@ -243,6 +250,57 @@ export class GroupStandingPredictionRepository
     }
   }
 
+  /**
+   * Obtiene las tablas de posiciones de varias predicciones
+   */
+  async findByPredictionIds(
+    predictionIds: string[],
+  ): Promise<GroupStandingPrediction[]> {
+    if (predictionIds.length === 0) {
+      return [];
+    }
+
+    const query = `
+      SELECT
+        id,
+        prediction_id,
+        group_id,
+        team_id,
+        position,
+        points,
+        played,
+        wins,
+        draws,
+        losses,
+        goals_for,
+        goals_against,
+        goal_difference,
+        has_tiebreak_conflict,
+        tiebreak_group,
+        manual_tiebreak_order,
+        points_earned,
+        created_at,
+        updated_at
+      FROM group_standings_predictions
+      WHERE prediction_id = ANY($1)
+      ORDER BY prediction_id, group_id, position ASC
+    `;
+
+    try {
+      const result: QueryResult<GroupStandingPredictionDatabaseRow> =
+        await this.pool.query(query, [predictionIds]);
+
+      return result.rows.map((row) =>
+        GroupStandingPrediction.fromDatabase(row),
+      );
+    } catch (error) {
+      console.error('Error fetching group standings by prediction IDs:', error);
+      throw new Error(
+        'Failed to fetch group standings by prediction IDs from database',
+      );
+    }
+  }
+
   /**
    * Obtiene todos los terceros lugares de una predicción (12 terceros)
    */
@@ -357,6 +415,161 @@ export class GroupStandingPredictionRepository
     }
   }
 
+  /**
+   * Obtiene las posiciones predichas de varios grupos (todas las predicciones)
+   */
+  async findByGroupIds(groupIds: string[]): Promise<GroupStandingPrediction[]> {
+    if (groupIds.length === 0) {
+      return [];
+    }
+
+    const query = `
+      SELECT
+        id,
+        prediction_id,
+        group_id,
+        team_id,
+        position,
+        points,
+        played,
+        wins,
+        draws,
+        losses,
+        goals_for,
+        goals_against,
+        goal_difference,
+        has_tiebreak_conflict,
+        tiebreak_group,
+        manual_tiebreak_order,
+        points_earned,
+        created_at,
+        updated_at
+      FROM group_standings_predictions
+      WHERE group_id = ANY($1)
+    `;
+
+    try {
+      const result: QueryResult<GroupStandingPredictionDatabaseRow> =
+        await this.pool.query(query, [groupIds]);
+
+      return result.rows.map((row) =>
+        GroupStandingPrediction.fromDatabase(row),
+      );
+    } catch (error) {
+      console.error('Error fetching group standings by group IDs:', error);
+      throw new Error(
+        'Failed to fetch group standings by group IDs from database',
+      );
+    }
+  }
+
+  /**
+   * Actualiza puntos de múltiples posiciones de grupo (batch en transacción)
+   */
+  async updatePointsMany(updates: GroupStandingPointsData[]): Promise<void> {
+    if (updates.length === 0) {
+      return;
+    }
+
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      for (const update of updates) {
+        await client.query(
+          `UPDATE group_standings_predictions
+           SET points_earned = $1
+           WHERE id = $2`,
+          [update.pointsEarned, update.id],
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error('Error updating group standing points (batch):', error);
+      throw new Error('Failed to update group standing points in database');
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Obtiene la suma de points_earned agrupada por predicción
+   */
+  async getTotalPointsByPrediction(): Promise<Map<string, number>> {
+    const query = `
+      SELECT
+        prediction_id,
+        COALESCE(SUM(points_earned), 0)::int AS total_points
+      FROM group_standings_predictions
+      GROUP BY prediction_id
+    `;
+
+    try {
+      const result: QueryResult<{
+        prediction_id: string;
+        total_points: number;
+      }> = await this.pool.query(query);
+
+      return new Map(
+        result.rows.map((row) => [row.prediction_id, row.total_points]),
+      );
+    } catch (error) {
+      console.error('Error aggregating group standing points:', error);
+      throw new Error(
+        'Failed to aggregate group standing points from database',
+      );
+    }
+  }
+
+  /**
+   * Obtiene el reparto de posiciones predichas por equipo en una liga
+   */
+  async getPositionPicksByLeague(
+    leagueId: string,
+  ): Promise<GroupPositionPicks[]> {
+    const query = `
+      SELECT
+        gs.group_id,
+        gs.team_id,
+        t.name AS team_name,
+        gs.position,
+        COUNT(*)::int AS picks
+      FROM group_standings_predictions gs
+      INNER JOIN predictions p ON p.id = gs.prediction_id
+      INNER JOIN teams t ON t.id = gs.team_id
+      WHERE p.league_id = $1
+      GROUP BY gs.group_id, gs.team_id, t.name, gs.position
+      ORDER BY gs.group_id, gs.team_id, gs.position
+    `;
+
+    try {
+      const result: QueryResult<{
+        group_id: string;
+        team_id: string;
+        team_name: string;
+        position: number;
+        picks: number;
+      }> = await this.pool.query(query, [leagueId]);
+
+      return result.rows.map((row) => ({
+        groupId: row.group_id,
+        teamId: row.team_id,
+        teamName: row.team_name,
+        position: row.position,
+        picks: row.picks,
+      }));
+    } catch (error) {
+      console.error(
+        `Error aggregating group standings for league ${leagueId}:`,
+        error,
+      );
+      throw new Error('Failed to aggregate group standings from database');
+    }
+  }
+
   /**
    * Elimina standings de una predicción
    */
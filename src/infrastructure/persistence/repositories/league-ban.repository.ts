@@ -0,0 +1,187 @@
+import { Injectable, Inject } from '@nestjs/common';
+import type { Pool, QueryResult } from 'pg';
+import type {
+  ILeagueBanRepository,
+  CreateLeagueBanData,
+} from '@domain/repositories/league-ban.repository.interface';
+import {
+  LeagueBan,
+  type LeagueBanDatabaseRow,
+} from '@domain/entities/league-ban.entity';
+
+/**
+ * LeagueBanRepository (Infrastructure Layer - Adapter)
+ *
+ * Implementación concreta del ILeagueBanRepository usando PostgreSQL con pg.
+ *
+ * Responsabilidades:
+ * - Expulsar y banear de forma atómica (league_members + league_bans)
+ * - Eliminar baneos de league_bans
+ * - Consultar si un usuario está baneado de una liga
+ *
+ * Notas:
+ * - league_bans tiene UNIQUE (league_id, user_id): un baneo por usuario y liga
+ */
+@Injectable()
+export class LeagueBanRepository implements ILeagueBanRepository {
+  constructor(
+    @Inject('DATABASE_POOL')
+    private readonly pool: Pool,
+  ) {}
+
+  /**
+   * Expulsa al miembro y crea el baneo
+   * - Se ejecuta en una transacción para no dejar un expulsado sin baneo
+   */
+  async removeMemberAndBan(data: CreateLeagueBanData): Promise<LeagueBan> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const removeMemberQuery = `
+        DELETE FROM league_members
+        WHERE league_id = $1 AND user_id = $2
+      `;
+
+      const removeResult = await client.query(removeMemberQuery, [
+        data.leagueId,
+        data.userId,
+      ]);
+
+      if (removeResult.rowCount === 0) {
+        throw new Error('User is not a member of this league');
+      }
+
+      const insertBanQuery = `
+        INSERT INTO league_bans (league_id, user_id, banned_by_user_id, reason)
+        VALUES ($1, $2, $3, $4)
+        RETURNING
+          id,
+          league_id,
+          user_id,
+          banned_by_user_id,
+          reason,
+          created_at
+      `;
+
+      const banResult: QueryResult<LeagueBanDatabaseRow> = await client.query(
+        insertBanQuery,
+        [data.leagueId, data.userId, data.bannedByUserId, data.reason],
+      );
+
+      await client.query('COMMIT');
+
+      return LeagueBan.fromDatabase(banResult.rows[0]);
+    } catch (error: any) {
+      await client.query('ROLLBACK');
+
+      if (error.message === 'User is not a member of this league') {
+        throw error;
+      }
+
+      // Manejar error de duplicado (usuario ya baneado)
+      if (error.code === '23505') {
+        throw new Error('User is already banned from this league');
+      }
+
+      console.error(
+        `Error removing and banning user ${data.userId} from league ${data.leagueId}:`,
+        error,
+      );
+      throw new Error('Failed to remove and ban member in database');
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Busca el baneo de un usuario en una liga
+   */
+  async findByLeagueAndUser(
+    leagueId: string,
+    userId: string,
+  ): Promise<LeagueBan | null> {
+    const query = `
+      SELECT
+        id,
+        league_id,
+        user_id,
+        banned_by_user_id,
+        reason,
+        created_at
+      FROM league_bans
+      WHERE league_id = $1 AND user_id = $2
+    `;
+
+    try {
+      const result: QueryResult<LeagueBanDatabaseRow> = await this.pool.query(
+        query,
+        [leagueId, userId],
+      );
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      return LeagueBan.fromDatabase(result.rows[0]);
+    } catch (error) {
+      console.error(
+        `Error fetching ban for user ${userId} in league ${leagueId}:`,
+        error,
+      );
+      throw new Error('Failed to fetch league ban from database');
+    }
+  }
+
+  /**
+   * Obtiene los baneos de una liga
+   */
+  async findByLeague(leagueId: string): Promise<LeagueBan[]> {
+    const query = `
+      SELECT
+        id,
+        league_id,
+        user_id,
+        banned_by_user_id,
+        reason,
+        created_at
+      FROM league_bans
+      WHERE league_id = $1
+      ORDER BY created_at DESC
+    `;
+
+    try {
+      const result: QueryResult<LeagueBanDatabaseRow> = await this.pool.query(
+        query,
+        [leagueId],
+      );
+
+      return result.rows.map((row) => LeagueBan.fromDatabase(row));
+    } catch (error) {
+      console.error(`Error fetching bans for league ${leagueId}:`, error);
+      throw new Error('Failed to fetch league bans from database');
+    }
+  }
+
+  /**
+   * Levanta el baneo de un usuario
+   */
+  async delete(leagueId: string, userId: string): Promise<boolean> {
+    const query = `
+      DELETE FROM league_bans
+      WHERE league_id = $1 AND user_id = $2
+    `;
+
+    try {
+      const result = await this.pool.query(query, [leagueId, userId]);
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      console.error(
+        `Error lifting ban for user ${userId} in league ${leagueId}:`,
+        error,
+      );
+      throw new Error('Failed to delete league ban from database');
+    }
+  }
+}
@@ -0,0 +1,224 @@
+import { Injectable, Inject } from '@nestjs/common';
+import type { Pool, QueryResult } from 'pg';
+import type {
+  ILeagueInvitationRepository,
+  CreateLeagueInvitationData,
+} from '@domain/repositories/league-invitation.repository.interface';
+import {
+  LeagueInvitation,
+  type LeagueInvitationDatabaseRow,
+} from '@domain/entities/league-invitation.entity';
+
+/**
+ * LeagueInvitationRepository (Infrastructure Layer - Adapter)
+ *
+ * Implementación concreta del ILeagueInvitationRepository usando PostgreSQL con pg.
+ *
+ * Responsabilidades:
+ * - Crear invitaciones en league_invitations
+ * - Consultar invitaciones pendientes
+ * - Cambiar el estado (ACCEPTED / REVOKED) de forma atómica
+ *
+ * Notas:
+ * - Las transiciones de estado usan WHERE status = 'PENDING' para que dos
+ *   peticiones simultáneas no puedan consumir el mismo token
+ */
+@Injectable()
+export class LeagueInvitationRepository implements ILeagueInvitationRepository {
+  constructor(
+    @Inject('DATABASE_POOL')
+    private readonly pool: Pool,
+  ) {}
+
+  /**
+   * Crea una invitación en estado PENDING
+   */
+  async create(data: CreateLeagueInvitationData): Promise<LeagueInvitation> {
+    const query = `
+      INSERT INTO league_invitations (
+        league_id,
+        email,
+        invited_by_user_id,
+        status,
+        expires_at
+      )
+      VALUES ($1, $2, $3, 'PENDING', $4)
+      RETURNING
+        id,
+        league_id,
+        email,
+        invited_by_user_id,
+        status,
+        accepted_by_user_id,
+        expires_at,
+        created_at,
+        updated_at
+    `;
+
+    try {
+      const result: QueryResult<LeagueInvitationDatabaseRow> =
+        await this.pool.query(query, [
+          data.leagueId,
+          data.email,
+          data.invitedByUserId,
+          data.expiresAt,
+        ]);
+
+      return LeagueInvitation.fromDatabase(result.rows[0]);
+    } catch (error) {
+      console.error(
+        `Error creating invitation for ${data.email} to league ${data.leagueId}:`,
+        error,
+      );
+      throw new Error('Failed to create league invitation in database');
+    }
+  }
+
+  /**
+   * Busca una invitación por su ID
+   */
+  async findById(id: string): Promise<LeagueInvitation | null> {
+    const query = `
+      SELECT
+        id,
+        league_id,
+        email,
+        invited_by_user_id,
+        status,
+        accepted_by_user_id,
+        expires_at,
+        created_at,
+        updated_at
+      FROM league_invitations
+      WHERE id = $1
+    `;
+
+    try {
+      const result: QueryResult<LeagueInvitationDatabaseRow> =
+        await this.pool.query(query, [id]);
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      return LeagueInvitation.fromDatabase(result.rows[0]);
+    } catch (error) {
+      console.error(`Error fetching league invitation ${id}:`, error);
+      throw new Error('Failed to fetch league invitation from database');
+    }
+  }
+
+  /**
+   * Obtiene las invitaciones pendientes de una liga
+   */
+  async findPendingByLeague(leagueId: string): Promise<LeagueInvitation[]> {
+    const query = `
+      SELECT
+        id,
+        league_id,
+        email,
+        invited_by_user_id,
+        status,
+        accepted_by_user_id,
+        expires_at,
+        created_at,
+        updated_at
+      FROM league_invitations
+      WHERE league_id = $1 AND status = 'PENDING'
+      ORDER BY created_at DESC
+    `;
+
+    try {
+      const result: QueryResult<LeagueInvitationDatabaseRow> =
+        await this.pool.query(query, [leagueId]);
+
+      return result.rows.map((row) => LeagueInvitation.fromDatabase(row));
+    } catch (error) {
+      console.error(
+        `Error fetching pending invitations for league ${leagueId}:`,
+        error,
+      );
+      throw new Error('Failed to fetch league invitations from database');
+    }
+  }
+
+  /**
+   * Busca la invitación pendiente de un email en una liga
+   */
+  async findPendingByLeagueAndEmail(
+    leagueId: string,
+    email: string,
+  ): Promise<LeagueInvitation | null> {
+    const query = `
+      SELECT
+        id,
+        league_id,
+        email,
+        invited_by_user_id,
+        status,
+        accepted_by_user_id,
+        expires_at,
+        created_at,
+        updated_at
+      FROM league_invitations
+      WHERE league_id = $1 AND email = $2 AND status = 'PENDING'
+      ORDER BY created_at DESC
+      LIMIT 1
+    `;
+
+    try {
+      const result: QueryResult<LeagueInvitationDatabaseRow> =
+        await this.pool.query(query, [leagueId, email]);
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      return LeagueInvitation.fromDatabase(result.rows[0]);
+    } catch (error) {
+      console.error(
+        `Error fetching pending invitation for ${email} in league ${leagueId}:`,
+        error,
+      );
+      throw new Error('Failed to fetch league invitation from database');
+    }
+  }
+
+  /**
+   * Marca la invitación como aceptada (solo si sigue PENDING)
+   */
+  async markAccepted(id: string, userId: string): Promise<boolean> {
+    const query = `
+      UPDATE league_invitations
+      SET status = 'ACCEPTED', accepted_by_user_id = $2, updated_at = NOW()
+      WHERE id = $1 AND status = 'PENDING'
+    `;
+
+    try {
+      const result = await this.pool.query(query, [id, userId]);
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      console.error(`Error accepting league invitation ${id}:`, error);
+      throw new Error('Failed to accept league invitation in database');
+    }
+  }
+
+  /**
+   * Marca la invitación como revocada (solo si sigue PENDING)
+   */
+  async revoke(id: string): Promise<boolean> {
+    const query = `
+      UPDATE league_invitations
+      SET status = 'REVOKED', updated_at = NOW()
+      WHERE id = $1 AND status = 'PENDING'
+    `;
+
+    try {
+      const result = await this.pool.query(query, [id]);
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      console.error(`Error revoking league invitation ${id}:`, error);
+      throw new Error('Failed to revoke league invitation in database');
+    }
+  }
+}
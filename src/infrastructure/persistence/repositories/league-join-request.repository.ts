@@ -0,0 +1,251 @@
+import { Injectable, Inject } from '@nestjs/common';
+import type { Pool, QueryResult } from 'pg';
+import type { ILeagueJoinRequestRepository } from '@domain/repositories/league-join-request.repository.interface';
+import {
+  LeagueJoinRequest,
+  type LeagueJoinRequestDatabaseRow,
+} from '@domain/entities/league-join-request.entity';
+
+/**
+ * LeagueJoinRequestRepository (Infrastructure Layer - Adapter)
+ *
+ * Implementación concreta del ILeagueJoinRequestRepository usando PostgreSQL con pg.
+ *
+ * Responsabilidades:
+ * - Crear solicitudes en league_join_requests
+ * - Consultar solicitudes pendientes
+ * - Registrar la decisión del admin (APPROVED / REJECTED)
+ * - Aprobar y agregar al miembro de forma atómica (league_members)
+ *
+ * Notas:
+ * - markDecided usa WHERE status = 'PENDING' para que una solicitud no se
+ *   pueda aprobar y rechazar a la vez
+ */
+@Injectable()
+export class LeagueJoinRequestRepository
+  implements ILeagueJoinRequestRepository
+{
+  constructor(
+    @Inject('DATABASE_POOL')
+    private readonly pool: Pool,
+  ) {}
+
+  /**
+   * Crea una solicitud en estado PENDING
+   */
+  async create(leagueId: string, userId: string): Promise<LeagueJoinRequest> {
+    const query = `
+      INSERT INTO league_join_requests (league_id, user_id, status)
+      VALUES ($1, $2, 'PENDING')
+      RETURNING
+        id,
+        league_id,
+        user_id,
+        status,
+        decided_by_user_id,
+        decided_at,
+        created_at,
+        updated_at
+    `;
+
+    try {
+      const result: QueryResult<LeagueJoinRequestDatabaseRow> =
+        await this.pool.query(query, [leagueId, userId]);
+
+      return LeagueJoinRequest.fromDatabase(result.rows[0]);
+    } catch (error) {
+      console.error(
+        `Error creating join request for user ${userId} to league ${leagueId}:`,
+        error,
+      );
+      throw new Error('Failed to create league join request in database');
+    }
+  }
+
+  /**
+   * Busca una solicitud por su ID
+   */
+  async findById(id: string): Promise<LeagueJoinRequest | null> {
+    const query = `
+      SELECT
+        id,
+        league_id,
+        user_id,
+        status,
+        decided_by_user_id,
+        decided_at,
+        created_at,
+        updated_at
+      FROM league_join_requests
+      WHERE id = $1
+    `;
+
+    try {
+      const result: QueryResult<LeagueJoinRequestDatabaseRow> =
+        await this.pool.query(query, [id]);
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      return LeagueJoinRequest.fromDatabase(result.rows[0]);
+    } catch (error) {
+      console.error(`Error fetching league join request ${id}:`, error);
+      throw new Error('Failed to fetch league join request from database');
+    }
+  }
+
+  /**
+   * Obtiene las solicitudes pendientes de una liga
+   */
+  async findPendingByLeague(leagueId: string): Promise<LeagueJoinRequest[]> {
+    const query = `
+      SELECT
+        id,
+        league_id,
+        user_id,
+        status,
+        decided_by_user_id,
+        decided_at,
+        created_at,
+        updated_at
+      FROM league_join_requests
+      WHERE league_id = $1 AND status = 'PENDING'
+      ORDER BY created_at ASC
+    `;
+
+    try {
+      const result: QueryResult<LeagueJoinRequestDatabaseRow> =
+        await this.pool.query(query, [leagueId]);
+
+      return result.rows.map((row) => LeagueJoinRequest.fromDatabase(row));
+    } catch (error) {
+      console.error(
+        `Error fetching pending join requests for league ${leagueId}:`,
+        error,
+      );
+      throw new Error('Failed to fetch league join requests from database');
+    }
+  }
+
+  /**
+   * Busca la solicitud pendiente de un usuario en una liga
+   */
+  async findPendingByLeagueAndUser(
+    leagueId: string,
+    userId: string,
+  ): Promise<LeagueJoinRequest | null> {
+    const query = `
+      SELECT
+        id,
+        league_id,
+        user_id,
+        status,
+        decided_by_user_id,
+        decided_at,
+        created_at,
+        updated_at
+      FROM league_join_requests
+      WHERE league_id = $1 AND user_id = $2 AND status = 'PENDING'
+      LIMIT 1
+    `;
+
+    try {
+      const result: QueryResult<LeagueJoinRequestDatabaseRow> =
+        await this.pool.query(query, [leagueId, userId]);
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      return LeagueJoinRequest.fromDatabase(result.rows[0]);
+    } catch (error) {
+      console.error(
+        `Error fetching pending join request for user ${userId} in league ${leagueId}:`,
+        error,
+      );
+      throw new Error('Failed to fetch league join request from database');
+    }
+  }
+
+  /**
+   * Registra la decisión del admin (solo si sigue PENDING)
+   */
+  async markDecided(
+    id: string,
+    status: 'APPROVED' | 'REJECTED',
+    adminUserId: string,
+  ): Promise<boolean> {
+    const query = `
+      UPDATE league_join_requests
+      SET
+        status = $2,
+        decided_by_user_id = $3,
+        decided_at = NOW(),
+        updated_at = NOW()
+      WHERE id = $1 AND status = 'PENDING'
+    `;
+
+    try {
+      const result = await this.pool.query(query, [id, status, adminUserId]);
+      return (result.rowCount ?? 0) > 0;
+    } catch (error) {
+      console.error(`Error deciding league join request ${id}:`, error);
+      throw new Error('Failed to update league join request in database');
+    }
+  }
+
+  /**
+   * Aprueba la solicitud y agrega al usuario como miembro
+   * - Reclamar la solicitud antes de insertar evita que dos aprobaciones
+   *   concurrentes (o una aprobación y un rechazo) dejen estados mezclados
+   */
+  async approve(id: string, adminUserId: string): Promise<boolean> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const claimQuery = `
+        UPDATE league_join_requests
+        SET
+          status = 'APPROVED',
+          decided_by_user_id = $2,
+          decided_at = NOW(),
+          updated_at = NOW()
+        WHERE id = $1 AND status = 'PENDING'
+        RETURNING league_id, user_id
+      `;
+
+      const claimResult: QueryResult<{ league_id: string; user_id: string }> =
+        await client.query(claimQuery, [id, adminUserId]);
+
+      if (claimResult.rows.length === 0) {
+        await client.query('ROLLBACK');
+        return false;
+      }
+
+      // Si ya era miembro no se duplica (UNIQUE league_id, user_id)
+      const addMemberQuery = `
+        INSERT INTO league_members (league_id, user_id, role)
+        VALUES ($1, $2, 'MEMBER')
+        ON CONFLICT DO NOTHING
+      `;
+
+      await client.query(addMemberQuery, [
+        claimResult.rows[0].league_id,
+        claimResult.rows[0].user_id,
+      ]);
+
+      await client.query('COMMIT');
+      return true;
+    } catch (error) {
+      await client.query('ROLLBACK');
+
+      console.error(`Error approving league join request ${id}:`, error);
+      throw new Error('Failed to approve league join request in database');
+    } finally {
+      client.release();
+    }
+  }
+}
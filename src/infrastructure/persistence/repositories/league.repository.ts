@@ -7,6 +7,10 @@ import type {
 } from '@domain/repositories/league.repository.interface';
 import { League, type LeagueDatabaseRow } from '@domain/entities/league.entity';
 import { User, type UserDatabaseRow } from '@domain/entities/user.entity';
+import type {
+  AssignableLeagueMemberRole,
+  LeagueMemberRole,
+} from '@domain/constants/league-roles.constant';
 
 /**
  * LeagueRepository (Infrastructure Layer - Adapter)
@@ -100,6 +104,11 @@ export class LeagueRepository implements ILeagueRepository {
         max_members,
         code,
         logo_url,
+        scoring_preset,
+        scoring_rules,
+        game_mode,
+        hide_predictions_until_kickoff,
+        join_policy,
         created_at,
         updated_at
       FROM leagues
@@ -137,6 +146,11 @@ export class LeagueRepository implements ILeagueRepository {
         max_members,
         code,
         logo_url,
+        scoring_preset,
+        scoring_rules,
+        game_mode,
+        hide_predictions_until_kickoff,
+        join_policy,
         created_at,
         updated_at
       FROM leagues
@@ -168,6 +182,11 @@ export class LeagueRepository implements ILeagueRepository {
         max_members,
         code,
         logo_url,
+        scoring_preset,
+        scoring_rules,
+        game_mode,
+        hide_predictions_until_kickoff,
+        join_policy,
         created_at,
         updated_at
       FROM leagues
@@ -200,6 +219,11 @@ export class LeagueRepository implements ILeagueRepository {
         l.max_members,
         l.code,
         l.logo_url,
+        l.scoring_preset,
+        l.scoring_rules,
+        l.game_mode,
+        l.hide_predictions_until_kickoff,
+        l.join_policy,
         l.created_at,
         l.updated_at
       FROM leagues l
@@ -235,6 +259,11 @@ export class LeagueRepository implements ILeagueRepository {
         max_members,
         code,
         logo_url,
+        scoring_preset,
+        scoring_rules,
+        game_mode,
+        hide_predictions_until_kickoff,
+        join_policy,
         created_at,
         updated_at
       FROM leagues
@@ -275,6 +304,11 @@ export class LeagueRepository implements ILeagueRepository {
         max_members,
         code,
         logo_url,
+        scoring_preset,
+        scoring_rules,
+        game_mode,
+        hide_predictions_until_kickoff,
+        join_policy,
         created_at,
         updated_at
       FROM leagues
@@ -313,8 +347,18 @@ export class LeagueRepository implements ILeagueRepository {
 
       // Insertar liga
       const insertLeagueQuery = `
-        INSERT INTO leagues (name, description, type, admin_user_id, max_members, code)
-        VALUES ($1, $2, $3, $4, $5, $6)
+        INSERT INTO leagues (
+          name,
+          description,
+          type,
+          admin_user_id,
+          max_members,
+          code,
+          game_mode,
+          hide_predictions_until_kickoff,
+          join_policy
+        )
+        VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
         RETURNING
           id,
           name,
@@ -324,6 +368,11 @@ export class LeagueRepository implements ILeagueRepository {
           max_members,
           code,
           logo_url,
+          scoring_preset,
+          scoring_rules,
+          game_mode,
+          hide_predictions_until_kickoff,
+          join_policy,
           created_at,
           updated_at
       `;
@@ -337,15 +386,18 @@ export class LeagueRepository implements ILeagueRepository {
           data.adminUserId,
           data.maxMembers || 200,
           code,
+          data.gameMode ?? 'TOURNAMENT',
+          data.hidePredictionsUntilKickoff ?? false,
+          data.joinPolicy ?? 'OPEN',
         ],
       );
 
       const league = League.fromDatabase(leagueResult.rows[0]);
 
-      // Agregar admin como primer miembro
+      // Agregar admin como primer miembro (propietario)
       const insertMemberQuery = `
-        INSERT INTO league_members (league_id, user_id)
-        VALUES ($1, $2)
+        INSERT INTO league_members (league_id, user_id, role)
+        VALUES ($1, $2, 'OWNER')
       `;
 
       await client.query(insertMemberQuery, [league.id, data.adminUserId]);
@@ -401,6 +453,37 @@ export class LeagueRepository implements ILeagueRepository {
       values.push(data.type);
     }
 
+    if (data.scoringProfile !== undefined) {
+      fields.push(`scoring_preset = $${paramIndex++}`);
+      values.push(data.scoringProfile.preset);
+      fields.push(`scoring_rules = $${paramIndex++}`);
+      values.push(
+        data.scoringProfile.overrides
+          ? JSON.stringify(data.scoringProfile.overrides)
+          : null,
+      );
+    }
+
+    if (data.gameMode !== undefined) {
+      fields.push(`game_mode = $${paramIndex++}`);
+      values.push(data.gameMode);
+    }
+
+    if (data.hidePredictionsUntilKickoff !== undefined) {
+      fields.push(`hide_predictions_until_kickoff = $${paramIndex++}`);
+      values.push(data.hidePredictionsUntilKickoff);
+    }
+
+    if (data.joinPolicy !== undefined) {
+      fields.push(`join_policy = $${paramIndex++}`);
+      values.push(data.joinPolicy);
+    }
+
+    if (data.logoUrl !== undefined) {
+      fields.push(`logo_url = $${paramIndex++}`);
+      values.push(data.logoUrl);
+    }
+
     // Si no hay campos para actualizar, retornar liga sin cambios
     if (fields.length === 0) {
       const league = await this.findById(id);
@@ -426,6 +509,11 @@ export class LeagueRepository implements ILeagueRepository {
         max_members,
         code,
         logo_url,
+        scoring_preset,
+        scoring_rules,
+        game_mode,
+        hide_predictions_until_kickoff,
+        join_policy,
         created_at,
         updated_at
     `;
@@ -479,21 +567,42 @@ export class LeagueRepository implements ILeagueRepository {
 
   /**
    * Transfiere el rol de administrador a otro usuario
+   * - El nuevo admin pasa a OWNER y el anterior queda como MEMBER
+   * - Se ejecuta en una transacción para no dejar dos propietarios
    */
   async transferAdmin(leagueId: string, newAdminUserId: string): Promise<void> {
-    const query = `
-      UPDATE leagues
-      SET admin_user_id = $1
-      WHERE id = $2
-    `;
+    const client = await this.pool.connect();
 
     try {
-      const result = await this.pool.query(query, [newAdminUserId, leagueId]);
+      await client.query('BEGIN');
+
+      const updateLeagueQuery = `
+        UPDATE leagues
+        SET admin_user_id = $1
+        WHERE id = $2
+      `;
+
+      const result = await client.query(updateLeagueQuery, [
+        newAdminUserId,
+        leagueId,
+      ]);
 
       if (result.rowCount === 0) {
         throw new Error('League not found');
       }
+
+      const updateRolesQuery = `
+        UPDATE league_members
+        SET role = CASE WHEN user_id = $2 THEN 'OWNER' ELSE 'MEMBER' END
+        WHERE league_id = $1 AND (user_id = $2 OR role = 'OWNER')
+      `;
+
+      await client.query(updateRolesQuery, [leagueId, newAdminUserId]);
+
+      await client.query('COMMIT');
     } catch (error: any) {
+      await client.query('ROLLBACK');
+
       if (error.message === 'League not found') {
         throw error;
       }
@@ -505,6 +614,8 @@ export class LeagueRepository implements ILeagueRepository {
 
       console.error(`Error transferring admin for league ${leagueId}:`, error);
       throw new Error('Failed to transfer admin in database');
+    } finally {
+      client.release();
     }
   }
 
@@ -517,8 +628,8 @@ export class LeagueRepository implements ILeagueRepository {
    */
   async addMember(leagueId: string, userId: string): Promise<void> {
     const query = `
-      INSERT INTO league_members (league_id, user_id)
-      VALUES ($1, $2)
+      INSERT INTO league_members (league_id, user_id, role)
+      VALUES ($1, $2, 'MEMBER')
     `;
 
     try {
@@ -662,6 +773,7 @@ export class LeagueRepository implements ILeagueRepository {
   /**
    * Obtiene el miembro más antiguo de una liga (excluyendo a un usuario)
    * Usado para transferir admin cuando el admin actual sale
+   * Los co-admins van primero: la liga queda en manos de quien ya la gestionaba
    */
   async getOldestMember(
     leagueId: string,
@@ -685,7 +797,7 @@ export class LeagueRepository implements ILeagueRepository {
       FROM users u
       INNER JOIN league_members lm ON u.id = lm.user_id
       WHERE lm.league_id = $1 AND lm.user_id != $2
-      ORDER BY lm.joined_at ASC
+      ORDER BY (lm.role = 'CO_ADMIN') DESC, lm.joined_at ASC
       LIMIT 1
     `;
 
@@ -708,4 +820,104 @@ export class LeagueRepository implements ILeagueRepository {
       throw new Error('Failed to fetch oldest member from database');
     }
   }
+
+  // =========================================================================
+  // MEMBER ROLES
+  // =========================================================================
+
+  /**
+   * Obtiene el rol de un usuario en una liga
+   * El admin_user_id de la liga manda: siempre se devuelve como OWNER
+   */
+  async getMemberRole(
+    leagueId: string,
+    userId: string,
+  ): Promise<LeagueMemberRole | null> {
+    const query = `
+      SELECT
+        CASE WHEN l.admin_user_id = lm.user_id THEN 'OWNER' ELSE lm.role END AS role
+      FROM league_members lm
+      INNER JOIN leagues l ON l.id = lm.league_id
+      WHERE lm.league_id = $1 AND lm.user_id = $2
+    `;
+
+    try {
+      const result: QueryResult<{ role: LeagueMemberRole }> =
+        await this.pool.query(query, [leagueId, userId]);
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      return result.rows[0].role;
+    } catch (error) {
+      console.error(
+        `Error fetching role of user ${userId} in league ${leagueId}:`,
+        error,
+      );
+      throw new Error('Failed to fetch member role from database');
+    }
+  }
+
+  /**
+   * Obtiene el rol de todos los miembros de una liga
+   */
+  async getMemberRoles(
+    leagueId: string,
+  ): Promise<Map<string, LeagueMemberRole>> {
+    const query = `
+      SELECT
+        lm.user_id,
+        CASE WHEN l.admin_user_id = lm.user_id THEN 'OWNER' ELSE lm.role END AS role
+      FROM league_members lm
+      INNER JOIN leagues l ON l.id = lm.league_id
+      WHERE lm.league_id = $1
+    `;
+
+    try {
+      const result: QueryResult<{ user_id: string; role: LeagueMemberRole }> =
+        await this.pool.query(query, [leagueId]);
+
+      return new Map(result.rows.map((row) => [row.user_id, row.role]));
+    } catch (error) {
+      console.error(
+        `Error fetching member roles for league ${leagueId}:`,
+        error,
+      );
+      throw new Error('Failed to fetch member roles from database');
+    }
+  }
+
+  /**
+   * Cambia el rol de un miembro (nunca al propietario)
+   */
+  async updateMemberRole(
+    leagueId: string,
+    userId: string,
+    role: AssignableLeagueMemberRole,
+  ): Promise<void> {
+    const query = `
+      UPDATE league_members
+      SET role = $3
+      WHERE league_id = $1 AND user_id = $2 AND role != 'OWNER'
+    `;
+
+    try {
+      const result = await this.pool.query(query, [leagueId, userId, role]);
+
+      if (result.rowCount === 0) {
+        throw new Error('User is not a member of this league');
+      }
+    } catch (error: any) {
+      if (error.message === 'User is not a member of this league') {
+        throw error;
+      }
+
+      console.error(
+        `Error updating role of user ${userId} in league ${leagueId}:`,
+        error,
+      );
+      throw new Error('Failed to update member role in database');
+    }
+  }
 }
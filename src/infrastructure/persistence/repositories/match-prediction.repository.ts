@@ -3,7 +3,11 @@ import type { Pool, QueryResult } from 'pg';
 import type {
   IMatchPredictionRepository,
   SaveMatchPredictionData,
+  MatchPredictionPointsData,
+  MatchPredictionConsensus,
 } from '@domain/repositories/match-prediction.repository.interface';
+import type { RecordPredictionChangeData } from '@domain/repositories/prediction-history.repository.interface';
+import { insertPredictionHistory } from './prediction-history.repository';
 import {
   MatchPrediction,
   type MatchPredictionDatabaseRow,
@@ -28,11 +32,12 @@ export class MatchPredictionRepository implements IMatchPredictionRepository {
   ) {}
 
   /**
-   * Guarda predicciones de partidos (batch con UPSERT)
+   * Guarda predicciones de partidos (batch con UPSERT) y su historial
    */
   async saveMany(
     predictionId: string,
     matchPredictions: SaveMatchPredictionData[],
+    history: RecordPredictionChangeData[] = [],
   ): Promise<MatchPrediction[]> {
     if (matchPredictions.length === 0) {
       return [];
@@ -93,6 +98,8 @@ export class MatchPredictionRepository implements IMatchPredictionRepository {
         savedPredictions.push(MatchPrediction.fromDatabase(result.rows[0]));
       }
 
+      await insertPredictionHistory(client, history);
+
       await client.query('COMMIT');
 
       return savedPredictions;
@@ -155,6 +162,50 @@ export class MatchPredictionRepository implements IMatchPredictionRepository {
     }
   }
 
+  /**
+   * Obtiene las predicciones de partidos de varias predicciones
+   */
+  async findByPredictionIds(
+    predictionIds: string[],
+  ): Promise<MatchPrediction[]> {
+    if (predictionIds.length === 0) {
+      return [];
+    }
+
+    const query = `
+      SELECT
+        id,
+        prediction_id,
+        match_id,
+        home_score,
+        away_score,
+        home_score_et,
+        away_score_et,
+        penalties_winner,
+        points_earned,
+        points_breakdown,
+        created_at,
+        updated_at
+      FROM match_predictions
+      WHERE prediction_id = ANY($1)
+    `;
+
+    try {
+      const result: QueryResult<MatchPredictionDatabaseRow> =
+        await this.pool.query(query, [predictionIds]);
+
+      return result.rows.map((row) => MatchPrediction.fromDatabase(row));
+    } catch (error) {
+      console.error(
+        'Error fetching match predictions by prediction IDs:',
+        error,
+      );
+      throw new Error(
+        'Failed to fetch match predictions by prediction IDs from database',
+      );
+    }
+  }
+
   /**
    * Obtiene predicciones de partidos de un grupo específico
    */
@@ -289,6 +340,45 @@ export class MatchPredictionRepository implements IMatchPredictionRepository {
     }
   }
 
+  /**
+   * Obtiene todas las predicciones de varios partidos (todos los usuarios)
+   */
+  async findByMatchIds(matchIds: string[]): Promise<MatchPrediction[]> {
+    if (matchIds.length === 0) {
+      return [];
+    }
+
+    const query = `
+      SELECT
+        id,
+        prediction_id,
+        match_id,
+        home_score,
+        away_score,
+        home_score_et,
+        away_score_et,
+        penalties_winner,
+        points_earned,
+        points_breakdown,
+        created_at,
+        updated_at
+      FROM match_predictions
+      WHERE match_id = ANY($1)
+    `;
+
+    try {
+      const result: QueryResult<MatchPredictionDatabaseRow> =
+        await this.pool.query(query, [matchIds]);
+
+      return result.rows.map((row) => MatchPrediction.fromDatabase(row));
+    } catch (error) {
+      console.error('Error fetching match predictions by match IDs:', error);
+      throw new Error(
+        'Failed to fetch match predictions by match IDs from database',
+      );
+    }
+  }
+
   /**
    * Actualiza puntos ganados en una predicción de partido
    */
@@ -326,6 +416,158 @@ export class MatchPredictionRepository implements IMatchPredictionRepository {
     }
   }
 
+  /**
+   * Actualiza puntos de múltiples predicciones de partidos (batch en transacción)
+   */
+  async updatePointsMany(updates: MatchPredictionPointsData[]): Promise<void> {
+    if (updates.length === 0) {
+      return;
+    }
+
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      for (const update of updates) {
+        await client.query(
+          `
+          UPDATE match_predictions
+          SET
+            points_earned = $1,
+            points_breakdown = $2
+          WHERE id = $3
+          `,
+          [
+            update.pointsEarned,
+            JSON.stringify(update.pointsBreakdown),
+            update.id,
+          ],
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error('Error updating match prediction points (batch):', error);
+      throw new Error('Failed to update match prediction points in database');
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Obtiene la suma de points_earned agrupada por predicción
+   */
+  async getTotalPointsByPrediction(): Promise<Map<string, number>> {
+    const query = `
+      SELECT
+        prediction_id,
+        COALESCE(SUM(points_earned), 0)::int AS total_points
+      FROM match_predictions
+      GROUP BY prediction_id
+    `;
+
+    try {
+      const result: QueryResult<{
+        prediction_id: string;
+        total_points: number;
+      }> = await this.pool.query(query);
+
+      return new Map(
+        result.rows.map((row) => [row.prediction_id, row.total_points]),
+      );
+    } catch (error) {
+      console.error('Error aggregating match prediction points:', error);
+      throw new Error(
+        'Failed to aggregate match prediction points from database',
+      );
+    }
+  }
+
+  /**
+   * Obtiene el consenso de una liga por partido
+   * En empate de marcadores más repetidos gana el de menos goles
+   */
+  async getConsensusByLeague(
+    leagueId: string,
+  ): Promise<MatchPredictionConsensus[]> {
+    const query = `
+      WITH league_predictions AS (
+        SELECT mp.match_id, mp.home_score, mp.away_score
+        FROM match_predictions mp
+        INNER JOIN predictions p ON p.id = mp.prediction_id
+        WHERE p.league_id = $1
+      ),
+      outcomes AS (
+        SELECT
+          match_id,
+          COUNT(*)::int AS total_predictions,
+          COUNT(*) FILTER (WHERE home_score > away_score)::int AS home_wins,
+          COUNT(*) FILTER (WHERE home_score = away_score)::int AS draws,
+          COUNT(*) FILTER (WHERE home_score < away_score)::int AS away_wins
+        FROM league_predictions
+        GROUP BY match_id
+      ),
+      top_scores AS (
+        SELECT DISTINCT ON (match_id)
+          match_id,
+          home_score,
+          away_score,
+          COUNT(*)::int AS score_count
+        FROM league_predictions
+        GROUP BY match_id, home_score, away_score
+        ORDER BY match_id, COUNT(*) DESC, home_score + away_score, home_score
+      )
+      SELECT
+        o.match_id,
+        m.match_number,
+        o.total_predictions,
+        o.home_wins,
+        o.draws,
+        o.away_wins,
+        t.home_score AS top_home_score,
+        t.away_score AS top_away_score,
+        t.score_count AS top_score_count
+      FROM outcomes o
+      INNER JOIN top_scores t ON t.match_id = o.match_id
+      INNER JOIN matches m ON m.id = o.match_id
+      ORDER BY m.match_number
+    `;
+
+    try {
+      const result: QueryResult<{
+        match_id: string;
+        match_number: number;
+        total_predictions: number;
+        home_wins: number;
+        draws: number;
+        away_wins: number;
+        top_home_score: number;
+        top_away_score: number;
+        top_score_count: number;
+      }> = await this.pool.query(query, [leagueId]);
+
+      return result.rows.map((row) => ({
+        matchId: row.match_id,
+        matchNumber: row.match_number,
+        totalPredictions: row.total_predictions,
+        homeWins: row.home_wins,
+        draws: row.draws,
+        awayWins: row.away_wins,
+        topHomeScore: row.top_home_score,
+        topAwayScore: row.top_away_score,
+        topScoreCount: row.top_score_count,
+      }));
+    } catch (error) {
+      console.error(
+        `Error aggregating match predictions for league ${leagueId}:`,
+        error,
+      );
+      throw new Error('Failed to aggregate match predictions from database');
+    }
+  }
+
   /**
    * Elimina predicciones de partidos de una predicción
    */
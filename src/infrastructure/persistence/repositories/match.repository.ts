@@ -4,6 +4,8 @@ import type {
   IMatchRepository,
   MatchWithDetailsRow,
   MatchWithBasicDetailsRow,
+  UpdateMatchResultData,
+  UpdateMatchTeamsData,
 } from '@domain/repositories/match.repository.interface';
 import { Match, type MatchDatabaseRow } from '@domain/entities/match.entity';
 
@@ -463,4 +465,130 @@ export class MatchRepository implements IMatchRepository {
       );
     }
   }
+
+  /**
+   * Registra el resultado oficial y el estado de un partido
+   * Sobrescribe todos los campos de marcador (null limpia el valor)
+   */
+  async updateResult(id: string, data: UpdateMatchResultData): Promise<Match> {
+    const query = `
+      UPDATE matches
+      SET
+        home_score = $2,
+        away_score = $3,
+        home_score_et = $4,
+        away_score_et = $5,
+        home_penalties = $6,
+        away_penalties = $7,
+        status = $8,
+        updated_at = NOW()
+      WHERE id = $1
+      RETURNING
+        id,
+        match_number,
+        home_team_id,
+        away_team_id,
+        home_team_placeholder,
+        away_team_placeholder,
+        stadium_id,
+        group_id,
+        phase,
+        match_date,
+        match_time,
+        home_score,
+        away_score,
+        home_score_et,
+        away_score_et,
+        home_penalties,
+        away_penalties,
+        status,
+        predictions_locked_at,
+        depends_on_match_ids,
+        created_at,
+        updated_at
+    `;
+
+    try {
+      const result: QueryResult<MatchDatabaseRow> = await this.pool.query(
+        query,
+        [
+          id,
+          data.homeScore,
+          data.awayScore,
+          data.homeScoreEt,
+          data.awayScoreEt,
+          data.homePenalties,
+          data.awayPenalties,
+          data.status,
+        ],
+      );
+
+      if (result.rows.length === 0) {
+        throw new Error(`Match with id ${id} not found`);
+      }
+
+      return Match.fromDatabase(result.rows[0]);
+    } catch (error) {
+      console.error(`Error updating result for match ${id}:`, error);
+      throw new Error('Failed to update match result in database');
+    }
+  }
+
+  /**
+   * Asigna los equipos reales de varios partidos en una sola transacción
+   */
+  async updateTeamsMany(assignments: UpdateMatchTeamsData[]): Promise<void> {
+    if (assignments.length === 0) {
+      return;
+    }
+
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      for (const assignment of assignments) {
+        await client.query(
+          `
+          UPDATE matches
+          SET
+            home_team_id = $2,
+            away_team_id = $3,
+            updated_at = NOW()
+          WHERE id = $1
+          `,
+          [assignment.matchId, assignment.homeTeamId, assignment.awayTeamId],
+        );
+      }
+
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error('Error updating match teams (batch):', error);
+      throw new Error('Failed to update match teams in database');
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Obtiene el primer bloqueo de predicciones del torneo
+   */
+  async findFirstPredictionsLockedAt(): Promise<Date | null> {
+    const query = `
+      SELECT MIN(predictions_locked_at) AS first_locked_at
+      FROM matches
+    `;
+
+    try {
+      const result: QueryResult<{ first_locked_at: Date | null }> =
+        await this.pool.query(query);
+
+      const firstLockedAt = result.rows[0]?.first_locked_at;
+      return firstLockedAt ? new Date(firstLockedAt) : null;
+    } catch (error) {
+      console.error('Error fetching first predictions lock:', error);
+      throw new Error('Failed to fetch first predictions lock from database');
+    }
+  }
 }
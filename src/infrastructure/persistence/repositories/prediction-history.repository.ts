@@ -0,0 +1,100 @@
+import { Injectable, Inject } from '@nestjs/common';
+import type { Pool, PoolClient, QueryResult } from 'pg';
+import type {
+  IPredictionHistoryRepository,
+  RecordPredictionChangeData,
+} from '@domain/repositories/prediction-history.repository.interface';
+import {
+  PredictionHistoryEntry,
+  type PredictionHistoryEntryDatabaseRow,
+} from '@domain/entities/prediction-history-entry.entity';
+
+/**
+ * Inserta cambios en prediction_history con el cliente de una transacción
+ * abierta, para que el historial se confirme (o se deshaga) junto con los
+ * datos que describe. Lo usan los repositorios que guardan predicciones.
+ */
+export async function insertPredictionHistory(
+  client: PoolClient,
+  changes: RecordPredictionChangeData[],
+): Promise<void> {
+  const query = `
+    INSERT INTO prediction_history (
+      prediction_id,
+      change_type,
+      reference,
+      old_value,
+      new_value,
+      source
+    )
+    VALUES ($1, $2, $3, $4, $5, $6)
+  `;
+
+  for (const change of changes) {
+    await client.query(query, [
+      change.predictionId,
+      change.changeType,
+      change.reference,
+      change.oldValue === null ? null : JSON.stringify(change.oldValue),
+      change.newValue === null ? null : JSON.stringify(change.newValue),
+      change.source,
+    ]);
+  }
+}
+
+/**
+ * PredictionHistoryRepository (Infrastructure Layer - Adapter)
+ *
+ * Implementación concreta del IPredictionHistoryRepository usando PostgreSQL con pg.
+ *
+ * Responsabilidades:
+ * - Consultar el historial de una predicción
+ *
+ * Los cambios se insertan (append-only) desde los repositorios que guardan
+ * predicciones, dentro de su transacción (insertPredictionHistory).
+ *
+ * Notas:
+ * - old_value / new_value son jsonb
+ * - created_at lo asigna la base de datos (DEFAULT NOW())
+ */
+@Injectable()
+export class PredictionHistoryRepository
+  implements IPredictionHistoryRepository
+{
+  constructor(
+    @Inject('DATABASE_POOL')
+    private readonly pool: Pool,
+  ) {}
+
+  /**
+   * Obtiene el historial de una predicción (más reciente primero)
+   */
+  async findByPrediction(
+    predictionId: string,
+  ): Promise<PredictionHistoryEntry[]> {
+    const query = `
+      SELECT
+        id,
+        prediction_id,
+        change_type,
+        reference,
+        old_value,
+        new_value,
+        source,
+        created_at
+      FROM prediction_history
+      WHERE prediction_id = $1
+      ORDER BY created_at DESC
+    `;
+
+    try {
+      const result: QueryResult<PredictionHistoryEntryDatabaseRow> =
+        await this.pool.query(query, [predictionId]);
+
+      return result.rows.map((row) => PredictionHistoryEntry.fromDatabase(row));
+    } catch (error) {
+      console.error('Error fetching prediction history:', error);
+      throw new Error('Failed to fetch prediction history from database');
+    }
+  }
+}
@@ -5,7 +5,11 @@ import type {
   CreatePredictionData,
   UpdateAwardsData,
   UpdateChampionData,
+  PickCount,
+  PickCategory,
 } from '@domain/repositories/prediction.repository.interface';
+import type { RecordPredictionChangeData } from '@domain/repositories/prediction-history.repository.interface';
+import { insertPredictionHistory } from './prediction-history.repository';
 import {
   Prediction,
   type PredictionDatabaseRow,
@@ -165,6 +169,43 @@ export class PredictionRepository implements IPredictionRepository {
     }
   }
 
+  /**
+   * Obtiene todas las predicciones (todas las ligas)
+   */
+  async findAll(): Promise<Prediction[]> {
+    const query = `
+      SELECT
+        id,
+        user_id,
+        league_id,
+        golden_boot_player_id,
+        golden_ball_player_id,
+        golden_glove_player_id,
+        champion_team_id,
+        groups_completed,
+        knockouts_completed,
+        awards_completed,
+        is_locked,
+        locked_at,
+        total_points,
+        last_points_calculation,
+        created_at,
+        updated_at
+      FROM predictions
+      ORDER BY created_at ASC
+    `;
+
+    try {
+      const result: QueryResult<PredictionDatabaseRow> =
+        await this.pool.query(query);
+
+      return result.rows.map((row) => Prediction.fromDatabase(row));
+    } catch (error) {
+      console.error('Error fetching all predictions:', error);
+      throw new Error('Failed to fetch predictions from database');
+    }
+  }
+
   /**
    * Obtiene todas las predicciones de una liga
    */
@@ -253,9 +294,13 @@ export class PredictionRepository implements IPredictionRepository {
   }
 
   /**
-   * Actualiza premios individuales
+   * Actualiza premios individuales y registra su historial
    */
-  async updateAwards(id: string, data: UpdateAwardsData): Promise<Prediction> {
+  async updateAwards(
+    id: string,
+    data: UpdateAwardsData,
+    history: RecordPredictionChangeData[] = [],
+  ): Promise<Prediction> {
     const updates: string[] = [];
     const params: any[] = [];
     let paramIndex = 1;
@@ -311,16 +356,13 @@ export class PredictionRepository implements IPredictionRepository {
     `;
 
     try {
-      const result: QueryResult<PredictionDatabaseRow> = await this.pool.query(
-        query,
-        params,
-      );
+      const row = await this.updateWithHistory(query, params, history);
 
-      if (result.rows.length === 0) {
+      if (!row) {
         throw new Error(`Prediction with id ${id} not found`);
       }
 
-      return Prediction.fromDatabase(result.rows[0]);
+      return Prediction.fromDatabase(row);
     } catch (error) {
       console.error(`Error updating awards for prediction ${id}:`, error);
       throw new Error('Failed to update prediction awards in database');
@@ -328,11 +370,12 @@ export class PredictionRepository implements IPredictionRepository {
   }
 
   /**
-   * Actualiza el campeón
+   * Actualiza el campeón y registra su historial
    */
   async updateChampion(
     id: string,
     data: UpdateChampionData,
+    history: RecordPredictionChangeData[] = [],
   ): Promise<Prediction> {
     const query = `
       UPDATE predictions
@@ -358,22 +401,58 @@ export class PredictionRepository implements IPredictionRepository {
     `;
 
     try {
-      const result: QueryResult<PredictionDatabaseRow> = await this.pool.query(
+      const row = await this.updateWithHistory(
         query,
         [data.championTeamId, id],
+        history,
       );
 
-      if (result.rows.length === 0) {
+      if (!row) {
         throw new Error(`Prediction with id ${id} not found`);
       }
 
-      return Prediction.fromDatabase(result.rows[0]);
+      return Prediction.fromDatabase(row);
     } catch (error) {
       console.error(`Error updating champion for prediction ${id}:`, error);
       throw new Error('Failed to update prediction champion in database');
     }
   }
 
+  /**
+   * Ejecuta un UPDATE ... RETURNING de la predicción y registra el historial
+   * en la misma transacción
+   * @returns La fila actualizada, o undefined si la predicción no existe
+   */
+  private async updateWithHistory(
+    query: string,
+    params: unknown[],
+    history: RecordPredictionChangeData[],
+  ): Promise<PredictionDatabaseRow | undefined> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      const result: QueryResult<PredictionDatabaseRow> = await client.query(
+        query,
+        params,
+      );
+
+      if (result.rows.length > 0) {
+        await insertPredictionHistory(client, history);
+      }
+
+      await client.query('COMMIT');
+
+      return result.rows[0];
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
   /**
    * Marca fase de grupos como completada
    */
@@ -483,6 +562,222 @@ export class PredictionRepository implements IPredictionRepository {
     }
   }
 
+  /**
+   * Copia el contenido de una predicción en otra y registra su historial
+   * Toca varias tablas, pero la copia tiene que ser atómica: o se copia todo o nada
+   */
+  async copyContents(
+    sourceId: string,
+    targetId: string,
+    history: RecordPredictionChangeData[] = [],
+  ): Promise<Prediction> {
+    const client = await this.pool.connect();
+
+    try {
+      await client.query('BEGIN');
+
+      // 1. Vaciar el contenido anterior del destino
+      await client.query(
+        `DELETE FROM match_predictions WHERE prediction_id = $1`,
+        [targetId],
+      );
+      await client.query(
+        `DELETE FROM group_standings_predictions WHERE prediction_id = $1`,
+        [targetId],
+      );
+      await client.query(
+        `DELETE FROM best_third_places_predictions WHERE prediction_id = $1`,
+        [targetId],
+      );
+
+      // 2. Clonar partidos, tablas de grupos y mejores terceros
+      await client.query(
+        `INSERT INTO match_predictions (
+           prediction_id,
+           match_id,
+           home_score,
+           away_score,
+           home_score_et,
+           away_score_et,
+           penalties_winner
+         )
+         SELECT
+           $2,
+           match_id,
+           home_score,
+           away_score,
+           home_score_et,
+           away_score_et,
+           penalties_winner
+         FROM match_predictions
+         WHERE prediction_id = $1`,
+        [sourceId, targetId],
+      );
+
+      await client.query(
+        `INSERT INTO group_standings_predictions (
+           prediction_id,
+           group_id,
+           team_id,
+           position,
+           points,
+           played,
+           wins,
+           draws,
+           losses,
+           goals_for,
+           goals_against,
+           goal_difference,
+           has_tiebreak_conflict,
+           tiebreak_group,
+           manual_tiebreak_order
+         )
+         SELECT
+           $2,
+           group_id,
+           team_id,
+           position,
+           points,
+           played,
+           wins,
+           draws,
+           losses,
+           goals_for,
+           goals_against,
+           goal_difference,
+           has_tiebreak_conflict,
+           tiebreak_group,
+           manual_tiebreak_order
+         FROM group_standings_predictions
+         WHERE prediction_id = $1`,
+        [sourceId, targetId],
+      );
+
+      await client.query(
+        `INSERT INTO best_third_places_predictions (
+           prediction_id,
+           team_id,
+           ranking_position,
+           points,
+           goal_difference,
+           goals_for,
+           from_group_id,
+           has_tiebreak_conflict,
+           tiebreak_group,
+           manual_tiebreak_order
+         )
+         SELECT
+           $2,
+           team_id,
+           ranking_position,
+           points,
+           goal_difference,
+           goals_for,
+           from_group_id,
+           has_tiebreak_conflict,
+           tiebreak_group,
+           manual_tiebreak_order
+         FROM best_third_places_predictions
+         WHERE prediction_id = $1`,
+        [sourceId, targetId],
+      );
+
+      // 3. Premios, campeón y fases completadas
+      const result: QueryResult<PredictionDatabaseRow> = await client.query(
+        `UPDATE predictions AS target
+         SET
+           golden_boot_player_id = source.golden_boot_player_id,
+           golden_ball_player_id = source.golden_ball_player_id,
+           golden_glove_player_id = source.golden_glove_player_id,
+           champion_team_id = source.champion_team_id,
+           groups_completed = source.groups_completed,
+           knockouts_completed = source.knockouts_completed,
+           awards_completed = source.awards_completed
+         FROM predictions AS source
+         WHERE source.id = $1 AND target.id = $2
+         RETURNING
+           target.id,
+           target.user_id,
+           target.league_id,
+           target.golden_boot_player_id,
+           target.golden_ball_player_id,
+           target.golden_glove_player_id,
+           target.champion_team_id,
+           target.groups_completed,
+           target.knockouts_completed,
+           target.awards_completed,
+           target.is_locked,
+           target.locked_at,
+           target.total_points,
+           target.last_points_calculation,
+           target.created_at,
+           target.updated_at`,
+        [sourceId, targetId],
+      );
+
+      if (result.rows.length === 0) {
+        throw new Error(
+          `Prediction with id ${sourceId} or ${targetId} not found`,
+        );
+      }
+
+      await insertPredictionHistory(client, history);
+
+      await client.query('COMMIT');
+
+      return Prediction.fromDatabase(result.rows[0]);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      console.error(
+        `Error copying prediction ${sourceId} into ${targetId}:`,
+        error,
+      );
+      throw new Error('Failed to copy prediction in database');
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Bloquea todas las predicciones aún desbloqueadas
+   * Idempotente: las ya bloqueadas conservan su locked_at original
+   */
+  async lockAllUnlocked(): Promise<number> {
+    const query = `
+      UPDATE predictions
+      SET is_locked = TRUE, locked_at = NOW()
+      WHERE is_locked = FALSE
+    `;
+
+    try {
+      const result = await this.pool.query(query);
+      return result.rowCount ?? 0;
+    } catch (error) {
+      console.error('Error locking predictions:', error);
+      throw new Error('Failed to lock predictions in database');
+    }
+  }
+
+  /**
+   * Cuenta las predicciones aún desbloqueadas
+   */
+  async countUnlocked(): Promise<number> {
+    const query = `
+      SELECT COUNT(*) AS unlocked
+      FROM predictions
+      WHERE is_locked = FALSE
+    `;
+
+    try {
+      const result: QueryResult<{ unlocked: string }> =
+        await this.pool.query(query);
+      return parseInt(result.rows[0].unlocked, 10);
+    } catch (error) {
+      console.error('Error counting unlocked predictions:', error);
+      throw new Error('Failed to count unlocked predictions from database');
+    }
+  }
+
   /**
    * Verifica si existe una predicción para un usuario en una liga
    */
@@ -583,6 +878,66 @@ export class PredictionRepository implements IPredictionRepository {
     }
   }
 
+  /**
+   * Obtiene las elecciones de campeón y premios de una liga
+   */
+  async getPickCountsByLeague(leagueId: string): Promise<PickCount[]> {
+    const query = `
+      SELECT category, selection_id, selection_name, picks
+      FROM (
+        SELECT 'CHAMPION' AS category, t.id AS selection_id, t.name AS selection_name, COUNT(*)::int AS picks
+        FROM predictions p
+        INNER JOIN teams t ON t.id = p.champion_team_id
+        WHERE p.league_id = $1
+        GROUP BY t.id, t.name
+
+        UNION ALL
+
+        SELECT 'GOLDEN_BOOT', pl.id, pl.name, COUNT(*)::int
+        FROM predictions p
+        INNER JOIN players pl ON pl.id = p.golden_boot_player_id
+        WHERE p.league_id = $1
+        GROUP BY pl.id, pl.name
+
+        UNION ALL
+
+        SELECT 'GOLDEN_BALL', pl.id, pl.name, COUNT(*)::int
+        FROM predictions p
+        INNER JOIN players pl ON pl.id = p.golden_ball_player_id
+        WHERE p.league_id = $1
+        GROUP BY pl.id, pl.name
+
+        UNION ALL
+
+        SELECT 'GOLDEN_GLOVE', pl.id, pl.name, COUNT(*)::int
+        FROM predictions p
+        INNER JOIN players pl ON pl.id = p.golden_glove_player_id
+        WHERE p.league_id = $1
+        GROUP BY pl.id, pl.name
+      ) picks
+      ORDER BY category, picks DESC, selection_name
+    `;
+
+    try {
+      const result: QueryResult<{
+        category: PickCategory;
+        selection_id: string;
+        selection_name: string;
+        picks: number;
+      }> = await this.pool.query(query, [leagueId]);
+
+      return result.rows.map((row) => ({
+        category: row.category,
+        selectionId: row.selection_id,
+        selectionName: row.selection_name,
+        picks: row.picks,
+      }));
+    } catch (error) {
+      console.error(`Error aggregating picks for league ${leagueId}:`, error);
+      throw new Error('Failed to aggregate league picks from database');
+    }
+  }
+
   /**
    * Obtiene estadísticas globales de una predicción
    */
@@ -37,6 +37,8 @@ export class TeamRepository implements ITeamRepository {
         fifa_code,
         confederation,
         is_host,
+        fifa_ranking,
+        fair_play_points,
         created_at,
         updated_at
       FROM teams
@@ -64,6 +66,8 @@ export class TeamRepository implements ITeamRepository {
         fifa_code,
         confederation,
         is_host,
+        fifa_ranking,
+        fair_play_points,
         created_at,
         updated_at
       FROM teams
@@ -103,6 +107,8 @@ export class TeamRepository implements ITeamRepository {
         fifa_code,
         confederation,
         is_host,
+        fifa_ranking,
+        fair_play_points,
         created_at,
         updated_at
       FROM teams
@@ -0,0 +1,107 @@
+import { Injectable, Inject } from '@nestjs/common';
+import type { Pool, QueryResult } from 'pg';
+import type {
+  ITournamentResultRepository,
+  SaveTournamentResultData,
+} from '@domain/repositories/tournament-result.repository.interface';
+import {
+  TournamentResult,
+  type TournamentResultDatabaseRow,
+} from '@domain/entities/tournament-result.entity';
+
+/**
+ * TournamentResultRepository (Infrastructure Layer - Adapter)
+ *
+ * Implementación concreta del ITournamentResultRepository usando PostgreSQL con pg.
+ *
+ * Responsabilidades:
+ * - Guardar campeón y premios oficiales (tournament_results)
+ * - Consultar el resultado oficial
+ *
+ * Notas:
+ * - La tabla tiene un único registro con id = 1 (upsert)
+ */
+@Injectable()
+export class TournamentResultRepository implements ITournamentResultRepository {
+  constructor(
+    @Inject('DATABASE_POOL')
+    private readonly pool: Pool,
+  ) {}
+
+  /**
+   * Obtiene el resultado oficial del torneo
+   */
+  async find(): Promise<TournamentResult | null> {
+    const query = `
+      SELECT
+        id,
+        champion_team_id,
+        golden_boot_player_id,
+        golden_ball_player_id,
+        golden_glove_player_id,
+        created_at,
+        updated_at
+      FROM tournament_results
+      WHERE id = 1
+    `;
+
+    try {
+      const result: QueryResult<TournamentResultDatabaseRow> =
+        await this.pool.query(query);
+
+      if (result.rows.length === 0) {
+        return null;
+      }
+
+      return TournamentResult.fromDatabase(result.rows[0]);
+    } catch (error) {
+      console.error('Error fetching tournament result:', error);
+      throw new Error('Failed to fetch tournament result from database');
+    }
+  }
+
+  /**
+   * Crea o actualiza el resultado oficial (INSERT ... ON CONFLICT)
+   */
+  async save(data: SaveTournamentResultData): Promise<TournamentResult> {
+    const query = `
+      INSERT INTO tournament_results (
+        id,
+        champion_team_id,
+        golden_boot_player_id,
+        golden_ball_player_id,
+        golden_glove_player_id
+      )
+      VALUES (1, $1, $2, $3, $4)
+      ON CONFLICT (id) DO UPDATE SET
+        champion_team_id = EXCLUDED.champion_team_id,
+        golden_boot_player_id = EXCLUDED.golden_boot_player_id,
+        golden_ball_player_id = EXCLUDED.golden_ball_player_id,
+        golden_glove_player_id = EXCLUDED.golden_glove_player_id,
+        updated_at = NOW()
+      RETURNING
+        id,
+        champion_team_id,
+        golden_boot_player_id,
+        golden_ball_player_id,
+        golden_glove_player_id,
+        created_at,
+        updated_at
+    `;
+
+    try {
+      const result: QueryResult<TournamentResultDatabaseRow> =
+        await this.pool.query(query, [
+          data.championTeamId,
+          data.goldenBootPlayerId,
+          data.goldenBallPlayerId,
+          data.goldenGlovePlayerId,
+        ]);
+
+      return TournamentResult.fromDatabase(result.rows[0]);
+    } catch (error) {
+      console.error('Error saving tournament result:', error);
+      throw new Error('Failed to save tournament result in database');
+    }
+  }
+}
@@ -0,0 +1,77 @@
+import {
+  Injectable,
+  type OnApplicationBootstrap,
+  type OnModuleDestroy,
+} from '@nestjs/common';
+import { LockPredictionsUseCase } from '@application/use-cases/predictions/lock-predictions.use-case';
+
+/**
+ * PredictionLockScheduler (Infrastructure Layer)
+ *
+ * Job en proceso que ejecuta LockPredictionsUseCase al llegar el deadline global
+ * (el primer predictions_locked_at de los partidos).
+ *
+ * Funcionamiento:
+ * - Al arrancar la app se programa un timer hasta el deadline
+ * - Si el deadline ya pasó (reinicio tras el inicio del torneo), se ejecuta de inmediato
+ * - Tras el deadline se repite cada SWEEP_INTERVAL_MS para bloquear predicciones
+ *   creadas más tarde (el bloqueo es idempotente)
+ * - El deadline se vuelve a leer en cada ejecución, por si cambia el calendario
+ *
+ * Notas:
+ * - setTimeout admite como máximo ~24.8 días; los plazos mayores se trocean
+ * - Un error en una ejecución se registra y se reintenta en el siguiente ciclo
+ */
+@Injectable()
+export class PredictionLockScheduler
+  implements OnApplicationBootstrap, OnModuleDestroy
+{
+  private static readonly MAX_TIMEOUT_MS = 2_147_483_647;
+  private static readonly SWEEP_INTERVAL_MS = 10 * 60 * 1000;
+
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly lockPredictionsUseCase: LockPredictionsUseCase,
+  ) {}
+
+  onApplicationBootstrap(): void {
+    void this.run();
+  }
+
+  onModuleDestroy(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Ejecuta el bloqueo (si procede) y programa la siguiente ejecución
+   */
+  private async run(): Promise<void> {
+    let delay = PredictionLockScheduler.SWEEP_INTERVAL_MS;
+
+    try {
+      const result = await this.lockPredictionsUseCase.execute();
+
+      if (!result.deadline) {
+        console.warn(
+          '[PREDICTION LOCK] No matches found, cannot determine the predictions deadline',
+        );
+      } else if (!result.deadlineReached) {
+        delay = Math.min(
+          result.deadline.getTime() - Date.now(),
+          PredictionLockScheduler.MAX_TIMEOUT_MS,
+        );
+        console.log(
+          `[PREDICTION LOCK] Predictions will be locked at ${result.deadline.toISOString()}`,
+        );
+      }
+    } catch (error) {
+      console.error('[PREDICTION LOCK] Failed to lock predictions:', error);
+    }
+
+    this.timer = setTimeout(() => void this.run(), Math.max(delay, 0));
+  }
+}
@@ -3,9 +3,9 @@ import type { Pool } from 'pg';
 import type {
   IKnockoutBracketResolverService,
   ResolvedTeams,
+  BracketGroupStanding,
+  BracketThirdPlace,
 } from '@domain/services/knockout-bracket-resolver.service.interface';
-import type { GroupStandingPrediction } from '@domain/entities/group-standing-prediction.entity';
-import type { BestThirdPlacePrediction } from '@domain/entities/best-third-place-prediction.entity';
 import type { Match } from '@domain/entities/match.entity';
 import { FIFA_THIRD_PLACE_ALLOCATION_TABLE } from '@domain/constants/fifa-third-place-allocation.constant';
 
@@ -43,8 +43,8 @@ export class KnockoutBracketResolverService
   constructor(@Inject('DATABASE_POOL') private readonly pool: Pool) {}
 
   async resolveRoundOf32Teams(
-    groupStandings: GroupStandingPrediction[],
-    bestThirdPlaces: BestThirdPlacePrediction[],
+    groupStandings: BracketGroupStanding[],
+    bestThirdPlaces: BracketThirdPlace[],
     roundOf32Matches: Match[],
   ): Promise<Map<string, ResolvedTeams>> {
     // 1. Construir mapas de equipos clasificados
@@ -105,7 +105,7 @@ export class KnockoutBracketResolverService
    * Construye mapa de equipos clasificados por posición (1º, 2º, 3º)
    */
   private async buildQualifiedTeamsMap(
-    groupStandings: GroupStandingPrediction[],
+    groupStandings: BracketGroupStanding[],
   ): Promise<QualifiedTeamsMap> {
     const map: QualifiedTeamsMap = {
       winners: new Map(),
@@ -136,9 +136,9 @@ export class KnockoutBracketResolverService
    * Construye mapa de terceros clasificados (top 8) por grupo
    */
   private async buildThirdPlacesMap(
-    bestThirdPlaces: BestThirdPlacePrediction[],
-  ): Promise<Map<string, BestThirdPlacePrediction>> {
-    const map = new Map<string, BestThirdPlacePrediction>();
+    bestThirdPlaces: BracketThirdPlace[],
+  ): Promise<Map<string, BracketThirdPlace>> {
+    const map = new Map<string, BracketThirdPlace>();
 
     // Solo considerar los 8 mejores (rankingPosition 1-8)
     const top8 = bestThirdPlaces.filter((btp) => btp.rankingPosition <= 8);
@@ -155,7 +155,7 @@ export class KnockoutBracketResolverService
    * Obtiene el set de grupos que tienen terceros en top 8
    */
   private async getQualifiedThirdPlaceGroups(
-    bestThirdPlaces: BestThirdPlacePrediction[],
+    bestThirdPlaces: BracketThirdPlace[],
   ): Promise<Set<string>> {
     const groups = new Set<string>();
 
@@ -175,7 +175,7 @@ export class KnockoutBracketResolverService
   private async resolveTeamFromPlaceholder(
     placeholder: string | null,
     qualifiedTeams: QualifiedTeamsMap,
-    thirdPlacesMap: Map<string, BestThirdPlacePrediction>,
+    thirdPlacesMap: Map<string, BracketThirdPlace>,
     qualifiedThirdPlaceGroups: Set<string>,
     usedThirdPlaces: Set<string>,
     fifaAllocation?: any,
@@ -249,7 +249,7 @@ export class KnockoutBracketResolverService
   private determineThirdPlaceAssignment(
     placeholderKey: string, // "A/B/C/D/F"
     possibleGroups: string[],
-    thirdPlacesMap: Map<string, BestThirdPlacePrediction>,
+    thirdPlacesMap: Map<string, BracketThirdPlace>,
     qualifiedThirdPlaceGroups: Set<string>,
     usedThirdPlaces: Set<string>,
     fifaAllocation?: any,
@@ -321,12 +321,14 @@ export class KnockoutBracketResolverService
    * Ordena standings considerando manual_tiebreak_order si existe
    */
   private sortStandings(
-    standings: GroupStandingPrediction[],
-  ): GroupStandingPrediction[] {
+    standings: BracketGroupStanding[],
+  ): BracketGroupStanding[] {
     return standings.sort((a, b) => {
       // Si hay orden manual de desempate, usarlo
-      if (a.manualTiebreakOrder !== null && b.manualTiebreakOrder !== null) {
-        return a.manualTiebreakOrder - b.manualTiebreakOrder;
+      const aOrder = a.manualTiebreakOrder ?? null;
+      const bOrder = b.manualTiebreakOrder ?? null;
+      if (aOrder !== null && bOrder !== null) {
+        return aOrder - bOrder;
       }
       // Sino, usar position calculada
       return a.position - b.position;
@@ -0,0 +1,189 @@
+import { BadRequestException } from '@nestjs/common';
+import { KnockoutValidatorService } from './knockout-validator.service';
+import type { IMatchRepository } from '@domain/repositories/match.repository.interface';
+import type { IMatchPredictionRepository } from '@domain/repositories/match-prediction.repository.interface';
+import { Match, MatchPhase, MatchStatus } from '@domain/entities/match.entity';
+import { MatchPrediction } from '@domain/entities/match-prediction.entity';
+import { KnockoutPhase } from '@domain/value-objects/knockout-phase.vo';
+
+const PREDICTION_ID = 'prediction-1';
+const FRANCE = 'team-france';
+const ITALY = 'team-italy';
+const SPAIN = 'team-spain';
+const GERMANY = 'team-germany';
+
+const buildMatch = (
+  id: string,
+  matchNumber: number,
+  phase: MatchPhase,
+  homeTeamId: string | null,
+  awayTeamId: string | null,
+  dependsOnMatchIds: number[] | null,
+): Match =>
+  new Match(
+    id,
+    matchNumber,
+    homeTeamId,
+    awayTeamId,
+    null,
+    null,
+    'stadium-1',
+    null,
+    phase,
+    new Date('2026-07-18'),
+    '20:00',
+    null,
+    null,
+    null,
+    null,
+    null,
+    null,
+    MatchStatus.SCHEDULED,
+    new Date('2026-07-18'),
+    dependsOnMatchIds,
+    new Date('2026-06-01'),
+    new Date('2026-06-01'),
+  );
+
+const buildPrediction = (
+  matchId: string,
+  homeScore: number,
+  awayScore: number,
+  homeScoreET: number | null = null,
+  awayScoreET: number | null = null,
+  penaltiesWinner: 'home' | 'away' | null = null,
+): MatchPrediction =>
+  new MatchPrediction(
+    `mp-${matchId}`,
+    PREDICTION_ID,
+    matchId,
+    homeScore,
+    awayScore,
+    homeScoreET,
+    awayScoreET,
+    penaltiesWinner,
+    0,
+    {},
+    new Date('2026-06-01'),
+    new Date('2026-06-01'),
+  );
+
+describe('KnockoutValidatorService', () => {
+  // Semifinales: Francia 2-1 Italia y España 1-1 Alemania (gana Alemania en penaltis)
+  const semiFinal1 = buildMatch(
+    'sf-1',
+    101,
+    MatchPhase.SEMI_FINAL,
+    FRANCE,
+    ITALY,
+    [97, 98],
+  );
+  const semiFinal2 = buildMatch(
+    'sf-2',
+    102,
+    MatchPhase.SEMI_FINAL,
+    SPAIN,
+    GERMANY,
+    [99, 100],
+  );
+  const thirdPlace = buildMatch(
+    'third-place',
+    103,
+    MatchPhase.THIRD_PLACE,
+    null,
+    null,
+    [101, 102],
+  );
+  const final = buildMatch(
+    'final',
+    104,
+    MatchPhase.FINAL,
+    null,
+    null,
+    [101, 102],
+  );
+
+  const matches = [semiFinal1, semiFinal2, thirdPlace, final];
+  const predictions = [
+    buildPrediction('sf-1', 2, 1),
+    buildPrediction('sf-2', 1, 1, 1, 1, 'away'),
+  ];
+
+  const matchRepository = {
+    findById: jest.fn((id: string) =>
+      Promise.resolve(matches.find((match) => match.id === id) ?? null),
+    ),
+    findByMatchNumber: jest.fn((matchNumber: number) =>
+      Promise.resolve(
+        matches.find((match) => match.matchNumber === matchNumber) ?? null,
+      ),
+    ),
+  } as unknown as IMatchRepository;
+
+  const matchPredictionRepository = {
+    findByPredictionAndMatch: jest.fn((predictionId: string, matchId: string) =>
+      Promise.resolve(
+        predictions.find(
+          (prediction) =>
+            prediction.predictionId === predictionId &&
+            prediction.matchId === matchId,
+        ) ?? null,
+      ),
+    ),
+  } as unknown as IMatchPredictionRepository;
+
+  const service = new KnockoutValidatorService(
+    matchPredictionRepository,
+    matchRepository,
+  );
+
+  describe('validateMatchTeams', () => {
+    it('accepts the semi-final losers in the third-place match', async () => {
+      await expect(
+        service.validateMatchTeams(
+          PREDICTION_ID,
+          new KnockoutPhase('THIRD_PLACE'),
+          thirdPlace.id,
+          ITALY,
+          SPAIN,
+        ),
+      ).resolves.toBeUndefined();
+    });
+
+    it('rejects a semi-final winner in the third-place match', async () => {
+      await expect(
+        service.validateMatchTeams(
+          PREDICTION_ID,
+          new KnockoutPhase('THIRD_PLACE'),
+          thirdPlace.id,
+          FRANCE,
+          SPAIN,
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('accepts the semi-final winners in the final', async () => {
+      await expect(
+        service.validateMatchTeams(
+          PREDICTION_ID,
+          new KnockoutPhase('FINAL'),
+          final.id,
+          FRANCE,
+          GERMANY,
+        ),
+      ).resolves.toBeUndefined();
+    });
+
+    it('rejects a match from another phase', async () => {
+      await expect(
+        service.validateMatchTeams(
+          PREDICTION_ID,
+          new KnockoutPhase('THIRD_PLACE'),
+          final.id,
+          ITALY,
+          SPAIN,
+        ),
+      ).rejects.toThrow('does not belong to phase THIRD_PLACE');
+    });
+  });
+});
@@ -2,6 +2,8 @@ import { Injectable, Inject, BadRequestException } from '@nestjs/common';
 import type { IKnockoutValidatorService } from '@domain/services/knockout-validator.service.interface';
 import type { IMatchPredictionRepository } from '@domain/repositories/match-prediction.repository.interface';
 import type { IMatchRepository } from '@domain/repositories/match.repository.interface';
+import type { MatchPrediction } from '@domain/entities/match-prediction.entity';
+import type { Match } from '@domain/entities/match.entity';
 import { KnockoutPhase } from '@domain/value-objects/knockout-phase.vo';
 
 /**
@@ -38,7 +40,7 @@ export class KnockoutValidatorService implements IKnockoutValidatorService {
 
     // Obtener partidos de la fase anterior
     const previousPhaseMatches = await this.matchRepository.findByPhase(
-      previousPhase.value,
+      previousPhase.toMatchPhase(),
     );
 
     if (previousPhaseMatches.length === 0) {
@@ -51,7 +53,7 @@ export class KnockoutValidatorService implements IKnockoutValidatorService {
     const previousPhasePredictions =
       await this.matchPredictionRepository.findByPredictionAndPhase(
         predictionId,
-        previousPhase.value,
+        previousPhase.toMatchPhase(),
       );
 
     // Validar que todas las predicciones de la fase anterior existan
@@ -80,6 +82,7 @@ export class KnockoutValidatorService implements IKnockoutValidatorService {
 
   /**
    * Valida que los equipos de un partido coincidan con los ganadores esperados
+   * (o con los perdedores de semifinales en el partido por el tercer puesto)
    */
   async validateMatchTeams(
     predictionId: string,
@@ -101,7 +104,7 @@ export class KnockoutValidatorService implements IKnockoutValidatorService {
     }
 
     // Validar que el partido pertenezca a la fase correcta
-    if (match.phase !== phase.value) {
+    if (match.phase !== phase.toMatchPhase()) {
       throw new BadRequestException(
         `Match ${matchId} does not belong to phase ${phase.value}`,
       );
@@ -115,64 +118,65 @@ export class KnockoutValidatorService implements IKnockoutValidatorService {
       );
     }
 
-    // Obtener las predicciones y los partidos previos
-    const [
-      homeFeedingPrediction,
-      awayFeedingPrediction,
-      homeFeedingMatch,
-      awayFeedingMatch,
-    ] = await Promise.all([
+    // Obtener los partidos previos (depends_on_match_ids son números de partido)
+    const [homeFeedingMatch, awayFeedingMatch] = await Promise.all([
+      this.matchRepository.findByMatchNumber(dependsOnMatchIds[0]),
+      this.matchRepository.findByMatchNumber(dependsOnMatchIds[1]),
+    ]);
+
+    if (!homeFeedingMatch || !awayFeedingMatch) {
+      throw new BadRequestException(
+        `Cannot find predictions or matches for feeding matches of ${matchId}`,
+      );
+    }
+
+    // Obtener las predicciones de los partidos previos
+    const [homeFeedingPrediction, awayFeedingPrediction] = await Promise.all([
       this.matchPredictionRepository.findByPredictionAndMatch(
         predictionId,
-        dependsOnMatchIds[0].toString(),
+        homeFeedingMatch.id,
       ),
       this.matchPredictionRepository.findByPredictionAndMatch(
         predictionId,
-        dependsOnMatchIds[1].toString(),
+        awayFeedingMatch.id,
       ),
-      this.matchRepository.findByMatchNumber(dependsOnMatchIds[0]),
-      this.matchRepository.findByMatchNumber(dependsOnMatchIds[1]),
     ]);
 
-    if (
-      !homeFeedingPrediction ||
-      !awayFeedingPrediction ||
-      !homeFeedingMatch ||
-      !awayFeedingMatch
-    ) {
+    if (!homeFeedingPrediction || !awayFeedingPrediction) {
       throw new BadRequestException(
         `Cannot find predictions or matches for feeding matches of ${matchId}`,
       );
     }
 
-    // Obtener los ganadores de los partidos previos
-    const homeWinnerId = this.determineWinner(
-      homeFeedingPrediction,
-      homeFeedingMatch,
-    );
-    const awayWinnerId = this.determineWinner(
-      awayFeedingPrediction,
-      awayFeedingMatch,
-    );
-
-    if (!homeWinnerId || !awayWinnerId) {
+    // Obtener los equipos esperados de los partidos previos:
+    // ganadores, o perdedores de semifinales en el partido por el tercer puesto
+    const takeLoser = phase.isThirdPlace();
+    const expectedRole = takeLoser ? 'loser' : 'winner';
+    const homeExpectedId = takeLoser
+      ? this.determineLoser(homeFeedingPrediction, homeFeedingMatch)
+      : this.determineWinner(homeFeedingPrediction, homeFeedingMatch);
+    const awayExpectedId = takeLoser
+      ? this.determineLoser(awayFeedingPrediction, awayFeedingMatch)
+      : this.determineWinner(awayFeedingPrediction, awayFeedingMatch);
+
+    if (!homeExpectedId || !awayExpectedId) {
       throw new BadRequestException(
-        `Cannot determine winners from feeding matches`,
+        `Cannot determine ${expectedRole}s from feeding matches`,
       );
     }
 
     // Validar que los equipos coincidan
-    if (homeTeamId !== homeWinnerId) {
+    if (homeTeamId !== homeExpectedId) {
       throw new BadRequestException(
-        `Invalid home team. Expected winner of match ${dependsOnMatchIds[0]}, ` +
-          `but got ${homeTeamId} instead of ${homeWinnerId}`,
+        `Invalid home team. Expected ${expectedRole} of match ${dependsOnMatchIds[0]}, ` +
+          `but got ${homeTeamId} instead of ${homeExpectedId}`,
       );
     }
 
-    if (awayTeamId !== awayWinnerId) {
+    if (awayTeamId !== awayExpectedId) {
       throw new BadRequestException(
-        `Invalid away team. Expected winner of match ${dependsOnMatchIds[1]}, ` +
-          `but got ${awayTeamId} instead of ${awayWinnerId}`,
+        `Invalid away team. Expected ${expectedRole} of match ${dependsOnMatchIds[1]}, ` +
+          `but got ${awayTeamId} instead of ${awayExpectedId}`,
       );
     }
   }
@@ -271,9 +275,9 @@ export class KnockoutValidatorService implements IKnockoutValidatorService {
       [
         this.matchPredictionRepository.findByPredictionAndPhase(
           predictionId,
-          previousPhase.value,
+          previousPhase.toMatchPhase(),
         ),
-        this.matchRepository.findByPhase(previousPhase.value),
+        this.matchRepository.findByPhase(previousPhase.toMatchPhase()),
       ],
     );
 
@@ -295,6 +299,22 @@ export class KnockoutValidatorService implements IKnockoutValidatorService {
     return winnersMap;
   }
 
+  /**
+   * Determina el perdedor de una predicción de partido
+   * (el equipo contrario al ganador; null si no hay ganador)
+   */
+  private determineLoser(
+    prediction: MatchPrediction,
+    match: Match,
+  ): string | null {
+    const winnerId = this.determineWinner(prediction, match);
+    if (!winnerId) {
+      return null;
+    }
+
+    return winnerId === match.homeTeamId ? match.awayTeamId : match.homeTeamId;
+  }
+
   /**
    * Determina el ganador de una predicción de partido
    * @param prediction - La predicción con los scores
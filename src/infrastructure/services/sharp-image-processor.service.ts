@@ -0,0 +1,57 @@
+import { Injectable } from '@nestjs/common';
+import sharp from 'sharp';
+import type {
+  IImageProcessorService,
+  ProcessedImage,
+} from '@domain/services/image-processor.service.interface';
+
+/**
+ * Máximo de píxeles de entrada (4096 × 4096 ≈ 16,7 MP)
+ * Un logo no necesita más y limita la memoria al descomprimir
+ */
+const MAX_INPUT_PIXELS = 4096 * 4096;
+
+/**
+ * SharpImageProcessorService (Infrastructure Layer)
+ *
+ * Implementación de IImageProcessorService con sharp (libvips).
+ *
+ * Notas:
+ * - Se pasa limitInputPixels explícito (MAX_INPUT_PIXELS): el límite por
+ *   defecto de sharp (~268 MP) permite que un fichero pequeño pero enorme al
+ *   descomprimir ocupe más de 1 GB de memoria. Con las imágenes que lo
+ *   superan detectMimeType devuelve null y resizeToSquare lanza
+ * - De las imágenes animadas solo se usa el primer fotograma
+ */
+@Injectable()
+export class SharpImageProcessorService implements IImageProcessorService {
+  private readonly webpQuality = 85;
+
+  /**
+   * Detecta el formato leyendo la cabecera de la imagen
+   */
+  async detectMimeType(data: Buffer): Promise<string | null> {
+    try {
+      const { format } = await sharp(data, {
+        limitInputPixels: MAX_INPUT_PIXELS,
+      }).metadata();
+      return format ? `image/${format}` : null;
+    } catch {
+      // sharp lanza si el contenido no es una imagen reconocible
+      return null;
+    }
+  }
+
+  /**
+   * Recorta al centro, redimensiona y convierte a WebP
+   */
+  async resizeToSquare(data: Buffer, size: number): Promise<ProcessedImage> {
+    const output = await sharp(data, { limitInputPixels: MAX_INPUT_PIXELS })
+      .rotate() // Aplicar orientación EXIF (fotos de móvil)
+      .resize(size, size, { fit: 'cover' })
+      .webp({ quality: this.webpQuality })
+      .toBuffer();
+
+    return { data: output, contentType: 'image/webp' };
+  }
+}
@@ -0,0 +1,120 @@
+import { Injectable } from '@nestjs/common';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type {
+  IFileStorageRepository,
+  StoredFile,
+} from '@domain/repositories/file-storage.repository.interface';
+
+/**
+ * Extensiones conocidas → MIME type con el que se sirven
+ */
+const CONTENT_TYPES_BY_EXTENSION: Readonly<Record<string, string>> = {
+  '.webp': 'image/webp',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+};
+
+/**
+ * LocalFileStorageService (Infrastructure Layer)
+ *
+ * Implementación de IFileStorageRepository sobre el disco local.
+ *
+ * Configuración:
+ * - STORAGE_LOCAL_DIR: directorio raíz (por defecto ./storage)
+ * - API_URL: URL pública del backend para construir las URLs de descarga
+ *   (por defecto http://localhost:PORT)
+ *
+ * Notas:
+ * - Los ficheros se sirven desde GET /files/<key> (FileController)
+ * - El MIME type se deduce de la extensión de la clave al leer
+ * - Cualquier clave que se salga del directorio raíz (ej: "../") se rechaza
+ * - En Docker el directorio debe ser un volumen para no perder los ficheros
+ *   al recrear el contenedor
+ */
+@Injectable()
+export class LocalFileStorageService implements IFileStorageRepository {
+  private readonly rootDir = path.resolve(
+    process.env.STORAGE_LOCAL_DIR || 'storage',
+  );
+  private readonly apiUrl = (
+    process.env.API_URL || `http://localhost:${process.env.PORT ?? 3001}`
+  ).replace(/\/+$/, '');
+
+  /**
+   * Guarda el fichero creando los directorios intermedios
+   */
+  async save(key: string, data: Buffer, contentType: string): Promise<void> {
+    const filePath = this.resolvePath(key);
+
+    if (!filePath) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+
+    try {
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, data);
+    } catch (error) {
+      console.error(`Error saving file ${key} (${contentType}):`, error);
+      throw new Error('Failed to save file to storage');
+    }
+  }
+
+  /**
+   * Lee el fichero del disco
+   */
+  async get(key: string): Promise<StoredFile | null> {
+    const filePath = this.resolvePath(key);
+
+    if (!filePath) {
+      return null;
+    }
+
+    try {
+      const data = await fs.readFile(filePath);
+      const contentType =
+        CONTENT_TYPES_BY_EXTENSION[path.extname(filePath).toLowerCase()] ??
+        'application/octet-stream';
+
+      return { data, contentType };
+    } catch (error: any) {
+      if (error.code === 'ENOENT' || error.code === 'EISDIR') {
+        return null;
+      }
+
+      console.error(`Error reading file ${key}:`, error);
+      throw new Error('Failed to read file from storage');
+    }
+  }
+
+  /**
+   * URL servida por FileController
+   */
+  getPublicUrl(key: string): string {
+    const encodedKey = key
+      .split('/')
+      .map((segment) => encodeURIComponent(segment))
+      .join('/');
+
+    return `${this.apiUrl}/files/${encodedKey}`;
+  }
+
+  /**
+   * Convierte la clave en ruta absoluta dentro del directorio raíz
+   * @returns null si la clave está vacía o apunta fuera del directorio raíz
+   */
+  private resolvePath(key: string): string | null {
+    if (!key || key.includes('\0')) {
+      return null;
+    }
+
+    const filePath = path.resolve(this.rootDir, key);
+
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      return null;
+    }
+
+    return filePath;
+  }
+}
@@ -1,6 +1,10 @@
 import { Module } from '@nestjs/common';
 import { DatabaseModule } from '@infrastructure/persistence/database.module';
 import { UserModule } from '@modules/user/user.module';
+import { MatchModule } from '@modules/match/match.module';
+import { AuthModule } from '@modules/auth/auth.module';
+import { EmailModule } from '@modules/email/email.module';
+import { StorageModule } from '@modules/storage/storage.module';
 import { LeagueController } from '@adapters/controllers/league.controller';
 
 // Use Cases
@@ -17,9 +21,28 @@ import { LeaveLeagueUseCase } from '@application/use-cases/leagues/leave-league.
 import { RemoveMemberUseCase } from '@application/use-cases/leagues/remove-member.use-case';
 import { TransferAdminUseCase } from '@application/use-cases/leagues/transfer-admin.use-case';
 import { GetLeagueMembersUseCase } from '@application/use-cases/leagues/get-league-members.use-case';
+import { UpdateMemberRoleUseCase } from '@application/use-cases/leagues/update-member-role.use-case';
+import { InviteToLeagueUseCase } from '@application/use-cases/leagues/invite-to-league.use-case';
+import { GetLeagueInvitationsUseCase } from '@application/use-cases/leagues/get-league-invitations.use-case';
+import { ResendLeagueInvitationUseCase } from '@application/use-cases/leagues/resend-league-invitation.use-case';
+import { RevokeLeagueInvitationUseCase } from '@application/use-cases/leagues/revoke-league-invitation.use-case';
+import { AcceptLeagueInvitationUseCase } from '@application/use-cases/leagues/accept-league-invitation.use-case';
+import { GetLeagueJoinRequestsUseCase } from '@application/use-cases/leagues/get-league-join-requests.use-case';
+import { ApproveLeagueJoinRequestUseCase } from '@application/use-cases/leagues/approve-league-join-request.use-case';
+import { RejectLeagueJoinRequestUseCase } from '@application/use-cases/leagues/reject-league-join-request.use-case';
+import { BanMemberUseCase } from '@application/use-cases/leagues/ban-member.use-case';
+import { GetLeagueBansUseCase } from '@application/use-cases/leagues/get-league-bans.use-case';
+import { LiftLeagueBanUseCase } from '@application/use-cases/leagues/lift-league-ban.use-case';
+import { UploadLeagueLogoUseCase } from '@application/use-cases/leagues/upload-league-logo.use-case';
 
 // Repository
 import { LeagueRepository } from '@infrastructure/persistence/repositories/league.repository';
+import { LeagueInvitationRepository } from '@infrastructure/persistence/repositories/league-invitation.repository';
+import { LeagueJoinRequestRepository } from '@infrastructure/persistence/repositories/league-join-request.repository';
+import { LeagueBanRepository } from '@infrastructure/persistence/repositories/league-ban.repository';
+
+// Services
+import { SharpImageProcessorService } from '@infrastructure/services/sharp-image-processor.service';
 
 /**
  * LeagueModule
@@ -38,6 +61,19 @@ import { LeagueRepository } from '@infrastructure/persistence/repositories/leagu
  *    - Exporta 'IUserRepository' (necesario para validar usuarios en use cases)
  *    - CreateLeagueUseCase y JoinLeagueUseCase lo usan para validar payment/email
  *
+ * 2b. MatchModule (importado):
+ *    - Exporta 'IMatchRepository'
+ *    - UpdateLeagueUseCase lo usa para bloquear el perfil de puntuación tras el primer partido
+ *
+ * 2c. AuthModule y EmailModule (importados):
+ *    - Exportan 'IJwtRepository' e 'IEmailRepository'
+ *    - Las invitaciones por email firman un token de un solo uso y lo envían por correo
+ *    - Las solicitudes de unión (política APPROVAL) avisan al usuario de la decisión del admin
+ *
+ * 2d. StorageModule (importado):
+ *    - Exporta 'IFileStorageRepository'
+ *    - UploadLeagueLogoUseCase guarda ahí las variantes del logo
+ *
  * 3. LeagueRepository (provider):
  *    - Token: 'ILeagueRepository' (string único)
  *    - Clase: LeagueRepository (implementación con pg + SQL nativo)
@@ -60,6 +96,10 @@ import { LeagueRepository } from '@infrastructure/persistence/repositories/leagu
   imports: [
     DatabaseModule, // Importar para tener acceso a DATABASE_POOL
     UserModule, // Importar para tener acceso a IUserRepository
+    MatchModule, // Importar para tener acceso a IMatchRepository
+    AuthModule, // Importar para tener acceso a IJwtRepository (tokens de invitación)
+    EmailModule, // Importar para tener acceso a IEmailRepository (invitaciones y solicitudes)
+    StorageModule, // Importar para tener acceso a IFileStorageRepository (logos)
   ],
   controllers: [
     LeagueController, // Controlador REST que maneja los endpoints HTTP
@@ -78,13 +118,42 @@ import { LeagueRepository } from '@infrastructure/persistence/repositories/leagu
     LeaveLeagueUseCase,
     RemoveMemberUseCase,
     TransferAdminUseCase,
+    UpdateMemberRoleUseCase, // Roles por miembro (OWNER, CO_ADMIN, MEMBER)
     GetLeagueMembersUseCase,
+    InviteToLeagueUseCase, // Invitaciones por email (ligas privadas)
+    GetLeagueInvitationsUseCase,
+    ResendLeagueInvitationUseCase,
+    RevokeLeagueInvitationUseCase,
+    AcceptLeagueInvitationUseCase, // Unirse con el token del email (un solo uso)
+    GetLeagueJoinRequestsUseCase, // Solicitudes de unión (política APPROVAL)
+    ApproveLeagueJoinRequestUseCase,
+    RejectLeagueJoinRequestUseCase,
+    BanMemberUseCase, // Expulsar y banear (impide volver a unirse)
+    GetLeagueBansUseCase,
+    LiftLeagueBanUseCase,
+    UploadLeagueLogoUseCase, // Logo subido (variantes WebP en el almacenamiento)
 
     // Repository: Se inyecta con token personalizado (Inversión de Dependencias)
     {
       provide: 'ILeagueRepository', // Token: Nombre de la interface
       useClass: LeagueRepository, // Implementación: Clase con SQL nativo (pg)
     },
+    {
+      provide: 'ILeagueInvitationRepository',
+      useClass: LeagueInvitationRepository, // Invitaciones por email (league_invitations)
+    },
+    {
+      provide: 'ILeagueJoinRequestRepository',
+      useClass: LeagueJoinRequestRepository, // Solicitudes de unión (league_join_requests)
+    },
+    {
+      provide: 'ILeagueBanRepository',
+      useClass: LeagueBanRepository, // Usuarios baneados por liga (league_bans)
+    },
+    {
+      provide: 'IImageProcessorService',
+      useClass: SharpImageProcessorService, // Redimensiona el logo (sharp)
+    },
   ],
   exports: [
     // Exportar Use Cases si otros módulos necesitan usarlos
@@ -1,10 +1,20 @@
 import { Module } from '@nestjs/common';
 import { DatabaseModule } from '@infrastructure/persistence/database.module';
+import { TeamModule } from '@modules/team/team.module';
 import { MatchController } from '@adapters/controllers/match.controller';
 import { GetAllMatchesUseCase } from '@application/use-cases/matches/get-all-matches.use-case';
 import { GetMatchByIdUseCase } from '@application/use-cases/matches/get-match-by-id.use-case';
 import { GetMatchCalendarUseCase } from '@application/use-cases/matches/get-match-calendar.use-case';
+import { UpdateMatchResultUseCase } from '@application/use-cases/matches/update-match-result.use-case';
+import { AdvanceKnockoutBracketUseCase } from '@application/use-cases/matches/advance-knockout-bracket.use-case';
+import { CalculateActualGroupStandingsUseCase } from '@application/use-cases/predictions/calculate-actual-group-standings.use-case';
+import { CalculateActualBestThirdPlacesUseCase } from '@application/use-cases/predictions/calculate-actual-best-third-places.use-case';
+import { CalculateBestThirdPlacesUseCase } from '@application/use-cases/predictions/calculate-best-third-places.use-case';
+import { CalculateGroupStandingsService } from '@application/services/calculate-group-standings.service';
+import { KnockoutBracketResolverService } from '@infrastructure/services/knockout-bracket-resolver.service';
 import { MatchRepository } from '@infrastructure/persistence/repositories/match.repository';
+import { GroupStandingActualRepository } from '@infrastructure/persistence/repositories/group-standing-actual.repository';
+import { BestThirdPlaceActualRepository } from '@infrastructure/persistence/repositories/best-third-place-actual.repository';
 
 /**
  * MatchModule
@@ -31,6 +41,11 @@ import { MatchRepository } from '@infrastructure/persistence/repositories/match.
  * 4. MatchController (controller):
  *    - Recibe ambos Use Cases vía constructor
  *
+ * 5. Resultados oficiales y cuadro real:
+ *    - UpdateMatchResultUseCase ejecuta AdvanceKnockoutBracketUseCase al finalizar un partido
+ *    - La tabla oficial de grupos, los mejores terceros oficiales y el resolver de
+ *      placeholders viven aquí y se exportan para que PredictionModule puntúe con ellos
+ *
  * FLUJO DE INYECCIÓN:
  * DatabaseModule.DATABASE_POOL → MatchRepository → [GetAllMatchesUseCase, GetMatchByIdUseCase] → MatchController
  *
@@ -43,21 +58,42 @@ import { MatchRepository } from '@infrastructure/persistence/repositories/match.
 @Module({
   imports: [
     DatabaseModule, // Importar para tener acceso a DATABASE_POOL
+    TeamModule, // Proporciona ITeamRepository (juego limpio y ranking FIFA para desempates)
   ],
   controllers: [
-    MatchController, // Controlador REST que maneja GET /matches y GET /matches/:id
+    MatchController, // Controlador REST que maneja GET /matches, GET /matches/:id y PATCH /matches/:id/result
   ],
   providers: [
     // Use Cases: Se inyectan directamente por su clase
     GetAllMatchesUseCase,
     GetMatchByIdUseCase,
     GetMatchCalendarUseCase,
+    UpdateMatchResultUseCase, // PATCH /matches/:id/result (solo administradores)
+    AdvanceKnockoutBracketUseCase, // Rellena los equipos reales de eliminatorias
+
+    // Resultados oficiales (tabla de grupos y mejores terceros)
+    CalculateActualGroupStandingsUseCase, // Tabla oficial de grupos desde partidos FINISHED
+    CalculateActualBestThirdPlacesUseCase, // Ranking oficial de mejores terceros
+    CalculateBestThirdPlacesUseCase, // Ordenación FIFA de terceros (pura)
+    CalculateGroupStandingsService, // Cálculo de tablas (mismas reglas que predicciones)
 
     // Repository: Se inyecta con token personalizado (Inversión de Dependencias)
     {
       provide: 'IMatchRepository', // Token: Nombre de la interface
       useClass: MatchRepository, // Implementación: Clase con SQL nativo (pg)
     },
+    {
+      provide: 'IGroupStandingActualRepository',
+      useClass: GroupStandingActualRepository,
+    },
+    {
+      provide: 'IBestThirdPlaceActualRepository',
+      useClass: BestThirdPlaceActualRepository,
+    },
+    {
+      provide: 'IKnockoutBracketResolverService',
+      useClass: KnockoutBracketResolverService, // Resuelve placeholders de Round of 32
+    },
 
     /**
      * ¿Por qué usamos token 'IMatchRepository'?
@@ -77,6 +113,14 @@ import { MatchRepository } from '@infrastructure/persistence/repositories/match.
     // Exportar el repositorio para que otros módulos puedan usarlo
     // IMPORTANTE: Exportado para que PredictionModule pueda usarlo en SaveGroupPredictionsUseCase
     'IMatchRepository',
+    // Resultados oficiales: PredictionModule los usa para puntuar y resolver cuadros
+    'IGroupStandingActualRepository',
+    'IBestThirdPlaceActualRepository',
+    'IKnockoutBracketResolverService',
+    CalculateActualGroupStandingsUseCase,
+    CalculateActualBestThirdPlacesUseCase,
+    CalculateBestThirdPlacesUseCase,
+    CalculateGroupStandingsService,
     // Si otros módulos necesitan usar los Use Cases, exportarlos aquí
     // GetAllMatchesUseCase,
     // GetMatchByIdUseCase,
@@ -3,8 +3,11 @@ import { DatabaseModule } from '@infrastructure/persistence/database.module';
 import { MatchModule } from '@modules/match/match.module';
 import { TeamModule } from '@modules/team/team.module';
 import { StadiumModule } from '@modules/stadium/stadium.module';
+import { LeagueModule } from '@modules/league/league.module';
+import { UserModule } from '@modules/user/user.module';
 import { PredictionController } from '@adapters/controllers/prediction.controller';
 import { PlayerController } from '@adapters/controllers/player.controller';
+import { TournamentController } from '@adapters/controllers/tournament.controller';
 
 // Player Use Cases
 import { GetPlayersByTeamUseCase } from '@application/use-cases/players/get-players-by-team.use-case';
@@ -16,7 +19,6 @@ import { GetOrCreatePredictionUseCase } from '@application/use-cases/predictions
 import { SaveGroupPredictionsUseCase } from '@application/use-cases/predictions/save-group-predictions.use-case';
 import { SaveKnockoutPredictionsUseCase } from '@application/use-cases/predictions/save-knockout-predictions.use-case';
 import { CalculateGroupStandingsUseCase } from '@application/use-cases/predictions/calculate-group-standings.use-case';
-import { CalculateBestThirdPlacesUseCase } from '@application/use-cases/predictions/calculate-best-third-places.use-case';
 import { GetBestThirdPlacesByPredictionUseCase } from '@application/use-cases/predictions/get-best-third-places.use-case';
 import { GetResolvedRoundOf32MatchesUseCase } from '@application/use-cases/predictions/get-resolved-round-of-32-matches.use-case';
 import { UpdateAwardsUseCase } from '@application/use-cases/predictions/update-awards.use-case';
@@ -24,11 +26,33 @@ import { UpdateChampionUseCase } from '@application/use-cases/predictions/update
 import { GetLeagueRankingUseCase } from '@application/use-cases/predictions/get-league-ranking.use-case';
 import { GetPredictionStatsUseCase } from '@application/use-cases/predictions/get-prediction-stats.use-case';
 import { GetMatchesWithPredictionsUseCase } from '@application/use-cases/predictions/get-matches-with-predictions.use-case';
+import { CalculatePointsUseCase } from '@application/use-cases/predictions/calculate-points.use-case';
+import { LockPredictionsUseCase } from '@application/use-cases/predictions/lock-predictions.use-case';
+import { GetPredictedBracketUseCase } from '@application/use-cases/predictions/get-predicted-bracket.use-case';
+import { GetLeagueProjectionsUseCase } from '@application/use-cases/predictions/get-league-projections.use-case';
+import { CompareMemberPredictionsUseCase } from '@application/use-cases/predictions/compare-member-predictions.use-case';
+import { GetLeagueConsensusUseCase } from '@application/use-cases/predictions/get-league-consensus.use-case';
+import { GetMemberPredictionUseCase } from '@application/use-cases/predictions/get-member-prediction.use-case';
+import { CopyPredictionToLeagueUseCase } from '@application/use-cases/predictions/copy-prediction-to-league.use-case';
+import { ExportPredictionUseCase } from '@application/use-cases/predictions/export-prediction.use-case';
+import { ExportPredictionCsvUseCase } from '@application/use-cases/predictions/export-prediction-csv.use-case';
+import { ImportPredictionUseCase } from '@application/use-cases/predictions/import-prediction.use-case';
+import { ImportPredictionCsvUseCase } from '@application/use-cases/predictions/import-prediction-csv.use-case';
+import { GetPredictionHistoryUseCase } from '@application/use-cases/predictions/get-prediction-history.use-case';
+import { AutofillPredictionUseCase } from '@application/use-cases/predictions/autofill-prediction.use-case';
+
+// Tournament Use Cases
+import { GetTournamentResultUseCase } from '@application/use-cases/tournament/get-tournament-result.use-case';
+import { UpdateTournamentResultUseCase } from '@application/use-cases/tournament/update-tournament-result.use-case';
 
 // Services
-import { CalculateGroupStandingsService } from '@application/services/calculate-group-standings.service';
-import { KnockoutBracketResolverService } from '@infrastructure/services/knockout-bracket-resolver.service';
+import { PredictionScoringService } from '@application/services/prediction-scoring.service';
+import { PredictionVisibilityService } from '@application/services/prediction-visibility.service';
+import { PredictionDocumentService } from '@application/services/prediction-document.service';
+import { PredictionHistoryService } from '@application/services/prediction-history.service';
+import { AutofillScoreService } from '@application/services/autofill-score.service';
 import { KnockoutValidatorService } from '@infrastructure/services/knockout-validator.service';
+import { PredictionLockScheduler } from '@infrastructure/scheduling/prediction-lock.scheduler';
 
 // Repositories
 import { PlayerRepository } from '@infrastructure/persistence/repositories/player.repository';
@@ -36,6 +60,8 @@ import { PredictionRepository } from '@infrastructure/persistence/repositories/p
 import { MatchPredictionRepository } from '@infrastructure/persistence/repositories/match-prediction.repository';
 import { GroupStandingPredictionRepository } from '@infrastructure/persistence/repositories/group-standing-prediction.repository';
 import { BestThirdPlacePredictionRepository } from '@infrastructure/persistence/repositories/best-third-place-prediction.repository';
+import { TournamentResultRepository } from '@infrastructure/persistence/repositories/tournament-result.repository';
+import { PredictionHistoryRepository } from '@infrastructure/persistence/repositories/prediction-history.repository';
 
 /**
  * PredictionModule
@@ -59,6 +85,7 @@ import { BestThirdPlacePredictionRepository } from '@infrastructure/persistence/
  * - match_predictions (hasta 104 por predicción)
  * - group_standings_predictions (48 registros: 12 grupos × 4 equipos)
  * - best_third_places_predictions (8 mejores terceros)
+ * - prediction_history (historial append-only de cambios)
  *
  * REGLAS FIFA IMPLEMENTADAS:
  * 1. Clasificación de grupos: puntos → diferencia de goles → goles a favor
@@ -75,6 +102,8 @@ import { BestThirdPlacePredictionRepository } from '@infrastructure/persistence/
  * 2. MatchModule (importado):
  *    - Proporciona 'IMatchRepository' (consulta de partidos)
  *    - SaveGroupPredictionsUseCase lo necesita para calcular clasificaciones
+ *    - También exporta los resultados oficiales (tabla de grupos, mejores terceros),
+ *      el resolver de cuadros y los cálculos puros de tablas/terceros
  *
  * 3. Repositories (5 providers con tokens):
  *    - IPlayerRepository → PlayerRepository
@@ -123,13 +152,16 @@ import { BestThirdPlacePredictionRepository } from '@infrastructure/persistence/
 @Module({
   imports: [
     DatabaseModule, // Proporciona DATABASE_POOL para todos los repositorios
-    MatchModule, // Proporciona IMatchRepository para SaveGroupPredictionsUseCase
+    MatchModule, // Proporciona IMatchRepository, resultados oficiales y el resolver de cuadros
     TeamModule, // Proporciona ITeamRepository para GetResolvedRoundOf32MatchesUseCase
     StadiumModule, // Proporciona IStadiumRepository para GetResolvedRoundOf32MatchesUseCase
+    LeagueModule, // Proporciona ILeagueRepository (reglas de puntuación por liga)
+    UserModule, // Proporciona IUserRepository (validar pago al copiar predicciones)
   ],
   controllers: [
     PlayerController, // GET /players/team/:teamId, GET /players/goalkeepers
     PredictionController, // CRUD completo de predicciones + rankings
+    TournamentController, // GET/PATCH /tournament/result (campeón y premios oficiales)
   ],
   providers: [
     // ========================
@@ -152,26 +184,36 @@ import { BestThirdPlacePredictionRepository } from '@infrastructure/persistence/
     GetLeagueRankingUseCase, // Obtiene ranking de liga (JOIN users)
     GetPredictionStatsUseCase, // Obtiene estadísticas de progreso
     GetMatchesWithPredictionsUseCase, // Obtiene matches de grupos con predicciones
+    CalculatePointsUseCase, // Puntúa predicciones contra resultados oficiales (admin)
+    LockPredictionsUseCase, // Bloquea predicciones al llegar el deadline global
+    GetPredictedBracketUseCase, // Cuadro de eliminatorias predicho completo (R32 → FINAL)
+    GetLeagueProjectionsUseCase, // Máximo de puntos alcanzable por miembro de una liga
+    CompareMemberPredictionsUseCase, // Comparación cara a cara de dos miembros (tras el bloqueo)
+    GetLeagueConsensusUseCase, // Estadísticas agregadas de la liga (tras el bloqueo)
+    GetMemberPredictionUseCase, // Predicción de otro miembro (según visibilidad de cada partido)
+    CopyPredictionToLeagueUseCase, // Copia una predicción en otra liga del usuario (transaccional)
+    ExportPredictionUseCase, // Exporta la predicción completa como JSON versionado
+    ExportPredictionCsvUseCase, // Exporta los partidos predichos en CSV
+    ImportPredictionUseCase, // Importa un documento JSON con las validaciones de guardado
+    ImportPredictionCsvUseCase, // Importa partidos desde CSV (delegando en ImportPredictionUseCase)
+    GetPredictionHistoryUseCase, // Historial de cambios (dueño, o admin tras el bloqueo)
+    AutofillPredictionUseCase, // Quick pick: rellena partidos sin predicción (grupos + cuadro)
 
     // ========================
-    // SERVICES - Helper Services
+    // TOURNAMENT USE CASES (2)
     // ========================
-    CalculateGroupStandingsService, // Servicio de validación y cálculo de tablas
+    GetTournamentResultUseCase, // Campeón y premios oficiales
+    UpdateTournamentResultUseCase, // Registra ganadores oficiales (admin)
 
-    /**
-     * KnockoutBracketResolverService
-     * Token: 'IKnockoutBracketResolverService'
-     * Implementa: IKnockoutBracketResolverService (Domain Service)
-     * Responsabilidades:
-     * - Resolver placeholders de partidos de eliminatorias (ej: "Group A winners")
-     * - Asignar terceros lugares según ranking y disponibilidad
-     * - Garantizar que cada tercero se asigne solo una vez
-     * - Consultar grupos desde BD para mapeo groupId → groupLetter
-     */
-    {
-      provide: 'IKnockoutBracketResolverService',
-      useClass: KnockoutBracketResolverService,
-    },
+    // ========================
+    // SERVICES - Helper Services
+    // ========================
+    PredictionScoringService, // Servicio de puntuación contra resultados oficiales
+    PredictionVisibilityService, // Qué picks ajenos se pueden mostrar (miembro, comparación, consenso)
+    PredictionDocumentService, // Formato de exportación/importación (JSON y CSV)
+    PredictionHistoryService, // Diferencias entre estados para el historial de cambios
+    AutofillScoreService, // Marcadores generados para el relleno automático
+    PredictionLockScheduler, // Job en proceso que bloquea predicciones en el deadline
 
     /**
      * KnockoutValidatorService
@@ -189,10 +231,9 @@ import { BestThirdPlacePredictionRepository } from '@infrastructure/persistence/
     },
 
     // ========================
-    // CALCULATION USE CASES (2) - Pure Business Logic
+    // CALCULATION USE CASES (1) - Pure Business Logic
     // ========================
     CalculateGroupStandingsUseCase, // Calcula tabla según reglas FIFA (puro)
-    CalculateBestThirdPlacesUseCase, // Calcula 8 mejores terceros (puro)
 
     // ========================
     // REPOSITORIES (5) - Infrastructure Layer
@@ -274,6 +315,31 @@ import { BestThirdPlacePredictionRepository } from '@infrastructure/persistence/
       useClass: BestThirdPlacePredictionRepository,
     },
 
+    /**
+     * TournamentResultRepository
+     * Token: 'ITournamentResultRepository'
+     * Implementa: ITournamentResultRepository
+     * Responsabilidades:
+     * - Campeón y premios individuales oficiales (tournament_results)
+     * - Upsert del registro único
+     */
+    {
+      provide: 'ITournamentResultRepository',
+      useClass: TournamentResultRepository,
+    },
+
+    /**
+     * PredictionHistoryRepository
+     * Token: 'IPredictionHistoryRepository'
+     * Implementa: IPredictionHistoryRepository
+     * Responsabilidades:
+     * - Historial append-only de cambios de predicciones (prediction_history)
+     */
+    {
+      provide: 'IPredictionHistoryRepository',
+      useClass: PredictionHistoryRepository,
+    },
+
     /**
      * NOTA SOBRE TOKENS:
      *
@@ -0,0 +1,32 @@
+import { Module } from '@nestjs/common';
+import { LocalFileStorageService } from '@infrastructure/storage/local-file-storage.service';
+import { FileController } from '@adapters/controllers/file.controller';
+
+/**
+ * StorageModule
+ *
+ * Módulo NestJS que encapsula el almacenamiento de ficheros subidos.
+ *
+ * Responsabilidades:
+ * - Proporcionar implementación de IFileStorageRepository (disco local)
+ * - Servir los ficheros locales en GET /files/*key (FileController)
+ * - Exportar el repositorio para otros módulos (ej: LeagueModule para logos)
+ *
+ * Configuración:
+ * - STORAGE_LOCAL_DIR: directorio donde se guardan los ficheros
+ * - API_URL: URL pública del backend (para las URLs de descarga)
+ *
+ * Para pasar a un almacenamiento compatible con S3 basta con cambiar useClass
+ * por otra implementación de IFileStorageRepository.
+ */
+@Module({
+  controllers: [FileController],
+  providers: [
+    {
+      provide: 'IFileStorageRepository',
+      useClass: LocalFileStorageService,
+    },
+  ],
+  exports: ['IFileStorageRepository'],
+})
+export class StorageModule {}